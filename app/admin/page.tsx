@@ -0,0 +1,838 @@
+'use client';
+
+/**
+ * Wallet Admin Page
+ * Add, remove, name, tier, tag and annotate the tracked Smart Money wallets,
+ * bulk import from CSV / JSON / address lists and export with the latest stats,
+ * seed from the Hyperliquid leaderboard, and manage watchlists
+ */
+
+import { memo, useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { Loader2, Search, X } from '@/components/icons';
+import { WalletLink } from '@/components/WalletLink';
+import { WALLET_TIER_STYLES } from '@/components/WalletTags';
+import { useWalletRegistry } from '@/hooks/useWalletRegistry';
+import { useWatchlistManager } from '@/hooks/useWatchlistManager';
+import { DEFAULT_WALLET_LABEL, REGISTRY_TOKEN_STORAGE_KEY, WALLET_TIERS } from '@/lib/constants';
+import { DEFAULT_LEADERBOARD_THRESHOLDS } from '@/lib/leaderboard';
+import { cn, formatDateTime, formatUSD, isValidAddress } from '@/lib/utils';
+import type {
+  LeaderboardCandidate,
+  LeaderboardResponse,
+  LeaderboardThresholds,
+  RegistryImportMode,
+  RegistryImportPreview,
+  RegistryWalletInput,
+  SmartWalletEntry,
+  SmartWalletTier,
+} from '@/types';
+
+// Addresses listed per preview section before collapsing to "+N more"
+const PREVIEW_LIST_LIMIT = 20;
+
+const INLINE_INPUT_CLASS =
+  'w-full px-2 py-1 rounded border border-transparent bg-transparent text-sm font-mono text-gray-200 hover:border-gunmetal-700 focus:border-electric-lime/50 focus:outline-none';
+
+/**
+ * Comma-separated input -> label / tag list
+ */
+function parseList(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+interface RegistryRowProps {
+  address: string;
+  entry: SmartWalletEntry;
+  disabled: boolean;
+  onUpdate: (wallet: RegistryWalletInput) => void;
+  onRemove: (address: string) => void;
+  // Set while a watchlist is being edited
+  inWatchlist?: boolean;
+  onToggleWatchlist?: (address: string, include: boolean) => void;
+}
+
+const RegistryRow = memo(function RegistryRow({
+  address,
+  entry,
+  disabled,
+  onUpdate,
+  onRemove,
+  inWatchlist,
+  onToggleWatchlist,
+}: RegistryRowProps) {
+  const [labels, setLabels] = useState(entry.labels.join(', '));
+  const [tags, setTags] = useState((entry.tags ?? []).join(', '));
+  const [notes, setNotes] = useState(entry.notes ?? '');
+
+  // Pick up server-side changes
+  useEffect(() => {
+    setLabels(entry.labels.join(', '));
+    setTags((entry.tags ?? []).join(', '));
+    setNotes(entry.notes ?? '');
+  }, [entry]);
+
+  const saveLabels = () => {
+    const next = parseList(labels);
+    if (next.join(',') !== entry.labels.join(',')) {
+      onUpdate({ address, labels: next });
+    }
+  };
+
+  const saveTags = () => {
+    const next = parseList(tags);
+    if (next.join(',') !== (entry.tags ?? []).join(',')) {
+      onUpdate({ address, tags: next });
+    }
+  };
+
+  const saveNotes = () => {
+    if (notes.trim() !== (entry.notes ?? '')) {
+      onUpdate({ address, notes });
+    }
+  };
+
+  const blurOnEnter = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') event.currentTarget.blur();
+  };
+
+  return (
+    <tr className="border-b border-gunmetal-700/50 hover:bg-white/[0.02] transition-colors">
+      {onToggleWatchlist && (
+        <td className="pl-4 py-2 w-8">
+          <input
+            type="checkbox"
+            checked={Boolean(inWatchlist)}
+            disabled={disabled}
+            onChange={event => onToggleWatchlist(address, event.target.checked)}
+            title={inWatchlist ? 'Remove from watchlist' : 'Add to watchlist'}
+            className="accent-neon-cyan"
+          />
+        </td>
+      )}
+      <td className="px-4 py-2">
+        <WalletLink
+          address={address}
+          chars={6}
+          className="text-sm text-electric-lime hover:text-electric-lime/80"
+        />
+      </td>
+      <td className="px-4 py-2">
+        <input
+          value={labels}
+          disabled={disabled}
+          onChange={event => setLabels(event.target.value)}
+          onBlur={saveLabels}
+          onKeyDown={blurOnEnter}
+          placeholder="No labels"
+          className={INLINE_INPUT_CLASS}
+        />
+      </td>
+      <td className="px-4 py-2">
+        <select
+          value={entry.tier}
+          disabled={disabled}
+          onChange={event => onUpdate({ address, tier: event.target.value as SmartWalletTier })}
+          className={cn(
+            'px-2 py-1 rounded border bg-base-900 text-xs font-mono uppercase',
+            WALLET_TIER_STYLES[entry.tier]
+          )}
+        >
+          {WALLET_TIERS.map(tier => (
+            <option key={tier} value={tier}>{tier}</option>
+          ))}
+        </select>
+      </td>
+      <td className="px-4 py-2">
+        <input
+          value={tags}
+          disabled={disabled}
+          onChange={event => setTags(event.target.value)}
+          onBlur={saveTags}
+          onKeyDown={blurOnEnter}
+          placeholder="No tags"
+          className={INLINE_INPUT_CLASS}
+        />
+      </td>
+      <td className="px-4 py-2">
+        <input
+          value={notes}
+          disabled={disabled}
+          onChange={event => setNotes(event.target.value)}
+          onBlur={saveNotes}
+          onKeyDown={blurOnEnter}
+          placeholder="—"
+          title={entry.notes}
+          className={cn(INLINE_INPUT_CLASS, 'text-gray-400')}
+        />
+      </td>
+      <td className="px-4 py-2 text-right">
+        <button
+          onClick={() => onRemove(address)}
+          disabled={disabled}
+          title="Remove wallet"
+          className="p-1.5 rounded text-gray-500 hover:text-short hover:bg-short/10 transition-colors disabled:opacity-40"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </td>
+    </tr>
+  );
+});
+
+/**
+ * Addresses in one preview section, truncated
+ */
+function PreviewList({ title, addresses, className }: { title: string; addresses: string[]; className: string }) {
+  if (addresses.length === 0) return null;
+  const hidden = addresses.length - PREVIEW_LIST_LIMIT;
+
+  return (
+    <div>
+      <div className={cn('mb-1 text-xs uppercase tracking-wider', className)}>
+        {title} ({addresses.length})
+      </div>
+      <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-gray-400">
+        {addresses.slice(0, PREVIEW_LIST_LIMIT).map(address => (
+          <span key={address}>{address}</span>
+        ))}
+        {hidden > 0 && <span className="text-gray-500">+{hidden} more</span>}
+      </div>
+    </div>
+  );
+}
+
+interface BulkImportPanelProps {
+  disabled: boolean;
+  onImport: (content: string, mode: RegistryImportMode, apply?: boolean) => Promise<RegistryImportPreview | null>;
+}
+
+function BulkImportPanel({ disabled, onImport }: BulkImportPanelProps) {
+  const [content, setContent] = useState('');
+  const [mode, setMode] = useState<RegistryImportMode>('merge');
+  const [preview, setPreview] = useState<RegistryImportPreview | null>(null);
+  const [applied, setApplied] = useState(false);
+
+  // Any edit invalidates the preview
+  useEffect(() => {
+    setPreview(null);
+    setApplied(false);
+  }, [content, mode]);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) setContent(await file.text());
+    event.target.value = '';
+  };
+
+  const handlePreview = async () => {
+    setPreview(await onImport(content, mode));
+  };
+
+  const handleApply = async () => {
+    if (!preview) return;
+    if (
+      preview.removes.length > 0 &&
+      !window.confirm(`Stop tracking ${preview.removes.length} wallets missing from the import?`)
+    ) {
+      return;
+    }
+    const result = await onImport(content, mode, true);
+    if (result) {
+      setPreview(result);
+      setApplied(true);
+    }
+  };
+
+  const changeCount = preview ? preview.adds.length + preview.updates.length + preview.removes.length : 0;
+
+  return (
+    <div className="space-y-3 p-4 rounded border border-gunmetal-700 bg-base-800/40 text-sm font-mono">
+      <textarea
+        value={content}
+        onChange={event => setContent(event.target.value)}
+        placeholder={'Paste CSV (address,labels,tier,tags,notes), JSON, or one address per line'}
+        rows={6}
+        className="w-full px-3 py-2 rounded border border-gunmetal-700 bg-base-900 text-xs text-gray-200 focus:border-electric-lime/50 focus:outline-none"
+      />
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="px-3 py-2 rounded border border-gunmetal-700 text-gray-300 hover:border-gray-500 cursor-pointer transition-colors">
+          Load File
+          <input type="file" accept=".csv,.json,.txt" onChange={handleFile} className="hidden" />
+        </label>
+        <select
+          value={mode}
+          onChange={event => setMode(event.target.value as RegistryImportMode)}
+          className="px-2 py-2 rounded border border-gunmetal-700 bg-base-900 text-gray-300 text-xs"
+        >
+          <option value="merge">Merge (add / update)</option>
+          <option value="replace">Replace (also remove missing)</option>
+        </select>
+        <button
+          onClick={handlePreview}
+          disabled={disabled || !content.trim()}
+          className="px-4 py-2 rounded border border-neon-cyan/30 text-neon-cyan font-semibold hover:bg-neon-cyan/10 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+        >
+          Preview
+        </button>
+        <button
+          onClick={handleApply}
+          disabled={disabled || !preview || applied || changeCount === 0}
+          className="px-4 py-2 rounded border border-electric-lime/30 text-electric-lime font-semibold hover:bg-electric-lime/10 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+        >
+          Apply {preview && changeCount > 0 ? `${changeCount} Changes` : ''}
+        </button>
+      </div>
+
+      {preview && (
+        <div className="space-y-3 pt-2 border-t border-gunmetal-700">
+          <div className="flex flex-wrap gap-4 text-xs">
+            {applied && <span className="text-electric-lime">✓ Applied</span>}
+            <span className="text-gray-500">{preview.format.toUpperCase()}</span>
+            <span className="text-long">+{preview.adds.length} new</span>
+            <span className="text-neon-cyan">~{preview.updates.length} updated</span>
+            <span className="text-short">−{preview.removes.length} removed</span>
+            <span className="text-gray-400">{preview.unchanged} unchanged</span>
+            {preview.duplicates > 0 && (
+              <span className="text-yellow-400">{preview.duplicates} duplicates (last kept)</span>
+            )}
+            {preview.invalid.length > 0 && (
+              <span className="text-red-400">{preview.invalid.length} invalid</span>
+            )}
+          </div>
+          <PreviewList title="Add" addresses={preview.adds} className="text-long" />
+          <PreviewList title="Update" addresses={preview.updates} className="text-neon-cyan" />
+          <PreviewList title="Remove" addresses={preview.removes} className="text-short" />
+          {preview.invalid.length > 0 && (
+            <div className="space-y-0.5 text-xs text-red-400/80">
+              {preview.invalid.slice(0, PREVIEW_LIST_LIMIT).map(issue => (
+                <div key={issue.line}>
+                  Line {issue.line}: {issue.value || '(empty)'} — {issue.reason}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const LEADERBOARD_THRESHOLD_FIELDS: { key: keyof LeaderboardThresholds; label: string }[] = [
+  { key: 'minAccountValue', label: 'Min Account $' },
+  { key: 'minPnl30d', label: 'Min 30D PnL $' },
+  { key: 'minRoi30d', label: 'Min 30D ROI %' },
+  { key: 'minVolume30d', label: 'Min 30D Volume $' },
+  { key: 'limit', label: 'Max Wallets' },
+];
+
+interface LeaderboardPanelProps {
+  disabled: boolean;
+  onSeed: (thresholds: LeaderboardThresholds, addresses?: string[]) => Promise<LeaderboardResponse | null>;
+}
+
+function LeaderboardPanel({ disabled, onSeed }: LeaderboardPanelProps) {
+  const [thresholds, setThresholds] = useState<LeaderboardThresholds>(DEFAULT_LEADERBOARD_THRESHOLDS);
+  const [candidates, setCandidates] = useState<LeaderboardCandidate[] | null>(null);
+  const [totalRows, setTotalRows] = useState(0);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [addedCount, setAddedCount] = useState<number | null>(null);
+
+  // Changed thresholds invalidate the candidate list
+  useEffect(() => {
+    setCandidates(null);
+    setAddedCount(null);
+  }, [thresholds]);
+
+  const showResult = (result: LeaderboardResponse) => {
+    const rows = result.data?.candidates ?? [];
+    setCandidates(rows);
+    setTotalRows(result.metadata?.totalRows ?? 0);
+    // Everything proposed starts selected
+    setSelected(new Set(rows.filter(row => !row.tracked).map(row => row.address)));
+  };
+
+  const handleFetch = async () => {
+    const result = await onSeed(thresholds);
+    if (result) showResult(result);
+  };
+
+  const handleApply = async () => {
+    const result = await onSeed(thresholds, Array.from(selected));
+    if (result) {
+      showResult(result);
+      setAddedCount(result.data?.adds.length ?? 0);
+    }
+  };
+
+  const toggle = (address: string, include: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (include) next.add(address);
+      else next.delete(address);
+      return next;
+    });
+  };
+
+  const untrackedCount = candidates?.filter(candidate => !candidate.tracked).length ?? 0;
+
+  return (
+    <div className="space-y-3 p-4 rounded border border-gunmetal-700 bg-base-800/40 text-sm font-mono">
+      <div className="flex flex-wrap items-end gap-2">
+        {LEADERBOARD_THRESHOLD_FIELDS.map(({ key, label }) => (
+          <label key={key} className="flex flex-col gap-1 text-[10px] uppercase tracking-wider text-gray-500">
+            {label}
+            <input
+              type="number"
+              min={0}
+              value={thresholds[key]}
+              onChange={event => setThresholds(prev => ({ ...prev, [key]: Number(event.target.value) }))}
+              className="w-32 px-2 py-2 rounded border border-gunmetal-700 bg-base-900 text-xs text-gray-200 focus:border-electric-lime/50 focus:outline-none"
+            />
+          </label>
+        ))}
+        <button
+          onClick={handleFetch}
+          disabled={disabled}
+          className="px-4 py-2 rounded border border-neon-cyan/30 text-neon-cyan font-semibold hover:bg-neon-cyan/10 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+        >
+          Fetch Leaderboard
+        </button>
+        <button
+          onClick={handleApply}
+          disabled={disabled || !candidates || selected.size === 0}
+          className="px-4 py-2 rounded border border-electric-lime/30 text-electric-lime font-semibold hover:bg-electric-lime/10 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+        >
+          Add {selected.size > 0 ? `${selected.size} Wallets` : ''}
+        </button>
+      </div>
+
+      {candidates && (
+        <div className="space-y-3 pt-2 border-t border-gunmetal-700">
+          <div className="flex flex-wrap gap-4 text-xs">
+            {addedCount !== null && <span className="text-electric-lime">✓ Added {addedCount}</span>}
+            <span className="text-gray-400">{candidates.length} of {totalRows} rows match</span>
+            <span className="text-long">+{untrackedCount} new</span>
+            <span className="text-gray-500">{candidates.length - untrackedCount} already tracked</span>
+          </div>
+          {candidates.length > 0 && (
+            <div className="max-h-96 overflow-auto">
+              <table className="w-full border-collapse text-xs">
+                <thead>
+                  <tr className="border-b border-gunmetal-700 uppercase tracking-wider text-gray-500">
+                    <th className="px-2 py-2 w-8" />
+                    <th className="px-2 py-2 text-left">Wallet</th>
+                    <th className="px-2 py-2 text-left">Name</th>
+                    <th className="px-2 py-2 text-right">Account</th>
+                    <th className="px-2 py-2 text-right">30D PnL</th>
+                    <th className="px-2 py-2 text-right">30D ROI</th>
+                    <th className="px-2 py-2 text-right">30D Volume</th>
+                    <th className="px-2 py-2 text-right">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {candidates.map(candidate => (
+                    <tr key={candidate.address} className="border-b border-gunmetal-700/50">
+                      <td className="px-2 py-1.5">
+                        <input
+                          type="checkbox"
+                          checked={selected.has(candidate.address)}
+                          disabled={candidate.tracked}
+                          onChange={event => toggle(candidate.address, event.target.checked)}
+                          className="accent-electric-lime"
+                        />
+                      </td>
+                      <td className="px-2 py-1.5">
+                        <WalletLink address={candidate.address} chars={6} className="text-gray-200 hover:text-electric-lime" />
+                      </td>
+                      <td className="px-2 py-1.5 text-gray-400">{candidate.displayName || '—'}</td>
+                      <td className="px-2 py-1.5 text-right mono-nums text-gray-300">{formatUSD(candidate.accountValue)}</td>
+                      <td className={cn('px-2 py-1.5 text-right mono-nums', candidate.pnl30d >= 0 ? 'text-long' : 'text-short')}>
+                        {formatUSD(candidate.pnl30d)}
+                      </td>
+                      <td className="px-2 py-1.5 text-right mono-nums text-gray-300">{candidate.roi30d.toFixed(1)}%</td>
+                      <td className="px-2 py-1.5 text-right mono-nums text-gray-400">{formatUSD(candidate.volume30d)}</td>
+                      <td className={cn('px-2 py-1.5 text-right', candidate.tracked ? 'text-gray-500' : 'text-long')}>
+                        {candidate.tracked ? 'Tracked' : 'New'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function WalletAdminPage() {
+  const [adminToken, setAdminToken] = useState('');
+  const [query, setQuery] = useState('');
+  const [newAddress, setNewAddress] = useState('');
+  const [newLabels, setNewLabels] = useState('');
+  const [newTier, setNewTier] = useState<SmartWalletTier>('smart');
+  const [newTags, setNewTags] = useState('');
+  const [showImport, setShowImport] = useState(false);
+  const [showLeaderboard, setShowLeaderboard] = useState(false);
+  const [editingWatchlistId, setEditingWatchlistId] = useState('');
+  const [newWatchlistName, setNewWatchlistName] = useState('');
+  const [membersOnly, setMembersOnly] = useState(false);
+
+  const {
+    wallets,
+    metadata,
+    isLoading,
+    isSaving,
+    error,
+    addWallets,
+    updateWallet,
+    removeWallets,
+    importWallets,
+    seedFromLeaderboard,
+  } = useWalletRegistry(adminToken);
+
+  const {
+    watchlists,
+    isSaving: isSavingWatchlist,
+    error: watchlistError,
+    createWatchlist,
+    updateWatchlist,
+    deleteWatchlist,
+  } = useWatchlistManager(adminToken);
+
+  const editingWatchlist = watchlists.find(watchlist => watchlist.id === editingWatchlistId);
+  const watchlistMembers = useMemo(
+    () => new Set(editingWatchlist?.addresses ?? []),
+    [editingWatchlist]
+  );
+
+  useEffect(() => {
+    setAdminToken(sessionStorage.getItem(REGISTRY_TOKEN_STORAGE_KEY) ?? '');
+  }, []);
+
+  const handleTokenChange = (value: string) => {
+    setAdminToken(value);
+    sessionStorage.setItem(REGISTRY_TOKEN_STORAGE_KEY, value);
+  };
+
+  const rows = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return Object.entries(wallets)
+      .filter(([address, entry]) =>
+        !needle ||
+        address.includes(needle) ||
+        entry.tier === needle ||
+        entry.labels.some(label => label.toLowerCase().includes(needle)) ||
+        entry.tags?.some(tag => tag.toLowerCase().includes(needle)) ||
+        entry.notes?.toLowerCase().includes(needle)
+      )
+      .filter(([address]) => !membersOnly || !editingWatchlist || watchlistMembers.has(address))
+      .sort(([a], [b]) => a.localeCompare(b));
+  }, [wallets, query, membersOnly, editingWatchlist, watchlistMembers]);
+
+  const normalizedNew = newAddress.trim().toLowerCase();
+  const newAddressValid = isValidAddress(normalizedNew);
+  const alreadyTracked = newAddressValid && normalizedNew in wallets;
+
+  const handleAdd = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!newAddressValid) return;
+
+    const labels = parseList(newLabels);
+    const tags = parseList(newTags);
+    const added = await addWallets([{
+      address: normalizedNew,
+      labels: labels.length > 0 ? labels : undefined,
+      tier: newTier,
+      tags: tags.length > 0 ? tags : undefined,
+    }]);
+    if (added) {
+      setNewAddress('');
+      setNewLabels('');
+      setNewTags('');
+    }
+  };
+
+  const handleCreateWatchlist = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const name = newWatchlistName.trim();
+    if (!name) return;
+    if (await createWatchlist(name)) {
+      setNewWatchlistName('');
+    }
+  };
+
+  const handleDeleteWatchlist = async () => {
+    if (editingWatchlist && window.confirm(`Delete watchlist "${editingWatchlist.name}"?`)) {
+      if (await deleteWatchlist(editingWatchlist.id)) setEditingWatchlistId('');
+    }
+  };
+
+  const handleToggleWatchlist = useCallback((address: string, include: boolean) => {
+    if (!editingWatchlistId) return;
+    updateWatchlist(editingWatchlistId, include ? { add: [address] } : { remove: [address] });
+  }, [editingWatchlistId, updateWatchlist]);
+
+  const handleRemove = useCallback((address: string) => {
+    if (window.confirm(`Stop tracking ${address}?`)) {
+      removeWallets([address]);
+    }
+  }, [removeWallets]);
+
+  return (
+    <div className="flex flex-col h-screen bg-base-900">
+      {/* Header */}
+      <div className="border-b border-gunmetal-700 bg-base-900/80 backdrop-blur-sm">
+        <div className="px-6 py-4 space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Link
+                href="/"
+                className="text-sm font-mono text-gray-400 hover:text-electric-lime transition-colors"
+              >
+                ← Back to Dashboard
+              </Link>
+              <h1 className="text-2xl font-display font-bold text-white tracking-tight">
+                Tracked Wallets
+              </h1>
+            </div>
+            <div className="flex items-center gap-3 text-sm font-mono text-gray-400">
+              {isSaving && <Loader2 className="w-4 h-4 text-electric-lime animate-spin" />}
+              <span>{metadata?.walletCount ?? 0} Wallets</span>
+            </div>
+          </div>
+
+          {/* Add Wallet */}
+          <form onSubmit={handleAdd} className="flex flex-wrap items-center gap-2 text-sm font-mono">
+            <input
+              value={newAddress}
+              onChange={event => setNewAddress(event.target.value)}
+              placeholder="0x… wallet address"
+              className={cn(
+                'w-[26rem] max-w-full px-3 py-2 rounded border bg-base-900 text-gray-200 focus:outline-none',
+                newAddress && !newAddressValid ? 'border-short/60' : 'border-gunmetal-700 focus:border-electric-lime/50'
+              )}
+            />
+            <input
+              value={newLabels}
+              onChange={event => setNewLabels(event.target.value)}
+              placeholder={`Labels (default: ${DEFAULT_WALLET_LABEL})`}
+              className="w-64 px-3 py-2 rounded border border-gunmetal-700 bg-base-900 text-gray-200 focus:border-electric-lime/50 focus:outline-none"
+            />
+            <select
+              value={newTier}
+              onChange={event => setNewTier(event.target.value as SmartWalletTier)}
+              className="px-2 py-2 rounded border border-gunmetal-700 bg-base-900 text-gray-300 uppercase text-xs"
+            >
+              {WALLET_TIERS.map(tier => (
+                <option key={tier} value={tier}>{tier}</option>
+              ))}
+            </select>
+            <input
+              value={newTags}
+              onChange={event => setNewTags(event.target.value)}
+              placeholder="Tags (comma-separated)"
+              className="w-48 px-3 py-2 rounded border border-gunmetal-700 bg-base-900 text-gray-200 focus:border-electric-lime/50 focus:outline-none"
+            />
+            <button
+              type="submit"
+              disabled={!newAddressValid || isSaving}
+              className="px-4 py-2 rounded border border-electric-lime/30 text-electric-lime font-semibold hover:bg-electric-lime/10 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+            >
+              {alreadyTracked ? 'Update' : 'Add Wallet'}
+            </button>
+            <input
+              type="password"
+              value={adminToken}
+              onChange={event => handleTokenChange(event.target.value)}
+              placeholder="Admin token (if required)"
+              className="ml-auto w-56 px-3 py-2 rounded border border-gunmetal-700 bg-base-900 text-gray-400 focus:border-electric-lime/50 focus:outline-none"
+            />
+          </form>
+
+          {/* Bulk Import / Leaderboard / Export */}
+          <div className="flex flex-wrap items-center gap-2 text-xs font-mono">
+            <button
+              onClick={() => setShowImport(prev => !prev)}
+              className={cn(
+                'px-3 py-1.5 rounded border uppercase tracking-wider transition-colors',
+                showImport
+                  ? 'border-neon-cyan/50 text-neon-cyan bg-neon-cyan/10'
+                  : 'border-gunmetal-700 text-gray-400 hover:border-gray-500'
+              )}
+            >
+              Bulk Import
+            </button>
+            <button
+              onClick={() => setShowLeaderboard(prev => !prev)}
+              className={cn(
+                'px-3 py-1.5 rounded border uppercase tracking-wider transition-colors',
+                showLeaderboard
+                  ? 'border-neon-cyan/50 text-neon-cyan bg-neon-cyan/10'
+                  : 'border-gunmetal-700 text-gray-400 hover:border-gray-500'
+              )}
+            >
+              Leaderboard
+            </button>
+            <a
+              href="/api/registry/export?format=csv"
+              download
+              className="px-3 py-1.5 rounded border border-gunmetal-700 text-gray-400 uppercase tracking-wider hover:border-gray-500 transition-colors"
+            >
+              Export CSV
+            </a>
+            <a
+              href="/api/registry/export?format=json"
+              download
+              className="px-3 py-1.5 rounded border border-gunmetal-700 text-gray-400 uppercase tracking-wider hover:border-gray-500 transition-colors"
+            >
+              Export JSON
+            </a>
+          </div>
+
+          {showImport && <BulkImportPanel disabled={isSaving} onImport={importWallets} />}
+          {showLeaderboard && <LeaderboardPanel disabled={isSaving} onSeed={seedFromLeaderboard} />}
+
+          {(error || watchlistError) && (
+            <div className="text-sm font-mono text-red-400">{error || watchlistError}</div>
+          )}
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <main className="flex-1 overflow-auto">
+        {isLoading && !metadata ? (
+          <div className="flex flex-col items-center justify-center py-20">
+            <Loader2 className="w-8 h-8 text-electric-lime animate-spin mb-4" />
+            <div className="text-sm font-mono text-gray-400">Loading wallet registry...</div>
+          </div>
+        ) : (
+          <div className="px-6 py-4">
+            <div className="relative mb-3 max-w-sm">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-500" />
+              <input
+                value={query}
+                onChange={event => setQuery(event.target.value)}
+                placeholder="Filter by address, label, tier, tag or note"
+                className="w-full pl-9 pr-3 py-2 rounded border border-gunmetal-700 bg-base-900 text-sm font-mono text-gray-200 focus:border-electric-lime/50 focus:outline-none"
+              />
+            </div>
+
+            {/* Watchlists */}
+            <div className="flex flex-wrap items-center gap-2 mb-3 text-xs font-mono">
+              <span className="uppercase tracking-wider text-gray-500">Watchlist:</span>
+              <select
+                value={editingWatchlistId}
+                onChange={event => setEditingWatchlistId(event.target.value)}
+                className="px-2 py-1.5 rounded border border-gunmetal-700 bg-base-900 text-gray-300"
+              >
+                <option value="">— Select to edit —</option>
+                {watchlists.map(watchlist => (
+                  <option key={watchlist.id} value={watchlist.id}>
+                    {watchlist.name} ({watchlist.addresses.length})
+                  </option>
+                ))}
+              </select>
+              {editingWatchlist && (
+                <>
+                  <label className="flex items-center gap-1.5 text-gray-400 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={membersOnly}
+                      onChange={event => setMembersOnly(event.target.checked)}
+                      className="accent-neon-cyan"
+                    />
+                    Members only
+                  </label>
+                  <button
+                    onClick={handleDeleteWatchlist}
+                    disabled={isSavingWatchlist}
+                    className="px-2 py-1.5 rounded text-gray-500 hover:text-short hover:bg-short/10 transition-colors disabled:opacity-40"
+                  >
+                    Delete List
+                  </button>
+                </>
+              )}
+              <form onSubmit={handleCreateWatchlist} className="flex items-center gap-2 ml-auto">
+                <input
+                  value={newWatchlistName}
+                  onChange={event => setNewWatchlistName(event.target.value)}
+                  placeholder="New watchlist name"
+                  className="w-48 px-2 py-1.5 rounded border border-gunmetal-700 bg-base-900 text-gray-200 focus:border-neon-cyan/50 focus:outline-none"
+                />
+                <button
+                  type="submit"
+                  disabled={!newWatchlistName.trim() || isSavingWatchlist}
+                  className="px-3 py-1.5 rounded border border-neon-cyan/30 text-neon-cyan hover:bg-neon-cyan/10 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+                >
+                  Create
+                </button>
+              </form>
+            </div>
+
+            <table className="w-full border-collapse">
+              <thead>
+                <tr className="border-b border-gunmetal-700">
+                  {editingWatchlist && <th className="pl-4 py-3 w-8" />}
+                  <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-400">
+                    Wallet
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-400">
+                    Labels
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-400">
+                    Tier
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-400">
+                    Tags
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-400">
+                    Notes
+                  </th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(([address, entry]) => (
+                  <RegistryRow
+                    key={address}
+                    address={address}
+                    entry={entry}
+                    disabled={isSaving}
+                    onUpdate={updateWallet}
+                    onRemove={handleRemove}
+                    inWatchlist={watchlistMembers.has(address)}
+                    onToggleWatchlist={editingWatchlist ? handleToggleWatchlist : undefined}
+                  />
+                ))}
+              </tbody>
+            </table>
+
+            {rows.length === 0 && (
+              <div className="py-12 text-center text-sm font-mono text-gray-500">
+                No wallets match this filter
+              </div>
+            )}
+          </div>
+        )}
+      </main>
+
+      {/* Footer Status Bar */}
+      <footer className="border-t border-gunmetal-700 bg-base-900/80 backdrop-blur-sm px-4 py-2 mt-auto">
+        <div className="flex items-center gap-4 text-xs font-mono text-gray-500">
+          <span>Smart-HL</span>
+          <span className="text-gunmetal-600">|</span>
+          <span>Wallet Registry ({metadata?.source ?? '...'})</span>
+          {metadata && metadata.lastUpdated > 0 && (
+            <>
+              <span className="text-gunmetal-600">|</span>
+              <span>Updated {formatDateTime(metadata.lastUpdated)}</span>
+            </>
+          )}
+        </div>
+      </footer>
+    </div>
+  );
+}
@@ -0,0 +1,603 @@
+'use client';
+
+/**
+ * Alerts Page
+ * Define alert rules over trades, position changes, wallet stats and coin exposure
+ * (evaluated server-side by lib/alerts.ts), route them to notification channels
+ * (lib/notifications.ts) and browse the alerts they fired and how delivery went
+ */
+
+import { memo, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { Bell, Loader2, X } from '@/components/icons';
+import { WalletLink } from '@/components/WalletLink';
+import { useAlertDeliveries } from '@/hooks/useAlertDeliveries';
+import { useAlertHistory } from '@/hooks/useAlertHistory';
+import { useAlertRules, type AlertRuleInput } from '@/hooks/useAlertRules';
+import { ALERT_EXAMPLES, ALERT_FIELDS, validateCondition } from '@/lib/alert-dsl';
+import { REGISTRY_TOKEN_STORAGE_KEY } from '@/lib/constants';
+import { cn, formatDateTime, formatRelativeTime } from '@/lib/utils';
+import type { AlertChannel, AlertChannelType, AlertDelivery, AlertEvent, AlertRule, AlertSource } from '@/types';
+
+const RANGES = [
+  { label: '1H', ms: 60 * 60 * 1000 },
+  { label: '24H', ms: 24 * 60 * 60 * 1000 },
+  { label: '7D', ms: 7 * 24 * 60 * 60 * 1000 },
+];
+
+const ALERT_SOURCES = Object.keys(ALERT_FIELDS) as AlertSource[];
+
+const SOURCE_STYLES: Record<AlertSource, string> = {
+  trade: 'bg-electric-lime/20 text-electric-lime border-electric-lime/30',
+  position: 'bg-neon-pink/20 text-neon-pink border-neon-pink/30',
+  wallet: 'bg-neon-cyan/20 text-neon-cyan border-neon-cyan/30',
+  coin: 'bg-whale/20 text-whale border-whale/30',
+};
+
+const DELIVERY_STATUS_COLORS: Record<AlertDelivery['status'], string> = {
+  delivered: 'bg-long/20 text-long border-long/30',
+  retrying: 'bg-yellow-500/20 text-yellow-500 border-yellow-500/30',
+  failed: 'bg-short/20 text-short border-short/30',
+};
+
+// Which field holds the destination, per channel type
+const CHANNEL_FIELDS: Record<AlertChannelType, { label: string; placeholder: string }> = {
+  webhook: { label: 'Webhook', placeholder: 'https://example.com/hooks/alerts' },
+  telegram: { label: 'Telegram', placeholder: 'Chat id (-100…) or @channel' },
+  discord: { label: 'Discord', placeholder: 'https://discord.com/api/webhooks/…' },
+  email: { label: 'Email', placeholder: 'desk@example.com' },
+};
+
+const CHANNEL_TYPES = Object.keys(CHANNEL_FIELDS) as AlertChannelType[];
+
+function buildChannel(type: AlertChannelType, target: string): AlertChannel {
+  switch (type) {
+    case 'webhook':
+      return { type, url: target };
+    case 'telegram':
+      return { type, chatId: target };
+    case 'discord':
+      return { type, webhookUrl: target };
+    case 'email':
+      return { type, to: target };
+  }
+}
+
+function channelTarget(channel: AlertChannel): string {
+  switch (channel.type) {
+    case 'webhook':
+      return channel.url;
+    case 'telegram':
+      return channel.chatId;
+    case 'discord':
+      return channel.webhookUrl;
+    case 'email':
+      return channel.to;
+  }
+}
+
+const INLINE_INPUT_CLASS =
+  'w-full px-2 py-1 rounded border border-transparent bg-transparent text-sm font-mono text-gray-200 hover:border-gunmetal-700 focus:border-electric-lime/50 focus:outline-none';
+
+function SourceBadge({ source }: { source: AlertSource }) {
+  return (
+    <span
+      className={cn(
+        'w-20 text-center px-2 py-0.5 rounded border text-[10px] font-bold uppercase tracking-wider',
+        SOURCE_STYLES[source]
+      )}
+    >
+      {source}
+    </span>
+  );
+}
+
+interface RuleFormProps {
+  disabled: boolean;
+  onCreate: (rule: AlertRuleInput) => Promise<boolean>;
+}
+
+function RuleForm({ disabled, onCreate }: RuleFormProps) {
+  const [name, setName] = useState('');
+  const [source, setSource] = useState<AlertSource>('trade');
+  const [condition, setCondition] = useState('');
+  const [dedupeMinutes, setDedupeMinutes] = useState(60);
+
+  const conditionError = condition.trim() ? validateCondition(condition, source) : null;
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!name.trim() || !condition.trim() || conditionError) return;
+
+    if (await onCreate({ name: name.trim(), source, condition: condition.trim(), dedupeMinutes })) {
+      setName('');
+      setCondition('');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2 p-4 rounded border border-gunmetal-700 bg-base-800/40 text-sm font-mono">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          value={name}
+          onChange={event => setName(event.target.value)}
+          placeholder="Rule name"
+          className="flex-1 min-w-[160px] px-3 py-2 rounded border border-gunmetal-700 bg-base-900 text-gray-200 focus:border-electric-lime/50 focus:outline-none"
+        />
+        <select
+          value={source}
+          onChange={event => setSource(event.target.value as AlertSource)}
+          className="px-2 py-2 rounded border border-gunmetal-700 bg-base-900 text-gray-300 text-xs uppercase"
+        >
+          {ALERT_SOURCES.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-xs text-gray-500">
+          Dedupe
+          <input
+            type="number"
+            min={1}
+            value={dedupeMinutes}
+            onChange={event => setDedupeMinutes(Math.max(1, Math.round(Number(event.target.value))))}
+            className="w-20 px-2 py-2 rounded border border-gunmetal-700 bg-base-900 text-gray-200 focus:border-electric-lime/50 focus:outline-none"
+          />
+          min
+        </label>
+      </div>
+      <input
+        value={condition}
+        onChange={event => setCondition(event.target.value)}
+        placeholder={ALERT_EXAMPLES[source]}
+        spellCheck={false}
+        className={cn(
+          'w-full px-3 py-2 rounded border bg-base-900 text-gray-200 focus:outline-none',
+          conditionError ? 'border-red-400/50' : 'border-gunmetal-700 focus:border-electric-lime/50'
+        )}
+      />
+      {conditionError && <div className="text-xs text-red-400">{conditionError}</div>}
+      <div className="flex flex-wrap gap-x-3 gap-y-1 text-[11px] text-gray-500">
+        {Object.entries(ALERT_FIELDS[source]).map(([field, description]) => (
+          <span key={field} title={description} className="cursor-help">
+            <span className="text-gray-300">{field}</span>
+          </span>
+        ))}
+      </div>
+      <button
+        type="submit"
+        disabled={disabled || !name.trim() || !condition.trim() || Boolean(conditionError)}
+        className="px-4 py-2 rounded border border-electric-lime/30 text-electric-lime font-semibold hover:bg-electric-lime/10 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+      >
+        Add Rule
+      </button>
+    </form>
+  );
+}
+
+interface ChannelEditorProps {
+  channels: AlertChannel[];
+  disabled: boolean;
+  onChange: (channels: AlertChannel[]) => void;
+  onTest: (channel: AlertChannel) => void;
+}
+
+/**
+ * A rule's channels, each removable and testable, plus a row to add one
+ * (destinations are validated by the server)
+ */
+function ChannelEditor({ channels, disabled, onChange, onTest }: ChannelEditorProps) {
+  const [type, setType] = useState<AlertChannelType>('webhook');
+  const [target, setTarget] = useState('');
+
+  const handleAdd = () => {
+    if (!target.trim()) return;
+    onChange([...channels, buildChannel(type, target.trim())]);
+    setTarget('');
+  };
+
+  return (
+    <div className="mt-1 px-2 space-y-1 text-xs font-mono">
+      {channels.map((channel, index) => (
+        <div key={`${channel.type}:${channelTarget(channel)}`} className="flex items-center gap-2 text-gray-400">
+          <span className="w-16 text-gray-500 uppercase">{CHANNEL_FIELDS[channel.type].label}</span>
+          <span className="flex-1 truncate text-gray-300">{channelTarget(channel)}</span>
+          <button
+            onClick={() => onTest(channel)}
+            disabled={disabled}
+            title="Send a test alert"
+            className="px-2 py-0.5 rounded border border-gunmetal-700 text-gray-400 hover:text-electric-lime hover:border-electric-lime/30 transition-colors disabled:opacity-40"
+          >
+            Test
+          </button>
+          <button
+            onClick={() => onChange(channels.filter((_, position) => position !== index))}
+            disabled={disabled}
+            title="Remove channel"
+            className="p-1 rounded text-gray-500 hover:text-short hover:bg-short/10 transition-colors disabled:opacity-40"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      ))}
+      <div className="flex items-center gap-2">
+        <select
+          value={type}
+          onChange={event => setType(event.target.value as AlertChannelType)}
+          disabled={disabled}
+          className="w-16 py-0.5 rounded border border-gunmetal-700 bg-base-900 text-gray-400 uppercase"
+        >
+          {CHANNEL_TYPES.map(option => (
+            <option key={option} value={option}>{CHANNEL_FIELDS[option].label}</option>
+          ))}
+        </select>
+        <input
+          value={target}
+          disabled={disabled}
+          onChange={event => setTarget(event.target.value)}
+          onKeyDown={event => event.key === 'Enter' && handleAdd()}
+          placeholder={CHANNEL_FIELDS[type].placeholder}
+          spellCheck={false}
+          className="flex-1 px-2 py-0.5 rounded border border-gunmetal-700 bg-base-900 text-gray-300 focus:border-electric-lime/50 focus:outline-none"
+        />
+        <button
+          onClick={handleAdd}
+          disabled={disabled || !target.trim()}
+          className="px-2 py-0.5 rounded border border-electric-lime/30 text-electric-lime hover:bg-electric-lime/10 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+        >
+          Add
+        </button>
+      </div>
+    </div>
+  );
+}
+
+interface RuleRowProps {
+  rule: AlertRule;
+  disabled: boolean;
+  onUpdate: (id: string, changes: Partial<AlertRule>) => void;
+  onDelete: (id: string) => void;
+  onTest: (channel: AlertChannel) => void;
+}
+
+const RuleRow = memo(function RuleRow({ rule, disabled, onUpdate, onDelete, onTest }: RuleRowProps) {
+  const [name, setName] = useState(rule.name);
+  const [condition, setCondition] = useState(rule.condition);
+
+  // Pick up server-side changes
+  useEffect(() => {
+    setName(rule.name);
+    setCondition(rule.condition);
+  }, [rule]);
+
+  const conditionError = condition !== rule.condition ? validateCondition(condition, rule.source) : null;
+
+  const saveName = () => {
+    if (name.trim() && name.trim() !== rule.name) onUpdate(rule.id, { name: name.trim() });
+  };
+
+  const saveCondition = () => {
+    if (condition.trim() !== rule.condition && !conditionError) onUpdate(rule.id, { condition: condition.trim() });
+  };
+
+  const blurOnEnter = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') event.currentTarget.blur();
+  };
+
+  return (
+    <div className={cn('px-4 py-2 border-b border-gunmetal-700/50', !rule.enabled && 'opacity-50')}>
+      <div className="flex items-center gap-3">
+        <input
+          type="checkbox"
+          checked={rule.enabled}
+          disabled={disabled}
+          onChange={event => onUpdate(rule.id, { enabled: event.target.checked })}
+          title={rule.enabled ? 'Disable rule' : 'Enable rule'}
+          className="accent-electric-lime"
+        />
+        <SourceBadge source={rule.source} />
+        <input
+          value={name}
+          disabled={disabled}
+          onChange={event => setName(event.target.value)}
+          onBlur={saveName}
+          onKeyDown={blurOnEnter}
+          className={cn(INLINE_INPUT_CLASS, 'font-semibold')}
+        />
+        <span className="shrink-0 text-xs font-mono text-gray-500" title="Dedupe window">
+          {rule.dedupeMinutes}m
+        </span>
+        <button
+          onClick={() => onDelete(rule.id)}
+          disabled={disabled}
+          title="Delete rule"
+          className="p-1.5 rounded text-gray-500 hover:text-short hover:bg-short/10 transition-colors disabled:opacity-40"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <input
+        value={condition}
+        disabled={disabled}
+        onChange={event => setCondition(event.target.value)}
+        onBlur={saveCondition}
+        onKeyDown={blurOnEnter}
+        spellCheck={false}
+        className={cn(INLINE_INPUT_CLASS, 'mt-1 text-xs text-gray-400', conditionError && 'border-red-400/50')}
+      />
+      {conditionError && <div className="px-2 text-xs font-mono text-red-400">{conditionError}</div>}
+      <ChannelEditor
+        channels={rule.channels}
+        disabled={disabled}
+        onChange={channels => onUpdate(rule.id, { channels })}
+        onTest={onTest}
+      />
+    </div>
+  );
+});
+
+function AlertRow({ alert }: { alert: AlertEvent }) {
+  return (
+    <div className="flex flex-wrap items-center gap-3 px-4 py-3 border-b border-gunmetal-700/50 hover:bg-white/[0.02] transition-colors">
+      <span className="w-20 text-xs font-mono text-gray-500" title={formatDateTime(alert.timestamp)}>
+        {formatRelativeTime(alert.timestamp)}
+      </span>
+      <SourceBadge source={alert.source} />
+      <span className="text-sm font-mono font-semibold text-white">{alert.ruleName}</span>
+      <span className="flex-1 min-w-[200px] text-sm font-mono text-gray-300">{alert.message}</span>
+      {alert.address && (
+        <WalletLink address={alert.address} className="text-xs text-electric-lime hover:text-electric-lime/80" />
+      )}
+    </div>
+  );
+}
+
+function DeliveryRow({ delivery }: { delivery: AlertDelivery }) {
+  return (
+    <div className="flex flex-wrap items-center gap-3 px-4 py-3 border-b border-gunmetal-700/50 hover:bg-white/[0.02] transition-colors">
+      <span className="w-20 text-xs font-mono text-gray-500" title={formatDateTime(delivery.timestamp)}>
+        {formatRelativeTime(delivery.timestamp)}
+      </span>
+      <span
+        className={cn(
+          'w-20 text-center px-2 py-0.5 rounded border text-[10px] font-bold uppercase tracking-wider',
+          DELIVERY_STATUS_COLORS[delivery.status]
+        )}
+      >
+        {delivery.status}
+      </span>
+      <span className="text-sm font-mono font-semibold text-white">{delivery.ruleName}</span>
+      <span className="text-xs font-mono text-gray-500 uppercase">{CHANNEL_FIELDS[delivery.channel].label}</span>
+      <span className="flex-1 min-w-[160px] truncate text-xs font-mono text-gray-400">{delivery.target}</span>
+      <span className="text-xs font-mono text-gray-500" title="Attempt">
+        #{delivery.attempt}
+        {delivery.statusCode !== undefined && ` · ${delivery.statusCode}`}
+      </span>
+      {delivery.error && <div className="w-full pl-[92px] text-xs font-mono text-red-400">{delivery.error}</div>}
+    </div>
+  );
+}
+
+export default function AlertsPage() {
+  const [adminToken, setAdminToken] = useState('');
+  const [rangeMs, setRangeMs] = useState(RANGES[1].ms);
+  const [ruleFilter, setRuleFilter] = useState('');
+  const [view, setView] = useState<'history' | 'deliveries'>('history');
+
+  const {
+    rules,
+    isLoading: isLoadingRules,
+    isSaving,
+    error: rulesError,
+    refetch: refetchRules,
+    createRule,
+    updateRule,
+    deleteRule,
+  } = useAlertRules(adminToken);
+  const { alerts, isLoading, error, lastUpdated } = useAlertHistory({
+    rangeMs,
+    ruleId: ruleFilter || undefined,
+  });
+  const { deliveries, isTesting, error: deliveriesError, sendTest } = useAlertDeliveries(
+    adminToken,
+    ruleFilter || undefined
+  );
+
+  useEffect(() => {
+    const stored = sessionStorage.getItem(REGISTRY_TOKEN_STORAGE_KEY) ?? '';
+    setAdminToken(stored);
+    // Channel destinations are masked without the token, so reload with it
+    if (stored) refetchRules();
+  }, [refetchRules]);
+
+  const handleTokenChange = (value: string) => {
+    setAdminToken(value);
+    sessionStorage.setItem(REGISTRY_TOKEN_STORAGE_KEY, value);
+  };
+
+  const handleDelete = (id: string) => {
+    const rule = rules.find(entry => entry.id === id);
+    if (rule && window.confirm(`Delete alert rule "${rule.name}"?`)) {
+      deleteRule(id);
+    }
+  };
+
+  const handleTest = async (channel: AlertChannel) => {
+    const delivery = await sendTest(channel);
+    if (delivery) {
+      setView('deliveries');
+      if (delivery.status === 'failed') window.alert(`Test alert failed: ${delivery.error}`);
+    }
+  };
+
+  const enabledCount = useMemo(() => rules.filter(rule => rule.enabled).length, [rules]);
+  const failedCount = useMemo(() => deliveries.filter(delivery => delivery.status === 'failed').length, [deliveries]);
+
+  return (
+    <div className="flex flex-col h-screen bg-base-900">
+      {/* Header */}
+      <div className="border-b border-gunmetal-700 bg-base-900/80 backdrop-blur-sm">
+        <div className="px-6 py-4 space-y-2">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Link
+                href="/"
+                className="text-sm font-mono text-gray-400 hover:text-electric-lime transition-colors"
+              >
+                ← Back to Dashboard
+              </Link>
+              <h1 className="text-2xl font-display font-bold text-white tracking-tight">
+                Alerts
+              </h1>
+            </div>
+            <input
+              type="password"
+              value={adminToken}
+              onChange={event => handleTokenChange(event.target.value)}
+              onBlur={() => refetchRules()}
+              placeholder="Admin token (if required)"
+              className="w-56 px-3 py-2 rounded border border-gunmetal-700 bg-base-900 text-sm font-mono text-gray-400 focus:border-electric-lime/50 focus:outline-none"
+            />
+          </div>
+          <p className="text-xs font-mono text-gray-500">
+            Rules run on the server on every wallet stats refresh (trade rules on tracked wallets&apos; new
+            fills); dashboards holding the admin token also forward live trades, checked against Hyperliquid,
+            so trade rules fire sooner and see untracked whales. Whale / golden use the default sizes.
+            Operators: && || ! == != &gt; &gt;= &lt; &lt;=
+            in contains + - * /, numbers like 250k or 1.5m. Each rule fires at most once per wallet / coin
+            within its dedupe window. Fired alerts are sent to the rule&apos;s channels (webhook, Telegram,
+            Discord, email), retrying transient failures.
+          </p>
+          {(rulesError || error || deliveriesError) && (
+            <div className="text-sm font-mono text-red-400">{rulesError || error || deliveriesError}</div>
+          )}
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <main className="flex-1 overflow-auto">
+        <div className="grid grid-cols-1 xl:grid-cols-[minmax(0,2fr)_minmax(0,3fr)] gap-6 px-6 py-4">
+          <section className="space-y-3">
+            <h2 className="text-xs font-mono font-semibold uppercase tracking-wider text-gray-400">
+              Rules ({enabledCount} / {rules.length} enabled)
+            </h2>
+            <RuleForm disabled={isSaving} onCreate={createRule} />
+            <div className="rounded border border-gunmetal-700">
+              {isLoadingRules ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="w-5 h-5 animate-spin text-gray-500" />
+                </div>
+              ) : rules.length === 0 ? (
+                <div className="py-6 text-center text-sm font-mono text-gray-500">No rules yet</div>
+              ) : (
+                rules.map(rule => (
+                  <RuleRow
+                    key={rule.id}
+                    rule={rule}
+                    disabled={isSaving || isTesting}
+                    onUpdate={updateRule}
+                    onDelete={handleDelete}
+                    onTest={handleTest}
+                  />
+                ))
+              )}
+            </div>
+          </section>
+
+          <section className="space-y-3">
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-3 text-xs font-mono font-semibold uppercase tracking-wider">
+                <button
+                  onClick={() => setView('history')}
+                  className={cn(view === 'history' ? 'text-gray-200' : 'text-gray-500 hover:text-gray-300')}
+                >
+                  History ({alerts.length})
+                </button>
+                <button
+                  onClick={() => setView('deliveries')}
+                  className={cn(view === 'deliveries' ? 'text-gray-200' : 'text-gray-500 hover:text-gray-300')}
+                >
+                  Deliveries ({deliveries.length}
+                  {failedCount > 0 && <span className="text-short"> · {failedCount} failed</span>})
+                </button>
+              </div>
+              <div className="flex items-center gap-2 text-xs font-mono">
+                <select
+                  value={ruleFilter}
+                  onChange={event => setRuleFilter(event.target.value)}
+                  className="px-2 py-1.5 rounded border border-gunmetal-700 bg-base-900 text-gray-300"
+                >
+                  <option value="">All rules</option>
+                  {rules.map(rule => (
+                    <option key={rule.id} value={rule.id}>{rule.name}</option>
+                  ))}
+                </select>
+                {view === 'history' && RANGES.map(range => (
+                  <button
+                    key={range.label}
+                    onClick={() => setRangeMs(range.ms)}
+                    className={cn(
+                      'px-3 py-1.5 rounded border transition-colors',
+                      rangeMs === range.ms
+                        ? 'border-electric-lime/50 text-electric-lime bg-electric-lime/10'
+                        : 'border-gunmetal-700 text-gray-400 hover:border-gray-500'
+                    )}
+                  >
+                    {range.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="rounded border border-gunmetal-700">
+              {view === 'deliveries' ? (
+                deliveries.length === 0 ? (
+                  <div className="py-16 text-center text-sm font-mono text-gray-500">
+                    No deliveries yet — add a channel to a rule
+                  </div>
+                ) : (
+                  deliveries.map(delivery => <DeliveryRow key={delivery.id} delivery={delivery} />)
+                )
+              ) : alerts.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-16 px-4">
+                  <Bell className="w-12 h-12 text-gray-600 mb-4" />
+                  <div className="text-gray-400 font-mono text-sm">
+                    {isLoading && !lastUpdated ? 'Loading alerts...' : 'No alerts in this range'}
+                  </div>
+                </div>
+              ) : (
+                alerts.map(alert => <AlertRow key={alert.id} alert={alert} />)
+              )}
+            </div>
+          </section>
+        </div>
+      </main>
+
+      {/* Footer Status Bar */}
+      <footer className="border-t border-gunmetal-700 bg-base-900/80 backdrop-blur-sm px-4 py-2 mt-auto">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4 text-xs font-mono text-gray-500">
+            <span>Smart-HL</span>
+            <span className="text-gunmetal-600">|</span>
+            <span>Alerts</span>
+            {lastUpdated && (
+              <>
+                <span className="text-gunmetal-600">|</span>
+                <span>Updated {formatRelativeTime(lastUpdated)}</span>
+              </>
+            )}
+          </div>
+
+          <div className="flex items-center gap-4 text-xs font-mono">
+            <a
+              href="https://hypurrscan.io"
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-gray-500 hover:text-electric-lime transition-colors"
+            >
+              hypurrscan.io
+            </a>
+          </div>
+        </div>
+      </footer>
+    </div>
+  );
+}
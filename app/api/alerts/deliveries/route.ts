@@ -0,0 +1,73 @@
+/**
+ * API Route: Alert Deliveries
+ * Every attempt at sending fired alerts to their rules' channels (lib/notifications.ts), newest first
+ *
+ *   ?ruleId=...            only one rule
+ *   ?status=failed         only delivered, retrying or failed attempts
+ *   ?channel=webhook,email only these channel types
+ *   ?limit=100             at most this many (max 1000)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ALERT_CHANNEL_TYPES, getAlertDeliveries } from '@/lib/notifications';
+import type { AlertDeliveriesResponse, AlertChannelType, AlertDelivery } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+const DELIVERY_STATUSES: AlertDelivery['status'][] = ['delivered', 'retrying', 'failed'];
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+function badRequest(error: string) {
+  return NextResponse.json(
+    { success: false, data: [], error } satisfies AlertDeliveriesResponse,
+    { status: 400 }
+  );
+}
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const ruleId = params.get('ruleId');
+  const status = params.get('status');
+  const channels = params.get('channel')?.split(',').filter(Boolean) ?? [];
+  const limit = params.has('limit') ? Number(params.get('limit')) : DEFAULT_LIMIT;
+
+  if (status && !DELIVERY_STATUSES.includes(status as AlertDelivery['status'])) {
+    return badRequest(`status must be one of ${DELIVERY_STATUSES.join(', ')}`);
+  }
+  const unknownChannel = channels.find(channel => !ALERT_CHANNEL_TYPES.includes(channel as AlertChannelType));
+  if (unknownChannel) {
+    return badRequest(`Unknown channel type: ${unknownChannel}`);
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return badRequest(`limit must be between 1 and ${MAX_LIMIT}`);
+  }
+
+  try {
+    const { deliveries: data, source } = await getAlertDeliveries(limit, delivery =>
+      (!ruleId || delivery.ruleId === ruleId) &&
+      (!status || delivery.status === status) &&
+      (channels.length === 0 || channels.includes(delivery.channel))
+    );
+
+    return NextResponse.json({
+      success: true,
+      data,
+      metadata: {
+        count: data.length,
+        source,
+      },
+    } satisfies AlertDeliveriesResponse);
+  } catch (error) {
+    console.error('[API] Error querying alert deliveries:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        data: [],
+        error: error instanceof Error ? error.message : 'Unknown error',
+      } satisfies AlertDeliveriesResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * API Route: Alert History
+ * Alerts fired by the alert engine (lib/alerts.ts), newest first
+ *
+ *   ?ruleId=...            only one rule
+ *   ?source=trade,coin     only these rule sources
+ *   ?address=0x...         only one wallet
+ *   ?coin=BTC              only one coin
+ *   ?limit=100             at most this many (max 1000)
+ *
+ * Optional ?from= / ?to= (epoch ms) select the range; default is the last 24h.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ALERT_FIELDS } from '@/lib/alert-dsl';
+import { getAlertHistory } from '@/lib/alerts';
+import { isValidAddress } from '@/lib/utils';
+import type { AlertHistoryResponse } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_RANGE_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+/**
+ * Parse an epoch-ms query param, falling back when missing or invalid
+ */
+function parseTime(value: string | null, fallback: number): number {
+  const parsed = value ? Number(value) : NaN;
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+function badRequest(error: string) {
+  return NextResponse.json(
+    { success: false, data: [], error } satisfies AlertHistoryResponse,
+    { status: 400 }
+  );
+}
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const ruleId = params.get('ruleId');
+  const sources = params.get('source')?.split(',').filter(Boolean) ?? [];
+  const address = params.get('address')?.toLowerCase() || null;
+  const coin = params.get('coin');
+  const limit = params.has('limit') ? Number(params.get('limit')) : DEFAULT_LIMIT;
+
+  const to = parseTime(params.get('to'), Date.now());
+  const from = parseTime(params.get('from'), to - DEFAULT_RANGE_MS);
+
+  const unknownSource = sources.find(source => !(source in ALERT_FIELDS));
+  if (unknownSource) {
+    return badRequest(`Unknown alert source: ${unknownSource}`);
+  }
+  if (address && !isValidAddress(address)) {
+    return badRequest('Invalid wallet address');
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return badRequest(`limit must be between 1 and ${MAX_LIMIT}`);
+  }
+  if (from > to) {
+    return badRequest('from must be before to');
+  }
+
+  try {
+    const { events: data, source } = await getAlertHistory(from, to, limit, event =>
+      (!ruleId || event.ruleId === ruleId) &&
+      (sources.length === 0 || sources.includes(event.source)) &&
+      (!address || event.address === address) &&
+      (!coin || event.coin === coin)
+    );
+
+    return NextResponse.json({
+      success: true,
+      data,
+      metadata: {
+        count: data.length,
+        source,
+      },
+    } satisfies AlertHistoryResponse);
+  } catch (error) {
+    console.error('[API] Error querying alert history:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        data: [],
+        error: error instanceof Error ? error.message : 'Unknown error',
+      } satisfies AlertHistoryResponse,
+      { status: 500 }
+    );
+  }
+}
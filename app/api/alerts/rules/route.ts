@@ -0,0 +1,185 @@
+/**
+ * API Route: Alert Rules
+ * Conditions evaluated by the alert engine (lib/alerts.ts, syntax in lib/alert-dsl.ts)
+ *
+ *   GET                                                                  all rules
+ *   POST   { name, source, condition, dedupeMinutes?, enabled?, channels? }  create a rule
+ *   PATCH  { id, name?, condition?, dedupeMinutes?, enabled?, channels? }    update a rule
+ *   DELETE { id }                                                        delete a rule
+ *
+ * channels: [{ type: 'webhook', url } | { type: 'telegram', chatId } |
+ *            { type: 'discord', webhookUrl } | { type: 'email', to }] (lib/notifications.ts)
+ *
+ * Every response carries the full list. Writes need the registry admin token
+ * (REGISTRY_ADMIN_TOKEN); without it, channel destinations are masked.
+ */
+
+import { randomUUID } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { ALERT_FIELDS, validateCondition } from '@/lib/alert-dsl';
+import { deleteAlertRule, getAlertRules, saveAlertRule } from '@/lib/alerts';
+import { parseAlertChannels, redactChannel } from '@/lib/notifications';
+import { isRegistryAuthorized } from '@/lib/registry';
+import type { AlertChannel, AlertRule, AlertRulesResponse, AlertSource } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_NAME_LENGTH = 80;
+const DEFAULT_DEDUPE_MINUTES = 60;
+// At least a minute, so the same trade forwarded by several open dashboards fires once
+const MIN_DEDUPE_MINUTES = 1;
+const MAX_DEDUPE_MINUTES = 7 * 24 * 60;
+
+function errorResponse(error: string, status: number) {
+  return NextResponse.json(
+    { success: false, data: [], error } satisfies AlertRulesResponse,
+    { status }
+  );
+}
+
+async function rulesResponse(request: NextRequest, status = 200) {
+  const rules = await getAlertRules();
+  const data = isRegistryAuthorized(request)
+    ? rules
+    : rules.map(rule => ({ ...rule, channels: rule.channels.map(redactChannel) }));
+
+  return NextResponse.json(
+    { success: true, data } satisfies AlertRulesResponse,
+    { status }
+  );
+}
+
+/**
+ * Optional channel list; returns the parsed channels, undefined when omitted, or an error
+ */
+function readChannels(value: unknown): AlertChannel[] | undefined | string {
+  return value === undefined ? undefined : parseAlertChannels(value);
+}
+
+function isAlertSource(value: unknown): value is AlertSource {
+  return typeof value === 'string' && value in ALERT_FIELDS;
+}
+
+function validateName(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim()) return 'name is required';
+  if (value.trim().length > MAX_NAME_LENGTH) return `name must be at most ${MAX_NAME_LENGTH} characters`;
+  return null;
+}
+
+function validateDedupe(value: unknown): string | null {
+  if (value === undefined) return null;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < MIN_DEDUPE_MINUTES || value > MAX_DEDUPE_MINUTES) {
+    return `dedupeMinutes must be a whole number between ${MIN_DEDUPE_MINUTES} and ${MAX_DEDUPE_MINUTES}`;
+  }
+  return null;
+}
+
+function validateEnabled(value: unknown): string | null {
+  return value === undefined || typeof value === 'boolean' ? null : 'enabled must be a boolean';
+}
+
+/**
+ * Run a write, mapping store failures to 500
+ */
+async function handleWrite(label: string, write: () => Promise<NextResponse>) {
+  try {
+    return await write();
+  } catch (error) {
+    console.error(`[API] Error ${label}:`, error);
+    return errorResponse(error instanceof Error ? error.message : 'Unknown error', 500);
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    return await rulesResponse(request);
+  } catch (error) {
+    console.error('[API] Error loading alert rules:', error);
+    return errorResponse(error instanceof Error ? error.message : 'Unknown error', 500);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  if (!isRegistryAuthorized(request)) return errorResponse('Unauthorized', 401);
+
+  const body = await request.json().catch(() => null);
+  if (!isAlertSource(body?.source)) {
+    return errorResponse(`source must be one of: ${Object.keys(ALERT_FIELDS).join(', ')}`, 400);
+  }
+  const invalid =
+    validateName(body.name) ??
+    (typeof body.condition === 'string' ? validateCondition(body.condition, body.source) : 'condition is required') ??
+    validateDedupe(body.dedupeMinutes) ??
+    validateEnabled(body.enabled);
+  if (invalid) return errorResponse(invalid, 400);
+  const channels = readChannels(body.channels);
+  if (typeof channels === 'string') return errorResponse(channels, 400);
+
+  return handleWrite('creating alert rule', async () => {
+    const now = Date.now();
+    await saveAlertRule({
+      id: randomUUID(),
+      name: body.name.trim(),
+      source: body.source,
+      condition: body.condition.trim(),
+      dedupeMinutes: body.dedupeMinutes ?? DEFAULT_DEDUPE_MINUTES,
+      enabled: body.enabled ?? true,
+      channels: channels ?? [],
+      createdAt: now,
+      updatedAt: now,
+    });
+    return rulesResponse(request, 201);
+  });
+}
+
+export async function PATCH(request: NextRequest) {
+  if (!isRegistryAuthorized(request)) return errorResponse('Unauthorized', 401);
+
+  const body = await request.json().catch(() => null);
+  if (typeof body?.id !== 'string') {
+    return errorResponse('Body must be { id, name?, condition?, dedupeMinutes?, enabled?, channels? }', 400);
+  }
+  const invalid =
+    (body.name !== undefined ? validateName(body.name) : null) ??
+    (body.condition !== undefined && typeof body.condition !== 'string' ? 'condition must be a string' : null) ??
+    validateDedupe(body.dedupeMinutes) ??
+    validateEnabled(body.enabled);
+  if (invalid) return errorResponse(invalid, 400);
+  const channels = readChannels(body.channels);
+  if (typeof channels === 'string') return errorResponse(channels, 400);
+
+  return handleWrite('updating alert rule', async () => {
+    const existing = (await getAlertRules()).find(rule => rule.id === body.id);
+    if (!existing) return errorResponse(`Alert rule not found: ${body.id}`, 404);
+
+    // The source is fixed per rule, so the condition is checked against it here
+    const conditionError = body.condition !== undefined ? validateCondition(body.condition, existing.source) : null;
+    if (conditionError) return errorResponse(conditionError, 400);
+
+    const updated: AlertRule = {
+      ...existing,
+      name: body.name?.trim() ?? existing.name,
+      condition: body.condition?.trim() ?? existing.condition,
+      dedupeMinutes: body.dedupeMinutes ?? existing.dedupeMinutes,
+      enabled: body.enabled ?? existing.enabled,
+      channels: channels ?? existing.channels,
+      updatedAt: Date.now(),
+    };
+    await saveAlertRule(updated);
+    return rulesResponse(request);
+  });
+}
+
+export async function DELETE(request: NextRequest) {
+  if (!isRegistryAuthorized(request)) return errorResponse('Unauthorized', 401);
+
+  const body = await request.json().catch(() => null);
+  if (typeof body?.id !== 'string') return errorResponse('Body must be { id }', 400);
+
+  return handleWrite('deleting alert rule', async () => {
+    if (!(await deleteAlertRule(body.id))) {
+      return errorResponse(`Alert rule not found: ${body.id}`, 404);
+    }
+    return rulesResponse(request);
+  });
+}
@@ -0,0 +1,54 @@
+/**
+ * API Route: Test Alert Delivery
+ * POST { channel } sends a sample alert through one channel and returns the delivery,
+ * so a destination can be checked before a rule fires. Uses the registry admin token.
+ */
+
+import { randomUUID } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { deliverAlerts, parseAlertChannels } from '@/lib/notifications';
+import { isRegistryAuthorized } from '@/lib/registry';
+import type { AlertDeliveriesResponse, AlertEvent, AlertRule } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+function errorResponse(error: string, status: number) {
+  return NextResponse.json(
+    { success: false, data: [], error } satisfies AlertDeliveriesResponse,
+    { status }
+  );
+}
+
+export async function POST(request: NextRequest) {
+  if (!isRegistryAuthorized(request)) return errorResponse('Unauthorized', 401);
+
+  const body = await request.json().catch(() => null);
+  if (!body?.channel) return errorResponse('Body must be { channel }', 400);
+  const channels = parseAlertChannels([body.channel]);
+  if (typeof channels === 'string') return errorResponse(channels.replace('channels[0]: ', ''), 400);
+
+  const now = Date.now();
+  const rule: AlertRule = {
+    id: 'test',
+    name: 'Test alert',
+    source: 'trade',
+    condition: 'true',
+    dedupeMinutes: 1,
+    enabled: true,
+    channels,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const alert: AlertEvent = {
+    id: randomUUID(),
+    ruleId: rule.id,
+    ruleName: rule.name,
+    source: rule.source,
+    subject: 'test',
+    message: 'Test alert from Smart-HL — this channel is set up correctly',
+    timestamp: now,
+  };
+
+  const data = await deliverAlerts([alert], [rule]);
+  return NextResponse.json({ success: true, data } satisfies AlertDeliveriesResponse);
+}
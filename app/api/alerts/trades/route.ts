@@ -0,0 +1,64 @@
+/**
+ * API Route: Trade Alert Ingest
+ * Trade rules also run on each stats refresh; open dashboards forward tracked-wallet
+ * and whale trades from the live tape here so they fire sooner (lib/alerts.ts)
+ *
+ *   POST { trades: { id, walletAddress }[] }   evaluate, record and return fired alerts
+ *
+ * Requires the registry admin token (isRegistryAuthorized). Nothing else from the client
+ * is trusted: each trade must be found in the wallet's recent fills on Hyperliquid, which
+ * supply coin, side, price and size. Tracked status, names, tiers and tags come from the
+ * server's registry.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { evaluateTradeAlerts, type ForwardedTrade } from '@/lib/alerts';
+import { isRegistryAuthorized } from '@/lib/registry';
+import { isValidAddress } from '@/lib/utils';
+import type { AlertIngestResponse } from '@/types';
+
+export const dynamic = 'force-dynamic';
+// Covers the Hyperliquid lookups; fired alerts are delivered after responding (waitUntil)
+export const maxDuration = 60;
+
+const MAX_BATCH_SIZE = 500;
+
+function errorResponse(error: string, status: number) {
+  return NextResponse.json(
+    { success: false, data: [], error } satisfies AlertIngestResponse,
+    { status }
+  );
+}
+
+function isTrade(value: unknown): value is ForwardedTrade {
+  const trade = value as Partial<ForwardedTrade> | null;
+  return (
+    typeof trade?.walletAddress === 'string' &&
+    isValidAddress(trade.walletAddress) &&
+    typeof trade.id === 'string'
+  );
+}
+
+export async function POST(request: NextRequest) {
+  if (!isRegistryAuthorized(request)) return errorResponse('Unauthorized', 401);
+
+  const body = await request.json().catch(() => null);
+  if (!Array.isArray(body?.trades)) {
+    return errorResponse('Body must be { trades: { id, walletAddress }[] }', 400);
+  }
+  if (body.trades.length > MAX_BATCH_SIZE) {
+    return errorResponse(`At most ${MAX_BATCH_SIZE} trades per batch`, 400);
+  }
+  const invalidIndex = body.trades.findIndex((trade: unknown) => !isTrade(trade));
+  if (invalidIndex !== -1) {
+    return errorResponse(`Invalid trade at index ${invalidIndex}`, 400);
+  }
+
+  try {
+    const data = await evaluateTradeAlerts(body.trades);
+    return NextResponse.json({ success: true, data } satisfies AlertIngestResponse);
+  } catch (error) {
+    console.error('[API] Error evaluating trade alerts:', error);
+    return errorResponse(error instanceof Error ? error.message : 'Unknown error', 500);
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * API Route: Score Discovery Candidates
+ * Fetches fills for untracked addresses seen on the live tape and computes the
+ * same PnL / win-rate metrics as /api/wallets/stats, plus a rank score (lib/discovery.ts)
+ *
+ *   POST { candidates: [{ address, largeTrades? }] }   (max MAX_DISCOVERY_SCORE_BATCH)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { MAX_DISCOVERY_SCORE_BATCH, toDiscoveryScore } from '@/lib/discovery';
+import { fetchAllMids, fetchWalletStats } from '@/lib/hyperliquid';
+import { isValidAddress } from '@/lib/utils';
+import type { DiscoveryScore, DiscoveryScoreResponse } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+const CONCURRENCY = 5; // Wallets fetched in parallel
+
+interface ScoreInput {
+  address: string;
+  largeTrades?: number;
+}
+
+function badRequest(error: string) {
+  return NextResponse.json(
+    { success: false, data: [], error } satisfies DiscoveryScoreResponse,
+    { status: 400 }
+  );
+}
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const inputs = body?.candidates as ScoreInput[] | undefined;
+
+  if (!Array.isArray(inputs) || inputs.length === 0) {
+    return badRequest('Body must be { candidates: [{ address, largeTrades? }] }');
+  }
+  if (inputs.length > MAX_DISCOVERY_SCORE_BATCH) {
+    return badRequest(`At most ${MAX_DISCOVERY_SCORE_BATCH} candidates per request`);
+  }
+  const invalid = inputs.find(input => typeof input?.address !== 'string' || !isValidAddress(input.address));
+  if (invalid) return badRequest(`Invalid wallet address: ${String(invalid?.address)}`);
+
+  try {
+    const mids = await fetchAllMids();
+    const data: DiscoveryScore[] = [];
+
+    for (let i = 0; i < inputs.length; i += CONCURRENCY) {
+      const chunk = inputs.slice(i, i + CONCURRENCY);
+      const stats = await Promise.all(
+        chunk.map(input => fetchWalletStats(input.address.toLowerCase(), mids))
+      );
+      stats.forEach((walletStats, j) => {
+        data.push(toDiscoveryScore(walletStats, Number(chunk[j].largeTrades) || 0));
+      });
+    }
+
+    console.log(`[API] Scored ${data.length} discovery candidates`);
+    return NextResponse.json({ success: true, data } satisfies DiscoveryScoreResponse);
+  } catch (error) {
+    console.error('[API] Error scoring discovery candidates:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: [],
+        error: error instanceof Error ? error.message : 'Unknown error',
+      } satisfies DiscoveryScoreResponse,
+      { status: 500 }
+    );
+  }
+}
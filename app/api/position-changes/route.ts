@@ -0,0 +1,88 @@
+/**
+ * API Route: Position Changes
+ * Opened / increased / reduced / closed / flipped positions between consecutive
+ * stats snapshots, newest first
+ *
+ *   ?address=0x...          only one wallet
+ *   ?coin=BTC               only one coin
+ *   ?type=opened,flipped    only these change types
+ *
+ * Optional ?from= / ?to= (epoch ms) select the range; default is the last 24h.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getPositionChanges } from '@/lib/snapshots';
+import { isValidAddress } from '@/lib/utils';
+import type { PositionChangeType, PositionChangesResponse } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_RANGE_MS = 24 * 60 * 60 * 1000;
+
+const CHANGE_TYPES: PositionChangeType[] = ['opened', 'increased', 'reduced', 'closed', 'flipped'];
+
+/**
+ * Parse an epoch-ms query param, falling back when missing or invalid
+ */
+function parseTime(value: string | null, fallback: number): number {
+  const parsed = value ? Number(value) : NaN;
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+function badRequest(error: string) {
+  return NextResponse.json(
+    { success: false, data: [], error } satisfies PositionChangesResponse,
+    { status: 400 }
+  );
+}
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const address = params.get('address')?.toLowerCase() || null;
+  const coin = params.get('coin');
+  const types = params.get('type')?.split(',').filter(Boolean) ?? [];
+
+  const to = parseTime(params.get('to'), Date.now());
+  const from = parseTime(params.get('from'), to - DEFAULT_RANGE_MS);
+
+  if (address && !isValidAddress(address)) {
+    return badRequest('Invalid wallet address');
+  }
+  const unknownType = types.find(type => !CHANGE_TYPES.includes(type as PositionChangeType));
+  if (unknownType) {
+    return badRequest(`Unknown change type: ${unknownType}`);
+  }
+  if (from > to) {
+    return badRequest('from must be before to');
+  }
+
+  try {
+    const { changes: data, source } = await getPositionChanges(from, to, change =>
+      (!address || change.address === address) &&
+      (!coin || change.coin === coin) &&
+      (types.length === 0 || types.includes(change.type))
+    );
+
+    return NextResponse.json({
+      success: true,
+      data,
+      metadata: {
+        from,
+        to,
+        count: data.length,
+        source,
+      },
+    } satisfies PositionChangesResponse);
+  } catch (error) {
+    console.error('[API] Error querying position changes:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        data: [],
+        error: error instanceof Error ? error.message : 'Unknown error',
+      } satisfies PositionChangesResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * API Route: Wallet Registry Export
+ * Downloads the tracked wallets with their labels and the latest stats snapshot
+ *
+ *   ?format=csv (default) | json
+ *
+ * Stats come from the newest persisted snapshot (lib/snapshots.ts); wallets
+ * added since then export with empty stats.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getWalletRegistry } from '@/lib/cache';
+import { toExportCsv, toExportWallets } from '@/lib/registry';
+import { getLatestSnapshot } from '@/lib/snapshots';
+import type { RegistryExport, StatsSnapshot } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const format = request.nextUrl.searchParams.get('format') ?? 'csv';
+  if (format !== 'csv' && format !== 'json') {
+    return NextResponse.json(
+      { success: false, error: `Invalid format: ${format} (expected csv or json)` },
+      { status: 400 }
+    );
+  }
+
+  const { data } = await getWalletRegistry();
+
+  // Export the registry even when the snapshot store is unavailable
+  let snapshot: StatsSnapshot | null = null;
+  try {
+    snapshot = await getLatestSnapshot();
+  } catch (error) {
+    console.error('[API] Error loading latest snapshot for export:', error);
+  }
+
+  const wallets = toExportWallets(data, snapshot);
+  const filename = `smart-hl-wallets-${new Date().toISOString().slice(0, 10)}.${format}`;
+  const headers = {
+    'Content-Disposition': `attachment; filename="${filename}"`,
+    'Cache-Control': 'no-store',
+  };
+
+  if (format === 'json') {
+    return NextResponse.json(
+      {
+        exportedAt: Date.now(),
+        statsTimestamp: snapshot?.timestamp ?? null,
+        wallets,
+      } satisfies RegistryExport,
+      { headers }
+    );
+  }
+
+  return new NextResponse(toExportCsv(wallets), {
+    headers: { ...headers, 'Content-Type': 'text/csv; charset=utf-8' },
+  });
+}
@@ -0,0 +1,95 @@
+/**
+ * API Route: Wallet Registry Bulk Import
+ * Validates a CSV / JSON / plain address list against the registry (lib/registry.ts)
+ *
+ *   POST { content, format?, mode?, apply? }
+ *
+ * format: 'csv' | 'json' | 'text' (detected when omitted)
+ * mode:   'merge' (default) adds / updates only; 'replace' also removes wallets missing from the import
+ * apply:  false (default) returns the preview only; true writes it
+ *
+ * Applying requires the admin token (REGISTRY_ADMIN_TOKEN, see isRegistryAuthorized).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getWalletRegistry, removeRegistryWallets, upsertRegistryWallets } from '@/lib/cache';
+import { isRegistryAuthorized, parseRegistryImport, planRegistryImport } from '@/lib/registry';
+import type { RegistryImportFormat, RegistryImportMode, RegistryImportResponse } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+const IMPORT_FORMATS: RegistryImportFormat[] = ['csv', 'json', 'text'];
+const IMPORT_MODES: RegistryImportMode[] = ['merge', 'replace'];
+
+// Guard against pasting something unrelated and huge
+const MAX_IMPORT_BYTES = 2 * 1024 * 1024;
+
+function errorResponse(error: string, status: number) {
+  return NextResponse.json(
+    { success: false, data: null, applied: false, error } satisfies RegistryImportResponse,
+    { status }
+  );
+}
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const content = body?.content;
+  const format = body?.format as RegistryImportFormat | undefined;
+  const mode = (body?.mode ?? 'merge') as RegistryImportMode;
+  const apply = body?.apply === true;
+
+  if (typeof content !== 'string' || !content.trim()) {
+    return errorResponse('Body must be { content, format?, mode?, apply? }', 400);
+  }
+  if (content.length > MAX_IMPORT_BYTES) {
+    return errorResponse(`Import too large (max ${MAX_IMPORT_BYTES / 1024 / 1024} MB)`, 400);
+  }
+  if (format !== undefined && !IMPORT_FORMATS.includes(format)) {
+    return errorResponse(`Invalid format: ${String(format)} (expected ${IMPORT_FORMATS.join(', ')})`, 400);
+  }
+  if (!IMPORT_MODES.includes(mode)) {
+    return errorResponse(`Invalid mode: ${String(mode)} (expected ${IMPORT_MODES.join(', ')})`, 400);
+  }
+  if (apply && !isRegistryAuthorized(request)) {
+    return errorResponse('Unauthorized', 401);
+  }
+
+  let parsed: ReturnType<typeof parseRegistryImport>;
+  try {
+    parsed = parseRegistryImport(content, format);
+  } catch (error) {
+    return errorResponse(`Could not parse import: ${error instanceof Error ? error.message : 'Unknown error'}`, 400);
+  }
+
+  // Replacing with an empty list would wipe the registry
+  if (mode === 'replace' && parsed.wallets.length === 0) {
+    return errorResponse('Import has no valid wallets; refusing to replace the registry', 400);
+  }
+
+  try {
+    const { data } = await getWalletRegistry();
+    const { preview, entries } = planRegistryImport(data, parsed, mode);
+
+    if (!apply) {
+      return NextResponse.json({ success: true, data: preview, applied: false } satisfies RegistryImportResponse);
+    }
+
+    let metadata = await upsertRegistryWallets(entries);
+    if (preview.removes.length > 0) {
+      metadata = await removeRegistryWallets(preview.removes);
+    }
+    console.log(
+      `[API] Registry import (${mode}): +${preview.adds.length} ~${preview.updates.length} -${preview.removes.length}`
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: preview,
+      applied: true,
+      metadata,
+    } satisfies RegistryImportResponse);
+  } catch (error) {
+    console.error('[API] Error importing registry wallets:', error);
+    return errorResponse(error instanceof Error ? error.message : 'Unknown error', 500);
+  }
+}
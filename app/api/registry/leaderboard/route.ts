@@ -0,0 +1,158 @@
+/**
+ * API Route: Leaderboard Seeding
+ * Proposes registry additions from the Hyperliquid leaderboard (lib/leaderboard.ts)
+ *
+ *   GET  ?minAccountValue=&minPnl30d=&minRoi30d=&minVolume30d=&limit=   preview
+ *   POST { ...thresholds, addresses? }   add the proposed wallets (or the given subset)
+ *
+ * Omitted thresholds use DEFAULT_LEADERBOARD_THRESHOLDS. Adding requires the
+ * registry admin token (isRegistryAuthorized).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getWalletRegistry, upsertRegistryWallets } from '@/lib/cache';
+import { DEFAULT_LEADERBOARD_THRESHOLDS, fetchLeaderboard, filterLeaderboard } from '@/lib/leaderboard';
+import { isRegistryAuthorized, toRegistryEntry } from '@/lib/registry';
+import { formatUSD } from '@/lib/utils';
+import type {
+  LeaderboardCandidate,
+  LeaderboardEntry,
+  LeaderboardResponse,
+  LeaderboardThresholds,
+  SmartWalletMap,
+} from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_LIMIT = 500;
+const LEADERBOARD_LABEL = 'HL Leaderboard';
+const LEADERBOARD_TAG = 'leaderboard';
+
+function errorResponse(error: string, status: number) {
+  return NextResponse.json(
+    { success: false, data: null, applied: false, error } satisfies LeaderboardResponse,
+    { status }
+  );
+}
+
+/**
+ * Read thresholds from query params or a JSON body; returns an error message on bad input
+ */
+function parseThresholds(read: (key: keyof LeaderboardThresholds) => unknown): LeaderboardThresholds | string {
+  const thresholds = { ...DEFAULT_LEADERBOARD_THRESHOLDS };
+
+  for (const key of Object.keys(thresholds) as (keyof LeaderboardThresholds)[]) {
+    const raw = read(key);
+    if (raw === undefined || raw === null || raw === '') continue;
+    const value = Number(raw);
+    if (!Number.isFinite(value)) return `${key} must be a number`;
+    thresholds[key] = value;
+  }
+
+  if (thresholds.limit < 1 || thresholds.limit > MAX_LIMIT) {
+    return `limit must be between 1 and ${MAX_LIMIT}`;
+  }
+  return thresholds;
+}
+
+/**
+ * Registry entry for a leaderboard wallet, noting what qualified it
+ */
+function toLeaderboardEntry(row: LeaderboardEntry) {
+  return toRegistryEntry({
+    address: row.address,
+    labels: [row.displayName || LEADERBOARD_LABEL],
+    tags: [LEADERBOARD_TAG],
+    notes: `Leaderboard ${new Date().toISOString().slice(0, 10)}: ` +
+      `30D PnL ${formatUSD(row.pnl30d)}, ROI ${row.roi30d.toFixed(1)}%, ` +
+      `account ${formatUSD(row.accountValue)}`,
+  });
+}
+
+/**
+ * Filter the leaderboard and mark rows already in the registry
+ */
+async function buildCandidates(thresholds: LeaderboardThresholds) {
+  const [{ rows, fetchedAt }, registry] = await Promise.all([fetchLeaderboard(), getWalletRegistry()]);
+  const candidates: LeaderboardCandidate[] = filterLeaderboard(rows, thresholds).map(row => ({
+    ...row,
+    tracked: row.address in registry.data,
+  }));
+
+  return {
+    candidates,
+    adds: candidates.filter(candidate => !candidate.tracked).map(candidate => candidate.address),
+    totalRows: rows.length,
+    fetchedAt,
+  };
+}
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const thresholds = parseThresholds(key => params.get(key));
+  if (typeof thresholds === 'string') return errorResponse(thresholds, 400);
+
+  try {
+    const { candidates, adds, totalRows, fetchedAt } = await buildCandidates(thresholds);
+    return NextResponse.json({
+      success: true,
+      data: { candidates, adds },
+      applied: false,
+      metadata: { totalRows, fetchedAt },
+    } satisfies LeaderboardResponse);
+  } catch (error) {
+    console.error('[API] Error loading leaderboard:', error);
+    return errorResponse(error instanceof Error ? error.message : 'Unknown error', 502);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  if (!isRegistryAuthorized(request)) return errorResponse('Unauthorized', 401);
+
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== 'object') {
+    return errorResponse('Body must be { ...thresholds, addresses? }', 400);
+  }
+  const thresholds = parseThresholds(key => body[key]);
+  if (typeof thresholds === 'string') return errorResponse(thresholds, 400);
+  if (body.addresses !== undefined && !Array.isArray(body.addresses)) {
+    return errorResponse('addresses must be an array', 400);
+  }
+
+  try {
+    const { candidates, totalRows, fetchedAt } = await buildCandidates(thresholds);
+
+    // Only wallets that are actually proposed can be added through this route
+    const selected = body.addresses
+      ? new Set((body.addresses as unknown[]).map(address => String(address).toLowerCase()))
+      : null;
+    const toAdd = candidates.filter(candidate =>
+      !candidate.tracked && (!selected || selected.has(candidate.address))
+    );
+    if (toAdd.length === 0) {
+      return errorResponse('No proposed wallets to add', 400);
+    }
+
+    const entries: SmartWalletMap = Object.fromEntries(
+      toAdd.map(candidate => [candidate.address, toLeaderboardEntry(candidate)])
+    );
+    const registry = await upsertRegistryWallets(entries);
+    console.log(`[API] Added ${toAdd.length} leaderboard wallets to the registry`);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        candidates: candidates.map(candidate => ({
+          ...candidate,
+          tracked: candidate.tracked || candidate.address in entries,
+        })),
+        adds: toAdd.map(candidate => candidate.address),
+      },
+      applied: true,
+      metadata: { totalRows, fetchedAt, registry },
+    } satisfies LeaderboardResponse);
+  } catch (error) {
+    console.error('[API] Error adding leaderboard wallets:', error);
+    return errorResponse(error instanceof Error ? error.message : 'Unknown error', 500);
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * API Route: Wallet Registry
+ * CRUD for the tracked Smart Money wallets (lib/cache.ts)
+ *
+ *   GET                                   all wallets
+ *   POST   { wallets: [{ address, labels?, tier?, tags?, notes? }] }   add or update wallets
+ *   PATCH  { address, labels?, tier?, tags?, notes? }    edit one existing wallet
+ *   DELETE { addresses: ["0x..."] }       remove wallets
+ *
+ * Writes require `Authorization: Bearer <REGISTRY_ADMIN_TOKEN>`; with no token set they are
+ * refused in production and open in development.
+ * Bulk import / export: ./import and ./export
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getWalletRegistry, removeRegistryWallets, upsertRegistryWallets } from '@/lib/cache';
+import { isRegistryAuthorized, toRegistryEntry, validateRegistryInput } from '@/lib/registry';
+import { isValidAddress } from '@/lib/utils';
+import type {
+  RegistryMetadata,
+  RegistryResponse,
+  RegistryWalletInput,
+  SmartWalletMap,
+} from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+function errorResponse(error: string, status: number) {
+  return NextResponse.json(
+    { success: false, data: {}, error } satisfies RegistryResponse,
+    { status }
+  );
+}
+
+async function registryResponse(metadata?: RegistryMetadata) {
+  const registry = await getWalletRegistry();
+  return NextResponse.json({
+    success: true,
+    data: registry.data,
+    metadata: metadata ?? registry.metadata,
+  } satisfies RegistryResponse);
+}
+
+/**
+ * Run a write, mapping store failures to 500
+ */
+async function handleWrite(label: string, write: () => Promise<NextResponse>) {
+  try {
+    return await write();
+  } catch (error) {
+    console.error(`[API] Error ${label}:`, error);
+    return errorResponse(error instanceof Error ? error.message : 'Unknown error', 500);
+  }
+}
+
+export async function GET() {
+  return registryResponse();
+}
+
+export async function POST(request: NextRequest) {
+  if (!isRegistryAuthorized(request)) return errorResponse('Unauthorized', 401);
+
+  const body = await request.json().catch(() => null);
+  const inputs = body?.wallets as RegistryWalletInput[] | undefined;
+  if (!Array.isArray(inputs) || inputs.length === 0) {
+    return errorResponse('Body must be { wallets: [{ address, labels?, tier?, tags?, notes? }] }', 400);
+  }
+
+  const invalid = inputs.map(validateRegistryInput).find(Boolean);
+  if (invalid) return errorResponse(invalid, 400);
+
+  return handleWrite('adding registry wallets', async () => {
+    const { data } = await getWalletRegistry();
+    const entries: SmartWalletMap = {};
+    for (const input of inputs) {
+      const address = input.address.toLowerCase();
+      entries[address] = toRegistryEntry(input, entries[address] ?? data[address]);
+    }
+    return registryResponse(await upsertRegistryWallets(entries));
+  });
+}
+
+export async function PATCH(request: NextRequest) {
+  if (!isRegistryAuthorized(request)) return errorResponse('Unauthorized', 401);
+
+  const input = (await request.json().catch(() => null)) as RegistryWalletInput | null;
+  const invalid = input ? validateRegistryInput(input) : 'Body must be { address, labels?, tier?, tags?, notes? }';
+  if (invalid || !input) return errorResponse(invalid ?? 'Invalid body', 400);
+
+  return handleWrite('updating registry wallet', async () => {
+    const address = input.address.toLowerCase();
+    const { data } = await getWalletRegistry();
+    if (!data[address]) return errorResponse(`Wallet not in registry: ${address}`, 404);
+
+    return registryResponse(await upsertRegistryWallets({ [address]: toRegistryEntry(input, data[address]) }));
+  });
+}
+
+export async function DELETE(request: NextRequest) {
+  if (!isRegistryAuthorized(request)) return errorResponse('Unauthorized', 401);
+
+  const body = await request.json().catch(() => null);
+  const addresses = body?.addresses as string[] | undefined;
+  if (!Array.isArray(addresses) || addresses.length === 0) {
+    return errorResponse('Body must be { addresses: ["0x..."] }', 400);
+  }
+  const invalid = addresses.find(address => typeof address !== 'string' || !isValidAddress(address));
+  if (invalid !== undefined) return errorResponse(`Invalid wallet address: ${String(invalid)}`, 400);
+
+  return handleWrite('removing registry wallets', async () =>
+    registryResponse(await removeRegistryWallets(addresses.map(address => address.toLowerCase())))
+  );
+}
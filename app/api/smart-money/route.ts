@@ -1,42 +1,39 @@
 /**
  * API Route: Get Smart Money Wallets
- * Returns the static list of Smart Money wallet addresses
- * 
- * DATA SOURCE: lib/data/static-wallets.ts (STATIC_SMART_WALLETS)
+ * Returns the tracked Smart Money wallets from the wallet registry
+ *
+ * DATA SOURCE: lib/cache.ts (KV / memory, seeded from lib/data/static-wallets.ts)
  */
 
 import { NextResponse } from 'next/server';
-import { STATIC_SMART_WALLETS } from '@/lib/data/static-wallets';
+import { getWalletRegistry } from '@/lib/cache';
+import type { RegistryResponse } from '@/types';
 
-// Force static generation for instant response
-export const dynamic = 'force-static';
+// The registry is editable at runtime
+export const dynamic = 'force-dynamic';
 
 export async function GET() {
-  const walletCount = Object.keys(STATIC_SMART_WALLETS).length;
-  
+  const { data, metadata } = await getWalletRegistry();
+
   return NextResponse.json({
     success: true,
-    data: STATIC_SMART_WALLETS,
-    metadata: {
-      lastUpdated: Date.now(),
-      walletCount,
-      source: 'static' as const,
-    },
-  });
+    data,
+    metadata,
+  } satisfies RegistryResponse);
 }
 
 /**
  * Get wallet count only (lighter endpoint)
  */
 export async function HEAD() {
-  const walletCount = Object.keys(STATIC_SMART_WALLETS).length;
-  
+  const { metadata } = await getWalletRegistry();
+
   return new NextResponse(null, {
     status: 200,
     headers: {
-      'X-Cache-Last-Updated': Date.now().toString(),
-      'X-Cache-Wallet-Count': walletCount.toString(),
-      'X-Cache-Source': 'static',
+      'X-Cache-Last-Updated': metadata.lastUpdated.toString(),
+      'X-Cache-Wallet-Count': metadata.walletCount.toString(),
+      'X-Cache-Source': metadata.source,
     },
   });
 }
@@ -0,0 +1,97 @@
+/**
+ * API Route: Wallet Stats History
+ * Queries persisted stats snapshots
+ *
+ *   ?address=0x...   one wallet's exposure/PnL over time
+ *   ?coin=BTC        tracked-wallet exposure to one coin over time
+ *   (neither)        combined long/short totals over time
+ *
+ * Optional ?from= / ?to= (epoch ms) select the range; default is the last 24h.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getCoinHistory,
+  getStatsSnapshots,
+  getTotalsHistory,
+  getWalletHistory,
+} from '@/lib/snapshots';
+import { isValidAddress } from '@/lib/utils';
+import type {
+  CoinHistoryPoint,
+  SnapshotHistoryResponse,
+  SnapshotTotalsPoint,
+  WalletHistoryPoint,
+} from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_RANGE_MS = 24 * 60 * 60 * 1000;
+
+type HistoryPoint = WalletHistoryPoint | CoinHistoryPoint | SnapshotTotalsPoint;
+
+/**
+ * Parse an epoch-ms query param, falling back when missing or invalid
+ */
+function parseTime(value: string | null, fallback: number): number {
+  const parsed = value ? Number(value) : NaN;
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+function badRequest(error: string) {
+  return NextResponse.json(
+    { success: false, data: [], error } satisfies SnapshotHistoryResponse<HistoryPoint>,
+    { status: 400 }
+  );
+}
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const address = params.get('address')?.toLowerCase() || null;
+  const coin = params.get('coin');
+
+  const to = parseTime(params.get('to'), Date.now());
+  const from = parseTime(params.get('from'), to - DEFAULT_RANGE_MS);
+
+  if (address && coin) {
+    return badRequest('Pass either address or coin, not both');
+  }
+  if (address && !isValidAddress(address)) {
+    return badRequest('Invalid wallet address');
+  }
+  if (from > to) {
+    return badRequest('from must be before to');
+  }
+
+  try {
+    const { snapshots, source } = await getStatsSnapshots(from, to);
+
+    const data: HistoryPoint[] = address
+      ? getWalletHistory(snapshots, address)
+      : coin
+      ? getCoinHistory(snapshots, coin)
+      : getTotalsHistory(snapshots);
+
+    return NextResponse.json({
+      success: true,
+      data,
+      metadata: {
+        from,
+        to,
+        count: data.length,
+        source,
+      },
+    } satisfies SnapshotHistoryResponse<HistoryPoint>);
+  } catch (error) {
+    console.error('[API] Error querying snapshots:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        data: [],
+        error: error instanceof Error ? error.message : 'Unknown error',
+      } satisfies SnapshotHistoryResponse<HistoryPoint>,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * API Route: Get Wallet Detail
+ * WalletStats plus positions (leverage, margin), recent fills, open orders
+ * and funding history for any address, tracked or not
+ */
+
+import { NextResponse } from 'next/server';
+import { unstable_cache } from 'next/cache';
+import { isTrackedWallet } from '@/lib/cache';
+import { fetchWalletDetail } from '@/lib/hyperliquid';
+import { isValidAddress } from '@/lib/utils';
+import type { WalletDetailResponse } from '@/types';
+
+const CACHE_TTL = 60; // 1 minute in seconds
+
+/**
+ * Cached per-address detail (the address is part of the cache key)
+ * Throws on failure so errors are not cached
+ */
+const getCachedWalletDetail = unstable_cache(
+  async (address: string) => {
+    const detail = await fetchWalletDetail(address);
+    if (!detail) {
+      throw new Error('Failed to fetch wallet state from Hyperliquid');
+    }
+    return detail;
+  },
+  ['wallet-detail'],
+  {
+    revalidate: CACHE_TTL,
+    tags: ['wallet-detail'],
+  }
+);
+
+/**
+ * GET handler - Returns detail for a single wallet
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: { address: string } }
+) {
+  const address = params.address.toLowerCase();
+
+  if (!isValidAddress(address)) {
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: 'Invalid wallet address',
+      } satisfies WalletDetailResponse,
+      { status: 400 }
+    );
+  }
+
+  try {
+    const [detail, tracked] = await Promise.all([
+      getCachedWalletDetail(address),
+      isTrackedWallet(address),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...detail,
+        tracked,
+      },
+    } satisfies WalletDetailResponse);
+  } catch (error) {
+    console.error(`[API] Error fetching wallet detail for ${address}:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      } satisfies WalletDetailResponse,
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * API Route: Watchlists
+ * Named subsets of the tracked wallets (lib/watchlists.ts)
+ *
+ *   GET                                          all watchlists
+ *   POST   { name, addresses? }                  create a watchlist
+ *   PATCH  { id, name?, addresses?, add?, remove? }   rename / replace / add / remove wallets
+ *   DELETE { id }                                delete a watchlist
+ *
+ * Every response carries the full list. Writes need the registry admin token
+ * (REGISTRY_ADMIN_TOKEN).
+ */
+
+import { randomUUID } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { isRegistryAuthorized } from '@/lib/registry';
+import { isValidAddress } from '@/lib/utils';
+import { deleteWatchlist, getWatchlists, saveWatchlist } from '@/lib/watchlists';
+import type { Watchlist, WatchlistsResponse } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_NAME_LENGTH = 60;
+
+function errorResponse(error: string, status: number) {
+  return NextResponse.json(
+    { success: false, data: [], error } satisfies WatchlistsResponse,
+    { status }
+  );
+}
+
+async function watchlistsResponse(status = 200) {
+  return NextResponse.json(
+    { success: true, data: await getWatchlists() } satisfies WatchlistsResponse,
+    { status }
+  );
+}
+
+/**
+ * Validate an optional address list; returns an error message or null
+ */
+function validateAddresses(value: unknown, field: string): string | null {
+  if (value === undefined) return null;
+  if (!Array.isArray(value)) return `${field} must be an array of addresses`;
+  const invalid = value.find(address => typeof address !== 'string' || !isValidAddress(address));
+  return invalid !== undefined ? `Invalid wallet address in ${field}: ${String(invalid)}` : null;
+}
+
+function validateName(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim()) return 'name is required';
+  if (value.trim().length > MAX_NAME_LENGTH) return `name must be at most ${MAX_NAME_LENGTH} characters`;
+  return null;
+}
+
+function normalizeAddresses(addresses: string[]): string[] {
+  return Array.from(new Set(addresses.map(address => address.toLowerCase())));
+}
+
+/**
+ * Run a write, mapping store failures to 500
+ */
+async function handleWrite(label: string, write: () => Promise<NextResponse>) {
+  try {
+    return await write();
+  } catch (error) {
+    console.error(`[API] Error ${label}:`, error);
+    return errorResponse(error instanceof Error ? error.message : 'Unknown error', 500);
+  }
+}
+
+export async function GET() {
+  try {
+    return await watchlistsResponse();
+  } catch (error) {
+    console.error('[API] Error loading watchlists:', error);
+    return errorResponse(error instanceof Error ? error.message : 'Unknown error', 500);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  if (!isRegistryAuthorized(request)) return errorResponse('Unauthorized', 401);
+
+  const body = await request.json().catch(() => null);
+  const invalid = validateName(body?.name) ?? validateAddresses(body?.addresses, 'addresses');
+  if (invalid) return errorResponse(invalid, 400);
+
+  return handleWrite('creating watchlist', async () => {
+    const now = Date.now();
+    await saveWatchlist({
+      id: randomUUID(),
+      name: body.name.trim(),
+      addresses: normalizeAddresses(body.addresses ?? []),
+      createdAt: now,
+      updatedAt: now,
+    });
+    return watchlistsResponse(201);
+  });
+}
+
+export async function PATCH(request: NextRequest) {
+  if (!isRegistryAuthorized(request)) return errorResponse('Unauthorized', 401);
+
+  const body = await request.json().catch(() => null);
+  if (typeof body?.id !== 'string') {
+    return errorResponse('Body must be { id, name?, addresses?, add?, remove? }', 400);
+  }
+  const invalid =
+    (body.name !== undefined ? validateName(body.name) : null) ??
+    validateAddresses(body.addresses, 'addresses') ??
+    validateAddresses(body.add, 'add') ??
+    validateAddresses(body.remove, 'remove');
+  if (invalid) return errorResponse(invalid, 400);
+
+  return handleWrite('updating watchlist', async () => {
+    const existing = (await getWatchlists()).find(watchlist => watchlist.id === body.id);
+    if (!existing) return errorResponse(`Watchlist not found: ${body.id}`, 404);
+
+    const removed = new Set(normalizeAddresses(body.remove ?? []));
+    const addresses = normalizeAddresses([
+      ...(body.addresses ?? existing.addresses),
+      ...(body.add ?? []),
+    ]).filter(address => !removed.has(address));
+
+    const updated: Watchlist = {
+      ...existing,
+      name: body.name?.trim() ?? existing.name,
+      addresses,
+      updatedAt: Date.now(),
+    };
+    await saveWatchlist(updated);
+    return watchlistsResponse();
+  });
+}
+
+export async function DELETE(request: NextRequest) {
+  if (!isRegistryAuthorized(request)) return errorResponse('Unauthorized', 401);
+
+  const body = await request.json().catch(() => null);
+  if (typeof body?.id !== 'string') return errorResponse('Body must be { id }', 400);
+
+  return handleWrite('deleting watchlist', async () => {
+    if (!(await deleteWatchlist(body.id))) {
+      return errorResponse(`Watchlist not found: ${body.id}`, 404);
+    }
+    return watchlistsResponse();
+  });
+}
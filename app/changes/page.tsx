@@ -0,0 +1,290 @@
+'use client';
+
+/**
+ * Position Changes Page
+ * Timeline of tracked-wallet position changes between stats refreshes
+ */
+
+import { motion } from 'framer-motion';
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeftRight, Loader2 } from '@/components/icons';
+import { WalletLink } from '@/components/WalletLink';
+import { usePositionChanges } from '@/hooks/usePositionChanges';
+import { describePositionChange } from '@/lib/position-changes';
+import { cn, formatDateTime, formatPrice, formatRelativeTime, formatUSD } from '@/lib/utils';
+import type { PositionChange, PositionChangeType } from '@/types';
+
+const RANGES = [
+  { label: '1H', ms: 60 * 60 * 1000 },
+  { label: '6H', ms: 6 * 60 * 60 * 1000 },
+  { label: '24H', ms: 24 * 60 * 60 * 1000 },
+  { label: '48H', ms: 48 * 60 * 60 * 1000 },
+];
+
+const CHANGE_TYPES: PositionChangeType[] = ['opened', 'increased', 'reduced', 'closed', 'flipped'];
+
+const TYPE_STYLES: Record<PositionChangeType, string> = {
+  opened: 'bg-electric-lime/20 text-electric-lime border-electric-lime/30',
+  increased: 'bg-long/20 text-long border-long/30',
+  reduced: 'bg-yellow-500/20 text-yellow-500 border-yellow-500/30',
+  closed: 'bg-gunmetal-600/40 text-gray-300 border-gunmetal-600',
+  flipped: 'bg-neon-pink/20 text-neon-pink border-neon-pink/30',
+};
+
+const MIN_SIZE_OPTIONS = [0, 100_000, 1_000_000, 5_000_000];
+
+interface ChangeRowProps {
+  change: PositionChange;
+}
+
+function ChangeRow({ change }: ChangeRowProps) {
+  const isLong = change.side === 'Long';
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 px-4 py-3 border-b border-gunmetal-700/50 hover:bg-white/[0.02] transition-colors">
+      <span
+        className={cn(
+          'w-20 text-center px-2 py-1 rounded border text-[10px] font-bold uppercase tracking-wider',
+          TYPE_STYLES[change.type]
+        )}
+      >
+        {change.type}
+      </span>
+
+      <WalletLink
+        address={change.address}
+        className="text-sm text-electric-lime hover:text-electric-lime/80"
+      />
+
+      <span className={cn('text-sm font-semibold', isLong ? 'text-electric-lime' : 'text-hyper-violet')}>
+        {describePositionChange(change)}
+      </span>
+
+      <span className="ml-auto flex items-center gap-4 text-xs font-mono mono-nums text-gray-400">
+        <span>
+          {formatUSD(change.previousSizeUsd)}
+          <span className="mx-1 text-gray-600">→</span>
+          <span className="text-gray-200">{formatUSD(change.sizeUsd)}</span>
+        </span>
+        {change.entryPrice != null && change.entryPrice > 0 && (
+          <span className="hidden md:inline">Entry {formatPrice(change.entryPrice)}</span>
+        )}
+      </span>
+    </div>
+  );
+}
+
+export default function PositionChangesPage() {
+  const [rangeMs, setRangeMs] = useState(RANGES[2].ms);
+  const [coin, setCoin] = useState('');
+  const [minSizeUsd, setMinSizeUsd] = useState(0);
+  const [enabledTypes, setEnabledTypes] = useState<Set<PositionChangeType>>(() => new Set(CHANGE_TYPES));
+
+  const { changes, isLoading, error, lastUpdated } = usePositionChanges({ rangeMs });
+
+  const coins = useMemo(
+    () => Array.from(new Set(changes.map(change => change.coin))).sort(),
+    [changes]
+  );
+
+  // Group by snapshot, newest first (the API already returns newest first)
+  const groups = useMemo(() => {
+    const filtered = changes.filter(change =>
+      enabledTypes.has(change.type) &&
+      (!coin || change.coin === coin) &&
+      Math.max(change.sizeUsd, change.previousSizeUsd) >= minSizeUsd
+    );
+
+    const byTimestamp = new Map<number, PositionChange[]>();
+    for (const change of filtered) {
+      const group = byTimestamp.get(change.timestamp) ?? [];
+      group.push(change);
+      byTimestamp.set(change.timestamp, group);
+    }
+    return Array.from(byTimestamp, ([timestamp, entries]) => ({ timestamp, entries }));
+  }, [changes, enabledTypes, coin, minSizeUsd]);
+
+  const visibleCount = groups.reduce((sum, group) => sum + group.entries.length, 0);
+
+  const toggleType = (type: PositionChangeType) => {
+    setEnabledTypes(prev => {
+      const next = new Set(prev);
+      if (next.has(type)) {
+        next.delete(type);
+      } else {
+        next.add(type);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="flex flex-col h-screen bg-base-900">
+      {/* Header */}
+      <div className="border-b border-gunmetal-700 bg-base-900/80 backdrop-blur-sm">
+        <div className="px-6 py-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Link
+                href="/"
+                className="text-sm font-mono text-gray-400 hover:text-electric-lime transition-colors"
+              >
+                ← Back to Dashboard
+              </Link>
+              <h1 className="text-2xl font-display font-bold text-white tracking-tight">
+                Position Changes
+              </h1>
+            </div>
+            <div className="text-sm font-mono text-gray-400">
+              {visibleCount} Change{visibleCount !== 1 ? 's' : ''}
+            </div>
+          </div>
+
+          {/* Filters */}
+          <div className="flex flex-wrap items-center gap-2 text-xs font-mono">
+            {RANGES.map(range => (
+              <button
+                key={range.label}
+                onClick={() => setRangeMs(range.ms)}
+                className={cn(
+                  'px-3 py-1.5 rounded border transition-colors',
+                  rangeMs === range.ms
+                    ? 'border-electric-lime/50 text-electric-lime bg-electric-lime/10'
+                    : 'border-gunmetal-700 text-gray-400 hover:text-gray-200'
+                )}
+              >
+                {range.label}
+              </button>
+            ))}
+
+            <span className="mx-1 text-gunmetal-600">|</span>
+
+            {CHANGE_TYPES.map(type => (
+              <button
+                key={type}
+                onClick={() => toggleType(type)}
+                className={cn(
+                  'px-3 py-1.5 rounded border uppercase transition-colors',
+                  enabledTypes.has(type) ? TYPE_STYLES[type] : 'border-gunmetal-700 text-gray-600'
+                )}
+              >
+                {type}
+              </button>
+            ))}
+
+            <span className="mx-1 text-gunmetal-600">|</span>
+
+            <select
+              value={coin}
+              onChange={event => setCoin(event.target.value)}
+              className="px-2 py-1.5 rounded border border-gunmetal-700 bg-base-900 text-gray-300"
+            >
+              <option value="">All coins</option>
+              {coins.map(entry => (
+                <option key={entry} value={entry}>{entry}</option>
+              ))}
+            </select>
+
+            <select
+              value={minSizeUsd}
+              onChange={event => setMinSizeUsd(Number(event.target.value))}
+              className="px-2 py-1.5 rounded border border-gunmetal-700 bg-base-900 text-gray-300"
+            >
+              {MIN_SIZE_OPTIONS.map(size => (
+                <option key={size} value={size}>
+                  {size === 0 ? 'Any size' : `≥ ${formatUSD(size)}`}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <main className="flex-1 overflow-auto">
+        {/* Loading State */}
+        {isLoading && lastUpdated === null && (
+          <div className="flex flex-col items-center justify-center py-20">
+            <Loader2 className="w-8 h-8 text-electric-lime animate-spin mb-4" />
+            <div className="text-sm font-mono text-gray-400">Loading position changes...</div>
+          </div>
+        )}
+
+        {/* Error State */}
+        {error && !isLoading && (
+          <div className="flex flex-col items-center justify-center py-20 px-4">
+            <div className="text-red-400 font-mono text-sm mb-2">Error</div>
+            <div className="text-gray-400 text-sm text-center max-w-md">{error}</div>
+          </div>
+        )}
+
+        {/* Timeline */}
+        {lastUpdated !== null && !error && (
+          <>
+            {groups.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-20 px-4">
+                <ArrowLeftRight className="w-12 h-12 text-gray-600 mb-4" />
+                <div className="text-gray-400 font-mono text-sm text-center max-w-md">
+                  No position changes in this range. Changes appear once at least two
+                  stats refreshes have been recorded.
+                </div>
+              </div>
+            ) : (
+              <div className="px-6 py-4 space-y-4">
+                {groups.map(group => (
+                  <motion.section
+                    key={group.timestamp}
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ duration: 0.3 }}
+                    className="border border-gunmetal-700 rounded-lg overflow-hidden"
+                  >
+                    <div className="flex items-center justify-between px-4 py-2 bg-gunmetal-800/50 border-b border-gunmetal-700 text-xs font-mono">
+                      <span className="text-gray-300">{formatDateTime(group.timestamp)}</span>
+                      <span className="text-gray-500">
+                        {formatRelativeTime(group.timestamp)} · {group.entries.length} change
+                        {group.entries.length !== 1 ? 's' : ''}
+                      </span>
+                    </div>
+                    {group.entries.map(change => (
+                      <ChangeRow key={change.id} change={change} />
+                    ))}
+                  </motion.section>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </main>
+
+      {/* Footer Status Bar */}
+      <footer className="border-t border-gunmetal-700 bg-base-900/80 backdrop-blur-sm px-4 py-2 mt-auto">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4 text-xs font-mono text-gray-500">
+            <span>Smart-HL</span>
+            <span className="text-gunmetal-600">|</span>
+            <span>Position Changes</span>
+            {lastUpdated !== null && (
+              <>
+                <span className="text-gunmetal-600">|</span>
+                <span>Updated {formatRelativeTime(lastUpdated)}</span>
+              </>
+            )}
+          </div>
+
+          <div className="flex items-center gap-4 text-xs font-mono">
+            <a
+              href="https://hypurrscan.io"
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-gray-500 hover:text-electric-lime transition-colors"
+            >
+              hypurrscan.io
+            </a>
+          </div>
+        </div>
+      </footer>
+    </div>
+  );
+}
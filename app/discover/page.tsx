@@ -0,0 +1,247 @@
+'use client';
+
+/**
+ * Wallet Discovery Page
+ * Untracked addresses trading on the live tape, ranked by volume and
+ * (once scored) by their fill-history PnL / win rate, with one-click add
+ */
+
+import { memo } from 'react';
+import Link from 'next/link';
+import { Compass, Loader2 } from '@/components/icons';
+import { WalletLink } from '@/components/WalletLink';
+import { useHyperliquidWS } from '@/hooks/useHyperliquidWS';
+import { useProcessor } from '@/hooks/useProcessor';
+import { useSmartMoneyLoader } from '@/hooks/useSmartMoneyLoader';
+import { useWalletDiscovery } from '@/hooks/useWalletDiscovery';
+import { DISCOVERY_LARGE_TRADE_USD, MAX_DISCOVERY_SCORE_BATCH } from '@/lib/discovery';
+import { cn, formatRelativeTime, formatUSD } from '@/lib/utils';
+import { useConnectionStatus } from '@/store/useStore';
+import type { DiscoveryCandidate } from '@/types';
+
+// Rows rendered; the accumulator itself holds up to MAX_DISCOVERY_CANDIDATES
+const DISPLAY_LIMIT = 100;
+
+function scoreColor(score: number): string {
+  if (score >= 60) return 'text-electric-lime';
+  if (score >= 35) return 'text-whale';
+  return 'text-gray-400';
+}
+
+interface CandidateRowProps {
+  candidate: DiscoveryCandidate;
+  rank: number;
+  isAdding: boolean;
+  disabled: boolean;
+  onAdd: (address: string) => void;
+}
+
+const CandidateRow = memo(function CandidateRow({
+  candidate,
+  rank,
+  isAdding,
+  disabled,
+  onAdd,
+}: CandidateRowProps) {
+  const { score } = candidate;
+
+  return (
+    <tr className="border-b border-gunmetal-700/50 hover:bg-white/[0.02] transition-colors">
+      <td className="px-4 py-2 text-xs font-mono text-gray-500">{rank}</td>
+      <td className="px-4 py-2">
+        <WalletLink
+          address={candidate.address}
+          chars={6}
+          className="text-sm text-gray-200 hover:text-electric-lime"
+        />
+      </td>
+      <td className="px-4 py-2 text-right font-mono text-sm mono-nums text-gray-200">
+        {formatUSD(candidate.volumeUsd)}
+      </td>
+      <td className="px-4 py-2 text-right font-mono text-sm mono-nums text-gray-400">
+        {candidate.trades}
+      </td>
+      <td className={cn(
+        'px-4 py-2 text-right font-mono text-sm mono-nums',
+        candidate.largeTrades > 0 ? 'text-whale' : 'text-gray-600'
+      )}>
+        {candidate.largeTrades}
+      </td>
+      <td className="px-4 py-2 text-xs font-mono text-gray-500">
+        {formatRelativeTime(candidate.lastSeen)}
+      </td>
+      <td className={cn('px-4 py-2 text-right font-mono text-sm font-bold mono-nums', score && scoreColor(score.score))}>
+        {score ? (score.error ? <span className="text-red-400/70 font-normal">error</span> : score.score) : '—'}
+      </td>
+      <td className={cn(
+        'px-4 py-2 text-right font-mono text-sm mono-nums',
+        !score ? 'text-gray-600' : score.netPnl30d >= 0 ? 'text-long' : 'text-short'
+      )}>
+        {score && !score.error ? formatUSD(score.netPnl30d) : '—'}
+      </td>
+      <td className="px-4 py-2 text-right font-mono text-sm mono-nums text-gray-300">
+        {score && !score.error ? (
+          <span title={`${score.closedTrades30d} closed trades`}>
+            {score.winRate30d.toFixed(0)}%
+            <span className="ml-1 text-[10px] text-gray-500">({score.closedTrades30d})</span>
+          </span>
+        ) : '—'}
+      </td>
+      <td className="px-4 py-2 text-right font-mono text-sm mono-nums text-gray-400">
+        {score && !score.error ? formatUSD(score.volume30d) : '—'}
+      </td>
+      <td className="px-4 py-2 text-right">
+        <button
+          onClick={() => onAdd(candidate.address)}
+          disabled={disabled}
+          className="px-3 py-1 rounded border border-electric-lime/30 text-xs font-mono font-semibold text-electric-lime hover:bg-electric-lime/10 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+        >
+          {isAdding ? <Loader2 className="w-3 h-3 animate-spin" /> : '+ Track'}
+        </button>
+      </td>
+    </tr>
+  );
+});
+
+export default function DiscoverPage() {
+  // Registry first: the processor only records addresses once it knows what is tracked
+  const { isLoading: isLoadingRegistry } = useSmartMoneyLoader();
+  const { handleTrade } = useProcessor();
+  useHyperliquidWS(handleTrade);
+
+  const connectionStatus = useConnectionStatus();
+  const {
+    candidates,
+    isScoring,
+    addingAddress,
+    error,
+    scoreTopCandidates,
+    addCandidate,
+    clear,
+  } = useWalletDiscovery();
+
+  const scoredCount = candidates.filter(candidate => candidate.score).length;
+  const rows = candidates.slice(0, DISPLAY_LIMIT);
+
+  return (
+    <div className="flex flex-col h-screen bg-base-900">
+      {/* Header */}
+      <div className="border-b border-gunmetal-700 bg-base-900/80 backdrop-blur-sm">
+        <div className="px-6 py-4 space-y-2">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Link
+                href="/"
+                className="text-sm font-mono text-gray-400 hover:text-electric-lime transition-colors"
+              >
+                ← Back to Dashboard
+              </Link>
+              <h1 className="text-2xl font-display font-bold text-white tracking-tight">
+                Wallet Discovery
+              </h1>
+            </div>
+            <div className="flex items-center gap-3 text-sm font-mono">
+              <span className="text-gray-400">{candidates.length} Candidates</span>
+              <button
+                onClick={scoreTopCandidates}
+                disabled={isScoring || candidates.length === scoredCount}
+                className="flex items-center gap-2 px-4 py-2 rounded border border-neon-cyan/30 text-neon-cyan font-semibold hover:bg-neon-cyan/10 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+              >
+                {isScoring && <Loader2 className="w-4 h-4 animate-spin" />}
+                Score Top {MAX_DISCOVERY_SCORE_BATCH}
+              </button>
+              <button
+                onClick={clear}
+                className="px-3 py-2 text-xs uppercase tracking-wider text-gray-500 hover:text-gray-300 transition-colors"
+              >
+                Clear
+              </button>
+            </div>
+          </div>
+          <p className="text-xs font-mono text-gray-500">
+            Untracked makers / takers on the live tape since this session started. Large trade
+            = {formatUSD(DISCOVERY_LARGE_TRADE_USD)}+. Scoring fetches each wallet&apos;s fills and
+            ranks by 30D net PnL, win rate, volume and large trades.
+          </p>
+          {error && <div className="text-sm font-mono text-red-400">{error}</div>}
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <main className="flex-1 overflow-auto">
+        {rows.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-20 px-4">
+            <Compass className="w-12 h-12 text-gray-600 mb-4" />
+            <div className="text-gray-400 font-mono text-sm text-center max-w-md">
+              {isLoadingRegistry
+                ? 'Loading tracked wallets...'
+                : connectionStatus === 'connected'
+                ? 'Watching the tape for untracked wallets...'
+                : 'Connecting to Hyperliquid...'}
+            </div>
+          </div>
+        ) : (
+          <div className="px-6 py-4">
+            <table className="w-full border-collapse">
+              <thead>
+                <tr className="border-b border-gunmetal-700 text-xs font-semibold uppercase tracking-wider text-gray-400">
+                  <th className="px-4 py-3 text-left">#</th>
+                  <th className="px-4 py-3 text-left">Wallet</th>
+                  <th className="px-4 py-3 text-right">Tape Volume</th>
+                  <th className="px-4 py-3 text-right">Trades</th>
+                  <th className="px-4 py-3 text-right">Large</th>
+                  <th className="px-4 py-3 text-left">Last Seen</th>
+                  <th className="px-4 py-3 text-right">Score</th>
+                  <th className="px-4 py-3 text-right">30D Net PnL</th>
+                  <th className="px-4 py-3 text-right">30D Win Rate</th>
+                  <th className="px-4 py-3 text-right">30D Volume</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((candidate, index) => (
+                  <CandidateRow
+                    key={candidate.address}
+                    candidate={candidate}
+                    rank={index + 1}
+                    isAdding={addingAddress === candidate.address}
+                    disabled={addingAddress !== null}
+                    onAdd={addCandidate}
+                  />
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </main>
+
+      {/* Footer Status Bar */}
+      <footer className="border-t border-gunmetal-700 bg-base-900/80 backdrop-blur-sm px-4 py-2 mt-auto">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4 text-xs font-mono text-gray-500">
+            <span>Smart-HL</span>
+            <span className="text-gunmetal-600">|</span>
+            <span>Wallet Discovery</span>
+            <span className="text-gunmetal-600">|</span>
+            <span>{scoredCount} Scored</span>
+            <span className="text-gunmetal-600">|</span>
+            <span className={connectionStatus === 'connected' ? 'text-long' : undefined}>
+              {connectionStatus}
+            </span>
+          </div>
+
+          <div className="flex items-center gap-4 text-xs font-mono">
+            <a
+              href="https://hypurrscan.io"
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-gray-500 hover:text-electric-lime transition-colors"
+            >
+              hypurrscan.io
+            </a>
+          </div>
+        </div>
+      </footer>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import type { Metadata, Viewport } from 'next';
+import { StoreHydration } from '@/components/StoreHydration';
 import './globals.css';
 
 export const metadata: Metadata = {
@@ -47,6 +48,9 @@ export default function RootLayout({
           />
         </div>
 
+        {/* Persisted settings */}
+        <StoreHydration />
+
         {/* Main content */}
         {children}
       </body>
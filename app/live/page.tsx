@@ -0,0 +1,116 @@
+'use client';
+
+/**
+ * Live Feed Page
+ * Real-time Smart Money & Whale trade stream from the Hyperliquid WebSocket
+ */
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Header } from '@/components/Header';
+import { FeedCueControls } from '@/components/FeedCueControls';
+import { FilterPanel } from '@/components/FilterPanel';
+import { LiveFeed } from '@/components/LiveFeed';
+import { ThresholdSettings } from '@/components/ThresholdSettings';
+import { WatchlistSelect } from '@/components/WatchlistSelect';
+import { Clock } from '@/components/icons';
+import { useConnectionStatus, useStore } from '@/store/useStore';
+import { cn } from '@/lib/utils';
+
+export default function LivePage() {
+  const connectionStatus = useConnectionStatus();
+  const errorMessage = useStore((s) => s.errorMessage);
+  const [showThresholds, setShowThresholds] = useState(false);
+
+  return (
+    <div className="flex flex-col h-screen bg-base-900">
+      {/* Branding + Connection Status */}
+      <Header />
+
+      {/* Navigation */}
+      <div className="border-b border-gunmetal-700 bg-base-900/80 backdrop-blur-sm">
+        <div className="flex items-center justify-between px-6 py-3">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/"
+              className="text-sm font-mono text-gray-400 hover:text-electric-lime transition-colors"
+            >
+              ← Back to Dashboard
+            </Link>
+            <h1 className="text-2xl font-display font-bold text-white tracking-tight">
+              Live Trade Stream
+            </h1>
+          </div>
+          <div className="flex items-center gap-3">
+            <FeedCueControls />
+            <button
+              onClick={() => setShowThresholds((open) => !open)}
+              title="Whale, golden-setup and noise sizes per coin"
+              className={cn(
+                'px-3 py-1.5 md:py-2 text-xs md:text-sm font-mono font-semibold min-h-[36px] md:min-h-[44px]',
+                'border rounded transition-colors',
+                showThresholds
+                  ? 'border-neon-cyan/50 text-neon-cyan bg-neon-cyan/10'
+                  : 'border-gunmetal-600 text-gray-300 hover:border-gray-500'
+              )}
+            >
+              Thresholds
+            </button>
+            <WatchlistSelect />
+            <Link
+              href="/twap"
+              className={cn(
+                'flex items-center gap-2 px-4 py-2 text-sm font-mono font-semibold',
+                'border border-electric-lime/30 rounded transition-all',
+                'text-electric-lime hover:bg-electric-lime/10 hover:border-electric-lime/50',
+                'hover:shadow-neon-green'
+              )}
+            >
+              <Clock className="w-4 h-4" />
+              TWAP Tracker
+            </Link>
+          </div>
+        </div>
+      </div>
+
+      {/* Feed Filters */}
+      <FilterPanel />
+      {showThresholds && <ThresholdSettings />}
+
+      {/* Trade Stream */}
+      <main className="flex-1 min-h-0 relative">
+        <LiveFeed />
+      </main>
+
+      {/* Footer Status Bar */}
+      <footer className="border-t border-gunmetal-700 bg-base-900/80 backdrop-blur-sm px-4 py-2 mt-auto">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4 text-xs font-mono text-gray-500">
+            <span>Smart-HL</span>
+            <span className="text-gunmetal-600">|</span>
+            <span>Live Feed</span>
+            <span className="text-gunmetal-600">|</span>
+            <span className="uppercase">{connectionStatus}</span>
+            {errorMessage && (
+              <>
+                <span className="text-gunmetal-600">|</span>
+                <span className="text-yellow-500">{errorMessage}</span>
+              </>
+            )}
+          </div>
+
+          <div className="flex items-center gap-4 text-xs font-mono">
+            <a
+              href="https://hypurrscan.io"
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-gray-500 hover:text-electric-lime transition-colors"
+            >
+              hypurrscan.io
+            </a>
+          </div>
+        </div>
+      </footer>
+    </div>
+  );
+}
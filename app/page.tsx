@@ -13,6 +13,8 @@ import { WalletRow } from '@/components/WalletRow';
 import { WalletCard } from '@/components/WalletCard';
 import { SortableTableHeader } from '@/components/SortableTableHeader';
 import { useSmartWallets } from '@/hooks/useSmartWallets';
+import { useSmartMoneyLoader } from '@/hooks/useSmartMoneyLoader';
+import { useSmartMoneyMap } from '@/store/useStore';
 import { cn } from '@/lib/utils';
 import { Loader2 } from '@/components/icons';
 
@@ -22,6 +24,7 @@ export default function DashboardPage() {
     isLoading,
     error,
     progress,
+    loadedCount,
     totalLong,
     totalShort,
     sortField,
@@ -36,14 +39,29 @@ export default function DashboardPage() {
     setSizeFilter,
     pnlFilter,
     setPnlFilter,
-  } = useSmartWallets();
+    pnlMode,
+    setPnlMode,
+    tierFilter,
+    setTierFilter,
+    tagFilter,
+    setTagFilter,
+    availableTags,
+  } = useSmartWallets({ persistView: true });
+
+  // Registry names / tiers / tags for the rows and filters
+  useSmartMoneyLoader();
+  const smartMoneyMap = useSmartMoneyMap();
+
+  // Wallets render as soon as the first streamed chunk arrives
+  const hasWallets = loadedCount > 0;
+  const isInitialLoad = isLoading && !hasWallets;
 
   // Infinite scroll sentinel ref
   const sentinelRef = useRef<HTMLDivElement>(null);
 
   // Intersection Observer for infinite scroll
   useEffect(() => {
-    if (isLoading || !hasMore) return;
+    if (isInitialLoad || !hasMore) return;
 
     const observer = new IntersectionObserver(
       (entries) => {
@@ -64,7 +82,7 @@ export default function DashboardPage() {
         observer.unobserve(currentSentinel);
       }
     };
-  }, [isLoading, hasMore, loadMore]);
+  }, [isInitialLoad, hasMore, loadMore]);
 
   return (
     <div className="flex flex-col h-screen bg-base-900">
@@ -76,7 +94,7 @@ export default function DashboardPage() {
       />
 
       {/* Token Filter Panel */}
-      {!isLoading && !error && availableTokens.length > 0 && (
+      {!isInitialLoad && !error && availableTokens.length > 0 && (
         <TokenFilterPanel
           availableTokens={availableTokens}
           selectedToken={selectedToken}
@@ -85,13 +103,20 @@ export default function DashboardPage() {
           onSizeFilterChange={setSizeFilter}
           pnlFilter={pnlFilter}
           onPnlFilterChange={setPnlFilter}
+          pnlMode={pnlMode}
+          onPnlModeChange={setPnlMode}
+          tierFilter={tierFilter}
+          onTierFilterChange={setTierFilter}
+          availableTags={availableTags}
+          tagFilter={tagFilter}
+          onTagFilterChange={setTagFilter}
         />
       )}
 
       {/* Main Content */}
       <main className="flex-1 overflow-auto px-4 pb-16 md:px-0 md:pb-0">
         {/* Loading State */}
-        {isLoading && (
+        {isInitialLoad && (
           <div className="flex flex-col items-center justify-center py-16 md:py-20 px-4">
             <Loader2 className="w-8 h-8 text-electric-lime animate-spin mb-4" />
             <div className="text-sm font-mono text-gray-400 mb-2">
@@ -116,8 +141,26 @@ export default function DashboardPage() {
           </div>
         )}
 
+        {/* Streaming Progress */}
+        {isLoading && hasWallets && (
+          <div className="sticky top-0 z-10 px-4 md:px-6 pt-3 pb-2 bg-base-900/90 backdrop-blur-sm">
+            <div className="flex items-center justify-between text-xs font-mono text-gray-400 mb-1.5">
+              <span>Loading wallets... {loadedCount} loaded</span>
+              <span>{progress}%</span>
+            </div>
+            <div className="h-1 bg-gunmetal-700 rounded-full overflow-hidden">
+              <motion.div
+                initial={{ width: 0 }}
+                animate={{ width: `${progress}%` }}
+                transition={{ duration: 0.3 }}
+                className="h-full bg-electric-lime"
+              />
+            </div>
+          </div>
+        )}
+
         {/* Desktop Table View (md and above) */}
-        {!isLoading && !error && (
+        {!isInitialLoad && !error && (
           <>
             {/* Desktop Table */}
             <div className="hidden md:block overflow-x-auto">
@@ -181,18 +224,21 @@ export default function DashboardPage() {
                       )}
                       <SortableTableHeader
                         field="pnl7d"
-                        label="7D PnL"
+                        label={pnlMode === 'net' ? '7D Net PnL' : '7D PnL'}
                         currentSort={sortField}
                         sortDirection={sortDirection}
                         onSort={handleSort}
                       />
                       <SortableTableHeader
                         field="pnl30d"
-                        label="30D PnL"
+                        label={pnlMode === 'net' ? '30D Net PnL' : '30D PnL'}
                         currentSort={sortField}
                         sortDirection={sortDirection}
                         onSort={handleSort}
                       />
+                      <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-400">
+                        30D Trend
+                      </th>
                       <SortableTableHeader
                         field="winRate7d"
                         label="7D Win Rate"
@@ -214,8 +260,10 @@ export default function DashboardPage() {
                       <WalletRow 
                         key={wallet.address} 
                         wallet={wallet} 
+                        entry={smartMoneyMap[wallet.address]}
                         index={index} 
                         selectedToken={selectedToken}
+                        pnlMode={pnlMode}
                       />
                     ))}
                   </tbody>
@@ -237,8 +285,10 @@ export default function DashboardPage() {
                   <WalletCard
                     key={wallet.address}
                     wallet={wallet}
+                    entry={smartMoneyMap[wallet.address]}
                     index={index}
                     selectedToken={selectedToken}
+                    pnlMode={pnlMode}
                   />
                 ))}
           </div>
@@ -7,11 +7,12 @@
 
 import { motion } from 'framer-motion';
 import { useMemo } from 'react';
-import { ExternalLink, Clock, Loader2 } from '@/components/icons';
+import { Clock, Loader2 } from '@/components/icons';
+import { WalletLink } from '@/components/WalletLink';
+import { WatchlistSelect } from '@/components/WatchlistSelect';
 import Link from 'next/link';
 import { useSmartWallets } from '@/hooks/useSmartWallets';
-import { cn, formatUSD, truncateAddress } from '@/lib/utils';
-import { EXPLORER_URL } from '@/lib/constants';
+import { cn, formatUSD } from '@/lib/utils';
 import type { WalletStats, ActiveTwap } from '@/types';
 
 interface TwapRowProps {
@@ -37,15 +38,10 @@ function TwapRow({ wallet, twap, index }: TwapRowProps) {
     >
       {/* Wallet Address */}
       <td className="px-4 py-3">
-        <a
-          href={`${EXPLORER_URL}/address/${wallet.address}`}
-          target="_blank"
-          rel="noopener noreferrer"
-          className="flex items-center gap-2 font-mono text-sm text-electric-lime hover:text-electric-lime/80 transition-colors"
-        >
-          {truncateAddress(wallet.address, 4)}
-          <ExternalLink className="w-3 h-3 opacity-60" />
-        </a>
+        <WalletLink
+          address={wallet.address}
+          className="text-sm text-electric-lime hover:text-electric-lime/80"
+        />
       </td>
 
       {/* Token */}
@@ -77,6 +73,26 @@ function TwapRow({ wallet, twap, index }: TwapRowProps) {
         <span className="font-mono text-sm mono-nums text-gray-200">
           {formatUSD(twap.sizeUsd)}
         </span>
+        {twap.reduceOnly && (
+          <span className="ml-2 text-[10px] font-mono uppercase text-gray-500">
+            reduce
+          </span>
+        )}
+      </td>
+
+      {/* Filled */}
+      <td className="px-4 py-3">
+        <div className="flex items-center gap-2">
+          <div className="w-20 h-1.5 bg-gunmetal-700 rounded-full overflow-hidden">
+            <div
+              className={cn('h-full', isLong ? 'bg-electric-lime' : 'bg-hyper-violet')}
+              style={{ width: `${Math.min(100, twap.filledPercent)}%` }}
+            />
+          </div>
+          <span className="font-mono text-xs mono-nums text-gray-400">
+            {twap.filledPercent.toFixed(0)}%
+          </span>
+        </div>
       </td>
 
       {/* Time Remaining */}
@@ -111,6 +127,7 @@ export default function TwapPage() {
     wallets,
     isLoading,
     error,
+    progress,
   } = useSmartWallets();
 
   // Filter wallets with active TWAPs and flatten to show each TWAP as a row
@@ -148,8 +165,9 @@ export default function TwapPage() {
                 Active TWAP Orders
               </h1>
             </div>
-            <div className="text-sm font-mono text-gray-400">
-              {twapEntries.length} Active TWAP{twapEntries.length !== 1 ? 's' : ''}
+            <div className="flex items-center gap-3 text-sm font-mono text-gray-400">
+              <WatchlistSelect />
+              <span>{twapEntries.length} Active TWAP{twapEntries.length !== 1 ? 's' : ''}</span>
             </div>
           </div>
         </div>
@@ -162,7 +180,7 @@ export default function TwapPage() {
           <div className="flex flex-col items-center justify-center py-20">
             <Loader2 className="w-8 h-8 text-electric-lime animate-spin mb-4" />
             <div className="text-sm font-mono text-gray-400">
-              Loading TWAP data...
+              Loading TWAP data... {progress}%
             </div>
           </div>
         )}
@@ -207,6 +225,9 @@ export default function TwapPage() {
                       <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-400">
                         Size
                       </th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-400">
+                        Filled
+                      </th>
                       <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-400">
                         Time Remaining
                       </th>
@@ -218,7 +239,7 @@ export default function TwapPage() {
                   <tbody>
                     {twapEntries.map((entry, index) => (
                       <TwapRow
-                        key={`${entry.wallet.address}-${entry.twap.coin}-${index}`}
+                        key={`${entry.wallet.address}-${entry.twap.id}`}
                         wallet={entry.wallet}
                         twap={entry.twap}
                         index={index}
@@ -0,0 +1,518 @@
+'use client';
+
+/**
+ * Wallet Detail Page
+ * Equity curve, positions, closed trades, PnL by coin and live fills for one wallet
+ */
+
+import { motion } from 'framer-motion';
+import { useCallback, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { ExternalLink, Loader2 } from '@/components/icons';
+import { SeriesChart } from '@/components/SeriesChart';
+import { useWalletDetail } from '@/hooks/useWalletDetail';
+import { useUserFillsWS } from '@/hooks/useUserFillsWS';
+import {
+  cn,
+  formatDateTime,
+  formatDuration,
+  formatPrice,
+  formatTime,
+  formatTradeStats,
+  formatUSD,
+  isValidAddress,
+} from '@/lib/utils';
+import { EXPLORER_URL } from '@/lib/constants';
+import type {
+  HyperliquidUserFill,
+  WalletClosedTrade,
+  WalletFill,
+  WalletOpenOrder,
+  WalletPositionDetail,
+} from '@/types';
+
+const MAX_LIVE_FILLS = 50;
+
+const TH_CLASS = 'px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-400';
+const TD_CLASS = 'px-4 py-3 font-mono text-sm mono-nums';
+
+interface DisplayFill extends WalletFill {
+  isLive: boolean;
+}
+
+/**
+ * Normalize a userFills WebSocket fill to the REST fill shape
+ */
+function toWalletFill(fill: HyperliquidUserFill): WalletFill {
+  const price = parseFloat(fill.px);
+  const size = parseFloat(fill.sz);
+  return {
+    coin: fill.coin,
+    side: fill.side === 'B' ? 'Buy' : 'Sell',
+    direction: fill.dir,
+    price,
+    size,
+    sizeUsd: price * size,
+    closedPnl: parseFloat(fill.closedPnl || '0'),
+    fee: parseFloat(fill.fee || '0'),
+    time: fill.time,
+    hash: fill.hash,
+    tid: fill.tid,
+  };
+}
+
+function pnlClass(value: number) {
+  return value > 0 ? 'text-electric-lime' : value < 0 ? 'text-short' : 'text-gray-400';
+}
+
+function SideBadge({ side }: { side: 'Long' | 'Short' | 'Buy' | 'Sell' }) {
+  const isLong = side === 'Long' || side === 'Buy';
+  return (
+    <span className={cn(
+      'px-2 py-0.5 rounded text-xs font-bold uppercase tracking-wider',
+      isLong
+        ? 'bg-electric-lime/20 text-electric-lime border border-electric-lime/30'
+        : 'bg-hyper-violet/20 text-hyper-violet border border-hyper-violet/30'
+    )}>
+      {side}
+    </span>
+  );
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="px-6 py-4">
+      <h2 className="mb-3 text-sm font-display font-semibold uppercase tracking-wider text-gray-300">
+        {title}
+      </h2>
+      <div className="overflow-x-auto rounded-lg border border-gunmetal-700 bg-base-800/40">
+        {children}
+      </div>
+    </section>
+  );
+}
+
+function EmptyRow({ colSpan, label }: { colSpan: number; label: string }) {
+  return (
+    <tr>
+      <td colSpan={colSpan} className="px-4 py-6 text-center text-sm font-mono text-gray-500">
+        {label}
+      </td>
+    </tr>
+  );
+}
+
+function Metric({ label, value, className }: { label: string; value: string; className?: string }) {
+  return (
+    <div className="flex flex-col gap-1">
+      <span className="text-[10px] font-mono uppercase tracking-wider text-gray-500">{label}</span>
+      <span className={cn('font-mono text-lg mono-nums text-gray-100', className)}>{value}</span>
+    </div>
+  );
+}
+
+function PositionRow({ position }: { position: WalletPositionDetail }) {
+  const mark = position.currentPrice ?? 0;
+  const entry = position.entryPrice ?? 0;
+  const liq = position.liquidationPrice ?? null;
+  const isLong = position.side === 'Long';
+
+  // Distance from entry, signed in the position's favour
+  const entryDistance = entry > 0 ? ((mark - entry) / entry) * 100 * (isLong ? 1 : -1) : 0;
+  // Adverse move from mark that reaches the liquidation price
+  const liqDistance = liq != null && mark > 0 ? (Math.abs(mark - liq) / mark) * 100 : null;
+
+  return (
+    <tr className="border-b border-gunmetal-700/50 hover:bg-white/[0.02] transition-colors">
+      <td className="px-4 py-3 text-sm font-semibold text-gray-200">{position.coin}</td>
+      <td className="px-4 py-3"><SideBadge side={position.side} /></td>
+      <td className={cn(TD_CLASS, 'text-gray-200')}>{formatUSD(position.sizeUsd)}</td>
+      <td className={cn(TD_CLASS, 'text-gray-200')}>${formatPrice(entry)}</td>
+      <td className={cn(TD_CLASS, 'text-gray-200')}>${formatPrice(mark)}</td>
+      <td className={cn(TD_CLASS, pnlClass(entryDistance))}>
+        {entryDistance >= 0 ? '+' : ''}{entryDistance.toFixed(2)}%
+      </td>
+      <td className={cn(TD_CLASS, 'text-gray-200')}>
+        {liq != null ? `$${formatPrice(liq)}` : '-'}
+      </td>
+      <td className={cn(
+        TD_CLASS,
+        liqDistance == null ? 'text-gray-500' : liqDistance < 5 ? 'text-short' : liqDistance < 15 ? 'text-yellow-500' : 'text-gray-300'
+      )}>
+        {liqDistance != null ? `${liqDistance.toFixed(2)}%` : '-'}
+      </td>
+      <td className={cn(TD_CLASS, 'text-gray-300')}>
+        {position.leverage}x <span className="text-xs text-gray-500">{position.leverageType}</span>
+      </td>
+      <td className={cn(TD_CLASS, 'text-gray-300')}>{formatUSD(position.marginUsed)}</td>
+      <td className={cn(TD_CLASS, pnlClass(position.pnl ?? 0))}>{formatUSD(position.pnl ?? 0)}</td>
+    </tr>
+  );
+}
+
+function OpenOrderRow({ order }: { order: WalletOpenOrder }) {
+  return (
+    <tr className="border-b border-gunmetal-700/50 hover:bg-white/[0.02] transition-colors">
+      <td className="px-4 py-3 text-sm font-semibold text-gray-200">{order.coin}</td>
+      <td className="px-4 py-3"><SideBadge side={order.side} /></td>
+      <td className="px-4 py-3 text-sm text-gray-300">
+        {order.orderType}
+        {order.reduceOnly && (
+          <span className="ml-2 text-[10px] font-mono uppercase text-gray-500">reduce</span>
+        )}
+      </td>
+      <td className={cn(TD_CLASS, 'text-gray-200')}>
+        ${formatPrice(order.triggerPrice ?? order.price)}
+      </td>
+      <td className={cn(TD_CLASS, 'text-gray-200')}>{formatUSD(order.sizeUsd)}</td>
+      <td className={cn(TD_CLASS, 'text-gray-500')}>{formatDateTime(order.timestamp)}</td>
+    </tr>
+  );
+}
+
+function ClosedTradeRow({ trade }: { trade: WalletClosedTrade }) {
+  return (
+    <tr className="border-b border-gunmetal-700/50 hover:bg-white/[0.02] transition-colors">
+      <td className="px-4 py-3 text-sm font-semibold text-gray-200">{trade.coin}</td>
+      <td className="px-4 py-3"><SideBadge side={trade.side} /></td>
+      <td className={cn(TD_CLASS, 'text-gray-400')}>{formatDateTime(trade.openTime)}</td>
+      <td className={cn(TD_CLASS, 'text-gray-400')}>{formatDateTime(trade.closeTime)}</td>
+      <td className={cn(TD_CLASS, 'text-gray-400')}>
+        {formatDuration((trade.closeTime - trade.openTime) / 60_000)}
+      </td>
+      <td className={cn(TD_CLASS, 'font-semibold', pnlClass(trade.pnl))}>{formatUSD(trade.pnl)}</td>
+    </tr>
+  );
+}
+
+function FillRow({ fill }: { fill: DisplayFill }) {
+  return (
+    <tr className={cn(
+      'border-b border-gunmetal-700/50 hover:bg-white/[0.02] transition-colors',
+      fill.isLive && 'bg-neon-green/5'
+    )}>
+      <td className={cn(TD_CLASS, 'text-gray-400')}>
+        {fill.isLive ? formatTime(fill.time) : formatDateTime(fill.time)}
+        {fill.isLive && (
+          <span className="ml-2 px-1.5 py-0.5 rounded text-[10px] font-bold uppercase bg-electric-lime/20 text-electric-lime">
+            live
+          </span>
+        )}
+      </td>
+      <td className="px-4 py-3 text-sm font-semibold text-gray-200">{fill.coin}</td>
+      <td className="px-4 py-3"><SideBadge side={fill.side} /></td>
+      <td className="px-4 py-3 text-sm text-gray-400">{fill.direction}</td>
+      <td className={cn(TD_CLASS, 'text-gray-200')}>${formatPrice(fill.price)}</td>
+      <td className={cn(TD_CLASS, 'text-gray-200')}>{formatUSD(fill.sizeUsd)}</td>
+      <td className={cn(TD_CLASS, pnlClass(fill.closedPnl))}>
+        {fill.closedPnl !== 0 ? formatUSD(fill.closedPnl) : '-'}
+      </td>
+    </tr>
+  );
+}
+
+export default function WalletPage({ params }: { params: { address: string } }) {
+  const address = params.address.toLowerCase();
+  const isValid = isValidAddress(address);
+
+  const { detail, isLoading, error } = useWalletDetail(address);
+
+  // Live fills from the userFills WebSocket stream, newest first
+  const [liveFills, setLiveFills] = useState<WalletFill[]>([]);
+  const trackedAddresses = useMemo(() => (isValid ? [address] : []), [address, isValid]);
+
+  const handleUserFill = useCallback((_user: string, fill: HyperliquidUserFill) => {
+    setLiveFills(prev => [toWalletFill(fill), ...prev].slice(0, MAX_LIVE_FILLS));
+  }, []);
+
+  useUserFillsWS(trackedAddresses, handleUserFill);
+
+  // Live fills on top of the REST history, deduplicated by trade id
+  const fills = useMemo<DisplayFill[]>(() => {
+    const seen = new Set<number>();
+    const merged: DisplayFill[] = [];
+    for (const fill of liveFills) {
+      if (seen.has(fill.tid)) continue;
+      seen.add(fill.tid);
+      merged.push({ ...fill, isLive: true });
+    }
+    for (const fill of detail?.recentFills || []) {
+      if (seen.has(fill.tid)) continue;
+      seen.add(fill.tid);
+      merged.push({ ...fill, isLive: false });
+    }
+    return merged.slice(0, MAX_LIVE_FILLS);
+  }, [liveFills, detail]);
+
+  // Realized PnL per coin over closed trades
+  const pnlByCoin = useMemo(() => {
+    const byCoin = new Map<string, { coin: string; trades: number; wins: number; pnl: number }>();
+    for (const trade of detail?.closedTrades || []) {
+      const entry = byCoin.get(trade.coin) || { coin: trade.coin, trades: 0, wins: 0, pnl: 0 };
+      entry.trades++;
+      if (trade.pnl > 0) entry.wins++;
+      entry.pnl += trade.pnl;
+      byCoin.set(trade.coin, entry);
+    }
+    return Array.from(byCoin.values()).sort((a, b) => b.pnl - a.pnl);
+  }, [detail]);
+
+  const stats = detail?.stats;
+
+  return (
+    <div className="flex flex-col h-screen bg-base-900">
+      {/* Header */}
+      <div className="border-b border-gunmetal-700 bg-base-900/80 backdrop-blur-sm">
+        <div className="px-6 py-4">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex flex-wrap items-center gap-4">
+              <Link
+                href="/"
+                className="text-sm font-mono text-gray-400 hover:text-electric-lime transition-colors"
+              >
+                ← Back to Dashboard
+              </Link>
+              <h1 className="text-lg md:text-2xl font-mono font-bold text-white tracking-tight break-all">
+                {address}
+              </h1>
+              {detail && (
+                <span className={cn(
+                  'px-2 py-0.5 rounded text-xs font-mono font-semibold uppercase border',
+                  detail.tracked
+                    ? 'bg-neon-green/10 text-neon-green border-neon-green/30'
+                    : 'bg-gunmetal-700/40 text-gray-400 border-gunmetal-500'
+                )}>
+                  {detail.tracked ? 'Tracked' : 'Not tracked'}
+                </span>
+              )}
+            </div>
+            <a
+              href={`${EXPLORER_URL}/address/${address}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-2 text-sm font-mono text-gray-400 hover:text-electric-lime transition-colors"
+            >
+              Explorer
+              <ExternalLink className="w-3 h-3" />
+            </a>
+          </div>
+
+          {/* Summary Metrics */}
+          {detail && stats && (
+            <div className="mt-4 grid grid-cols-2 gap-4 sm:grid-cols-3 lg:grid-cols-6">
+              <Metric label="Account Value" value={formatUSD(detail.accountValue)} />
+              <Metric label="Margin Used" value={formatUSD(detail.totalMarginUsed)} />
+              <Metric label="7D PnL" value={formatUSD(stats.pnl7d)} className={pnlClass(stats.pnl7d)} />
+              <Metric label="30D Net PnL" value={formatUSD(stats.netPnl30d)} className={pnlClass(stats.netPnl30d)} />
+              <Metric label="30D Win Rate" value={`${Math.round(stats.winRate30d)}%`} />
+              <Metric label="30D Volume" value={formatUSD(stats.volume30d)} />
+            </div>
+          )}
+          {stats && (
+            <div className="mt-2 text-xs font-mono text-gray-500">
+              {formatTradeStats(stats.tradeStats30d)}
+              {stats.historyTruncated && (
+                <span className="ml-2 text-yellow-500">(partial history)</span>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <main className="flex-1 overflow-auto pb-8">
+        {!isValid && (
+          <div className="flex flex-col items-center justify-center py-20 px-4">
+            <div className="text-red-400 font-mono text-sm mb-2">Invalid address</div>
+            <div className="text-gray-400 text-sm text-center max-w-md">
+              Expected 0x followed by 40 hex characters
+            </div>
+          </div>
+        )}
+
+        {/* Loading State */}
+        {isValid && isLoading && !detail && (
+          <div className="flex flex-col items-center justify-center py-20">
+            <Loader2 className="w-8 h-8 text-electric-lime animate-spin mb-4" />
+            <div className="text-sm font-mono text-gray-400">Loading wallet...</div>
+          </div>
+        )}
+
+        {/* Error State */}
+        {isValid && error && !isLoading && (
+          <div className="flex flex-col items-center justify-center py-20 px-4">
+            <div className="text-red-400 font-mono text-sm mb-2">Error</div>
+            <div className="text-gray-400 text-sm text-center max-w-md">{error}</div>
+          </div>
+        )}
+
+        {detail && (
+          <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} transition={{ duration: 0.3 }}>
+            {/* Equity Curve */}
+            <div className="grid grid-cols-1 lg:grid-cols-2">
+              <Section title="Account Value (1M)">
+                <SeriesChart
+                  series={detail.accountValueHistory}
+                  emptyLabel="No portfolio history"
+                />
+              </Section>
+              <Section title="Cumulative Realized PnL (Daily)">
+                <SeriesChart
+                  series={detail.stats.pnlHistory}
+                  relativeToZero
+                  emptyLabel="No fills in the history window"
+                />
+              </Section>
+            </div>
+
+            {/* Positions */}
+            <Section title={`Positions (${detail.positions.length})`}>
+              <table className="w-full border-collapse">
+                <thead>
+                  <tr className="border-b border-gunmetal-700">
+                    <th className={TH_CLASS}>Coin</th>
+                    <th className={TH_CLASS}>Side</th>
+                    <th className={TH_CLASS}>Size</th>
+                    <th className={TH_CLASS}>Entry</th>
+                    <th className={TH_CLASS}>Mark</th>
+                    <th className={TH_CLASS}>From Entry</th>
+                    <th className={TH_CLASS}>Liquidation</th>
+                    <th className={TH_CLASS}>To Liq</th>
+                    <th className={TH_CLASS}>Leverage</th>
+                    <th className={TH_CLASS}>Margin</th>
+                    <th className={TH_CLASS}>uPnL</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {detail.positions.length === 0 && <EmptyRow colSpan={11} label="No open positions" />}
+                  {detail.positions.map(position => (
+                    <PositionRow key={position.coin} position={position} />
+                  ))}
+                </tbody>
+              </table>
+            </Section>
+
+            {/* Open Orders */}
+            {detail.openOrders.length > 0 && (
+              <Section title={`Open Orders (${detail.openOrders.length})`}>
+                <table className="w-full border-collapse">
+                  <thead>
+                    <tr className="border-b border-gunmetal-700">
+                      <th className={TH_CLASS}>Coin</th>
+                      <th className={TH_CLASS}>Side</th>
+                      <th className={TH_CLASS}>Type</th>
+                      <th className={TH_CLASS}>Price</th>
+                      <th className={TH_CLASS}>Size</th>
+                      <th className={TH_CLASS}>Placed</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {detail.openOrders.map(order => (
+                      <OpenOrderRow key={order.oid} order={order} />
+                    ))}
+                  </tbody>
+                </table>
+              </Section>
+            )}
+
+            {/* PnL by Coin */}
+            <Section title="PnL by Coin">
+              <table className="w-full border-collapse">
+                <thead>
+                  <tr className="border-b border-gunmetal-700">
+                    <th className={TH_CLASS}>Coin</th>
+                    <th className={TH_CLASS}>Trades</th>
+                    <th className={TH_CLASS}>Win Rate</th>
+                    <th className={TH_CLASS}>Realized PnL</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {pnlByCoin.length === 0 && <EmptyRow colSpan={4} label="No closed trades" />}
+                  {pnlByCoin.map(entry => (
+                    <tr key={entry.coin} className="border-b border-gunmetal-700/50 hover:bg-white/[0.02] transition-colors">
+                      <td className="px-4 py-3 text-sm font-semibold text-gray-200">{entry.coin}</td>
+                      <td className={cn(TD_CLASS, 'text-gray-300')}>{entry.trades}</td>
+                      <td className={cn(TD_CLASS, 'text-gray-300')}>
+                        {Math.round((entry.wins / entry.trades) * 100)}%
+                      </td>
+                      <td className={cn(TD_CLASS, 'font-semibold', pnlClass(entry.pnl))}>{formatUSD(entry.pnl)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </Section>
+
+            {/* Recent Fills */}
+            <Section title="Recent Fills">
+              <table className="w-full border-collapse">
+                <thead>
+                  <tr className="border-b border-gunmetal-700">
+                    <th className={TH_CLASS}>Time</th>
+                    <th className={TH_CLASS}>Coin</th>
+                    <th className={TH_CLASS}>Side</th>
+                    <th className={TH_CLASS}>Direction</th>
+                    <th className={TH_CLASS}>Price</th>
+                    <th className={TH_CLASS}>Size</th>
+                    <th className={TH_CLASS}>Closed PnL</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {fills.length === 0 && <EmptyRow colSpan={7} label="No fills yet" />}
+                  {fills.map(fill => (
+                    <FillRow key={fill.tid} fill={fill} />
+                  ))}
+                </tbody>
+              </table>
+            </Section>
+
+            {/* Closed Trades */}
+            <Section title={`Closed Trades (${detail.closedTrades.length})`}>
+              <table className="w-full border-collapse">
+                <thead>
+                  <tr className="border-b border-gunmetal-700">
+                    <th className={TH_CLASS}>Coin</th>
+                    <th className={TH_CLASS}>Side</th>
+                    <th className={TH_CLASS}>Opened</th>
+                    <th className={TH_CLASS}>Closed</th>
+                    <th className={TH_CLASS}>Held</th>
+                    <th className={TH_CLASS}>PnL</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {detail.closedTrades.length === 0 && <EmptyRow colSpan={6} label="No closed trades" />}
+                  {detail.closedTrades.map(trade => (
+                    <ClosedTradeRow key={`${trade.coin}-${trade.openTime}-${trade.closeTime}`} trade={trade} />
+                  ))}
+                </tbody>
+              </table>
+            </Section>
+          </motion.div>
+        )}
+      </main>
+
+      {/* Footer Status Bar */}
+      <footer className="border-t border-gunmetal-700 bg-base-900/80 backdrop-blur-sm px-4 py-2 mt-auto">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4 text-xs font-mono text-gray-500">
+            <span>Smart-HL</span>
+            <span className="text-gunmetal-600">|</span>
+            <span>Wallet</span>
+            <span className="text-gunmetal-600">|</span>
+            <span>{liveFills.length} Live Fills</span>
+          </div>
+
+          <div className="flex items-center gap-4 text-xs font-mono">
+            <a
+              href={`${EXPLORER_URL}/address/${address}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-gray-500 hover:text-electric-lime transition-colors"
+            >
+              hypurrscan.io
+            </a>
+          </div>
+        </div>
+      </footer>
+    </div>
+  );
+}
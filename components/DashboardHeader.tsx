@@ -8,7 +8,8 @@
 import { memo } from 'react';
 import { motion } from 'framer-motion';
 import Link from 'next/link';
-import { TrendingUp, TrendingDown, Clock } from './icons';
+import { TrendingUp, TrendingDown, Clock, Activity, ArrowLeftRight, Search, Compass, Bell } from './icons';
+import { WatchlistSelect } from './WatchlistSelect';
 import { cn, formatUSD } from '@/lib/utils';
 
 interface DashboardHeaderProps {
@@ -40,6 +41,20 @@ export const DashboardHeader = memo(function DashboardHeader({
             Smart-HL Dashboard
           </h1>
           <div className="flex flex-col sm:flex-row sm:items-center gap-1.5 sm:gap-2 md:gap-3">
+            <WatchlistSelect className="w-full sm:w-auto" />
+            <Link
+              href="/live"
+              className={cn(
+                'flex items-center justify-center gap-1.5 md:gap-2 px-3 md:px-4 py-1.5 md:py-2 text-xs md:text-sm font-mono font-semibold min-h-[36px] md:min-h-[44px]',
+                'border border-neon-cyan/30 rounded transition-all',
+                'text-neon-cyan hover:bg-neon-cyan/10 hover:border-neon-cyan/50',
+                'hover:shadow-neon-cyan w-full sm:w-auto'
+              )}
+            >
+              <Activity className="w-3 h-3 md:w-4 md:h-4" />
+              <span className="hidden sm:inline">Live Feed</span>
+              <span className="sm:hidden">LIVE</span>
+            </Link>
             <Link
               href="/twap"
               className={cn(
@@ -53,6 +68,55 @@ export const DashboardHeader = memo(function DashboardHeader({
               <span className="hidden sm:inline">TWAP Tracker</span>
               <span className="sm:hidden">TWAP</span>
             </Link>
+            <Link
+              href="/changes"
+              className={cn(
+                'flex items-center justify-center gap-1.5 md:gap-2 px-3 md:px-4 py-1.5 md:py-2 text-xs md:text-sm font-mono font-semibold min-h-[36px] md:min-h-[44px]',
+                'border border-neon-pink/30 rounded transition-all',
+                'text-neon-pink hover:bg-neon-pink/10 hover:border-neon-pink/50',
+                'hover:shadow-neon-pink w-full sm:w-auto'
+              )}
+            >
+              <ArrowLeftRight className="w-3 h-3 md:w-4 md:h-4" />
+              <span className="hidden sm:inline">Position Changes</span>
+              <span className="sm:hidden">CHANGES</span>
+            </Link>
+            <Link
+              href="/discover"
+              className={cn(
+                'flex items-center justify-center gap-1.5 md:gap-2 px-3 md:px-4 py-1.5 md:py-2 text-xs md:text-sm font-mono font-semibold min-h-[36px] md:min-h-[44px]',
+                'border border-whale/30 rounded transition-all',
+                'text-whale hover:bg-whale/10 hover:border-whale/50 w-full sm:w-auto'
+              )}
+            >
+              <Compass className="w-3 h-3 md:w-4 md:h-4" />
+              <span className="hidden sm:inline">Discover</span>
+              <span className="sm:hidden">DISCOVER</span>
+            </Link>
+            <Link
+              href="/alerts"
+              className={cn(
+                'flex items-center justify-center gap-1.5 md:gap-2 px-3 md:px-4 py-1.5 md:py-2 text-xs md:text-sm font-mono font-semibold min-h-[36px] md:min-h-[44px]',
+                'border border-yellow-500/30 rounded transition-all',
+                'text-yellow-500 hover:bg-yellow-500/10 hover:border-yellow-500/50 w-full sm:w-auto'
+              )}
+            >
+              <Bell className="w-3 h-3 md:w-4 md:h-4" />
+              <span className="hidden sm:inline">Alerts</span>
+              <span className="sm:hidden">ALERTS</span>
+            </Link>
+            <Link
+              href="/admin"
+              className={cn(
+                'flex items-center justify-center gap-1.5 md:gap-2 px-3 md:px-4 py-1.5 md:py-2 text-xs md:text-sm font-mono font-semibold min-h-[36px] md:min-h-[44px]',
+                'border border-gunmetal-600 rounded transition-all',
+                'text-gray-300 hover:bg-white/5 hover:border-gray-500 w-full sm:w-auto'
+              )}
+            >
+              <Search className="w-3 h-3 md:w-4 md:h-4" />
+              <span className="hidden sm:inline">Wallets</span>
+              <span className="sm:hidden">WALLETS</span>
+            </Link>
             {isLoading && (
               <div className="flex items-center gap-1.5 md:gap-2 text-xs md:text-sm text-gray-400 font-mono min-h-[36px] md:min-h-[44px]">
                 <div className="w-1.5 h-1.5 md:w-2 md:h-2 rounded-full bg-electric-lime animate-pulse" />
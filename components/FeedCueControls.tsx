@@ -0,0 +1,95 @@
+'use client';
+
+/**
+ * FeedCueControls Component
+ * Opt-in desktop notifications and sounds for the live feed, with a mute toggle
+ * per cue type (golden setups, pinned wallets, whales); preferences persist in the store
+ */
+
+import { memo, useState } from 'react';
+import { useFeedCues, usePinnedWallets, useStore } from '@/store/useStore';
+import {
+  FEED_CUE_ICONS,
+  FEED_CUE_LABELS,
+  FEED_CUE_TYPES,
+  playCueSound,
+  requestNotificationPermission,
+  unlockAudio,
+} from '@/lib/feed-cues';
+import { cn } from '@/lib/utils';
+
+export const FeedCueControls = memo(function FeedCueControls() {
+  const feedCues = useFeedCues();
+  const pinnedWallets = usePinnedWallets();
+  const setFeedCues = useStore((state) => state.setFeedCues);
+  const toggleCueMuted = useStore((state) => state.toggleCueMuted);
+  const [permissionDenied, setPermissionDenied] = useState(false);
+
+  const toggleDesktop = async () => {
+    if (feedCues.desktop) return setFeedCues({ desktop: false });
+
+    const granted = await requestNotificationPermission();
+    setPermissionDenied(!granted);
+    setFeedCues({ desktop: granted });
+  };
+
+  const toggleSound = () => {
+    if (!feedCues.sound) {
+      unlockAudio();
+      playCueSound('golden');
+    }
+    setFeedCues({ sound: !feedCues.sound });
+  };
+
+  const enabled = feedCues.desktop || feedCues.sound;
+
+  return (
+    <div className="flex items-center gap-1 text-xs font-mono">
+      <button
+        onClick={toggleDesktop}
+        title={
+          permissionDenied
+            ? 'Notifications are blocked for this site (or unsupported by this browser)'
+            : 'Desktop notifications while this tab is in the background'
+        }
+        className={cn(
+          'px-2 py-1.5 rounded border transition-colors',
+          feedCues.desktop
+            ? 'border-neon-cyan/50 text-neon-cyan bg-neon-cyan/10'
+            : permissionDenied
+              ? 'border-red-400/40 text-red-400'
+              : 'border-gunmetal-600 text-gray-400 hover:border-gray-500'
+        )}
+      >
+        🔔 Notify
+      </button>
+      <button
+        onClick={toggleSound}
+        title="Play a sound for new cued trades"
+        className={cn(
+          'px-2 py-1.5 rounded border transition-colors',
+          feedCues.sound
+            ? 'border-neon-cyan/50 text-neon-cyan bg-neon-cyan/10'
+            : 'border-gunmetal-600 text-gray-400 hover:border-gray-500'
+        )}
+      >
+        {feedCues.sound ? '🔊' : '🔈'} Sound
+      </button>
+      {FEED_CUE_TYPES.map((type) => (
+        <button
+          key={type}
+          onClick={() => toggleCueMuted(type)}
+          disabled={!enabled}
+          title={`${feedCues.muted[type] ? 'Unmute' : 'Mute'} ${FEED_CUE_LABELS[type].toLowerCase()} cues`}
+          className={cn(
+            'px-2 py-1.5 rounded border border-gunmetal-600 transition-colors disabled:opacity-40',
+            feedCues.muted[type] ? 'text-gray-600 line-through' : 'text-gray-300 hover:border-gray-500'
+          )}
+        >
+          {FEED_CUE_ICONS[type]}
+          {type === 'pinned' && ` ${pinnedWallets.length}`}
+        </button>
+      ))}
+    </div>
+  );
+});
@@ -2,12 +2,15 @@
 
 /**
  * FilterPanel Component
- * Controls for filtering the trade feed
+ * Controls for filtering the trade feed (choices persist across sessions, see store/settings.ts)
  */
 
+import { useMemo } from 'react';
 import { motion } from 'framer-motion';
-import { useStore, useFilters } from '@/store/useStore';
+import { useStore, useFilters, useSmartMoneyMap } from '@/store/useStore';
+import { WALLET_TIERS } from '@/lib/constants';
 import { cn } from '@/lib/utils';
+import type { SmartWalletTier } from '@/types';
 
 const QUICK_FILTERS = [
   { id: 'smart', label: 'Smart Only', key: 'showSmartOnly' as const },
@@ -21,9 +24,20 @@ const SIZE_PRESETS = [
   { label: '>$100K', value: 100_000 },
 ];
 
+const MAX_TRADES_OPTIONS = [100, 250, 500, 1000];
+
 export function FilterPanel() {
   const filters = useFilters();
-  const { setFilters, resetFilters, clearTrades } = useStore();
+  const { setFilters, resetFilters, clearTrades, setMaxTrades } = useStore();
+  const maxTrades = useStore((state) => state.maxTrades);
+  const smartMoneyMap = useSmartMoneyMap();
+
+  // Every tag used in the registry, alphabetical
+  const availableTags = useMemo(() => {
+    const tagSet = new Set<string>();
+    Object.values(smartMoneyMap).forEach(entry => entry.tags?.forEach(tag => tagSet.add(tag)));
+    return Array.from(tagSet).sort((a, b) => a.localeCompare(b));
+  }, [smartMoneyMap]);
 
   return (
     <div className="flex items-center gap-6 px-4 py-3 border-b border-gunmetal-700 bg-base-800/50">
@@ -74,6 +88,52 @@ export function FilterPanel() {
         </div>
       </div>
 
+      {/* Registry Tier / Tag */}
+      <div className="flex items-center gap-2">
+        <span className="text-xs font-mono uppercase tracking-wider text-gray-500 mr-2">
+          Wallet:
+        </span>
+        <select
+          value={filters.selectedTier ?? ''}
+          onChange={(e) => setFilters({ selectedTier: (e.target.value || null) as SmartWalletTier | null })}
+          className="px-2 py-1.5 text-xs font-mono uppercase rounded border border-gunmetal-600 bg-base-900 text-gray-300 focus:outline-none focus:border-neon-cyan/50"
+        >
+          <option value="">All Tiers</option>
+          {WALLET_TIERS.map((tier) => (
+            <option key={tier} value={tier}>{tier}</option>
+          ))}
+        </select>
+        {availableTags.length > 0 && (
+          <select
+            value={filters.selectedTag ?? ''}
+            onChange={(e) => setFilters({ selectedTag: e.target.value || null })}
+            className="px-2 py-1.5 text-xs font-mono rounded border border-gunmetal-600 bg-base-900 text-gray-300 focus:outline-none focus:border-neon-cyan/50"
+          >
+            <option value="">All Tags</option>
+            {availableTags.map((tag) => (
+              <option key={tag} value={tag}>#{tag}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {/* Feed Length */}
+      <div className="flex items-center gap-2">
+        <span className="text-xs font-mono uppercase tracking-wider text-gray-500 mr-2">
+          Keep:
+        </span>
+        <select
+          value={maxTrades}
+          onChange={(e) => setMaxTrades(Number(e.target.value))}
+          title="Trades kept in the feed"
+          className="px-2 py-1.5 text-xs font-mono rounded border border-gunmetal-600 bg-base-900 text-gray-300 focus:outline-none focus:border-neon-cyan/50"
+        >
+          {MAX_TRADES_OPTIONS.map((option) => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      </div>
+
       {/* Spacer */}
       <div className="flex-1" />
 
@@ -7,17 +7,20 @@
  * FIXED: WebSocket no longer depends on cache loading
  */
 
-import { useCallback, useRef } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useVirtualizer } from '@tanstack/react-virtual';
 import { TradeRow } from './TradeRow';
-import { useFilteredTrades, useConnectionStatus, useStats } from '@/store/useStore';
+import { useFilteredTrades, useConnectionStatus, useStats, useSmartMoneyMap, usePinnedWallets } from '@/store/useStore';
 import { useHyperliquidWS } from '@/hooks/useHyperliquidWS';
-import { useProcessor } from '@/hooks/useProcessor';
+import { rankFillsUsers, useUserFillsWS } from '@/hooks/useUserFillsWS';
+import { useProcessor, type ProcessorStats } from '@/hooks/useProcessor';
 import { useSmartMoneyLoader } from '@/hooks/useSmartMoneyLoader';
+import { useFeedCues } from '@/hooks/useFeedCues';
 import { cn, formatUSD } from '@/lib/utils';
 
 const ROW_HEIGHT = 56;
+const PROCESSOR_STATS_INTERVAL_MS = 1000;
 
 export function LiveFeed() {
   const trades = useFilteredTrades();
@@ -29,11 +32,35 @@ export function LiveFeed() {
   const { isLoading: isLoadingCache, walletCount, error: cacheError } = useSmartMoneyLoader();
 
   // Initialize processor
-  const { handleTrade } = useProcessor();
+  const { handleTrade, handleUserFill, getStats } = useProcessor();
 
   // ALWAYS connect to WebSocket - NO CONDITIONS
   useHyperliquidWS(handleTrade);
 
+  // Per-wallet fill streams for tracked wallets (once the map is loaded), pinned and
+  // higher tiers first since Hyperliquid caps how many can be streamed
+  const smartMoneyMap = useSmartMoneyMap();
+  const pinnedWallets = usePinnedWallets();
+  const trackedAddresses = useMemo(
+    () => rankFillsUsers(smartMoneyMap, pinnedWallets),
+    [smartMoneyMap, pinnedWallets]
+  );
+  const fillsCoverage = useUserFillsWS(trackedAddresses, handleUserFill);
+
+  // Sounds / desktop notifications for golden setups, whales and pinned wallets
+  useFeedCues();
+
+  // Processor stats live in a ref; sample them on an interval for display
+  const [processorStats, setProcessorStats] = useState<ProcessorStats>(getStats);
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setProcessorStats(getStats());
+    }, PROCESSOR_STATS_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [getStats]);
+
   // Derive state
   const isConnected = connectionStatus === 'connected';
   const isConnecting = connectionStatus === 'connecting';
@@ -211,6 +238,19 @@ export function LiveFeed() {
               {walletCount} Smart Wallets
             </span>
           )}
+
+          {/* Fill Stream Coverage */}
+          {fillsCoverage.requested > 0 && (
+            <span
+              className={cn(
+                'text-xs font-mono',
+                fillsCoverage.subscribed < fillsCoverage.requested ? 'text-yellow-500' : 'text-gray-500'
+              )}
+              title="Wallets with a direct fill stream (Hyperliquid allows 10 per IP; pinned, then institution / whale / smart tiers first). The rest are matched from the public trades channel"
+            >
+              Fill streams: {fillsCoverage.subscribed}/{fillsCoverage.requested}
+            </span>
+          )}
         </div>
 
         {/* Stats */}
@@ -222,9 +262,9 @@ export function LiveFeed() {
         </div>
       </div>
 
-      {/* DEBUG STATUS LINE - Remove after fixing */}
+      {/* Processor Stats */}
       <div className="text-[10px] font-mono text-neon-cyan opacity-70 text-center py-1 bg-base-900/30 border-b border-gunmetal-700">
-        STATUS: {connectionStatus} | TRADES: {trades.length} | CACHE: {isLoadingCache ? 'Loading' : walletCount + ' wallets'} | ERROR: {cacheError || 'none'}
+        PROCESSED: {processorStats.processed} | FILTERED: {processorStats.filtered} | ENRICHED: {processorStats.enriched} | SHOWING: {trades.length}
       </div>
 
       {/* Column Headers */}
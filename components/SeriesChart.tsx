@@ -0,0 +1,204 @@
+'use client';
+
+/**
+ * SeriesChart Component
+ * Lightweight SVG charts for USD time series (PnL, account value)
+ */
+
+import { memo, useId, useMemo, useState } from 'react';
+import type { SeriesPoint } from '@/types';
+import { cn, formatDateTime, formatUSD } from '@/lib/utils';
+
+const VIEW_WIDTH = 600;
+
+interface ScaledSeries {
+  path: string;
+  min: number;
+  max: number;
+  toX: (index: number) => number;
+  toY: (value: number) => number;
+}
+
+/**
+ * Map a series onto an SVG viewBox of the given size
+ */
+function scaleSeries(series: SeriesPoint[], width: number, height: number): ScaledSeries {
+  const values = series.map(point => point.value);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || 1;
+
+  const toX = (index: number) => (series.length > 1 ? (index / (series.length - 1)) * width : width / 2);
+  const toY = (value: number) => height - ((value - min) / range) * height;
+
+  const path = series
+    .map((point, i) => `${i === 0 ? 'M' : 'L'}${toX(i).toFixed(2)},${toY(point.value).toFixed(2)}`)
+    .join(' ');
+
+  return { path, min, max, toX, toY };
+}
+
+function trendClass(series: SeriesPoint[], relativeToZero: boolean) {
+  const last = series[series.length - 1]?.value ?? 0;
+  const reference = relativeToZero ? 0 : series[0]?.value ?? 0;
+  return last > reference ? 'text-electric-lime' : last < reference ? 'text-short' : 'text-gray-500';
+}
+
+interface SeriesChartProps {
+  series: SeriesPoint[];
+  height?: number;
+  // PnL series are coloured against zero; value series against their first point
+  relativeToZero?: boolean;
+  emptyLabel?: string;
+  className?: string;
+}
+
+export function SeriesChart({
+  series,
+  height = 160,
+  relativeToZero = false,
+  emptyLabel = 'No history',
+  className,
+}: SeriesChartProps) {
+  const gradientId = useId();
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  const scaled = useMemo(
+    () => (series.length > 0 ? scaleSeries(series, VIEW_WIDTH, height) : null),
+    [series, height]
+  );
+
+  if (!scaled) {
+    return (
+      <div className={cn('px-4 py-6 text-center text-sm font-mono text-gray-500', className)}>
+        {emptyLabel}
+      </div>
+    );
+  }
+
+  const colorClass = trendClass(series, relativeToZero);
+  const showZero = relativeToZero && scaled.min < 0 && scaled.max > 0;
+  const hovered = hoverIndex != null ? series[hoverIndex] : series[series.length - 1];
+
+  const handleMouseMove = (event: React.MouseEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const ratio = (event.clientX - rect.left) / rect.width;
+    setHoverIndex(Math.round(Math.min(1, Math.max(0, ratio)) * (series.length - 1)));
+  };
+
+  return (
+    <div className={cn('px-4 py-4', className)}>
+      <div className="flex items-center justify-between mb-2 text-xs font-mono">
+        <span className="text-gray-500">{formatDateTime(hovered.time)}</span>
+        <span className={cn('mono-nums font-semibold', colorClass)}>{formatUSD(hovered.value)}</span>
+      </div>
+
+      <svg
+        viewBox={`0 0 ${VIEW_WIDTH} ${height}`}
+        preserveAspectRatio="none"
+        className={cn('w-full', colorClass)}
+        style={{ height }}
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHoverIndex(null)}
+      >
+        <defs>
+          <linearGradient id={gradientId} x1="0" x2="0" y1="0" y2="1">
+            <stop offset="0%" stopColor="currentColor" stopOpacity={0.25} />
+            <stop offset="100%" stopColor="currentColor" stopOpacity={0} />
+          </linearGradient>
+        </defs>
+
+        <path
+          d={`${scaled.path} L${scaled.toX(series.length - 1)},${height} L${scaled.toX(0)},${height} Z`}
+          fill={`url(#${gradientId})`}
+        />
+
+        {showZero && (
+          <line
+            x1={0}
+            x2={VIEW_WIDTH}
+            y1={scaled.toY(0)}
+            y2={scaled.toY(0)}
+            stroke="currentColor"
+            strokeDasharray="4 4"
+            vectorEffect="non-scaling-stroke"
+            className="text-gunmetal-600"
+          />
+        )}
+
+        <path
+          d={scaled.path}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+
+        {hoverIndex != null && (
+          <line
+            x1={scaled.toX(hoverIndex)}
+            x2={scaled.toX(hoverIndex)}
+            y1={0}
+            y2={height}
+            stroke="currentColor"
+            vectorEffect="non-scaling-stroke"
+            className="text-gray-500"
+          />
+        )}
+      </svg>
+
+      <div className="flex items-center justify-between mt-1 text-[10px] font-mono text-gray-600">
+        <span>{formatDateTime(series[0].time)}</span>
+        <span>
+          Low {formatUSD(scaled.min)} · High {formatUSD(scaled.max)}
+        </span>
+        <span>{formatDateTime(series[series.length - 1].time)}</span>
+      </div>
+    </div>
+  );
+}
+
+interface SparklineProps {
+  series: SeriesPoint[];
+  width?: number;
+  height?: number;
+  relativeToZero?: boolean;
+  className?: string;
+}
+
+export const Sparkline = memo(function Sparkline({
+  series,
+  width = 80,
+  height = 24,
+  relativeToZero = true,
+  className,
+}: SparklineProps) {
+  const scaled = useMemo(
+    () => (series.length > 1 ? scaleSeries(series, width, height) : null),
+    [series, width, height]
+  );
+
+  if (!scaled) {
+    return <span className="text-xs text-gray-500 font-mono">-</span>;
+  }
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      width={width}
+      height={height}
+      preserveAspectRatio="none"
+      className={cn('overflow-visible', trendClass(series, relativeToZero), className)}
+    >
+      <path
+        d={scaled.path}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={1.5}
+        vectorEffect="non-scaling-stroke"
+        strokeLinejoin="round"
+        strokeLinecap="round"
+      />
+    </svg>
+  );
+});
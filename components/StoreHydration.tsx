@@ -0,0 +1,18 @@
+'use client';
+
+/**
+ * StoreHydration Component
+ * Loads the persisted store slice from localStorage after the first render,
+ * so server-rendered markup and the client's first render agree
+ */
+
+import { useEffect } from 'react';
+import { useStore } from '@/store/useStore';
+
+export function StoreHydration() {
+  useEffect(() => {
+    useStore.persist.rehydrate();
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,176 @@
+'use client';
+
+/**
+ * ThresholdSettings Component
+ * Per-coin whale / golden-setup / noise sizes for the live feed (lib/thresholds.ts).
+ * Empty fields use the default derived from the coin's typical trade size, shown as placeholder
+ */
+
+import { memo, useEffect, useMemo, useState } from 'react';
+import { useStore } from '@/store/useStore';
+import { DEFAULT_THRESHOLDS, deriveThresholds } from '@/lib/thresholds';
+import { sortTokensByMarketCap } from '@/lib/constants';
+import { cn, formatUSD } from '@/lib/utils';
+import type { TradeThresholds } from '@/types';
+
+const THRESHOLD_FIELDS: { key: keyof TradeThresholds; label: string; title: string }[] = [
+  { key: 'noiseUsd', label: 'Noise', title: 'Untracked, non-whale trades below this are dropped' },
+  { key: 'goldenUsd', label: 'Golden', title: 'Smart trades above this are golden setups' },
+  { key: 'whaleUsd', label: 'Whale', title: 'Trades at least this size are whales' },
+];
+
+const GRID_CLASS = 'grid grid-cols-[80px_90px_repeat(3,minmax(0,1fr))_32px] gap-3 items-center';
+
+interface ThresholdInputProps {
+  value: number | undefined;
+  placeholder: number;
+  title: string;
+  onCommit: (value: number | undefined) => void;
+}
+
+function ThresholdInput({ value, placeholder, title, onCommit }: ThresholdInputProps) {
+  const [draft, setDraft] = useState(value?.toString() ?? '');
+
+  // Pick up resets
+  useEffect(() => {
+    setDraft(value?.toString() ?? '');
+  }, [value]);
+
+  const commit = () => {
+    const parsed = Number(draft);
+    if (!draft.trim()) onCommit(undefined);
+    else if (Number.isFinite(parsed) && parsed > 0) onCommit(parsed);
+    else setDraft(value?.toString() ?? '');
+  };
+
+  return (
+    <input
+      type="number"
+      min={0}
+      value={draft}
+      placeholder={placeholder.toString()}
+      title={title}
+      onChange={(event) => setDraft(event.target.value)}
+      onBlur={commit}
+      onKeyDown={(event) => event.key === 'Enter' && event.currentTarget.blur()}
+      className={cn(
+        'w-full px-2 py-1 rounded border bg-base-900 text-xs font-mono focus:outline-none focus:border-neon-cyan/50',
+        value !== undefined ? 'border-neon-cyan/40 text-neon-cyan' : 'border-gunmetal-700 text-gray-300'
+      )}
+    />
+  );
+}
+
+interface CoinRowProps {
+  coin: string;
+  typicalSizeUsd: number | undefined;
+  overrides: Partial<TradeThresholds> | undefined;
+  onChange: (coin: string, thresholds: Partial<TradeThresholds> | null) => void;
+}
+
+const CoinRow = memo(function CoinRow({ coin, typicalSizeUsd, overrides, onChange }: CoinRowProps) {
+  const defaults = deriveThresholds(typicalSizeUsd);
+
+  return (
+    <div className={cn(GRID_CLASS, 'px-4 py-1.5 border-b border-gunmetal-700/50')}>
+      <span className="text-sm font-mono font-semibold text-gray-200">{coin}</span>
+      <span className="text-xs font-mono text-gray-500" title="Median trade size on the tape">
+        {typicalSizeUsd ? formatUSD(typicalSizeUsd) : '—'}
+      </span>
+      {THRESHOLD_FIELDS.map(({ key, title }) => (
+        <ThresholdInput
+          key={key}
+          value={overrides?.[key]}
+          placeholder={defaults[key]}
+          title={title}
+          onCommit={(value) => onChange(coin, { ...overrides, [key]: value })}
+        />
+      ))}
+      {overrides ? (
+        <button
+          onClick={() => onChange(coin, null)}
+          title="Back to defaults"
+          className="text-xs font-mono text-gray-500 hover:text-neon-pink transition-colors"
+        >
+          ↺
+        </button>
+      ) : (
+        <span />
+      )}
+    </div>
+  );
+});
+
+export function ThresholdSettings() {
+  const thresholdOverrides = useStore((state) => state.thresholdOverrides);
+  const typicalTradeSizes = useStore((state) => state.typicalTradeSizes);
+  const showAllTrades = useStore((state) => state.showAllTrades);
+  const { setCoinThresholds, resetThresholds, setShowAllTrades } = useStore();
+
+  // Coins seen on the tape plus any with overrides
+  const coins = useMemo(
+    () =>
+      sortTokensByMarketCap(
+        Array.from(new Set([...Object.keys(typicalTradeSizes), ...Object.keys(thresholdOverrides)]))
+      ),
+    [typicalTradeSizes, thresholdOverrides]
+  );
+
+  return (
+    <div className="border-b border-gunmetal-700 bg-base-800/50">
+      <div className="flex flex-wrap items-center gap-4 px-4 py-3">
+        <span className="text-xs font-mono uppercase tracking-wider text-gray-400">Trade Thresholds</span>
+        <span className="text-xs font-mono text-gray-500">
+          Defaults scale with each coin&apos;s median trade (global: whale {formatUSD(DEFAULT_THRESHOLDS.whaleUsd)},
+          golden {formatUSD(DEFAULT_THRESHOLDS.goldenUsd)}, noise {formatUSD(DEFAULT_THRESHOLDS.noiseUsd)})
+        </span>
+        <div className="flex-1" />
+        <label className="flex items-center gap-2 text-xs font-mono text-gray-400">
+          <input
+            type="checkbox"
+            checked={showAllTrades}
+            onChange={(event) => setShowAllTrades(event.target.checked)}
+            className="accent-neon-cyan"
+          />
+          Show all trades (no noise filter)
+        </label>
+        <button
+          onClick={resetThresholds}
+          disabled={Object.keys(thresholdOverrides).length === 0}
+          className="px-3 py-1.5 text-xs font-mono uppercase tracking-wider text-gray-500 hover:text-gray-300 transition-colors disabled:opacity-40"
+        >
+          Reset All
+        </button>
+      </div>
+
+      <div className={cn(GRID_CLASS, 'px-4 py-2 border-y border-gunmetal-700 bg-base-900/30')}>
+        <span className="text-xs font-semibold uppercase tracking-wider text-gray-500">Coin</span>
+        <span className="text-xs font-semibold uppercase tracking-wider text-gray-500">Typical</span>
+        {THRESHOLD_FIELDS.map(({ key, label, title }) => (
+          <span key={key} title={title} className="text-xs font-semibold uppercase tracking-wider text-gray-500">
+            {label} ($)
+          </span>
+        ))}
+        <span />
+      </div>
+
+      <div className="max-h-64 overflow-auto">
+        {coins.length === 0 ? (
+          <div className="py-4 text-center text-xs font-mono text-gray-500">
+            Coins appear here as trades come in
+          </div>
+        ) : (
+          coins.map((coin) => (
+            <CoinRow
+              key={coin}
+              coin={coin}
+              typicalSizeUsd={typicalTradeSizes[coin]}
+              overrides={thresholdOverrides[coin]}
+              onChange={setCoinThresholds}
+            />
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
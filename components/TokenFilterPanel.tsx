@@ -9,6 +9,8 @@ import { useState, useRef, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { ChevronDown, X, Search } from './icons';
 import { cn } from '@/lib/utils';
+import { WALLET_TIERS } from '@/lib/constants';
+import type { PnlMode, SmartWalletTier } from '@/types';
 
 interface TokenFilterPanelProps {
   availableTokens: string[];
@@ -18,8 +20,20 @@ interface TokenFilterPanelProps {
   onSizeFilterChange: (value: 'all' | '10k' | '50k' | '250k' | '1m') => void;
   pnlFilter: 'all' | '0' | '10k' | '50k' | '250k';
   onPnlFilterChange: (value: 'all' | '0' | '10k' | '50k' | '250k') => void;
+  pnlMode: PnlMode;
+  onPnlModeChange: (mode: PnlMode) => void;
+  tierFilter: SmartWalletTier | 'all';
+  onTierFilterChange: (tier: SmartWalletTier | 'all') => void;
+  availableTags: string[];
+  tagFilter: string | null;
+  onTagFilterChange: (tag: string | null) => void;
 }
 
+const PNL_MODES: { label: string; value: PnlMode }[] = [
+  { label: 'Gross', value: 'gross' },
+  { label: 'Net', value: 'net' },
+];
+
 export function TokenFilterPanel({
   availableTokens,
   selectedToken,
@@ -28,6 +42,13 @@ export function TokenFilterPanel({
   onSizeFilterChange,
   pnlFilter,
   onPnlFilterChange,
+  pnlMode,
+  onPnlModeChange,
+  tierFilter,
+  onTierFilterChange,
+  availableTags,
+  tagFilter,
+  onTagFilterChange,
 }: TokenFilterPanelProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [isOpen, setIsOpen] = useState(false);
@@ -235,6 +256,69 @@ export function TokenFilterPanel({
           </select>
         </div>
 
+        {/* Registry tier filter */}
+        <div className="relative w-[150px] sm:w-40">
+          <select
+            value={tierFilter}
+            onChange={(e) => onTierFilterChange(e.target.value as TokenFilterPanelProps['tierFilter'])}
+            className={cn(
+              'w-full px-3 py-2 text-sm font-mono min-h-[44px]',
+              'bg-gunmetal-800 border border-gunmetal-600 rounded',
+              'text-white focus:outline-none focus:border-electric-lime',
+              'transition-colors'
+            )}
+          >
+            <option value="all">All Tiers</option>
+            {WALLET_TIERS.map((tier) => (
+              <option key={tier} value={tier}>
+                {tier.charAt(0).toUpperCase() + tier.slice(1)}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Registry tag filter */}
+        {availableTags.length > 0 && (
+          <div className="relative w-[150px] sm:w-40">
+            <select
+              value={tagFilter ?? ''}
+              onChange={(e) => onTagFilterChange(e.target.value || null)}
+              className={cn(
+                'w-full px-3 py-2 text-sm font-mono min-h-[44px]',
+                'bg-gunmetal-800 border border-gunmetal-600 rounded',
+                'text-white focus:outline-none focus:border-electric-lime',
+                'transition-colors'
+              )}
+            >
+              <option value="">All Tags</option>
+              {availableTags.map((tag) => (
+                <option key={tag} value={tag}>#{tag}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {/* Gross / Net PnL toggle */}
+        <div
+          className="flex rounded overflow-hidden border border-gunmetal-600 min-h-[44px]"
+          title="Net PnL = realized PnL - trading fees + funding"
+        >
+          {PNL_MODES.map((mode) => (
+            <button
+              key={mode.value}
+              onClick={() => onPnlModeChange(mode.value)}
+              className={cn(
+                'px-3 py-1.5 text-xs font-mono font-semibold uppercase transition-colors duration-200',
+                pnlMode === mode.value
+                  ? 'bg-electric-lime/20 text-electric-lime'
+                  : 'bg-transparent text-gray-500 hover:text-gray-300'
+              )}
+            >
+              {mode.label}
+            </button>
+          ))}
+        </div>
+
         {selectedToken && (
           <motion.button
             initial={{ opacity: 0, scale: 0.8 }}
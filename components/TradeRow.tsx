@@ -7,9 +7,11 @@
 
 import { memo } from 'react';
 import { motion } from 'framer-motion';
+import { useStore } from '@/store/useStore';
 import type { UnifiedTradeLog } from '@/types';
-import { cn, formatUSD, formatPrice, truncateAddress, formatTime, isGoldenSetup } from '@/lib/utils';
-import { EXPLORER_URL } from '@/lib/constants';
+import { WalletLink } from './WalletLink';
+import { WALLET_TIER_STYLES } from './WalletTags';
+import { cn, formatUSD, formatPrice, formatTime } from '@/lib/utils';
 
 interface TradeRowProps {
   trade: UnifiedTradeLog;
@@ -17,8 +19,10 @@ interface TradeRowProps {
 }
 
 export const TradeRow = memo(function TradeRow({ trade, index }: TradeRowProps) {
-  const isGolden = isGoldenSetup(trade.isSmart, trade.sizeUsd);
+  const isGolden = trade.isGolden;
   const isLong = trade.side === 'Long';
+  const isPinned = useStore((state) => state.pinnedWallets.includes(trade.walletAddress.toLowerCase()));
+  const togglePinnedWallet = useStore((state) => state.togglePinnedWallet);
 
   // Animation variants
   const rowVariants = {
@@ -152,24 +156,50 @@ export const TradeRow = memo(function TradeRow({ trade, index }: TradeRowProps)
               {trade.walletLabel}
             </span>
           )}
+
+          {trade.walletTier && trade.walletTier !== 'smart' && (
+            <span
+              className={cn(
+                'px-1.5 py-px rounded border text-[10px] font-mono font-bold uppercase tracking-wider',
+                WALLET_TIER_STYLES[trade.walletTier]
+              )}
+            >
+              {trade.walletTier}
+            </span>
+          )}
+
+          {trade.walletTags?.slice(0, 2).map(tag => (
+            <span
+              key={tag}
+              className="px-1.5 py-px rounded bg-gunmetal-700/60 text-[10px] font-mono text-gray-400"
+            >
+              {tag}
+            </span>
+          ))}
         </div>
       </div>
 
-      {/* Wallet Address */}
-      <div className="flex items-center justify-end">
-        <a
-          href={`${EXPLORER_URL}/address/${trade.walletAddress}`} 
-          target="_blank" 
-          rel="noopener noreferrer"
+      {/* Wallet Address (pinned wallets always cue, see useFeedCues) */}
+      <div className="flex items-center justify-end gap-2">
+        <button
+          onClick={() => togglePinnedWallet(trade.walletAddress)}
+          title={isPinned ? 'Unpin wallet' : 'Pin wallet (notify on its trades)'}
+          className={cn(
+            'text-xs transition-opacity duration-200',
+            isPinned ? 'opacity-100' : 'opacity-30 grayscale hover:opacity-70'
+          )}
+        >
+          📌
+        </button>
+        <WalletLink
+          address={trade.walletAddress}
           className={cn(
-            'font-mono text-xs transition-colors duration-200',
+            'text-xs duration-200',
             trade.isSmart 
               ? 'text-neon-green/70 hover:text-neon-green' 
               : 'text-gray-500 hover:text-gray-300'
           )}
-        >
-          {truncateAddress(trade.walletAddress, 4)}
-        </a>
+        />
       </div>
     </motion.div>
   );
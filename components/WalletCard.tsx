@@ -7,19 +7,25 @@
 
 import { memo } from 'react';
 import { motion } from 'framer-motion';
-import { ExternalLink } from './icons';
-import type { WalletStats } from '@/types';
-import { cn, formatPrice, formatUSD, truncateAddress } from '@/lib/utils';
-import { EXPLORER_URL } from '@/lib/constants';
+import { Sparkline } from './SeriesChart';
+import { WalletLink } from './WalletLink';
+import { WalletTags } from './WalletTags';
+import type { PnlMode, SmartWalletEntry, WalletStats } from '@/types';
+import { cn, formatPrice, formatUSD } from '@/lib/utils';
 
 interface WalletCardProps {
   wallet: WalletStats;
+  entry?: SmartWalletEntry; // Registry name / tier / tags
   index: number;
   selectedToken?: string | null;
+  pnlMode?: PnlMode;
 }
 
-export const WalletCard = memo(function WalletCard({ wallet, index, selectedToken }: WalletCardProps) {
+export const WalletCard = memo(function WalletCard({ wallet, entry, index, selectedToken, pnlMode = 'gross' }: WalletCardProps) {
   const isError = wallet.error;
+  const isNet = pnlMode === 'net';
+  const pnl7d = isNet ? wallet.netPnl7d : wallet.pnl7d;
+  const pnl30d = isNet ? wallet.netPnl30d : wallet.pnl30d;
 
   const getDisplayData = () => {
     if (selectedToken) {
@@ -66,19 +72,18 @@ export const WalletCard = memo(function WalletCard({ wallet, index, selectedToke
     >
       {/* Header */}
       <div className="flex items-start justify-between gap-3 mb-3">
-        <a
-          href={`${EXPLORER_URL}/address/${wallet.address}`}
-          target="_blank"
-          rel="noopener noreferrer"
-          className={cn(
-            'flex items-center gap-2 font-mono text-sm font-semibold',
-            'text-electric-lime hover:text-electric-lime/80 transition-colors',
-            isError && 'text-gray-500'
-          )}
-        >
-          {truncateAddress(wallet.address, 6)}
-          <ExternalLink className="w-3.5 h-3.5 opacity-60" />
-        </a>
+        <div className="min-w-0 space-y-1">
+          <WalletLink
+            address={wallet.address}
+            chars={6}
+            iconClassName="w-3.5 h-3.5"
+            className={cn(
+              'text-sm font-semibold text-electric-lime hover:text-electric-lime/80',
+              isError && 'text-gray-500'
+            )}
+          />
+          <WalletTags entry={entry} />
+        </div>
         <div className="flex items-center gap-2">
           <span
             className={cn(
@@ -135,27 +140,35 @@ export const WalletCard = memo(function WalletCard({ wallet, index, selectedToke
         <div className="grid grid-cols-2 gap-3">
           {/* 7D PnL */}
           <div className="space-y-1">
-            <div className="text-xs text-gray-400 uppercase tracking-wider">7D PnL</div>
+            <div className="text-xs text-gray-400 uppercase tracking-wider">7D {isNet ? 'Net PnL' : 'PnL'}</div>
             <div className={cn(
               'font-mono text-sm',
-              wallet.pnl7d > 0 
+              pnl7d > 0 
                 ? 'text-electric-lime' 
-                : wallet.pnl7d < 0 
+                : pnl7d < 0 
                 ? 'text-short' 
                 : 'text-gray-400'
             )}>
-              {formatUSD(wallet.pnl7d)}
+              {formatUSD(pnl7d)}
             </div>
           </div>
 
           {/* 30D PnL */}
           <div className="space-y-1">
-            <div className="text-xs text-gray-400 uppercase tracking-wider">30D PnL</div>
+            <div className="text-xs text-gray-400 uppercase tracking-wider">30D {isNet ? 'Net PnL' : 'PnL'}</div>
             <div className={cn(
               'font-mono text-sm',
-              wallet.pnl30d > 0 ? 'text-electric-lime' : wallet.pnl30d < 0 ? 'text-short' : 'text-gray-400'
+              pnl30d > 0 ? 'text-electric-lime' : pnl30d < 0 ? 'text-short' : 'text-gray-400'
             )}>
-              {formatUSD(wallet.pnl30d)}
+              {formatUSD(pnl30d)}
+              {wallet.historyTruncated && (
+                <span
+                  title="Fill history is incomplete (over the retrievable limit or a fetch failed) - 30D figures are partial"
+                  className="ml-1 text-xs text-yellow-500"
+                >
+                  partial
+                </span>
+              )}
             </div>
           </div>
 
@@ -199,6 +212,9 @@ export const WalletCard = memo(function WalletCard({ wallet, index, selectedToke
                   {Math.round(wallet.winRate7d)}%
                 </span>
               </div>
+              <span className="text-[10px] font-mono text-gray-500">
+                {wallet.tradeStats7d.closedTrades} trades
+              </span>
             </div>
           </div>
 
@@ -242,8 +258,17 @@ export const WalletCard = memo(function WalletCard({ wallet, index, selectedToke
                   {Math.round(wallet.winRate30d)}%
                 </span>
               </div>
+              <span className="text-[10px] font-mono text-gray-500">
+                {wallet.tradeStats30d.closedTrades} trades
+              </span>
             </div>
           </div>
+
+          {/* 30D Realized PnL Trend */}
+          <div className="col-span-2 space-y-1">
+            <div className="text-xs text-gray-400 uppercase tracking-wider">30D Trend</div>
+            <Sparkline series={wallet.pnlHistory} width={240} height={32} className="w-full" />
+          </div>
         </div>
       </div>
     </motion.div>
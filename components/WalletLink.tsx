@@ -0,0 +1,49 @@
+'use client';
+
+/**
+ * WalletLink Component
+ * Truncated address linking to the in-app wallet page, plus an explorer shortcut
+ */
+
+import Link from 'next/link';
+import { ExternalLink } from './icons';
+import { cn, truncateAddress } from '@/lib/utils';
+import { EXPLORER_URL } from '@/lib/constants';
+
+interface WalletLinkProps {
+  address: string;
+  chars?: number;
+  className?: string;
+  iconClassName?: string;
+  showExplorer?: boolean;
+}
+
+export function WalletLink({
+  address,
+  chars = 4,
+  className,
+  iconClassName = 'w-3 h-3',
+  showExplorer = true,
+}: WalletLinkProps) {
+  return (
+    <span className="inline-flex items-center gap-2">
+      <Link
+        href={`/wallet/${address}`}
+        className={cn('font-mono transition-colors', className)}
+      >
+        {truncateAddress(address, chars)}
+      </Link>
+      {showExplorer && (
+        <a
+          href={`${EXPLORER_URL}/address/${address}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          title="View on explorer"
+          className={cn('opacity-60 hover:opacity-100 transition-opacity', className)}
+        >
+          <ExternalLink className={iconClassName} />
+        </a>
+      )}
+    </span>
+  );
+}
@@ -7,19 +7,25 @@
 
 import { memo } from 'react';
 import { motion } from 'framer-motion';
-import { ExternalLink } from './icons';
-import type { WalletStats } from '@/types';
-import { cn, formatPrice, formatUSD, truncateAddress } from '@/lib/utils';
-import { EXPLORER_URL } from '@/lib/constants';
+import { Sparkline } from './SeriesChart';
+import { WalletLink } from './WalletLink';
+import { WalletTags } from './WalletTags';
+import type { PnlMode, SmartWalletEntry, WalletStats } from '@/types';
+import { cn, formatPnlBreakdown, formatPrice, formatTradeStats, formatUSD } from '@/lib/utils';
 
 interface WalletRowProps {
   wallet: WalletStats;
+  entry?: SmartWalletEntry; // Registry name / tier / tags
   index: number;
   selectedToken?: string | null;
+  pnlMode?: PnlMode;
 }
 
-export const WalletRow = memo(function WalletRow({ wallet, index, selectedToken }: WalletRowProps) {
+export const WalletRow = memo(function WalletRow({ wallet, entry, index, selectedToken, pnlMode = 'gross' }: WalletRowProps) {
   const isError = wallet.error;
+  const isNet = pnlMode === 'net';
+  const pnl7d = isNet ? wallet.netPnl7d : wallet.pnl7d;
+  const pnl30d = isNet ? wallet.netPnl30d : wallet.pnl30d;
 
   // Determine display side and size based on selectedToken
   const getDisplayData = () => {
@@ -65,19 +71,14 @@ export const WalletRow = memo(function WalletRow({ wallet, index, selectedToken
     >
       {/* Wallet Address */}
       <td className="px-3 py-2.5 md:px-4 md:py-3">
-        <a
-          href={`${EXPLORER_URL}/address/${wallet.address}`}
-          target="_blank"
-          rel="noopener noreferrer"
+        <WalletLink
+          address={wallet.address}
           className={cn(
-            'flex items-center gap-2 font-mono text-sm transition-colors',
-            'text-electric-lime hover:text-electric-lime/80',
+            'text-sm text-electric-lime hover:text-electric-lime/80',
             isError && 'text-gray-500'
           )}
-        >
-          {truncateAddress(wallet.address, 4)}
-          <ExternalLink className="w-3 h-3 opacity-60" />
-        </a>
+        />
+        <WalletTags entry={entry} maxTags={2} className="mt-1" />
       </td>
 
       {/* Side (Long/Short) */}
@@ -144,31 +145,50 @@ export const WalletRow = memo(function WalletRow({ wallet, index, selectedToken
 
       {/* 7D PnL */}
       <td className="px-3 py-2.5 md:px-4 md:py-3">
-        <span className={cn(
-          'font-mono text-sm mono-nums font-semibold',
-          wallet.pnl7d > 0 
-            ? 'text-electric-lime text-glow-green' 
-            : wallet.pnl7d < 0 
-            ? 'text-short' 
-            : 'text-gray-400'
-        )}>
-          {formatUSD(wallet.pnl7d)}
+        <span
+          title={formatPnlBreakdown(wallet.pnl7d, wallet.fees7d, wallet.funding7d)}
+          className={cn(
+            'font-mono text-sm mono-nums font-semibold',
+            pnl7d > 0
+              ? 'text-electric-lime text-glow-green'
+              : pnl7d < 0
+              ? 'text-short'
+              : 'text-gray-400'
+          )}
+        >
+          {formatUSD(pnl7d)}
         </span>
       </td>
 
       {/* 30D PnL */}
       <td className="px-3 py-2.5 md:px-4 md:py-3">
-        <span className={cn(
-          'font-mono text-sm mono-nums',
-          wallet.pnl30d > 0 ? 'text-electric-lime' : wallet.pnl30d < 0 ? 'text-short' : 'text-gray-400'
-        )}>
-          {formatUSD(wallet.pnl30d)}
+        <span
+          title={formatPnlBreakdown(wallet.pnl30d, wallet.fees30d, wallet.funding30d)}
+          className={cn(
+            'font-mono text-sm mono-nums',
+            pnl30d > 0 ? 'text-electric-lime' : pnl30d < 0 ? 'text-short' : 'text-gray-400'
+          )}
+        >
+          {formatUSD(pnl30d)}
         </span>
+        {wallet.historyTruncated && (
+          <span
+            title="Fill history is incomplete (over the retrievable limit or a fetch failed) - 30D figures are partial"
+            className="ml-1 text-xs font-mono text-yellow-500 cursor-help"
+          >
+            partial
+          </span>
+        )}
+      </td>
+
+      {/* 30D Realized PnL Trend */}
+      <td className="px-3 py-2.5 md:px-4 md:py-3">
+        <Sparkline series={wallet.pnlHistory} />
       </td>
 
       {/* 7D Win Rate */}
       <td className="px-3 py-2.5 md:px-4 md:py-3">
-        <div className="flex items-center gap-2">
+        <div className="flex items-center gap-2" title={formatTradeStats(wallet.tradeStats7d)}>
           <div className="relative w-10 h-10 md:w-12 md:h-12">
             <svg className="w-10 h-10 md:w-12 md:h-12 transform -rotate-90" viewBox="0 0 36 36">
               <circle
@@ -210,7 +230,7 @@ export const WalletRow = memo(function WalletRow({ wallet, index, selectedToken
 
       {/* 30D Win Rate */}
       <td className="px-3 py-2.5 md:px-4 md:py-3">
-        <div className="flex items-center gap-2">
+        <div className="flex items-center gap-2" title={formatTradeStats(wallet.tradeStats30d)}>
           <div className="relative w-10 h-10 md:w-12 md:h-12">
             <svg className="w-10 h-10 md:w-12 md:h-12 transform -rotate-90" viewBox="0 0 36 36">
               <circle
@@ -0,0 +1,74 @@
+'use client';
+
+/**
+ * WalletTags Component
+ * Registry name, tier badge and tags for a tracked wallet (notes on hover)
+ */
+
+import { memo } from 'react';
+import { DEFAULT_WALLET_LABEL } from '@/lib/constants';
+import { cn } from '@/lib/utils';
+import type { SmartWalletEntry, SmartWalletTier } from '@/types';
+
+export const WALLET_TIER_STYLES: Record<SmartWalletTier, string> = {
+  smart: 'text-electric-lime border-electric-lime/30',
+  whale: 'text-whale border-whale/30',
+  institution: 'text-neon-cyan border-neon-cyan/30',
+};
+
+interface WalletTagsProps {
+  entry?: SmartWalletEntry;
+  showName?: boolean;
+  maxTags?: number;
+  className?: string;
+}
+
+export const WalletTags = memo(function WalletTags({
+  entry,
+  showName = true,
+  maxTags = 3,
+  className,
+}: WalletTagsProps) {
+  if (!entry) return null;
+
+  // The default label is on every seeded wallet and says nothing
+  const name = entry.labels[0] !== DEFAULT_WALLET_LABEL ? entry.labels[0] : undefined;
+  const tags = entry.tags ?? [];
+  const hiddenTags = tags.length - maxTags;
+
+  if (!(showName && name) && entry.tier === 'smart' && tags.length === 0) return null;
+
+  return (
+    <div
+      className={cn('flex flex-wrap items-center gap-1 min-w-0', className)}
+      title={entry.notes || undefined}
+    >
+      {showName && name && (
+        <span className="text-xs font-semibold text-gray-200 truncate max-w-[160px]">
+          {name}
+        </span>
+      )}
+      {entry.tier !== 'smart' && (
+        <span
+          className={cn(
+            'px-1.5 py-px rounded border text-[10px] font-mono font-bold uppercase tracking-wider',
+            WALLET_TIER_STYLES[entry.tier]
+          )}
+        >
+          {entry.tier}
+        </span>
+      )}
+      {tags.slice(0, maxTags).map(tag => (
+        <span
+          key={tag}
+          className="px-1.5 py-px rounded bg-gunmetal-700/60 text-[10px] font-mono text-gray-400"
+        >
+          {tag}
+        </span>
+      ))}
+      {hiddenTags > 0 && (
+        <span className="text-[10px] font-mono text-gray-500">+{hiddenTags}</span>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,47 @@
+'use client';
+
+/**
+ * WatchlistSelect Component
+ * Picks the watchlist the dashboard, /twap and the live feed are scoped to
+ * (lists are managed on /admin)
+ */
+
+import { memo } from 'react';
+import { useWatchlistManager } from '@/hooks/useWatchlistManager';
+import { useStore } from '@/store/useStore';
+import { cn } from '@/lib/utils';
+
+interface WatchlistSelectProps {
+  className?: string;
+}
+
+export const WatchlistSelect = memo(function WatchlistSelect({ className }: WatchlistSelectProps) {
+  const { watchlists } = useWatchlistManager();
+  const activeWatchlistId = useStore((state) => state.activeWatchlistId);
+  const setActiveWatchlist = useStore((state) => state.setActiveWatchlist);
+
+  if (watchlists.length === 0) return null;
+
+  return (
+    <select
+      value={activeWatchlistId ?? ''}
+      onChange={(e) => setActiveWatchlist(e.target.value || null)}
+      title="Watchlist"
+      className={cn(
+        'px-3 py-1.5 md:py-2 text-xs md:text-sm font-mono font-semibold min-h-[36px] md:min-h-[44px]',
+        'bg-gunmetal-800 border rounded transition-colors focus:outline-none',
+        activeWatchlistId
+          ? 'border-neon-cyan/50 text-neon-cyan'
+          : 'border-gunmetal-600 text-gray-300 hover:border-gray-500',
+        className
+      )}
+    >
+      <option value="">All Wallets</option>
+      {watchlists.map((watchlist) => (
+        <option key={watchlist.id} value={watchlist.id}>
+          {watchlist.name} ({watchlist.addresses.length})
+        </option>
+      ))}
+    </select>
+  );
+});
@@ -11,4 +11,11 @@ export { WalletRow } from './WalletRow';
 export { WalletCard } from './WalletCard';
 export { SortableTableHeader } from './SortableTableHeader';
 export { TokenFilterPanel } from './TokenFilterPanel';
+export { WalletLink } from './WalletLink';
+export { SeriesChart, Sparkline } from './SeriesChart';
+export { WalletTags } from './WalletTags';
 
+export { WatchlistSelect } from './WatchlistSelect';
+export { StoreHydration } from './StoreHydration';
+export { FeedCueControls } from './FeedCueControls';
+export { ThresholdSettings } from './ThresholdSettings';
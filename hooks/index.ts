@@ -5,4 +5,14 @@
 export { useHyperliquidWS } from './useHyperliquidWS';
 export { useProcessor } from './useProcessor';
 export { useSmartMoneyLoader } from './useSmartMoneyLoader';
+export { useUserFillsWS } from './useUserFillsWS';
+export { useWalletDetail } from './useWalletDetail';
 
+export { usePositionChanges } from './usePositionChanges';
+export { useWalletRegistry } from './useWalletRegistry';
+export { useWatchlistManager } from './useWatchlistManager';
+export { useWalletDiscovery } from './useWalletDiscovery';
+export { useAlertRules } from './useAlertRules';
+export { useAlertHistory } from './useAlertHistory';
+export { useAlertDeliveries } from './useAlertDeliveries';
+export { useFeedCues } from './useFeedCues';
@@ -0,0 +1,113 @@
+'use client';
+
+/**
+ * useAlertDeliveries Hook
+ * Polls the /api/alerts/deliveries log and sends test alerts through a channel
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { AlertChannel, AlertDelivery, AlertDeliveriesResponse } from '@/types';
+
+// Deliveries land a few seconds after the alert fires, later when retrying
+const POLL_INTERVAL_MS = 15 * 1000;
+
+interface UseAlertDeliveriesState {
+  deliveries: AlertDelivery[];
+  isLoading: boolean;
+  error: string | null;
+  lastUpdated: number | null;
+}
+
+export function useAlertDeliveries(adminToken?: string, ruleId?: string) {
+  const [state, setState] = useState<UseAlertDeliveriesState>({
+    deliveries: [],
+    isLoading: true,
+    error: null,
+    lastUpdated: null,
+  });
+  const [isTesting, setIsTesting] = useState(false);
+
+  const abortRef = useRef<AbortController | null>(null);
+  // Read at request time so typing a token doesn't refetch (see useWalletRegistry)
+  const tokenRef = useRef(adminToken);
+  tokenRef.current = adminToken;
+
+  const fetchDeliveries = useCallback(async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+    const params = new URLSearchParams({ limit: '200' });
+    if (ruleId) params.set('ruleId', ruleId);
+
+    try {
+      const response = await fetch(`/api/alerts/deliveries?${params}`, { signal: controller.signal });
+      const result = (await response.json()) as AlertDeliveriesResponse;
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `Failed to fetch alert deliveries: ${response.statusText}`);
+      }
+
+      setState({ deliveries: result.data, isLoading: false, error: null, lastUpdated: Date.now() });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[useAlertDeliveries] Error:', errorMessage);
+
+      setState(prev => ({ ...prev, isLoading: false, error: errorMessage }));
+    }
+  }, [ruleId]);
+
+  /**
+   * Send a sample alert through one channel
+   * Resolves the delivery (delivered or failed), or null when the request itself failed
+   */
+  const sendTest = useCallback(async (channel: AlertChannel): Promise<AlertDelivery | null> => {
+    setIsTesting(true);
+
+    try {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (tokenRef.current) headers.Authorization = `Bearer ${tokenRef.current}`;
+
+      const response = await fetch('/api/alerts/test', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ channel }),
+      });
+      const result = (await response.json()) as AlertDeliveriesResponse;
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `Test alert failed: ${response.statusText}`);
+      }
+
+      fetchDeliveries();
+      return result.data[0] ?? null;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[useAlertDeliveries] Error:', errorMessage);
+      setState(prev => ({ ...prev, error: errorMessage }));
+      return null;
+    } finally {
+      setIsTesting(false);
+    }
+  }, [fetchDeliveries]);
+
+  useEffect(() => {
+    fetchDeliveries();
+    const interval = setInterval(fetchDeliveries, POLL_INTERVAL_MS);
+    return () => {
+      clearInterval(interval);
+      abortRef.current?.abort();
+    };
+  }, [fetchDeliveries]);
+
+  return {
+    ...state,
+    isTesting,
+    sendTest,
+    refetch: fetchDeliveries,
+  };
+}
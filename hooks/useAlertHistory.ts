@@ -0,0 +1,78 @@
+'use client';
+
+/**
+ * useAlertHistory Hook
+ * Polls /api/alerts/history for recently fired alerts
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { AlertEvent, AlertHistoryResponse } from '@/types';
+
+// Forwarded trade alerts arrive every few seconds; refresh-driven alerts every few minutes
+const POLL_INTERVAL_MS = 15 * 1000;
+
+interface UseAlertHistoryOptions {
+  rangeMs: number;
+  ruleId?: string;
+}
+
+interface UseAlertHistoryState {
+  alerts: AlertEvent[];
+  isLoading: boolean;
+  error: string | null;
+  lastUpdated: number | null;
+}
+
+export function useAlertHistory({ rangeMs, ruleId }: UseAlertHistoryOptions) {
+  const [state, setState] = useState<UseAlertHistoryState>({
+    alerts: [],
+    isLoading: true,
+    error: null,
+    lastUpdated: null,
+  });
+
+  const abortRef = useRef<AbortController | null>(null);
+
+  const fetchAlerts = useCallback(async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+    const params = new URLSearchParams({ from: String(Date.now() - rangeMs), limit: '500' });
+    if (ruleId) params.set('ruleId', ruleId);
+
+    try {
+      const response = await fetch(`/api/alerts/history?${params}`, { signal: controller.signal });
+      const result = (await response.json()) as AlertHistoryResponse;
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `Failed to fetch alert history: ${response.statusText}`);
+      }
+
+      setState({ alerts: result.data, isLoading: false, error: null, lastUpdated: Date.now() });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[useAlertHistory] Error:', errorMessage);
+
+      setState(prev => ({ ...prev, isLoading: false, error: errorMessage }));
+    }
+  }, [rangeMs, ruleId]);
+
+  useEffect(() => {
+    fetchAlerts();
+    const interval = setInterval(fetchAlerts, POLL_INTERVAL_MS);
+    return () => {
+      clearInterval(interval);
+      abortRef.current?.abort();
+    };
+  }, [fetchAlerts]);
+
+  return {
+    ...state,
+    refetch: fetchAlerts,
+  };
+}
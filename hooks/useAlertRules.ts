@@ -0,0 +1,99 @@
+'use client';
+
+/**
+ * useAlertRules Hook
+ * Loads alert rules and wraps the /api/alerts/rules write endpoints
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { AlertChannel, AlertRule, AlertRulesResponse, AlertSource } from '@/types';
+
+export interface AlertRuleInput {
+  name: string;
+  source: AlertSource;
+  condition: string;
+  dedupeMinutes?: number;
+  enabled?: boolean;
+  channels?: AlertChannel[];
+}
+
+type AlertRuleChanges = Partial<Pick<AlertRule, 'name' | 'condition' | 'dedupeMinutes' | 'enabled' | 'channels'>>;
+
+export function useAlertRules(adminToken?: string) {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Read at request time so typing a token doesn't refetch (see useWalletRegistry)
+  const tokenRef = useRef(adminToken);
+  tokenRef.current = adminToken;
+
+  /**
+   * Send a request and replace the rules with the list it returns
+   * Resolves false (with error set) on failure
+   */
+  const request = useCallback(async (method: string, body?: unknown): Promise<boolean> => {
+    if (method !== 'GET') setIsSaving(true);
+    setError(null);
+
+    try {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (tokenRef.current) headers.Authorization = `Bearer ${tokenRef.current}`;
+
+      const response = await fetch('/api/alerts/rules', {
+        method,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const result = (await response.json()) as AlertRulesResponse;
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `Alert rule request failed: ${response.statusText}`);
+      }
+
+      setRules(result.data);
+      return true;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[useAlertRules] Error:', errorMessage);
+      setError(errorMessage);
+      return false;
+    } finally {
+      setIsLoading(false);
+      setIsSaving(false);
+    }
+  }, []);
+
+  const refetch = useCallback(() => request('GET'), [request]);
+
+  const createRule = useCallback(
+    (rule: AlertRuleInput) => request('POST', rule),
+    [request]
+  );
+
+  const updateRule = useCallback(
+    (id: string, changes: AlertRuleChanges) => request('PATCH', { id, ...changes }),
+    [request]
+  );
+
+  const deleteRule = useCallback(
+    (id: string) => request('DELETE', { id }),
+    [request]
+  );
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  return {
+    rules,
+    isLoading,
+    isSaving,
+    error,
+    refetch,
+    createRule,
+    updateRule,
+    deleteRule,
+  };
+}
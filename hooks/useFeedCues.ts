@@ -0,0 +1,72 @@
+'use client';
+
+/**
+ * useFeedCues Hook
+ * Watches trades entering the live feed and plays a sound and / or shows a desktop
+ * notification for golden setups, whale trades and pinned wallets (lib/feed-cues.ts),
+ * according to the cue preferences in the store
+ */
+
+import { useEffect, useRef } from 'react';
+import { useStore, type FeedCueType } from '@/store/useStore';
+import { FEED_CUE_TYPES, getCueTypes, playCueSound, showCueNotification, unlockAudio } from '@/lib/feed-cues';
+import type { UnifiedTradeLog } from '@/types';
+
+// Trades arrive in bursts; cue each type at most this often
+const CUE_COOLDOWN_MS = 3000;
+
+export function useFeedCues() {
+  const lastCueAt = useRef<Partial<Record<FeedCueType, number>>>({});
+
+  useEffect(() => {
+    return useStore.subscribe(
+      (state) => state.trades,
+      (trades, previousTrades) => {
+        const { feedCues, pinnedWallets } = useStore.getState();
+        if (!feedCues.desktop && !feedCues.sound) return;
+
+        const previousIds = new Set(previousTrades.map((trade) => trade.id));
+        const byType: Partial<Record<FeedCueType, UnifiedTradeLog[]>> = {};
+
+        trades.forEach((trade) => {
+          if (previousIds.has(trade.id)) return;
+          // A muted type falls through to the next one the trade qualifies for
+          const type = getCueTypes(trade, pinnedWallets).find((cue) => !feedCues.muted[cue]);
+          if (type) (byType[type] ??= []).push(trade);
+        });
+
+        const now = Date.now();
+        let soundPlayed = false;
+        FEED_CUE_TYPES.forEach((type) => {
+          const matches = byType[type];
+          if (!matches || now - (lastCueAt.current[type] ?? 0) < CUE_COOLDOWN_MS) return;
+          lastCueAt.current[type] = now;
+
+          // One tone per burst, for the highest-priority type
+          if (feedCues.sound && !soundPlayed) {
+            playCueSound(type);
+            soundPlayed = true;
+          }
+          // Only needed when the feed isn't on screen
+          if (feedCues.desktop && document.hidden) {
+            const largest = matches.reduce((max, trade) => (trade.sizeUsd > max.sizeUsd ? trade : max));
+            showCueNotification(type, largest, matches.length);
+          }
+        });
+      }
+    );
+  }, []);
+
+  // Sound restored from a previous session still needs a user gesture to start audio
+  useEffect(() => {
+    const unlock = () => {
+      if (useStore.getState().feedCues.sound) unlockAudio();
+    };
+    window.addEventListener('pointerdown', unlock);
+    window.addEventListener('keydown', unlock);
+    return () => {
+      window.removeEventListener('pointerdown', unlock);
+      window.removeEventListener('keydown', unlock);
+    };
+  }, []);
+}
@@ -6,21 +6,59 @@
  * 
  * CRITICAL: This hook ALWAYS connects on mount - no dependencies on cache
  * Hardcoded WS URL to rule out env var issues
+ *
+ * Subscribes to the `trades` channel of every listed perp (from the `meta`
+ * info request), or only the coins in `filters.selectedCoins` when set.
+ * Subscribe/unsubscribe messages are queued and sent at a fixed pace so a
+ * universe-wide resync never floods the socket.
  */
 
-import { useEffect, useRef } from 'react';
+import { useCallback, useEffect, useRef } from 'react';
 import { useStore } from '@/store/useStore';
-import type { HyperliquidTrade } from '@/types';
-import { HYPERLIQUID_WS_URL } from '@/lib/constants';
+import type { HyperliquidMeta, HyperliquidTrade } from '@/types';
+import { HYPERLIQUID_INFO_URL, HYPERLIQUID_WS_URL } from '@/lib/constants';
 
 // Use constant from lib/constants.ts
 const WS_URL = HYPERLIQUID_WS_URL;
 const RECONNECT_DELAY_BASE = 3000;
 const HEARTBEAT_INTERVAL = 30000;
 const MAX_RECONNECT_ATTEMPTS = 5;
+const SUBSCRIPTION_PACING_MS = 50; // ~20 msgs/s, well under the 2000 msgs/min limit
+
+// Used until (or if) the meta request fails
+const FALLBACK_COINS = ['BTC', 'ETH'];
 
 type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
 
+type SubscriptionMethod = 'subscribe' | 'unsubscribe';
+
+interface QueuedSubscription {
+  method: SubscriptionMethod;
+  coin: string;
+}
+
+/**
+ * Fetch the names of all listed (non-delisted) perps
+ */
+async function fetchPerpUniverse(): Promise<string[]> {
+  const response = await fetch(HYPERLIQUID_INFO_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ type: 'meta' }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Hyperliquid API returned ${response.status}`);
+  }
+
+  const meta = (await response.json()) as HyperliquidMeta;
+  return (meta.universe || [])
+    .filter(asset => !asset.isDelisted)
+    .map(asset => asset.name);
+}
+
 export function useHyperliquidWS(
   onTrade?: (trade: HyperliquidTrade) => void
 ) {
@@ -33,6 +71,12 @@ export function useHyperliquidWS(
   const heartbeatRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const reconnectTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const mountedRef = useRef(true);
+
+  // Subscription management
+  const universeRef = useRef<string[]>(FALLBACK_COINS);
+  const subscribedRef = useRef<Set<string>>(new Set());
+  const queueRef = useRef<QueuedSubscription[]>([]);
+  const queueTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   
   // Store the callback in a ref so we always have the latest version
   const onTradeRef = useRef(onTrade);
@@ -47,6 +91,67 @@ export function useHyperliquidWS(
   const setErrorMessage = useStore((s) => s.setErrorMessage);
   const updateLastMessageTime = useStore((s) => s.updateLastMessageTime);
   const incrementMessageCount = useStore((s) => s.incrementMessageCount);
+  const selectedCoins = useStore((s) => s.filters.selectedCoins);
+
+  // Latest coin filter, readable from socket callbacks
+  const selectedCoinsRef = useRef(selectedCoins);
+  selectedCoinsRef.current = selectedCoins;
+
+  // ============================================
+  // SUBSCRIPTION QUEUE: Paced sends, one message per tick
+  // ============================================
+  const drainQueue = useCallback(() => {
+    queueTimerRef.current = null;
+
+    const ws = wsRef.current;
+    if (!ws || ws.readyState !== WebSocket.OPEN || !mountedRef.current) return;
+
+    const next = queueRef.current.shift();
+    if (!next) return;
+
+    ws.send(JSON.stringify({
+      method: next.method,
+      subscription: { type: 'trades', coin: next.coin },
+    }));
+
+    if (queueRef.current.length > 0) {
+      queueTimerRef.current = setTimeout(drainQueue, SUBSCRIPTION_PACING_MS);
+    } else {
+      console.log(`[HL] 📡 Subscriptions synced: ${subscribedRef.current.size} coin(s)`);
+    }
+  }, []);
+
+  /**
+   * Diff the desired coin set against current subscriptions and queue the changes.
+   * Desired = selected coins if the filter is active, else the whole perp universe.
+   */
+  const syncSubscriptions = useCallback(() => {
+    const ws = wsRef.current;
+    if (!ws || ws.readyState !== WebSocket.OPEN) return;
+
+    const desired = new Set(
+      selectedCoinsRef.current.length > 0 ? selectedCoinsRef.current : universeRef.current
+    );
+    const subscribed = subscribedRef.current;
+
+    for (const coin of Array.from(subscribed)) {
+      if (!desired.has(coin)) {
+        queueRef.current.push({ method: 'unsubscribe', coin });
+        subscribed.delete(coin);
+      }
+    }
+
+    for (const coin of Array.from(desired)) {
+      if (!subscribed.has(coin)) {
+        queueRef.current.push({ method: 'subscribe', coin });
+        subscribed.add(coin);
+      }
+    }
+
+    if (queueRef.current.length > 0 && !queueTimerRef.current) {
+      drainQueue();
+    }
+  }, [drainQueue]);
 
   // ============================================
   // MAIN EFFECT: Runs ONCE on mount - ALWAYS CONNECTS
@@ -75,6 +180,16 @@ export function useHyperliquidWS(
         clearTimeout(reconnectTimeoutRef.current);
         reconnectTimeoutRef.current = null;
       }
+      if (queueTimerRef.current) {
+        clearTimeout(queueTimerRef.current);
+        queueTimerRef.current = null;
+      }
+    };
+
+    // Subscriptions die with the socket; start from scratch on the next open
+    const resetSubscriptions = () => {
+      queueRef.current = [];
+      subscribedRef.current = new Set();
     };
 
     const sendHeartbeat = () => {
@@ -110,26 +225,9 @@ export function useHyperliquidWS(
           updateStatus('connected');
           reconnectAttemptsRef.current = 0;
 
-          // CRITICAL: Send subscription IMMEDIATELY
-          const btcSub = {
-            method: 'subscribe',
-            subscription: { type: 'trades', coin: 'BTC' }
-          };
-          
-          ws.send(JSON.stringify(btcSub));
-          console.log('[HL] 📡 Sent BTC subscription:', JSON.stringify(btcSub));
-
-          // Also subscribe to ETH for more data
-          setTimeout(() => {
-            if (ws.readyState === WebSocket.OPEN && mountedRef.current) {
-              const ethSub = {
-                method: 'subscribe',
-                subscription: { type: 'trades', coin: 'ETH' }
-              };
-              ws.send(JSON.stringify(ethSub));
-              console.log('[HL] 📡 Sent ETH subscription');
-            }
-          }, 500);
+          // CRITICAL: Subscribe IMMEDIATELY (paced through the queue)
+          resetSubscriptions();
+          syncSubscriptions();
 
           // Start heartbeat
           heartbeatRef.current = setInterval(sendHeartbeat, HEARTBEAT_INTERVAL);
@@ -189,6 +287,7 @@ export function useHyperliquidWS(
         ws.onclose = (event) => {
           console.log(`[HL] 🔌 Socket CLOSED: code=${event.code}, reason=${event.reason}`);
           clearTimers();
+          resetSubscriptions();
           wsRef.current = null;
 
           if (!mountedRef.current) return;
@@ -227,6 +326,18 @@ export function useHyperliquidWS(
     // ============================================
     connect();
 
+    // Load the perp universe in parallel; resync once it arrives
+    fetchPerpUniverse()
+      .then((coins) => {
+        if (!mountedRef.current || coins.length === 0) return;
+        console.log(`[HL] 🌐 Loaded perp universe: ${coins.length} coin(s)`);
+        universeRef.current = coins;
+        syncSubscriptions();
+      })
+      .catch((err) => {
+        console.error('[HL] ❌ Failed to load perp universe, using fallback coins:', err);
+      });
+
     // ============================================
     // CLEANUP: Close WS on unmount
     // ============================================
@@ -234,6 +345,7 @@ export function useHyperliquidWS(
       console.log('[HL] 🧹 Unmounting - cleaning up...');
       mountedRef.current = false;
       clearTimers();
+      resetSubscriptions();
       if (wsRef.current) {
         wsRef.current.close(1000, 'Component unmounted');
         wsRef.current = null;
@@ -242,6 +354,13 @@ export function useHyperliquidWS(
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // <-- EMPTY: Run ONCE on mount, no conditions
 
+  // ============================================
+  // COIN FILTER: Resubscribe when the selection changes
+  // ============================================
+  useEffect(() => {
+    syncSubscriptions();
+  }, [selectedCoins, syncSubscriptions]);
+
   // ============================================
   // MANUAL CONTROLS
   // ============================================
@@ -254,6 +373,12 @@ export function useHyperliquidWS(
       clearInterval(heartbeatRef.current);
       heartbeatRef.current = null;
     }
+    if (queueTimerRef.current) {
+      clearTimeout(queueTimerRef.current);
+      queueTimerRef.current = null;
+    }
+    queueRef.current = [];
+    subscribedRef.current = new Set();
     if (wsRef.current) {
       wsRef.current.close(1000, 'Manual disconnect');
       wsRef.current = null;
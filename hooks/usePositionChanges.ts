@@ -0,0 +1,80 @@
+'use client';
+
+/**
+ * usePositionChanges Hook
+ * Polls /api/position-changes for the position-change timeline
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { PositionChange, PositionChangesResponse } from '@/types';
+
+// Snapshots land every few minutes; polling faster than this only repeats data
+const POLL_INTERVAL_MS = 60 * 1000;
+
+interface UsePositionChangesOptions {
+  rangeMs: number;
+  address?: string;
+  coin?: string;
+}
+
+interface UsePositionChangesState {
+  changes: PositionChange[];
+  isLoading: boolean;
+  error: string | null;
+  lastUpdated: number | null;
+}
+
+export function usePositionChanges({ rangeMs, address, coin }: UsePositionChangesOptions) {
+  const [state, setState] = useState<UsePositionChangesState>({
+    changes: [],
+    isLoading: true,
+    error: null,
+    lastUpdated: null,
+  });
+
+  const abortRef = useRef<AbortController | null>(null);
+
+  const fetchChanges = useCallback(async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+    const params = new URLSearchParams({ from: String(Date.now() - rangeMs) });
+    if (address) params.set('address', address);
+    if (coin) params.set('coin', coin);
+
+    try {
+      const response = await fetch(`/api/position-changes?${params}`, { signal: controller.signal });
+      const result = (await response.json()) as PositionChangesResponse;
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `Failed to fetch position changes: ${response.statusText}`);
+      }
+
+      setState({ changes: result.data, isLoading: false, error: null, lastUpdated: Date.now() });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[usePositionChanges] Error:', errorMessage);
+
+      setState(prev => ({ ...prev, isLoading: false, error: errorMessage }));
+    }
+  }, [rangeMs, address, coin]);
+
+  useEffect(() => {
+    fetchChanges();
+    const interval = setInterval(fetchChanges, POLL_INTERVAL_MS);
+    return () => {
+      clearInterval(interval);
+      abortRef.current?.abort();
+    };
+  }, [fetchChanges]);
+
+  return {
+    ...state,
+    refetch: fetchChanges,
+  };
+}
@@ -3,22 +3,25 @@
 /**
  * Trade Processor Hook
  * The "Brain" - Processes raw Hyperliquid trades and enriches with Smart Money data
- * 
- * DEBUG MODE: Relaxed filters to show more trades
+ * Also records untracked maker/taker addresses for wallet discovery (lib/discovery.ts)
+ * and forwards tracked-wallet / whale trades to the server's trade alert rules (lib/alerts.ts)
+ *
+ * Whale / golden / noise sizes are per coin (lib/thresholds.ts): user overrides from the
+ * store on top of defaults derived from the median trade size this hook samples from the tape
  */
 
-import { useCallback, useRef } from 'react';
-import { useStore, useSmartMoneyMap } from '@/store/useStore';
-import type { HyperliquidTrade, UnifiedTradeLog } from '@/types';
-import { generateTradeId } from '@/lib/utils';
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { useStore, useSmartMoneyMap, type DiscoveryObservation } from '@/store/useStore';
+import type { HyperliquidTrade, HyperliquidUserFill, UnifiedTradeLog } from '@/types';
+import { generateTradeId, isGoldenSetup, isValidAddress } from '@/lib/utils';
+import { REGISTRY_TOKEN_STORAGE_KEY } from '@/lib/constants';
+import { median, MIN_TYPICAL_SAMPLES, resolveThresholds, TYPICAL_SIZE_WINDOW } from '@/lib/thresholds';
 
-// Thresholds - RELAXED FOR DEBUGGING
-const WHALE_THRESHOLD_USD = 100_000;
-const NOISE_THRESHOLD_USD = 100; // Lowered from $1k to $100 for debugging
 const BATCH_INTERVAL_MS = 100; // Batch trades every 100ms for performance
-
-// DEBUG: Set to true to let ALL trades through (for testing)
-const DEBUG_SHOW_ALL_TRADES = true;
+const ALERT_FORWARD_INTERVAL_MS = 5000; // Trades for alert rules are posted in larger batches
+const MAX_ALERT_BATCH = 500; // Matches the /api/alerts/trades limit
+const TYPICAL_SIZE_INTERVAL_MS = 30 * 1000; // How often sampled medians are pushed to the store
+const TYPICAL_SIZE_MIN_CHANGE = 0.05; // Ignore median moves smaller than 5%
 
 export interface ProcessorStats {
   processed: number;
@@ -28,11 +31,25 @@ export interface ProcessorStats {
 
 export function useProcessor() {
   const smartMoneyMap = useSmartMoneyMap();
-  const { addTrades } = useStore();
+  const { addTrades, recordDiscoveryTrades } = useStore();
+  // Discovery looks at the whole registry, not just the active watchlist
+  const registryMap = useStore((state) => state.registryMap);
+  const registryLoaded = useMemo(() => Object.keys(registryMap).length > 0, [registryMap]);
+  const thresholdOverrides = useStore((state) => state.thresholdOverrides);
+  const typicalTradeSizes = useStore((state) => state.typicalTradeSizes);
+  const showAllTrades = useStore((state) => state.showAllTrades);
+  const setTypicalTradeSizes = useStore((state) => state.setTypicalTradeSizes);
   
   // Batch buffer for performance
   const batchBuffer = useRef<UnifiedTradeLog[]>([]);
+  const discoveryBuffer = useRef<DiscoveryObservation[]>([]);
   const batchTimeout = useRef<NodeJS.Timeout | null>(null);
+  const alertBuffer = useRef<UnifiedTradeLog[]>([]);
+  const alertTimeout = useRef<NodeJS.Timeout | null>(null);
+  // Admin token the alert ingest last refused; forwarding pauses until it changes
+  const rejectedAlertToken = useRef<string | null | undefined>(undefined);
+  // Latest trade sizes per coin, for the typical (median) size
+  const recentSizes = useRef<Record<string, number[]>>({});
   
   // Stats
   const stats = useRef<ProcessorStats>({
@@ -50,8 +67,74 @@ export function useProcessor() {
       addTrades(batchBuffer.current);
       batchBuffer.current = [];
     }
+    if (discoveryBuffer.current.length > 0) {
+      recordDiscoveryTrades(discoveryBuffer.current);
+      discoveryBuffer.current = [];
+    }
     batchTimeout.current = null;
-  }, [addTrades]);
+  }, [addTrades, recordDiscoveryTrades]);
+
+  /**
+   * Schedule a batch flush if not already scheduled
+   */
+  const scheduleFlush = useCallback(() => {
+    if (!batchTimeout.current) {
+      batchTimeout.current = setTimeout(flushBatch, BATCH_INTERVAL_MS);
+    }
+  }, [flushBatch]);
+
+  /**
+   * Push per-coin median trade sizes to the store (they drive the default thresholds)
+   */
+  useEffect(() => {
+    const interval = setInterval(() => {
+      const current = useStore.getState().typicalTradeSizes;
+      const changed: Record<string, number> = {};
+
+      Object.entries(recentSizes.current).forEach(([coin, sizes]) => {
+        if (sizes.length < MIN_TYPICAL_SAMPLES) return;
+        const typical = median(sizes);
+        const previous = current[coin];
+        if (!previous || Math.abs(typical - previous) / previous > TYPICAL_SIZE_MIN_CHANGE) {
+          changed[coin] = typical;
+        }
+      });
+
+      if (Object.keys(changed).length > 0) setTypicalTradeSizes(changed);
+    }, TYPICAL_SIZE_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [setTypicalTradeSizes]);
+
+  /**
+   * Post buffered trades to the trade alert rules
+   * Best effort: a failed batch is dropped rather than retried
+   */
+  const forwardAlertTrades = useCallback(() => {
+    // The server looks each trade up on Hyperliquid; it only needs to know which fill
+    const trades = alertBuffer.current
+      .slice(-MAX_ALERT_BATCH)
+      .map(({ id, walletAddress }) => ({ id, walletAddress }));
+    alertBuffer.current = [];
+    alertTimeout.current = null;
+
+    const token = sessionStorage.getItem(REGISTRY_TOKEN_STORAGE_KEY);
+    if (token === rejectedAlertToken.current) return;
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (token) headers.Authorization = `Bearer ${token}`;
+
+    fetch('/api/alerts/trades', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ trades }),
+    })
+      .then(response => {
+        if (response.status === 401) rejectedAlertToken.current = token;
+      })
+      .catch(error => {
+        console.warn('[Processor] Failed to forward trades for alerts:', error);
+      });
+  }, []);
 
   /**
    * Process a single raw trade from Hyperliquid WS
@@ -69,6 +152,11 @@ export function useProcessor() {
     const size = parseFloat(rawTrade.sz);
     const sizeUsd = price * size;
 
+    const sizes = (recentSizes.current[rawTrade.coin] ??= []);
+    sizes.push(sizeUsd);
+    if (sizes.length > TYPICAL_SIZE_WINDOW) sizes.shift();
+    const thresholds = resolveThresholds(rawTrade.coin, thresholdOverrides, typicalTradeSizes);
+
     // Extract wallet addresses (Maker and Taker)
     const [maker, taker] = rawTrade.users || ['unknown', 'unknown'];
     
@@ -78,6 +166,15 @@ export function useProcessor() {
     
     const makerData = smartMoneyMap[makerLower];
     const takerData = smartMoneyMap[takerLower];
+
+    // Discovery candidates: untracked sides (skipped until the registry has loaded)
+    if (registryLoaded) {
+      [makerLower, takerLower].forEach(address => {
+        if (!registryMap[address] && isValidAddress(address)) {
+          discoveryBuffer.current.push({ address, sizeUsd, timestamp: rawTrade.time });
+        }
+      });
+    }
     
     // Determine if this is a "Smart" trade
     const isSmart = Boolean(makerData || takerData);
@@ -85,12 +182,12 @@ export function useProcessor() {
     const smartWalletAddress = makerData ? maker : taker;
 
     // Determine if this is a "Whale" trade
-    const isWhale = sizeUsd >= WHALE_THRESHOLD_USD;
+    const isWhale = sizeUsd >= thresholds.whaleUsd;
 
     // NOISE FILTER: Skip small trades from unknown wallets
-    // DEBUG: Disabled when DEBUG_SHOW_ALL_TRADES is true
-    if (!DEBUG_SHOW_ALL_TRADES) {
-      if (!isSmart && !isWhale && sizeUsd < NOISE_THRESHOLD_USD) {
+    // Disabled while "show all trades" is on (settings panel)
+    if (!showAllTrades) {
+      if (!isSmart && !isWhale && sizeUsd < thresholds.noiseUsd) {
         stats.current.filtered++;
         return null;
       }
@@ -107,8 +204,11 @@ export function useProcessor() {
       sizeUsd,
       walletAddress: isSmart ? smartWalletAddress : (isWhale ? taker : maker),
       walletLabel: smartWalletData?.labels?.[0] || (isWhale ? 'Whale' : undefined),
+      walletTier: smartWalletData?.tier,
+      walletTags: smartWalletData?.tags,
       isWhale,
       isSmart,
+      isGolden: isGoldenSetup(isSmart, sizeUsd, thresholds.goldenUsd),
       txHash: rawTrade.hash,
     };
 
@@ -122,7 +222,57 @@ export function useProcessor() {
     }
 
     return trade;
-  }, [smartMoneyMap]);
+  }, [smartMoneyMap, registryMap, registryLoaded, thresholdOverrides, typicalTradeSizes, showAllTrades]);
+
+  /**
+   * Process a fill from a tracked wallet's userFills stream
+   * The wallet is known, so no maker/taker matching is needed
+   */
+  const processUserFill = useCallback((user: string, fill: HyperliquidUserFill): UnifiedTradeLog => {
+    stats.current.processed++;
+
+    const price = parseFloat(fill.px);
+    const sizeUsd = price * parseFloat(fill.sz);
+    const walletData = smartMoneyMap[user.toLowerCase()];
+    const thresholds = resolveThresholds(fill.coin, thresholdOverrides, typicalTradeSizes);
+    const isWhale = sizeUsd >= thresholds.whaleUsd;
+
+    stats.current.enriched++;
+
+    return {
+      // Same ID scheme as the trades channel so duplicates are merged in the store
+      id: generateTradeId(fill.tid, fill.hash),
+      timestamp: fill.time,
+      ticker: fill.coin,
+      side: fill.side === 'B' ? 'Long' : 'Short',
+      price,
+      sizeUsd,
+      walletAddress: user,
+      walletLabel: walletData?.labels?.[0] || (isWhale ? 'Whale' : undefined),
+      walletTier: walletData?.tier,
+      walletTags: walletData?.tags,
+      isWhale,
+      isSmart: true,
+      isGolden: isGoldenSetup(true, sizeUsd, thresholds.goldenUsd),
+      txHash: fill.hash,
+    };
+  }, [smartMoneyMap, thresholdOverrides, typicalTradeSizes]);
+
+  /**
+   * Queue a processed trade and schedule a batch flush
+   */
+  const enqueueTrade = useCallback((trade: UnifiedTradeLog) => {
+    batchBuffer.current.push(trade);
+    scheduleFlush();
+
+    // Trade alert rules only see trades worth alerting on
+    if ((trade.isSmart || trade.isWhale) && isValidAddress(trade.walletAddress)) {
+      alertBuffer.current.push(trade);
+      if (!alertTimeout.current) {
+        alertTimeout.current = setTimeout(forwardAlertTrades, ALERT_FORWARD_INTERVAL_MS);
+      }
+    }
+  }, [scheduleFlush, forwardAlertTrades]);
 
   /**
    * Main handler for incoming trades
@@ -134,14 +284,19 @@ export function useProcessor() {
     const processedTrade = processTrade(rawTrade);
     
     if (processedTrade) {
-      batchBuffer.current.push(processedTrade);
-      
-      // Set up batch flush if not already scheduled
-      if (!batchTimeout.current) {
-        batchTimeout.current = setTimeout(flushBatch, BATCH_INTERVAL_MS);
-      }
+      enqueueTrade(processedTrade);
+    } else if (discoveryBuffer.current.length > 0) {
+      // Filtered trades still count towards discovery
+      scheduleFlush();
     }
-  }, [processTrade, flushBatch]);
+  }, [processTrade, enqueueTrade, scheduleFlush]);
+
+  /**
+   * Handler for fills from per-wallet userFills subscriptions
+   */
+  const handleUserFill = useCallback((user: string, fill: HyperliquidUserFill) => {
+    enqueueTrade(processUserFill(user, fill));
+  }, [processUserFill, enqueueTrade]);
 
   /**
    * Get current processor stats
@@ -163,7 +318,9 @@ export function useProcessor() {
 
   return {
     handleTrade,
+    handleUserFill,
     processTrade,
+    processUserFill,
     getStats,
     resetStats,
     flushBatch,
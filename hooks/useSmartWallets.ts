@@ -3,11 +3,29 @@
 /**
  * useSmartWallets Hook
  * Fetches wallet statistics and handles client-side sorting, filtering, and pagination
+ *
+ * Stats are streamed as NDJSON (/api/wallets/stats?stream=1): wallets are
+ * appended as each server-side chunk completes, and `progress` follows the
+ * route's onProgress updates.
+ *
+ * Tier / tag filters read registry entries from the store's smartMoneyMap
+ * (loaded by useSmartMoneyLoader). Everything derived here, including the
+ * long/short totals, is scoped to the active watchlist when one is selected.
+ *
+ * With persistView the sort / filter choices live in the store's dashboardView
+ * (saved across sessions); otherwise they are local to the calling page.
  */
 
-import { useState, useEffect, useCallback, useMemo } from 'react';
-import type { WalletStats, SortField, SortDirection } from '@/types';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { WalletStats, WalletStatsResponse, SortField } from '@/types';
 import { sortTokensByMarketCap } from '@/lib/constants';
+import {
+  defaultDashboardView,
+  useActiveWatchlist,
+  useSmartMoneyMap,
+  useStore,
+  type DashboardView,
+} from '@/store/useStore';
 
 interface UseSmartWalletsState {
   wallets: WalletStats[];
@@ -19,7 +37,11 @@ interface UseSmartWalletsState {
 const INITIAL_DISPLAY_LIMIT = 20; // Show 20 wallets initially
 const LOAD_MORE_INCREMENT = 20; // Load 20 more at a time
 
-export function useSmartWallets() {
+interface UseSmartWalletsOptions {
+  persistView?: boolean;
+}
+
+export function useSmartWallets({ persistView = false }: UseSmartWalletsOptions = {}) {
   const [state, setState] = useState<UseSmartWalletsState>({
     wallets: [],
     isLoading: true,
@@ -27,37 +49,113 @@ export function useSmartWallets() {
     progress: 0,
   });
 
-  const [sortField, setSortField] = useState<SortField | null>(null);
-  const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
   const [displayLimit, setDisplayLimit] = useState(INITIAL_DISPLAY_LIMIT);
-  const [selectedToken, setSelectedToken] = useState<string | null>(null);
-  const [sizeFilter, setSizeFilter] = useState<'all' | '10k' | '50k' | '250k' | '1m'>('all');
-  const [pnlFilter, setPnlFilter] = useState<'all' | '0' | '10k' | '50k' | '250k'>('all');
 
-  // Fetch wallet stats
+  // Sort / filter choices: the store's dashboardView or local state
+  const storedView = useStore((state) => state.dashboardView);
+  const setStoredView = useStore((state) => state.setDashboardView);
+  const [localView, setLocalView] = useState<DashboardView>(defaultDashboardView);
+  const view = persistView ? storedView : localView;
+  const { sortField, sortDirection, selectedToken, sizeFilter, pnlFilter, pnlMode, tierFilter, tagFilter } = view;
+
+  const updateView = useCallback((changes: Partial<DashboardView>) => {
+    if (persistView) setStoredView(changes);
+    else setLocalView(prev => ({ ...prev, ...changes }));
+  }, [persistView, setStoredView]);
+
+  const setSelectedToken = useCallback(
+    (token: string | null) => updateView({ selectedToken: token }),
+    [updateView]
+  );
+  const setSizeFilter = useCallback(
+    (filter: DashboardView['sizeFilter']) => updateView({ sizeFilter: filter }),
+    [updateView]
+  );
+  const setPnlFilter = useCallback(
+    (filter: DashboardView['pnlFilter']) => updateView({ pnlFilter: filter }),
+    [updateView]
+  );
+  const setPnlMode = useCallback(
+    (mode: DashboardView['pnlMode']) => updateView({ pnlMode: mode }),
+    [updateView]
+  );
+  const setTierFilter = useCallback(
+    (tier: DashboardView['tierFilter']) => updateView({ tierFilter: tier }),
+    [updateView]
+  );
+  const setTagFilter = useCallback(
+    (tag: string | null) => updateView({ tagFilter: tag }),
+    [updateView]
+  );
+
+  const smartMoneyMap = useSmartMoneyMap();
+  const activeWatchlist = useActiveWatchlist();
+
+  // Aborts the in-flight stream when refetching or unmounting
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Fetch wallet stats, rendering each streamed chunk as it arrives
   const fetchWallets = useCallback(async () => {
-    setState(prev => ({ ...prev, isLoading: true, error: null, progress: 0 }));
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setState({ wallets: [], isLoading: true, error: null, progress: 0 });
 
     try {
-      const response = await fetch('/api/wallets/stats');
+      const response = await fetch('/api/wallets/stats?stream=1', { signal: controller.signal });
       
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
         throw new Error(`Failed to fetch wallet stats: ${response.statusText}`);
       }
 
-      const result = await response.json();
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let completed = false;
+
+      const handleLine = (line: string) => {
+        if (!line.trim()) return;
+
+        const result = JSON.parse(line) as WalletStatsResponse;
+
+        if (!result.success) {
+          throw new Error(result.error || 'Unknown error');
+        }
+
+        if (result.progress) {
+          const { percentage } = result.progress;
+          const chunk = result.data || [];
+          setState(prev => ({
+            ...prev,
+            wallets: chunk.length > 0 ? [...prev.wallets, ...chunk] : prev.wallets,
+            progress: percentage,
+          }));
+        }
+
+        if (result.metadata) {
+          completed = true;
+          setState(prev => ({ ...prev, isLoading: false, progress: 100 }));
+        }
+      };
+
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
 
-      if (!result.success) {
-        throw new Error(result.error || 'Unknown error');
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        lines.forEach(handleLine);
       }
+      handleLine(buffer + decoder.decode());
 
-      setState({
-        wallets: result.data || [],
-        isLoading: false,
-        error: null,
-        progress: 100,
-      });
+      if (!completed) {
+        throw new Error('Wallet stats stream ended early');
+      }
     } catch (error) {
+      if (controller.signal.aborted) return;
+
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error('[useSmartWallets] Error:', errorMessage);
       
@@ -73,40 +171,65 @@ export function useSmartWallets() {
   // Load on mount
   useEffect(() => {
     fetchWallets();
+    return () => abortRef.current?.abort();
   }, [fetchWallets]);
 
   // Reset display limit when filter changes
   useEffect(() => {
     setDisplayLimit(INITIAL_DISPLAY_LIMIT);
-  }, [selectedToken, sizeFilter, pnlFilter]);
+  }, [selectedToken, sizeFilter, pnlFilter, tierFilter, tagFilter, activeWatchlist]);
 
   // Handle column header click for sorting
   const handleSort = useCallback((field: SortField) => {
     if (sortField === field) {
       // Toggle direction if same field
-      setSortDirection(prev => prev === 'asc' ? 'desc' : 'asc');
+      updateView({ sortDirection: sortDirection === 'asc' ? 'desc' : 'asc' });
     } else {
       // New field, default to descending
-      setSortField(field);
-      setSortDirection('desc');
+      updateView({ sortField: field, sortDirection: 'desc' });
     }
-  }, [sortField]);
+  }, [sortField, sortDirection, updateView]);
 
   // Load more wallets (infinite scroll)
   const loadMore = useCallback(() => {
     setDisplayLimit(prev => prev + LOAD_MORE_INCREMENT);
   }, []);
 
+  // Loaded wallets in the active watchlist (all of them when none is selected)
+  const scopedWallets = useMemo(() => {
+    if (!activeWatchlist) return state.wallets;
+    const addresses = new Set(activeWatchlist.addresses);
+    return state.wallets.filter(wallet => addresses.has(wallet.address.toLowerCase()));
+  }, [state.wallets, activeWatchlist]);
+
   // Derive available tokens from all wallets, sorted by market cap (highest first)
   const availableTokens = useMemo(() => {
     const tokenSet = new Set<string>();
-    state.wallets.forEach(wallet => {
+    scopedWallets.forEach(wallet => {
       wallet.positions?.forEach(pos => {
         tokenSet.add(pos.coin);
       });
     });
     return sortTokensByMarketCap(Array.from(tokenSet));
-  }, [state.wallets]);
+  }, [scopedWallets]);
+
+  // Tags of loaded wallets, alphabetical
+  const availableTags = useMemo(() => {
+    const tagSet = new Set<string>();
+    scopedWallets.forEach(wallet => {
+      smartMoneyMap[wallet.address]?.tags?.forEach(tag => tagSet.add(tag));
+    });
+    return Array.from(tagSet).sort((a, b) => a.localeCompare(b));
+  }, [scopedWallets, smartMoneyMap]);
+
+  // Registry tier / tag filters
+  const matchesRegistryFilters = useCallback((wallet: WalletStats) => {
+    if (tierFilter === 'all' && !tagFilter) return true;
+    const entry = smartMoneyMap[wallet.address];
+    if (tierFilter !== 'all' && (entry?.tier ?? 'smart') !== tierFilter) return false;
+    if (tagFilter && !entry?.tags?.includes(tagFilter)) return false;
+    return true;
+  }, [smartMoneyMap, tierFilter, tagFilter]);
 
   const getSelectedPosition = useCallback((wallet: WalletStats) => {
     if (!selectedToken) return null;
@@ -123,12 +246,12 @@ export function useSmartWallets() {
 
   const getPnlValue = useCallback((wallet: WalletStats) => {
     // Use 7D PnL as primary filter metric
-    return wallet.pnl7d || 0;
-  }, []);
+    return (pnlMode === 'net' ? wallet.netPnl7d : wallet.pnl7d) || 0;
+  }, [pnlMode]);
 
   // Filter, sort, and paginate wallets
   const filteredAndSortedWallets = useMemo(() => {
-    let filtered = state.wallets;
+    let filtered = scopedWallets;
 
     // Filter by selected token (if set)
     if (selectedToken) {
@@ -137,6 +260,9 @@ export function useSmartWallets() {
       );
     }
 
+    // Filter by registry tier / tag
+    filtered = filtered.filter(matchesRegistryFilters);
+
     // Filter by position size thresholds
     if (sizeFilter !== 'all') {
       const thresholds = {
@@ -228,6 +354,16 @@ export function useSmartWallets() {
             : bValue - aValue;
         }
 
+        // PnL columns follow the gross/net toggle
+        if (sortField === 'pnl7d' || sortField === 'pnl30d') {
+          const netField = sortField === 'pnl7d' ? 'netPnl7d' : 'netPnl30d';
+          const aPnl = pnlMode === 'net' ? a[netField] : a[sortField];
+          const bPnl = pnlMode === 'net' ? b[netField] : b[sortField];
+          return sortDirection === 'asc'
+            ? aPnl - bPnl
+            : bPnl - aPnl;
+        }
+
         // Standard numeric field sorting
         const aValue = a[sortField];
         const bValue = b[sortField];
@@ -244,32 +380,33 @@ export function useSmartWallets() {
 
     // Slice by display limit (pagination)
     return filtered.slice(0, displayLimit);
-  }, [state.wallets, selectedToken, sortField, sortDirection, displayLimit]);
+  }, [scopedWallets, selectedToken, sortField, sortDirection, displayLimit, pnlMode, matchesRegistryFilters]);
 
   // Check if there are more wallets to load
   const hasMore = useMemo(() => {
-    let filtered = state.wallets;
+    let filtered = scopedWallets;
     if (selectedToken) {
       filtered = filtered.filter(wallet => 
         wallet.positions?.some(pos => pos.coin === selectedToken)
       );
     }
+    filtered = filtered.filter(matchesRegistryFilters);
     return filtered.length > displayLimit;
-  }, [state.wallets, selectedToken, displayLimit]);
+  }, [scopedWallets, selectedToken, displayLimit, matchesRegistryFilters]);
 
   // Calculate totalLong and totalShort dynamically based on selectedToken
   const { totalLong, totalShort } = useMemo(() => {
     if (!selectedToken) {
       // No token filter: sum all wallets' aggregate positions
-      const totalLong = state.wallets.reduce((sum, wallet) => sum + (wallet.longPosition || 0), 0);
-      const totalShort = state.wallets.reduce((sum, wallet) => sum + (wallet.shortPosition || 0), 0);
+      const totalLong = scopedWallets.reduce((sum, wallet) => sum + (wallet.longPosition || 0), 0);
+      const totalShort = scopedWallets.reduce((sum, wallet) => sum + (wallet.shortPosition || 0), 0);
       return { totalLong, totalShort };
     } else {
       // Token filter active: sum positions matching the selected token
       let totalLong = 0;
       let totalShort = 0;
       
-      state.wallets.forEach(wallet => {
+      scopedWallets.forEach(wallet => {
         if (wallet.positions) {
           wallet.positions.forEach(position => {
             if (position.coin === selectedToken) {
@@ -285,11 +422,12 @@ export function useSmartWallets() {
       
       return { totalLong, totalShort };
     }
-  }, [state.wallets, selectedToken]);
+  }, [scopedWallets, selectedToken]);
 
   return {
     ...state,
     wallets: filteredAndSortedWallets,
+    loadedCount: scopedWallets.length,
     totalLong,
     totalShort,
     sortField,
@@ -307,5 +445,12 @@ export function useSmartWallets() {
     setSizeFilter,
     pnlFilter,
     setPnlFilter,
+    pnlMode,
+    setPnlMode,
+    tierFilter,
+    setTierFilter,
+    tagFilter,
+    setTagFilter,
+    availableTags,
   };
 }
@@ -0,0 +1,190 @@
+'use client';
+
+/**
+ * Hyperliquid userFills WebSocket Hook
+ * Per-wallet fill stream for tracked Smart Money wallets
+ *
+ * Complements useHyperliquidWS: the public `trades` channel only reveals a
+ * wallet when it appears in `users[]` of a visible trade, while `userFills`
+ * delivers every fill of the subscribed wallet on every coin.
+ *
+ * Hyperliquid caps user-specific subscriptions at 10 unique users per IP, so
+ * only the first MAX_TRACKED_USERS addresses are subscribed: callers pass them
+ * highest priority first (see rankFillsUsers) and show the returned counts.
+ * The rest are still covered by the `trades` channel matching in useProcessor.
+ */
+
+import { useEffect, useMemo, useRef } from 'react';
+import type { HyperliquidUserFill, HyperliquidUserFillsMessage, SmartWalletMap, SmartWalletTier } from '@/types';
+import { HYPERLIQUID_WS_URL } from '@/lib/constants';
+
+const WS_URL = HYPERLIQUID_WS_URL;
+const RECONNECT_DELAY_BASE = 3000;
+const HEARTBEAT_INTERVAL = 30000;
+const MAX_RECONNECT_ATTEMPTS = 5;
+const SUBSCRIPTION_PACING_MS = 50;
+
+// Hyperliquid per-IP limit on unique users across user-specific subscriptions.
+// The limit is per IP rather than per connection, so every user shares one socket:
+// spreading them over several would add no capacity
+export const MAX_TRACKED_USERS = 10;
+
+// Which wallets get a fill stream when there are more than MAX_TRACKED_USERS
+const TIER_PRIORITY: Record<SmartWalletTier, number> = {
+  institution: 0,
+  whale: 1,
+  smart: 2,
+};
+
+export interface UserFillsCoverage {
+  subscribed: number;
+  requested: number;
+}
+
+/**
+ * Tracked addresses in fill-stream priority order: pinned wallets, then by tier
+ * (institution, whale, smart), registry order within a tier
+ */
+export function rankFillsUsers(map: SmartWalletMap, pinnedWallets: string[]): string[] {
+  const pinned = new Set(pinnedWallets);
+  const rank = (address: string) => (pinned.has(address) ? -1 : TIER_PRIORITY[map[address].tier] ?? 3);
+
+  return Object.keys(map)
+    .map((address, index) => ({ address, index, rank: rank(address) }))
+    .sort((a, b) => a.rank - b.rank || a.index - b.index)
+    .map(({ address }) => address);
+}
+
+export function useUserFillsWS(
+  addresses: string[],
+  onFill?: (user: string, fill: HyperliquidUserFill) => void
+): UserFillsCoverage {
+  // Store the callback in a ref so we always have the latest version
+  const onFillRef = useRef(onFill);
+  onFillRef.current = onFill;
+
+  // Stable key so the socket is only rebuilt when the tracked set changes
+  const trackedKey = useMemo(() => {
+    return addresses
+      .slice(0, MAX_TRACKED_USERS)
+      .map(addr => addr.toLowerCase())
+      .join(',');
+  }, [addresses]);
+
+  useEffect(() => {
+    if (!trackedKey) return;
+
+    let mounted = true;
+    const users = trackedKey.split(',');
+
+    let ws: WebSocket | null = null;
+    let reconnectAttempts = 0;
+    let heartbeat: ReturnType<typeof setInterval> | null = null;
+    let timers: ReturnType<typeof setTimeout>[] = [];
+
+    console.log(`[HL:fills] 🚀 Tracking ${users.length} wallet(s)`);
+
+    const clearTimers = () => {
+      if (heartbeat) {
+        clearInterval(heartbeat);
+        heartbeat = null;
+      }
+      timers.forEach(clearTimeout);
+      timers = [];
+    };
+
+    const connect = () => {
+      if (!mounted) return;
+
+      try {
+        const socket = new WebSocket(WS_URL);
+        ws = socket;
+
+        socket.onopen = () => {
+          if (!mounted) return;
+
+          console.log(`[HL:fills] ✅ OPEN (${users.length} wallet(s))`);
+          reconnectAttempts = 0;
+
+          // Pace subscriptions so the socket never bursts
+          users.forEach((user, i) => {
+            timers.push(setTimeout(() => {
+              if (socket.readyState !== WebSocket.OPEN || !mounted) return;
+              socket.send(JSON.stringify({
+                method: 'subscribe',
+                subscription: { type: 'userFills', user },
+              }));
+            }, i * SUBSCRIPTION_PACING_MS));
+          });
+
+          heartbeat = setInterval(() => {
+            if (socket.readyState === WebSocket.OPEN) {
+              socket.send(JSON.stringify({ method: 'ping' }));
+            }
+          }, HEARTBEAT_INTERVAL);
+        };
+
+        socket.onmessage = (event) => {
+          if (!mounted) return;
+
+          try {
+            const message = JSON.parse(event.data);
+            if (message.channel !== 'userFills' || !message.data) return;
+
+            const payload = message.data as HyperliquidUserFillsMessage;
+
+            // The first message replays history; only live fills belong in the feed
+            if (payload.isSnapshot) return;
+
+            if (onFillRef.current) {
+              for (const fill of payload.fills || []) {
+                onFillRef.current(payload.user, fill);
+              }
+            }
+          } catch (err) {
+            console.error('[HL:fills] ❌ Parse error:', err);
+          }
+        };
+
+        socket.onerror = (err) => {
+          console.error('[HL:fills] ❌ ERROR:', err);
+        };
+
+        socket.onclose = (event) => {
+          clearTimers();
+          ws = null;
+
+          if (!mounted || event.code === 1000) return;
+
+          // Auto-reconnect with linear backoff
+          if (reconnectAttempts < MAX_RECONNECT_ATTEMPTS) {
+            reconnectAttempts++;
+            const delay = RECONNECT_DELAY_BASE * reconnectAttempts;
+            console.log(`[HL:fills] 🔄 Reconnecting in ${delay}ms`);
+            timers.push(setTimeout(connect, delay));
+          } else {
+            console.error(`[HL:fills] ❌ Gave up after ${MAX_RECONNECT_ATTEMPTS} attempts`);
+          }
+        };
+      } catch (err) {
+        console.error('[HL:fills] ❌ Failed to create socket:', err);
+      }
+    };
+
+    connect();
+
+    return () => {
+      mounted = false;
+      clearTimers();
+      if (ws) {
+        ws.close(1000, 'Component unmounted');
+        ws = null;
+      }
+    };
+  }, [trackedKey]);
+
+  return {
+    subscribed: Math.min(addresses.length, MAX_TRACKED_USERS),
+    requested: addresses.length,
+  };
+}
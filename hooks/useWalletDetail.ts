@@ -0,0 +1,62 @@
+'use client';
+
+/**
+ * useWalletDetail Hook
+ * Fetches stats and extended detail for a single wallet from /api/wallets/[address]
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { WalletDetail, WalletDetailResponse } from '@/types';
+
+interface UseWalletDetailState {
+  detail: WalletDetail | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+export function useWalletDetail(address: string) {
+  const [state, setState] = useState<UseWalletDetailState>({
+    detail: null,
+    isLoading: true,
+    error: null,
+  });
+
+  // Aborts the in-flight request when the address changes or on unmount
+  const abortRef = useRef<AbortController | null>(null);
+
+  const fetchDetail = useCallback(async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+    try {
+      const response = await fetch(`/api/wallets/${address}`, { signal: controller.signal });
+      const result = (await response.json()) as WalletDetailResponse;
+
+      if (!response.ok || !result.success || !result.data) {
+        throw new Error(result.error || `Failed to fetch wallet detail: ${response.statusText}`);
+      }
+
+      setState({ detail: result.data, isLoading: false, error: null });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[useWalletDetail] Error:', errorMessage);
+
+      setState(prev => ({ ...prev, isLoading: false, error: errorMessage }));
+    }
+  }, [address]);
+
+  useEffect(() => {
+    fetchDetail();
+    return () => abortRef.current?.abort();
+  }, [fetchDetail]);
+
+  return {
+    ...state,
+    refetch: fetchDetail,
+  };
+}
@@ -0,0 +1,117 @@
+'use client';
+
+/**
+ * useWalletDiscovery Hook
+ * Ranks the untracked addresses useProcessor accumulates from the live tape,
+ * scores the busiest ones via /api/discovery/score and adds picks to the registry
+ */
+
+import { useState, useCallback, useMemo } from 'react';
+import { useStore } from '@/store/useStore';
+import { MAX_DISCOVERY_SCORE_BATCH, rankDiscoveryCandidates } from '@/lib/discovery';
+import { REGISTRY_TOKEN_STORAGE_KEY } from '@/lib/constants';
+import type { DiscoveryScoreResponse, RegistryResponse } from '@/types';
+
+// Registry entry given to wallets added from discovery
+const DISCOVERED_LABEL = 'Discovered';
+const DISCOVERED_TAG = 'discovered';
+
+export function useWalletDiscovery() {
+  const discoveryCandidates = useStore((state) => state.discoveryCandidates);
+  const { setDiscoveryScores, removeDiscoveryCandidates, clearDiscovery, setSmartMoneyMap } = useStore();
+
+  const [isScoring, setIsScoring] = useState(false);
+  const [addingAddress, setAddingAddress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const candidates = useMemo(
+    () => rankDiscoveryCandidates(Object.values(discoveryCandidates)),
+    [discoveryCandidates]
+  );
+
+  /**
+   * Score the highest-volume candidates that have no score yet
+   */
+  const scoreTopCandidates = useCallback(async () => {
+    const batch = Object.values(discoveryCandidates)
+      .filter(candidate => !candidate.score)
+      .sort((a, b) => b.volumeUsd - a.volumeUsd)
+      .slice(0, MAX_DISCOVERY_SCORE_BATCH);
+    if (batch.length === 0) return;
+
+    setIsScoring(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/discovery/score', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          candidates: batch.map(({ address, largeTrades }) => ({ address, largeTrades })),
+        }),
+      });
+      const result = (await response.json()) as DiscoveryScoreResponse;
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `Scoring failed: ${response.statusText}`);
+      }
+
+      setDiscoveryScores(result.data);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[useWalletDiscovery] Error:', errorMessage);
+      setError(errorMessage);
+    } finally {
+      setIsScoring(false);
+    }
+  }, [discoveryCandidates, setDiscoveryScores]);
+
+  /**
+   * Add a candidate to the registry; the returned registry replaces the store's
+   * map so the processor treats the wallet as tracked from now on
+   */
+  const addCandidate = useCallback(async (address: string): Promise<boolean> => {
+    setAddingAddress(address);
+    setError(null);
+
+    try {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      const token = sessionStorage.getItem(REGISTRY_TOKEN_STORAGE_KEY);
+      if (token) headers.Authorization = `Bearer ${token}`;
+
+      const response = await fetch('/api/registry', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          wallets: [{ address, labels: [DISCOVERED_LABEL], tags: [DISCOVERED_TAG] }],
+        }),
+      });
+      const result = (await response.json()) as RegistryResponse;
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `Adding wallet failed: ${response.statusText}`);
+      }
+
+      setSmartMoneyMap(result.data);
+      removeDiscoveryCandidates([address]);
+      return true;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[useWalletDiscovery] Error:', errorMessage);
+      setError(errorMessage);
+      return false;
+    } finally {
+      setAddingAddress(null);
+    }
+  }, [setSmartMoneyMap, removeDiscoveryCandidates]);
+
+  return {
+    candidates,
+    isScoring,
+    addingAddress,
+    error,
+    scoreTopCandidates,
+    addCandidate,
+    clear: clearDiscovery,
+  };
+}
@@ -0,0 +1,194 @@
+'use client';
+
+/**
+ * useWalletRegistry Hook
+ * Loads the wallet registry and wraps the /api/registry write, bulk import and
+ * leaderboard seeding endpoints
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type {
+  LeaderboardResponse,
+  LeaderboardThresholds,
+  RegistryImportMode,
+  RegistryImportPreview,
+  RegistryImportResponse,
+  RegistryMetadata,
+  RegistryResponse,
+  RegistryWalletInput,
+  SmartWalletMap,
+} from '@/types';
+
+interface UseWalletRegistryState {
+  wallets: SmartWalletMap;
+  metadata: RegistryMetadata | null;
+  isLoading: boolean;
+  isSaving: boolean;
+  error: string | null;
+}
+
+export function useWalletRegistry(adminToken?: string) {
+  const [state, setState] = useState<UseWalletRegistryState>({
+    wallets: {},
+    metadata: null,
+    isLoading: true,
+    isSaving: false,
+    error: null,
+  });
+
+  // Read at request time so typing a token doesn't refetch the registry
+  const tokenRef = useRef(adminToken);
+  tokenRef.current = adminToken;
+
+  const getHeaders = useCallback(() => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (tokenRef.current) headers.Authorization = `Bearer ${tokenRef.current}`;
+    return headers;
+  }, []);
+
+  /**
+   * Send a request and replace local state with the registry it returns
+   * Resolves false (with error set) on failure
+   */
+  const request = useCallback(async (method: string, body?: unknown): Promise<boolean> => {
+    setState(prev => ({
+      ...prev,
+      isLoading: method === 'GET' ? true : prev.isLoading,
+      isSaving: method !== 'GET',
+      error: null,
+    }));
+
+    try {
+      const response = await fetch('/api/registry', {
+        method,
+        headers: getHeaders(),
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const result = (await response.json()) as RegistryResponse;
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `Registry request failed: ${response.statusText}`);
+      }
+
+      setState({
+        wallets: result.data,
+        metadata: result.metadata ?? null,
+        isLoading: false,
+        isSaving: false,
+        error: null,
+      });
+      return true;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[useWalletRegistry] Error:', errorMessage);
+
+      setState(prev => ({ ...prev, isLoading: false, isSaving: false, error: errorMessage }));
+      return false;
+    }
+  }, [getHeaders]);
+
+  const refetch = useCallback(() => request('GET'), [request]);
+
+  const addWallets = useCallback(
+    (wallets: RegistryWalletInput[]) => request('POST', { wallets }),
+    [request]
+  );
+
+  const updateWallet = useCallback(
+    (wallet: RegistryWalletInput) => request('PATCH', wallet),
+    [request]
+  );
+
+  const removeWallets = useCallback(
+    (addresses: string[]) => request('DELETE', { addresses }),
+    [request]
+  );
+
+  /**
+   * Preview a bulk import, or write it when `apply` is set (then reload the registry)
+   * Resolves null (with error set) on failure
+   */
+  const importWallets = useCallback(async (
+    content: string,
+    mode: RegistryImportMode,
+    apply = false
+  ): Promise<RegistryImportPreview | null> => {
+    setState(prev => ({ ...prev, isSaving: true, error: null }));
+
+    try {
+      const response = await fetch('/api/registry/import', {
+        method: 'POST',
+        headers: getHeaders(),
+        body: JSON.stringify({ content, mode, apply }),
+      });
+      const result = (await response.json()) as RegistryImportResponse;
+
+      if (!response.ok || !result.success || !result.data) {
+        throw new Error(result.error || `Import failed: ${response.statusText}`);
+      }
+
+      setState(prev => ({ ...prev, isSaving: false }));
+      if (result.applied) await request('GET');
+      return result.data;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[useWalletRegistry] Import error:', errorMessage);
+
+      setState(prev => ({ ...prev, isSaving: false, error: errorMessage }));
+      return null;
+    }
+  }, [getHeaders, request]);
+
+  /**
+   * Preview leaderboard candidates, or add the proposed ones (optionally a subset)
+   * Resolves null (with error set) on failure
+   */
+  const seedFromLeaderboard = useCallback(async (
+    thresholds: LeaderboardThresholds,
+    addresses?: string[]
+  ): Promise<LeaderboardResponse | null> => {
+    const apply = addresses !== undefined;
+    setState(prev => ({ ...prev, isSaving: true, error: null }));
+
+    try {
+      const response = apply
+        ? await fetch('/api/registry/leaderboard', {
+            method: 'POST',
+            headers: getHeaders(),
+            body: JSON.stringify({ ...thresholds, addresses }),
+          })
+        : await fetch(`/api/registry/leaderboard?${new URLSearchParams(
+            Object.entries(thresholds).map(([key, value]) => [key, String(value)])
+          )}`);
+      const result = (await response.json()) as LeaderboardResponse;
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `Leaderboard request failed: ${response.statusText}`);
+      }
+
+      setState(prev => ({ ...prev, isSaving: false }));
+      if (result.applied) await request('GET');
+      return result;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[useWalletRegistry] Leaderboard error:', errorMessage);
+
+      setState(prev => ({ ...prev, isSaving: false, error: errorMessage }));
+      return null;
+    }
+  }, [getHeaders, request]);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  return {
+    ...state,
+    refetch,
+    addWallets,
+    updateWallet,
+    removeWallets,
+    importWallets,
+    seedFromLeaderboard,
+  };
+}
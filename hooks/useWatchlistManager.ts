@@ -0,0 +1,94 @@
+'use client';
+
+/**
+ * useWatchlistManager Hook
+ * Loads watchlists into the store and wraps the /api/watchlists write endpoints
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useStore, useWatchlists } from '@/store/useStore';
+import type { WatchlistsResponse } from '@/types';
+
+interface WatchlistChanges {
+  name?: string;
+  addresses?: string[];
+  add?: string[];
+  remove?: string[];
+}
+
+export function useWatchlistManager(adminToken?: string) {
+  const watchlists = useWatchlists();
+  const setWatchlists = useStore((state) => state.setWatchlists);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Read at request time so typing a token doesn't refetch (see useWalletRegistry)
+  const tokenRef = useRef(adminToken);
+  tokenRef.current = adminToken;
+
+  /**
+   * Send a request and replace the store's watchlists with the list it returns
+   * Resolves false (with error set) on failure
+   */
+  const request = useCallback(async (method: string, body?: unknown): Promise<boolean> => {
+    if (method !== 'GET') setIsSaving(true);
+    setError(null);
+
+    try {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (tokenRef.current) headers.Authorization = `Bearer ${tokenRef.current}`;
+
+      const response = await fetch('/api/watchlists', {
+        method,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const result = (await response.json()) as WatchlistsResponse;
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `Watchlist request failed: ${response.statusText}`);
+      }
+
+      setWatchlists(result.data);
+      return true;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[useWatchlistManager] Error:', errorMessage);
+      setError(errorMessage);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [setWatchlists]);
+
+  const refetch = useCallback(() => request('GET'), [request]);
+
+  const createWatchlist = useCallback(
+    (name: string, addresses: string[] = []) => request('POST', { name, addresses }),
+    [request]
+  );
+
+  const updateWatchlist = useCallback(
+    (id: string, changes: WatchlistChanges) => request('PATCH', { id, ...changes }),
+    [request]
+  );
+
+  const deleteWatchlist = useCallback(
+    (id: string) => request('DELETE', { id }),
+    [request]
+  );
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  return {
+    watchlists,
+    isSaving,
+    error,
+    refetch,
+    createWatchlist,
+    updateWatchlist,
+    deleteWatchlist,
+  };
+}
@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import { matchesCondition, parseCondition, validateCondition, type AlertContext } from './alert-dsl';
+
+function matches(condition: string, context: AlertContext = {}): boolean {
+  return matchesCondition(parseCondition(condition), context);
+}
+
+function parseError(condition: string): string {
+  try {
+    parseCondition(condition);
+  } catch (error) {
+    return (error as Error).message;
+  }
+  throw new Error(`"${condition}" parsed`);
+}
+
+describe('precedence', () => {
+  it('binds && tighter than ||', () => {
+    expect(matches('true || false && false')).toBe(true);
+    expect(matches('(true || false) && false')).toBe(false);
+  });
+
+  it('binds * and / tighter than + and -', () => {
+    expect(matches('2 + 3 * 4 == 14')).toBe(true);
+    expect(matches('(2 + 3) * 4 == 20')).toBe(true);
+    expect(matches('10 - 4 / 2 == 8')).toBe(true);
+  });
+
+  it('evaluates + and - left to right', () => {
+    expect(matches('10 - 3 - 2 == 5')).toBe(true);
+  });
+
+  it('applies ! to a whole comparison', () => {
+    expect(matches('!size > 5', { size: 3 })).toBe(true);
+    expect(matches('not (size > 1 and size < 5)', { size: 3 })).toBe(false);
+  });
+
+  it('applies unary minus before multiplication', () => {
+    expect(matches('-2 * 3 == -6')).toBe(true);
+    expect(matches('pnl < -1k', { pnl: -5000 })).toBe(true);
+  });
+});
+
+describe('numbers', () => {
+  it('scales k / m / b suffixes in either case', () => {
+    expect(matches('x == 250k', { x: 250_000 })).toBe(true);
+    expect(matches('x == 1.5M', { x: 1_500_000 })).toBe(true);
+    expect(matches('x == 2b', { x: 2_000_000_000 })).toBe(true);
+  });
+
+  it('ignores _ separators', () => {
+    expect(matches('x == 1_000_000', { x: 1e6 })).toBe(true);
+  });
+
+  it('rejects a suffix followed by more letters', () => {
+    expect(parseError('x > 5kb')).toBe('Unexpected "5" at position 5');
+  });
+});
+
+describe('in / contains', () => {
+  it('finds a value in a list, ignoring case', () => {
+    expect(matches('coin in ["BTC", "ETH"]', { coin: 'eth' })).toBe(true);
+    expect(matches('coin in ["BTC", "ETH"]', { coin: 'SOL' })).toBe(false);
+    expect(matches('tier in []', { tier: 'smart' })).toBe(false);
+  });
+
+  it('finds an item in a list field or a substring', () => {
+    expect(matches('tags contains "Fund"', { tags: ['fund', 'mm'] })).toBe(true);
+    expect(matches('tags contains "otc"', { tags: ['fund', 'mm'] })).toBe(false);
+    expect(matches('label contains "capital"', { label: 'Example Capital LP' })).toBe(true);
+  });
+
+  it('is false for a missing or non-list container', () => {
+    expect(matches('tags contains "fund"')).toBe(false);
+    expect(matches('size contains 1', { size: 10 })).toBe(false);
+  });
+});
+
+describe('equality', () => {
+  it('compares strings case-insensitively', () => {
+    expect(matches('side == "long"', { side: 'Long' })).toBe(true);
+    expect(matches("side != 'SHORT'", { side: 'Short' })).toBe(false);
+  });
+
+  it('does not coerce between types', () => {
+    expect(matches('size == "10"', { size: 10 })).toBe(false);
+    expect(matches('missing == null')).toBe(true);
+  });
+
+  it('treats comparisons against missing or non-number values as false', () => {
+    expect(matches('missing > 0')).toBe(false);
+    expect(matches('missing <= 0')).toBe(false);
+    expect(matches('coin > 1', { coin: 'BTC' })).toBe(false);
+    expect(matches('size / 0 > 1', { size: 10 })).toBe(false);
+  });
+});
+
+describe('short-circuiting', () => {
+  // A field that fails the test if it is ever read
+  const context: AlertContext = {};
+  Object.defineProperty(context, 'unreachable', {
+    enumerable: true,
+    get() {
+      throw new Error('evaluated the right-hand side');
+    },
+  });
+
+  it('skips the right side of && when the left is false', () => {
+    expect(matches('false && unreachable', context)).toBe(false);
+  });
+
+  it('skips the right side of || when the left is true', () => {
+    expect(matches('true || unreachable', context)).toBe(true);
+  });
+
+  it('guards a comparison on a possibly missing field', () => {
+    expect(matches('size != null && size > 1')).toBe(false);
+  });
+});
+
+describe('validateCondition', () => {
+  it('accepts the fields of the rule source', () => {
+    expect(validateCondition('isSmart && sizeUsd > 1m', 'trade')).toBeNull();
+  });
+
+  it('rejects fields from another source', () => {
+    expect(validateCondition('longPercent < 40', 'trade')).toMatch(/^Unknown field "longPercent" for trade rules/);
+  });
+
+  it('rejects inherited object properties', () => {
+    expect(validateCondition('constructor', 'trade')).toMatch(/^Unknown field "constructor"/);
+    expect(validateCondition('toString == 1', 'wallet')).toMatch(/^Unknown field "toString"/);
+    expect(validateCondition('__proto__ != null', 'coin')).toMatch(/^Unknown field "__proto__"/);
+  });
+
+  it('returns syntax errors as messages', () => {
+    expect(validateCondition('sizeUsd >', 'trade')).toBe('Unexpected end of condition');
+  });
+});
+
+describe('inherited properties at evaluation', () => {
+  it('reads them as missing', () => {
+    expect(matches('constructor != null')).toBe(false);
+    expect(matches('not hasOwnProperty')).toBe(true);
+  });
+});
+
+describe('syntax errors', () => {
+  it('reports the 1-based position of the offending token', () => {
+    expect(parseError('size > 5 )')).toBe('Unexpected ")" at position 10');
+    expect(parseError('size $ 5')).toBe('Unexpected "$" at position 6');
+    expect(parseError('coin == "BTC')).toBe('Unterminated string at position 9');
+    expect(parseError('(size > 5')).toBe('Expected ")" at end of condition');
+    expect(parseError('coin in ["BTC" "ETH"]')).toBe('Expected "]" at position 16');
+    expect(parseError('size > and')).toBe('Unexpected "and" at position 8');
+  });
+
+  it('rejects empty and over-long conditions', () => {
+    expect(parseError('   ')).toBe('Condition is empty');
+    expect(parseError(`x == "${'a'.repeat(500)}"`)).toBe('Condition must be at most 500 characters');
+  });
+});
@@ -0,0 +1,446 @@
+/**
+ * Alert Rule Expressions
+ * Small expression language for alert conditions, evaluated against one event's fields
+ *
+ *   isSmart && coin == "HYPE" && sizeUsd > 1m
+ *   coin in ["BTC", "ETH"] && longPercent < 40
+ *   tags contains "fund" and not (side == "Short")
+ *
+ * Operators: || && ! (or / and / not), == != > >= < <=, in, contains, + - * /, parentheses
+ * Literals: numbers with optional k / m / b suffix (250k, 1.5m) and _ separators,
+ * "strings" or 'strings', true, false, null, [lists]
+ * String equality, `in` and `contains` ignore case. Comparisons against a missing
+ * value or a non-number are false.
+ *
+ * Pure (no server imports), so the alerts page can validate rules as they are typed
+ */
+
+import type { AlertSource } from '@/types';
+
+export type AlertValue = number | string | boolean | (string | number)[] | null;
+export type AlertContext = Record<string, AlertValue>;
+
+export type AlertExpression =
+  | { kind: 'literal'; value: AlertValue }
+  | { kind: 'field'; name: string }
+  | { kind: 'list'; items: AlertExpression[] }
+  | { kind: 'not'; operand: AlertExpression }
+  | { kind: 'negate'; operand: AlertExpression }
+  | { kind: 'binary'; operator: BinaryOperator; left: AlertExpression; right: AlertExpression };
+
+type BinaryOperator =
+  | '||' | '&&'
+  | '==' | '!=' | '>' | '>=' | '<' | '<='
+  | 'in' | 'contains'
+  | '+' | '-' | '*' | '/';
+
+export const MAX_CONDITION_LENGTH = 500;
+
+/**
+ * Fields available to each rule source, with a short description for the rule editor
+ */
+export const ALERT_FIELDS: Record<AlertSource, Record<string, string>> = {
+  trade: {
+    coin: 'Ticker, e.g. "BTC"',
+    side: '"Long" or "Short"',
+    price: 'Fill price',
+    sizeUsd: 'Trade value in USD',
+    address: 'Wallet address',
+    label: 'Registry name (tracked wallets)',
+    tier: '"smart", "whale" or "institution"',
+    tags: 'Registry tags (list)',
+    isSmart: 'Wallet is tracked',
+    isWhale: 'Trade is whale-sized',
+    isGolden: 'Golden setup (tracked wallet above the per-coin golden threshold)',
+  },
+  position: {
+    type: '"opened", "increased", "reduced", "closed" or "flipped"',
+    coin: 'Ticker',
+    side: 'Side after the change',
+    sizeUsd: 'Position value after the change',
+    previousSizeUsd: 'Position value before the change',
+    changePercent: 'Size change in percent',
+    entryPrice: 'Entry price',
+    address: 'Wallet address',
+    label: 'Registry name',
+    tier: 'Registry tier',
+    tags: 'Registry tags (list)',
+  },
+  wallet: {
+    address: 'Wallet address',
+    label: 'Registry name',
+    tier: 'Registry tier',
+    tags: 'Registry tags (list)',
+    pnl1d: 'Realized PnL, 1D',
+    pnl7d: 'Realized PnL, 7D',
+    pnl30d: 'Realized PnL, 30D',
+    netPnl1d: 'Net PnL (after fees / funding), 1D',
+    netPnl7d: 'Net PnL, 7D',
+    netPnl30d: 'Net PnL, 30D',
+    winRate7d: 'Win rate in percent, 7D',
+    winRate30d: 'Win rate in percent, 30D',
+    volume7d: 'Volume, 7D',
+    volume30d: 'Volume, 30D',
+    longPosition: 'Open long exposure in USD',
+    shortPosition: 'Open short exposure in USD',
+    netPosition: 'Long minus short exposure',
+    positionCount: 'Open positions',
+  },
+  coin: {
+    coin: 'Ticker',
+    longUsd: 'Tracked-wallet long exposure',
+    shortUsd: 'Tracked-wallet short exposure',
+    netUsd: 'Long minus short exposure',
+    longPercent: 'Long share of exposure in percent',
+    longWallets: 'Wallets long',
+    shortWallets: 'Wallets short',
+    walletCount: 'Wallets with a position',
+  },
+};
+
+// Placeholder conditions for the rule editor
+export const ALERT_EXAMPLES: Record<AlertSource, string> = {
+  trade: 'isSmart && coin == "HYPE" && sizeUsd > 1m',
+  position: 'type == "opened" && sizeUsd >= 1m',
+  wallet: 'netPnl1d < -250k',
+  coin: 'coin == "BTC" && longPercent < 40',
+};
+
+// ============================================
+// TOKENIZER
+// ============================================
+
+type Token =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'string'; value: string; position: number }
+  | { type: 'word'; value: string; position: number }
+  | { type: 'symbol'; value: string; position: number };
+
+const SYMBOLS = ['||', '&&', '==', '!=', '>=', '<=', '>', '<', '!', '(', ')', '[', ']', ',', '+', '-', '*', '/'];
+const NUMBER_SUFFIXES: Record<string, number> = { k: 1e3, m: 1e6, b: 1e9 };
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    const char = input[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    const number = /^(\d[\d_]*(?:\.\d+)?)([kmb])?(?![\w.])/i.exec(input.slice(index));
+    if (number) {
+      const suffix = number[2]?.toLowerCase();
+      tokens.push({
+        type: 'number',
+        value: parseFloat(number[1].replace(/_/g, '')) * (suffix ? NUMBER_SUFFIXES[suffix] : 1),
+        position: index,
+      });
+      index += number[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const end = input.indexOf(char, index + 1);
+      if (end === -1) throw new Error(`Unterminated string at position ${index + 1}`);
+      tokens.push({ type: 'string', value: input.slice(index + 1, end), position: index });
+      index = end + 1;
+      continue;
+    }
+
+    const word = /^[A-Za-z_]\w*/.exec(input.slice(index));
+    if (word) {
+      tokens.push({ type: 'word', value: word[0], position: index });
+      index += word[0].length;
+      continue;
+    }
+
+    const symbol = SYMBOLS.find(candidate => input.startsWith(candidate, index));
+    if (symbol) {
+      tokens.push({ type: 'symbol', value: symbol, position: index });
+      index += symbol.length;
+      continue;
+    }
+
+    throw new Error(`Unexpected "${char}" at position ${index + 1}`);
+  }
+
+  return tokens;
+}
+
+// ============================================
+// PARSER
+// ============================================
+
+// Word operators and their symbol equivalents
+const WORD_OPERATORS: Record<string, string> = { or: '||', and: '&&', not: '!' };
+
+/**
+ * Recursive-descent parser, lowest precedence first:
+ * || -> && -> ! -> comparison / in / contains -> + - -> * / -> unary minus -> primary
+ */
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): AlertExpression {
+    if (this.tokens.length === 0) throw new Error('Condition is empty');
+    const expression = this.parseOr();
+    const extra = this.peek();
+    if (extra) throw new Error(`Unexpected "${extra.value}" at position ${extra.position + 1}`);
+    return expression;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  /**
+   * Consume the next token if it is one of the given operators (word forms included)
+   */
+  private match(...operators: string[]): string | null {
+    const token = this.peek();
+    if (!token || (token.type !== 'symbol' && token.type !== 'word')) return null;
+    const word = token.value.toLowerCase();
+    const operator =
+      token.type !== 'word' ? token.value : Object.hasOwn(WORD_OPERATORS, word) ? WORD_OPERATORS[word] : word;
+    if (!operators.includes(operator)) return null;
+    this.index++;
+    return operator;
+  }
+
+  private expect(symbol: string) {
+    const token = this.peek();
+    if (token?.type !== 'symbol' || token.value !== symbol) {
+      throw new Error(
+        token ? `Expected "${symbol}" at position ${token.position + 1}` : `Expected "${symbol}" at end of condition`
+      );
+    }
+    this.index++;
+  }
+
+  private parseBinary(next: () => AlertExpression, ...operators: BinaryOperator[]): AlertExpression {
+    let left = next();
+    let operator: string | null;
+    while ((operator = this.match(...operators))) {
+      left = { kind: 'binary', operator: operator as BinaryOperator, left, right: next() };
+    }
+    return left;
+  }
+
+  private parseOr = (): AlertExpression => this.parseBinary(this.parseAnd, '||');
+
+  private parseAnd = (): AlertExpression => this.parseBinary(this.parseNot, '&&');
+
+  private parseNot = (): AlertExpression => {
+    if (this.match('!')) return { kind: 'not', operand: this.parseNot() };
+    return this.parseComparison();
+  };
+
+  private parseComparison = (): AlertExpression => {
+    const left = this.parseAdditive();
+    const operator = this.match('==', '!=', '>', '>=', '<', '<=', 'in', 'contains');
+    if (!operator) return left;
+    return { kind: 'binary', operator: operator as BinaryOperator, left, right: this.parseAdditive() };
+  };
+
+  private parseAdditive = (): AlertExpression => this.parseBinary(this.parseMultiplicative, '+', '-');
+
+  private parseMultiplicative = (): AlertExpression => this.parseBinary(this.parseUnary, '*', '/');
+
+  private parseUnary = (): AlertExpression => {
+    if (this.match('-')) return { kind: 'negate', operand: this.parseUnary() };
+    return this.parsePrimary();
+  };
+
+  private parsePrimary = (): AlertExpression => {
+    const token = this.peek();
+    if (!token) throw new Error('Unexpected end of condition');
+    this.index++;
+
+    if (token.type === 'number' || token.type === 'string') {
+      return { kind: 'literal', value: token.value };
+    }
+
+    if (token.type === 'word') {
+      const word = token.value.toLowerCase();
+      if (word === 'true' || word === 'false') return { kind: 'literal', value: word === 'true' };
+      if (word === 'null') return { kind: 'literal', value: null };
+      if (Object.hasOwn(WORD_OPERATORS, word) || word === 'in' || word === 'contains') {
+        throw new Error(`Unexpected "${token.value}" at position ${token.position + 1}`);
+      }
+      return { kind: 'field', name: token.value };
+    }
+
+    if (token.value === '(') {
+      const expression = this.parseOr();
+      this.expect(')');
+      return expression;
+    }
+
+    if (token.value === '[') {
+      const items: AlertExpression[] = [];
+      if (!this.match(']')) {
+        do {
+          items.push(this.parseOr());
+        } while (this.match(','));
+        this.expect(']');
+      }
+      return { kind: 'list', items };
+    }
+
+    throw new Error(`Unexpected "${token.value}" at position ${token.position + 1}`);
+  };
+}
+
+/**
+ * Parse a condition into an expression tree
+ * Throws with the position of the first syntax error
+ */
+export function parseCondition(condition: string): AlertExpression {
+  if (condition.length > MAX_CONDITION_LENGTH) {
+    throw new Error(`Condition must be at most ${MAX_CONDITION_LENGTH} characters`);
+  }
+  return new Parser(tokenize(condition)).parse();
+}
+
+function collectFields(expression: AlertExpression, fields: Set<string>): Set<string> {
+  switch (expression.kind) {
+    case 'field':
+      fields.add(expression.name);
+      break;
+    case 'list':
+      expression.items.forEach(item => collectFields(item, fields));
+      break;
+    case 'not':
+    case 'negate':
+      collectFields(expression.operand, fields);
+      break;
+    case 'binary':
+      collectFields(expression.left, fields);
+      collectFields(expression.right, fields);
+      break;
+  }
+  return fields;
+}
+
+/**
+ * Check a condition parses and only uses the source's fields
+ * Returns an error message or null
+ */
+export function validateCondition(condition: string, source: AlertSource): string | null {
+  try {
+    const available = ALERT_FIELDS[source];
+    const unknown = Array.from(collectFields(parseCondition(condition), new Set())).find(
+      // Own fields only: `in` would accept inherited names like constructor or toString
+      field => !Object.hasOwn(available, field)
+    );
+    return unknown
+      ? `Unknown field "${unknown}" for ${source} rules (available: ${Object.keys(available).join(', ')})`
+      : null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid condition';
+  }
+}
+
+// ============================================
+// EVALUATION
+// ============================================
+
+function isTruthy(value: AlertValue): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return Boolean(value);
+}
+
+function asNumber(value: AlertValue): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function equals(left: AlertValue, right: AlertValue): boolean {
+  if (typeof left === 'string' && typeof right === 'string') {
+    return left.toLowerCase() === right.toLowerCase();
+  }
+  return left === right;
+}
+
+function contains(container: AlertValue, item: AlertValue): boolean {
+  if (Array.isArray(container)) return container.some(entry => equals(entry, item));
+  if (typeof container === 'string' && typeof item === 'string') {
+    return container.toLowerCase().includes(item.toLowerCase());
+  }
+  return false;
+}
+
+function evaluateBinary(operator: BinaryOperator, left: AlertValue, right: AlertValue): AlertValue {
+  switch (operator) {
+    case '==':
+      return equals(left, right);
+    case '!=':
+      return !equals(left, right);
+    case 'in':
+      return contains(right, left);
+    case 'contains':
+      return contains(left, right);
+  }
+
+  const a = asNumber(left);
+  const b = asNumber(right);
+  if (a === null || b === null) {
+    return ['>', '>=', '<', '<='].includes(operator) ? false : null;
+  }
+
+  switch (operator) {
+    case '>': return a > b;
+    case '>=': return a >= b;
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '+': return a + b;
+    case '-': return a - b;
+    case '*': return a * b;
+    case '/': return b === 0 ? null : a / b;
+    default: return null;
+  }
+}
+
+function evaluate(expression: AlertExpression, context: AlertContext): AlertValue {
+  switch (expression.kind) {
+    case 'literal':
+      return expression.value;
+    case 'field':
+      return Object.hasOwn(context, expression.name) ? context[expression.name] ?? null : null;
+    case 'list':
+      return expression.items
+        .map(item => evaluate(item, context))
+        .filter((value): value is string | number => typeof value === 'string' || typeof value === 'number');
+    case 'not':
+      return !isTruthy(evaluate(expression.operand, context));
+    case 'negate': {
+      const value = asNumber(evaluate(expression.operand, context));
+      return value === null ? null : -value;
+    }
+    case 'binary':
+      // Short-circuit so `x != null && x > 1` style guards work
+      if (expression.operator === '&&') {
+        return isTruthy(evaluate(expression.left, context)) && isTruthy(evaluate(expression.right, context));
+      }
+      if (expression.operator === '||') {
+        return isTruthy(evaluate(expression.left, context)) || isTruthy(evaluate(expression.right, context));
+      }
+      return evaluateBinary(
+        expression.operator,
+        evaluate(expression.left, context),
+        evaluate(expression.right, context)
+      );
+  }
+}
+
+/**
+ * Whether an event matches a parsed condition
+ */
+export function matchesCondition(expression: AlertExpression, context: AlertContext): boolean {
+  return isTruthy(evaluate(expression, context));
+}
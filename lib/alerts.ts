@@ -0,0 +1,497 @@
+/**
+ * Alert Engine
+ * Stores alert rules, evaluates them against trades, position changes, wallet stats and
+ * per-coin exposure, suppresses repeats within each rule's dedupe window and keeps
+ * the history of fired alerts
+ * Supports: Vercel KV (primary) or in-memory fallback
+ *
+ * Everything runs server-side whenever a wallet stats refresh completes: trade rules on the
+ * tracked wallets' fills since the previous refresh, the other sources on the fresh stats.
+ * Open dashboards also forward live trades (POST /api/alerts/trades) for faster trade alerts;
+ * those are only used once found in the wallet's fills on Hyperliquid.
+ * Fired alerts go out through each rule's channels (lib/notifications.ts) in the background,
+ * kept alive past the response with waitUntil.
+ */
+
+import { randomUUID } from 'crypto';
+import { waitUntil } from '@vercel/functions';
+import { kv } from '@vercel/kv';
+import { matchesCondition, parseCondition, type AlertContext, type AlertExpression } from './alert-dsl';
+import { getWalletRegistry } from './cache';
+import { fetchFillsSince } from './hyperliquid';
+import { deliverAlerts } from './notifications';
+import { describePositionChange } from './position-changes';
+import { DEFAULT_THRESHOLDS } from './thresholds';
+import { formatPrice, formatUSD, generateTradeId, isGoldenSetup, truncateAddress } from './utils';
+import type {
+  AlertEvent,
+  AlertRule,
+  AlertSource,
+  PositionChange,
+  SmartWalletEntry,
+  SmartWalletMap,
+  UnifiedTradeLog,
+  WalletFill,
+  WalletStats,
+} from '@/types';
+
+const ALERT_RULES_KEY = 'alert-rules'; // Hash: id -> JSON rule
+const ALERT_HISTORY_KEY = 'alert-history'; // Sorted set: JSON event scored by timestamp
+const ALERT_DEDUPE_PREFIX = 'alert-dedupe:'; // `${ruleId}:${subject}`, expires with the window
+const ALERT_TRADE_CURSOR_KEY = 'alert-trade-cursor'; // Fills up to this time went through trade rules
+
+// Newest alerts kept in the history
+const MAX_ALERT_HISTORY = parseInt(process.env.ALERT_HISTORY_LIMIT || '1000', 10);
+
+// Forwarded trades are looked up in this much recent fill history; also how far back
+// the first stats refresh (no cursor yet) evaluates fills
+const TRADE_LOOKBACK_MS = 10 * 60_000;
+// Hyperliquid requests per forwarded batch; trades from further wallets are dropped
+const MAX_VERIFIED_WALLETS = 20;
+
+// A trade named by its wallet and feed id (see generateTradeId); all other fields come from Hyperliquid
+export type ForwardedTrade = Pick<UnifiedTradeLog, 'id' | 'walletAddress'>;
+
+// A fill confirmed on Hyperliquid for a wallet
+interface VerifiedFill {
+  address: string;
+  fill: WalletFill;
+}
+
+export type AlertStoreSource = 'kv' | 'memory';
+
+// One thing a rule can match, e.g. a trade or one coin's exposure
+interface AlertSubject {
+  subject: string;
+  context: AlertContext;
+  message: string;
+  address?: string;
+  coin?: string;
+}
+
+// In-memory fallback for development (lost on restart)
+// Held on globalThis so the stats route and the alert routes share it (see lib/cache.ts)
+const memoryStore = globalThis as typeof globalThis & {
+  alertRules?: Record<string, AlertRule>;
+  alertHistory?: AlertEvent[];
+  alertDedupe?: Map<string, number>;
+  alertTradeCursor?: number;
+};
+
+function hasKv(): boolean {
+  return Boolean(process.env.KV_REST_API_URL);
+}
+
+function getMemoryRules(): Record<string, AlertRule> {
+  memoryStore.alertRules ??= {};
+  return memoryStore.alertRules;
+}
+
+function parseJson<T>(value: unknown): T {
+  return (typeof value === 'string' ? JSON.parse(value) : value) as T;
+}
+
+// ============================================
+// RULES
+// ============================================
+
+/**
+ * All alert rules, by name
+ * Throws on KV failure
+ */
+export async function getAlertRules(): Promise<AlertRule[]> {
+  const rules = hasKv()
+    ? Object.values((await kv.hgetall<Record<string, unknown>>(ALERT_RULES_KEY)) ?? {}).map(value =>
+        parseJson<AlertRule>(value)
+      )
+    : Object.values(getMemoryRules());
+  return rules
+    // Rules stored before channels existed
+    .map(rule => ({ ...rule, channels: rule.channels ?? [] }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Create or replace a rule
+ * Throws on KV failure
+ */
+export async function saveAlertRule(rule: AlertRule): Promise<void> {
+  if (hasKv()) {
+    await kv.hset(ALERT_RULES_KEY, { [rule.id]: JSON.stringify(rule) });
+  } else {
+    getMemoryRules()[rule.id] = rule;
+  }
+  console.log(`[Alerts] Saved rule "${rule.name}" (${rule.source}: ${rule.condition})`);
+}
+
+/**
+ * Delete a rule; resolves false if it did not exist
+ * Throws on KV failure
+ */
+export async function deleteAlertRule(id: string): Promise<boolean> {
+  if (hasKv()) {
+    return (await kv.hdel(ALERT_RULES_KEY, id)) > 0;
+  }
+  const rules = getMemoryRules();
+  if (!rules[id]) return false;
+  delete rules[id];
+  return true;
+}
+
+// ============================================
+// HISTORY / DEDUPE
+// ============================================
+
+async function recordAlerts(events: AlertEvent[]): Promise<void> {
+  if (events.length === 0) return;
+
+  if (hasKv()) {
+    const [first, ...rest] = events.map(event => ({ score: event.timestamp, member: JSON.stringify(event) }));
+    await kv.zadd(ALERT_HISTORY_KEY, first, ...rest);
+    await kv.zremrangebyrank(ALERT_HISTORY_KEY, 0, -(MAX_ALERT_HISTORY + 1));
+  } else {
+    memoryStore.alertHistory = [...[...events].reverse(), ...(memoryStore.alertHistory ?? [])].slice(
+      0,
+      MAX_ALERT_HISTORY
+    );
+  }
+}
+
+/**
+ * Fired alerts in [from, to] matching filter, newest first
+ * Throws on KV failure
+ */
+export async function getAlertHistory(
+  from: number,
+  to: number,
+  limit: number,
+  filter: (event: AlertEvent) => boolean = () => true
+): Promise<{ events: AlertEvent[]; source: AlertStoreSource }> {
+  const events = hasKv()
+    ? (await kv.zrange<unknown[]>(ALERT_HISTORY_KEY, from, to, { byScore: true }))
+        .map(member => parseJson<AlertEvent>(member))
+        .reverse()
+    : memoryStore.alertHistory ?? [];
+
+  return {
+    events: events
+      .filter(event => event.timestamp >= from && event.timestamp <= to && filter(event))
+      .slice(0, limit),
+    source: hasKv() ? 'kv' : 'memory',
+  };
+}
+
+/**
+ * Claim the dedupe window for a rule + subject; false if it already fired within it
+ */
+async function claimDedupeWindow(key: string, windowMs: number, now: number): Promise<boolean> {
+  if (hasKv()) {
+    // NX makes the claim atomic across instances and open dashboards
+    return (await kv.set(`${ALERT_DEDUPE_PREFIX}${key}`, now, { nx: true, px: windowMs })) !== null;
+  }
+
+  memoryStore.alertDedupe ??= new Map();
+  const expiresAt = memoryStore.alertDedupe.get(key);
+  if (expiresAt !== undefined && expiresAt > now) return false;
+  memoryStore.alertDedupe.set(key, now + windowMs);
+  return true;
+}
+
+function pruneMemoryDedupe(now: number) {
+  memoryStore.alertDedupe?.forEach((expiresAt, key) => {
+    if (expiresAt <= now) memoryStore.alertDedupe?.delete(key);
+  });
+}
+
+async function getTradeCursor(): Promise<number | null> {
+  if (hasKv()) return kv.get<number>(ALERT_TRADE_CURSOR_KEY);
+  return memoryStore.alertTradeCursor ?? null;
+}
+
+async function setTradeCursor(time: number): Promise<void> {
+  if (hasKv()) {
+    await kv.set(ALERT_TRADE_CURSOR_KEY, time);
+  } else {
+    memoryStore.alertTradeCursor = time;
+  }
+}
+
+// ============================================
+// SUBJECTS
+// ============================================
+
+function registryFields(entry: SmartWalletEntry | undefined): AlertContext {
+  return {
+    label: entry?.labels[0] ?? null,
+    tier: entry?.tier ?? null,
+    tags: entry?.tags ?? [],
+  };
+}
+
+function walletName(address: string, entry: SmartWalletEntry | undefined): string {
+  return entry?.labels[0] || truncateAddress(address);
+}
+
+/**
+ * Whale / golden flags use the global thresholds: per-coin overrides are browser settings
+ */
+function tradeSubject({ address, fill }: VerifiedFill, registry: SmartWalletMap): AlertSubject {
+  const entry = registry[address];
+  const isSmart = Boolean(entry);
+  const side = fill.side === 'Buy' ? 'Long' : 'Short';
+
+  return {
+    subject: `${address}:${fill.coin}`,
+    address,
+    coin: fill.coin,
+    context: {
+      coin: fill.coin,
+      side,
+      price: fill.price,
+      sizeUsd: fill.sizeUsd,
+      address,
+      ...registryFields(entry),
+      isSmart,
+      isWhale: fill.sizeUsd >= DEFAULT_THRESHOLDS.whaleUsd,
+      isGolden: isGoldenSetup(isSmart, fill.sizeUsd, DEFAULT_THRESHOLDS.goldenUsd),
+    },
+    message: `${walletName(address, entry)} ${side.toLowerCase()} ${fill.coin} ` +
+      `${formatUSD(fill.sizeUsd)} @ ${formatPrice(fill.price)}`,
+  };
+}
+
+function positionSubject(change: PositionChange, registry: SmartWalletMap): AlertSubject {
+  const entry = registry[change.address];
+
+  return {
+    subject: `${change.address}:${change.coin}`,
+    address: change.address,
+    coin: change.coin,
+    context: {
+      type: change.type,
+      coin: change.coin,
+      side: change.side,
+      sizeUsd: change.sizeUsd,
+      previousSizeUsd: change.previousSizeUsd,
+      changePercent: change.changePercent,
+      entryPrice: change.entryPrice ?? null,
+      address: change.address,
+      ...registryFields(entry),
+    },
+    message: `${walletName(change.address, entry)}: ${describePositionChange(change)}`,
+  };
+}
+
+function walletSubject(stats: WalletStats, registry: SmartWalletMap): AlertSubject {
+  const entry = registry[stats.address];
+
+  return {
+    subject: stats.address,
+    address: stats.address,
+    context: {
+      address: stats.address,
+      ...registryFields(entry),
+      pnl1d: stats.pnl1d,
+      pnl7d: stats.pnl7d,
+      pnl30d: stats.pnl30d,
+      netPnl1d: stats.netPnl1d,
+      netPnl7d: stats.netPnl7d,
+      netPnl30d: stats.netPnl30d,
+      winRate7d: stats.winRate7d,
+      winRate30d: stats.winRate30d,
+      volume7d: stats.volume7d,
+      volume30d: stats.volume30d,
+      longPosition: stats.longPosition,
+      shortPosition: stats.shortPosition,
+      netPosition: stats.longPosition - stats.shortPosition,
+      positionCount: stats.positions.length,
+    },
+    message: `${walletName(stats.address, entry)}: 1D net PnL ${formatUSD(stats.netPnl1d)}, ` +
+      `30D ${formatUSD(stats.netPnl30d)}, ` +
+      `${formatUSD(stats.longPosition)} long / ${formatUSD(stats.shortPosition)} short`,
+  };
+}
+
+/**
+ * Tracked-wallet exposure per coin, one subject per coin with open positions
+ */
+function coinSubjects(stats: WalletStats[]): AlertSubject[] {
+  const byCoin = new Map<string, { longUsd: number; shortUsd: number; longWallets: number; shortWallets: number }>();
+
+  for (const wallet of stats) {
+    for (const position of wallet.positions) {
+      const totals = byCoin.get(position.coin) ?? { longUsd: 0, shortUsd: 0, longWallets: 0, shortWallets: 0 };
+      if (position.side === 'Long') {
+        totals.longUsd += position.sizeUsd;
+        totals.longWallets++;
+      } else {
+        totals.shortUsd += position.sizeUsd;
+        totals.shortWallets++;
+      }
+      byCoin.set(position.coin, totals);
+    }
+  }
+
+  return Array.from(byCoin.entries()).map(([coin, totals]) => {
+    const grossUsd = totals.longUsd + totals.shortUsd;
+    const longPercent = grossUsd > 0 ? (totals.longUsd / grossUsd) * 100 : 0;
+    const walletCount = totals.longWallets + totals.shortWallets;
+
+    return {
+      subject: coin,
+      coin,
+      context: {
+        coin,
+        ...totals,
+        netUsd: totals.longUsd - totals.shortUsd,
+        longPercent,
+        walletCount,
+      },
+      message: `${coin}: ${longPercent.toFixed(0)}% long ` +
+        `(${formatUSD(totals.longUsd)} long / ${formatUSD(totals.shortUsd)} short, ${walletCount} wallets)`,
+    };
+  });
+}
+
+// ============================================
+// EVALUATION
+// ============================================
+
+/**
+ * Run every enabled rule for a source over its subjects, record and return what fired
+ * Throws on KV failure
+ */
+async function evaluateAlerts(source: AlertSource, subjects: AlertSubject[]): Promise<AlertEvent[]> {
+  if (subjects.length === 0) return [];
+
+  const rules: { rule: AlertRule; expression: AlertExpression }[] = [];
+  for (const rule of await getAlertRules()) {
+    if (!rule.enabled || rule.source !== source) continue;
+    try {
+      rules.push({ rule, expression: parseCondition(rule.condition) });
+    } catch (error) {
+      // Rules are validated on write; only a hand-edited store gets here
+      console.warn(`[Alerts] Skipping rule "${rule.name}":`, error);
+    }
+  }
+  if (rules.length === 0) return [];
+
+  const now = Date.now();
+  pruneMemoryDedupe(now);
+  const fired: AlertEvent[] = [];
+
+  for (const { rule, expression } of rules) {
+    for (const subject of subjects) {
+      if (!matchesCondition(expression, subject.context)) continue;
+      if (!(await claimDedupeWindow(`${rule.id}:${subject.subject}`, rule.dedupeMinutes * 60_000, now))) continue;
+
+      fired.push({
+        id: randomUUID(),
+        ruleId: rule.id,
+        ruleName: rule.name,
+        source,
+        subject: subject.subject,
+        message: subject.message,
+        timestamp: now,
+        address: subject.address,
+        coin: subject.coin,
+      });
+    }
+  }
+
+  await recordAlerts(fired);
+  if (fired.length > 0) {
+    console.log(`[Alerts] ${fired.length} ${source} alerts fired`);
+    // Retries can take a while; the caller's response doesn't wait (never throws)
+    waitUntil(deliverAlerts(fired, rules.map(({ rule }) => rule)));
+  }
+  return fired;
+}
+
+/**
+ * Look forwarded trades up in their wallets' recent fills on Hyperliquid
+ * Trades that aren't found (fabricated, too old, or from wallets past MAX_VERIFIED_WALLETS) are dropped
+ */
+async function verifyForwardedTrades(trades: ForwardedTrade[]): Promise<VerifiedFill[]> {
+  const idsByWallet = new Map<string, Set<string>>();
+  for (const trade of trades) {
+    const address = trade.walletAddress.toLowerCase();
+    if (!idsByWallet.has(address)) idsByWallet.set(address, new Set());
+    idsByWallet.get(address)?.add(trade.id);
+  }
+  if (idsByWallet.size > MAX_VERIFIED_WALLETS) {
+    console.warn(`[Alerts] ${idsByWallet.size} wallets forwarded, verifying the first ${MAX_VERIFIED_WALLETS}`);
+  }
+
+  const since = Date.now() - TRADE_LOOKBACK_MS;
+  const verified = await Promise.all(
+    Array.from(idsByWallet.entries())
+      .slice(0, MAX_VERIFIED_WALLETS)
+      .map(async ([address, ids]) => {
+        try {
+          const fills = await fetchFillsSince(address, since);
+          return fills
+            .filter(fill => ids.has(generateTradeId(fill.tid, fill.hash)))
+            .map(fill => ({ address, fill }));
+        } catch (error) {
+          console.warn(`[Alerts] Could not verify forwarded trades for ${address}:`, error);
+          return [];
+        }
+      })
+  );
+  return verified.flat();
+}
+
+/**
+ * Evaluate trade rules on a batch of trades forwarded from the live tape
+ * Throws on KV failure
+ */
+export async function evaluateTradeAlerts(trades: ForwardedTrade[]): Promise<AlertEvent[]> {
+  const [{ data: registry }, fills] = await Promise.all([getWalletRegistry(), verifyForwardedTrades(trades)]);
+  return evaluateAlerts('trade', fills.map(fill => tradeSubject(fill, registry)));
+}
+
+/**
+ * Evaluate trade rules on tracked wallets' fills from a stats refresh
+ * fetchedAt is when the refresh started: every fill up to then was fetched, and later
+ * ones are left for the next refresh
+ */
+async function evaluateRefreshFills(
+  recentFills: Record<string, WalletFill[]>,
+  fetchedAt: number,
+  registry: SmartWalletMap
+): Promise<void> {
+  const cursor = (await getTradeCursor()) ?? fetchedAt - TRADE_LOOKBACK_MS;
+  if (cursor >= fetchedAt) return;
+
+  const fills = Object.entries(recentFills).flatMap(([address, walletFills]) =>
+    walletFills
+      .filter(fill => fill.time > cursor && fill.time <= fetchedAt)
+      .map(fill => ({ address, fill }))
+  );
+  await setTradeCursor(fetchedAt);
+  await evaluateAlerts('trade', fills.map(fill => tradeSubject(fill, registry)));
+}
+
+/**
+ * Evaluate rules after a stats refresh (never throws): trade rules on the wallets'
+ * new fills, position, wallet and coin rules on the stats
+ */
+export async function evaluateStatsAlerts(
+  stats: WalletStats[],
+  changes: PositionChange[],
+  recentFills: Record<string, WalletFill[]>,
+  fetchedAt: number
+): Promise<void> {
+  try {
+    const { data: registry } = await getWalletRegistry();
+    const loaded = stats.filter(wallet => !wallet.error);
+
+    await evaluateRefreshFills(recentFills, fetchedAt, registry);
+    await evaluateAlerts('position', changes.map(change => positionSubject(change, registry)));
+    await evaluateAlerts('wallet', loaded.map(wallet => walletSubject(wallet, registry)));
+    await evaluateAlerts('coin', coinSubjects(loaded));
+  } catch (error) {
+    console.error('[Alerts] Failed to evaluate stats alerts:', error);
+  }
+}
@@ -1,143 +1,185 @@
 /**
  * Cache Management
- * Handles storing/retrieving the Smart Money map
- * Supports: Vercel KV (primary) or File-based fallback
+ * Handles storing/retrieving the wallet registry (tracked Smart Money wallets)
+ * Supports: Vercel KV (primary) or in-memory fallback, seeded from lib/data/static-wallets.ts
  */
 
 import { kv } from '@vercel/kv';
-import type { SmartMoneyCache } from './nansen';
+import { STATIC_SMART_WALLETS } from './data/static-wallets';
+import type { RegistryMetadata, SmartWalletEntry, SmartWalletMap } from '@/types';
 
-const CACHE_KEY = 'smart-money-cache';
-const CACHE_TIMESTAMP_KEY = 'smart-money-cache-timestamp';
-const CACHE_TTL_SECONDS = 60 * 60 * 24 * 32; // 32 days (buffer for monthly cron)
+const REGISTRY_KEY = 'wallet-registry'; // Hash: address -> JSON entry
+const REGISTRY_UPDATED_KEY = 'wallet-registry-updated'; // Last write; missing = not seeded yet
 
-export interface CacheMetadata {
-  lastUpdated: number;
-  walletCount: number;
-  source: 'kv' | 'file' | 'memory';
+// In-memory fallback for development (seeded lazily, lost on restart)
+// Held on globalThis: each route bundle gets its own copy of module state,
+// and every route must see the same registry
+const memoryStore = globalThis as typeof globalThis & {
+  walletRegistry?: { data: SmartWalletMap; timestamp: number };
+};
+
+function hasKv(): boolean {
+  return Boolean(process.env.KV_REST_API_URL);
+}
+
+function getMemoryRegistry(): { data: SmartWalletMap; timestamp: number } {
+  memoryStore.walletRegistry ??= { data: { ...STATIC_SMART_WALLETS }, timestamp: Date.now() };
+  return memoryStore.walletRegistry;
+}
+
+function setMemoryRegistry(data: SmartWalletMap): RegistryMetadata {
+  memoryStore.walletRegistry = { data, timestamp: Date.now() };
+  return {
+    lastUpdated: memoryStore.walletRegistry.timestamp,
+    walletCount: Object.keys(data).length,
+    source: 'memory',
+  };
+}
+
+function parseEntry(value: unknown): SmartWalletEntry {
+  return (typeof value === 'string' ? JSON.parse(value) : value) as SmartWalletEntry;
+}
+
+function serializeEntries(entries: SmartWalletMap): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(entries).map(([address, entry]) => [address, JSON.stringify(entry)])
+  );
 }
 
-// In-memory fallback for development
-let memoryCache: SmartMoneyCache | null = null;
-let memoryCacheTimestamp: number | null = null;
+/**
+ * Copy the static list into KV on first use
+ */
+async function seedKvRegistry(): Promise<number> {
+  const timestamp = Date.now();
+  await kv.hset(REGISTRY_KEY, serializeEntries(STATIC_SMART_WALLETS));
+  await kv.set(REGISTRY_UPDATED_KEY, timestamp.toString());
+  console.log(`[Cache] Seeded wallet registry with ${Object.keys(STATIC_SMART_WALLETS).length} static wallets`);
+  return timestamp;
+}
 
 /**
- * Store Smart Money cache in Vercel KV
+ * Seed KV if needed, then run a registry write and bump the version
+ * The bump comes after the write: a stats run that reads the registry in between would
+ * otherwise cache the old wallet set under the new version
  */
-export async function setSmartMoneyCache(data: SmartMoneyCache): Promise<boolean> {
-  try {
-    // Try Vercel KV first
-    if (process.env.KV_REST_API_URL) {
-      await kv.set(CACHE_KEY, JSON.stringify(data), { ex: CACHE_TTL_SECONDS });
-      await kv.set(CACHE_TIMESTAMP_KEY, Date.now().toString(), { ex: CACHE_TTL_SECONDS });
-      console.log(`[Cache] Stored ${Object.keys(data).length} wallets in Vercel KV`);
-      return true;
-    }
-    
-    // Fallback to memory cache
-    memoryCache = data;
-    memoryCacheTimestamp = Date.now();
-    console.log(`[Cache] Stored ${Object.keys(data).length} wallets in memory`);
-    return true;
-  } catch (error) {
-    console.error('[Cache] Failed to store cache:', error);
-    
-    // Last resort: memory cache
-    memoryCache = data;
-    memoryCacheTimestamp = Date.now();
-    return false;
+async function writeKvRegistry(write: () => Promise<unknown>): Promise<number> {
+  if ((await kv.get(REGISTRY_UPDATED_KEY)) == null) {
+    await seedKvRegistry();
   }
+  await write();
+  const timestamp = Date.now();
+  await kv.set(REGISTRY_UPDATED_KEY, timestamp.toString());
+  return timestamp;
 }
 
 /**
- * Retrieve Smart Money cache
+ * Retrieve the wallet registry
+ * Falls back to the static list when KV is configured but unreachable
  */
-export async function getSmartMoneyCache(): Promise<{
-  data: SmartMoneyCache | null;
-  metadata: CacheMetadata | null;
+export async function getWalletRegistry(): Promise<{
+  data: SmartWalletMap;
+  metadata: RegistryMetadata;
 }> {
   try {
-    // Try Vercel KV first
-    if (process.env.KV_REST_API_URL) {
-      const [cached, timestamp] = await Promise.all([
-        kv.get<string>(CACHE_KEY),
-        kv.get<string>(CACHE_TIMESTAMP_KEY),
+    if (hasKv()) {
+      const [raw, timestamp] = await Promise.all([
+        kv.hgetall<Record<string, unknown>>(REGISTRY_KEY),
+        kv.get<string | number>(REGISTRY_UPDATED_KEY),
       ]);
 
-      if (cached) {
-        const data = typeof cached === 'string' ? JSON.parse(cached) : cached;
+      if (timestamp == null) {
+        const seededAt = await seedKvRegistry();
         return {
-          data,
+          data: { ...STATIC_SMART_WALLETS },
           metadata: {
-            lastUpdated: timestamp ? parseInt(timestamp, 10) : Date.now(),
-            walletCount: Object.keys(data).length,
+            lastUpdated: seededAt,
+            walletCount: Object.keys(STATIC_SMART_WALLETS).length,
             source: 'kv',
           },
         };
       }
-    }
 
-    // Fallback to memory cache
-    if (memoryCache) {
+      const data: SmartWalletMap = Object.fromEntries(
+        Object.entries(raw ?? {}).map(([address, value]) => [address, parseEntry(value)])
+      );
       return {
-        data: memoryCache,
+        data,
         metadata: {
-          lastUpdated: memoryCacheTimestamp || Date.now(),
-          walletCount: Object.keys(memoryCache).length,
-          source: 'memory',
+          lastUpdated: Number(timestamp),
+          walletCount: Object.keys(data).length,
+          source: 'kv',
         },
       };
     }
 
-    return { data: null, metadata: null };
+    const { data, timestamp } = getMemoryRegistry();
+    return {
+      data,
+      metadata: {
+        lastUpdated: timestamp,
+        walletCount: Object.keys(data).length,
+        source: 'memory',
+      },
+    };
   } catch (error) {
-    console.error('[Cache] Failed to retrieve cache:', error);
-    
-    // Try memory fallback
-    if (memoryCache) {
-      return {
-        data: memoryCache,
-        metadata: {
-          lastUpdated: memoryCacheTimestamp || Date.now(),
-          walletCount: Object.keys(memoryCache).length,
-          source: 'memory',
-        },
-      };
-    }
+    console.error('[Cache] Failed to retrieve wallet registry:', error);
 
-    return { data: null, metadata: null };
+    // Keep tracking the static list while KV is down
+    return {
+      data: STATIC_SMART_WALLETS,
+      metadata: {
+        lastUpdated: 0,
+        walletCount: Object.keys(STATIC_SMART_WALLETS).length,
+        source: 'static',
+      },
+    };
   }
 }
 
 /**
- * Check if cache is stale (older than 32 days)
+ * Add or replace registry entries (keyed by lowercase address)
+ * Throws on KV failure so callers can report it instead of silently losing the write
  */
-export async function isCacheStale(): Promise<boolean> {
-  try {
-    if (process.env.KV_REST_API_URL) {
-      const timestamp = await kv.get<string>(CACHE_TIMESTAMP_KEY);
-      if (!timestamp) return true;
-      
-      const age = Date.now() - parseInt(timestamp, 10);
-      return age > CACHE_TTL_SECONDS * 1000;
-    }
-
-    if (memoryCacheTimestamp) {
-      const age = Date.now() - memoryCacheTimestamp;
-      return age > CACHE_TTL_SECONDS * 1000;
-    }
+export async function upsertRegistryWallets(entries: SmartWalletMap): Promise<RegistryMetadata> {
+  const count = Object.keys(entries).length;
 
-    return true;
-  } catch {
-    return true;
+  if (hasKv()) {
+    const lastUpdated = await writeKvRegistry(async () => {
+      if (count > 0) await kv.hset(REGISTRY_KEY, serializeEntries(entries));
+    });
+    console.log(`[Cache] Upserted ${count} registry wallets in Vercel KV`);
+    return { lastUpdated, walletCount: await kv.hlen(REGISTRY_KEY), source: 'kv' };
   }
+
+  const metadata = setMemoryRegistry({ ...getMemoryRegistry().data, ...entries });
+  console.log(`[Cache] Upserted ${count} registry wallets in memory`);
+  return metadata;
 }
 
 /**
- * Get cache statistics
+ * Remove wallets from the registry
+ * Throws on KV failure (see upsertRegistryWallets)
  */
-export async function getCacheStats(): Promise<CacheMetadata | null> {
-  const { metadata } = await getSmartMoneyCache();
+export async function removeRegistryWallets(addresses: string[]): Promise<RegistryMetadata> {
+  if (hasKv()) {
+    const lastUpdated = await writeKvRegistry(async () => {
+      if (addresses.length > 0) await kv.hdel(REGISTRY_KEY, ...addresses);
+    });
+    console.log(`[Cache] Removed ${addresses.length} registry wallets from Vercel KV`);
+    return { lastUpdated, walletCount: await kv.hlen(REGISTRY_KEY), source: 'kv' };
+  }
+
+  const next = { ...getMemoryRegistry().data };
+  addresses.forEach(address => delete next[address]);
+  const metadata = setMemoryRegistry(next);
+  console.log(`[Cache] Removed ${addresses.length} registry wallets from memory`);
   return metadata;
 }
 
+/**
+ * Check whether an address is in the registry
+ */
+export async function isTrackedWallet(address: string): Promise<boolean> {
+  const { data } = await getWalletRegistry();
+  return address.toLowerCase() in data;
+}
@@ -4,9 +4,19 @@
  */
 
 export const EXPLORER_URL = 'https://hypurrscan.io';
-export const HYPERLIQUID_WS_URL = 'wss://api.hyperliquid.xyz/ws';
+// Overridable to point the client at a local stand-in (scripts/fake-hyperliquid.js)
+export const HYPERLIQUID_WS_URL =
+  process.env.NEXT_PUBLIC_HYPERLIQUID_WS_URL || 'wss://api.hyperliquid.xyz/ws';
+export const HYPERLIQUID_INFO_URL =
+  process.env.NEXT_PUBLIC_HYPERLIQUID_API_URL || 'https://api.hyperliquid.xyz/info';
 export const NANSEN_API_BASE_URL = 'https://api.nansen.ai/api/v1';
 
+// Wallet registry
+export const WALLET_TIERS = ['smart', 'whale', 'institution'] as const;
+export const DEFAULT_WALLET_LABEL = 'Manual Smart List';
+// sessionStorage key for the registry admin token (REGISTRY_ADMIN_TOKEN)
+export const REGISTRY_TOKEN_STORAGE_KEY = 'smart-hl-registry-token';
+
 // Chain IDs
 export const CHAIN_ID_ARBITRUM = 42161;
 export const CHAIN_ID_ETHEREUM = 1;
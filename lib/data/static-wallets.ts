@@ -1,16 +1,20 @@
 /**
  * Static Smart Money Wallets
  * Auto-generated from addresses.txt
- * Generated: 2025-12-04T16:59:56.117Z
+ * Generated: 2026-10-19T04:42:15.186Z
  */
 
-import type { SmartWalletMap } from '@/types';
+import type { SmartWalletEntry, SmartWalletMap } from '@/types';
 
-function createSmartWallet(label: string = 'Manual Smart List') {
+type SmartWalletDetails = Partial<Pick<SmartWalletEntry, 'tier' | 'tags' | 'notes'>>;
+
+function createSmartWallet(label: string = 'Manual Smart List', details: SmartWalletDetails = {}): SmartWalletEntry {
   return {
     isSmartMoney: true,
     labels: [label],
-    tier: 'smart' as const,
+    tier: details.tier ?? 'smart',
+    ...(details.tags?.length ? { tags: details.tags } : {}),
+    ...(details.notes ? { notes: details.notes } : {}),
   };
 }
 
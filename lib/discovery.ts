@@ -0,0 +1,70 @@
+/**
+ * Wallet Discovery
+ * Thresholds for accumulating untracked addresses from the live tape, and the
+ * score used to rank them once their fill history has been fetched
+ */
+
+import type { DiscoveryCandidate, DiscoveryScore, WalletStats } from '@/types';
+
+// Tape trades at or above this size count as "large"
+export const DISCOVERY_LARGE_TRADE_USD = 50_000;
+// Accumulator cap; the lowest-volume addresses are dropped beyond it
+export const MAX_DISCOVERY_CANDIDATES = 2_000;
+// Addresses scored per request (each one costs several Hyperliquid calls)
+export const MAX_DISCOVERY_SCORE_BATCH = 20;
+
+// Closed trades needed before the win rate is trusted
+const MIN_CLOSED_TRADES = 5;
+
+/**
+ * Scale a positive USD amount onto 0-1 logarithmically (1 at `full`)
+ */
+function logScale(value: number, full: number): number {
+  if (value <= 1) return 0;
+  return Math.min(Math.log10(value) / Math.log10(full), 1);
+}
+
+/**
+ * Rank score (0-100):
+ *   40  net 30D PnL (log scale, $1M = full; losses score 0)
+ *   30  30D win rate (needs MIN_CLOSED_TRADES closed trades)
+ *   15  30D volume (log scale, $100M = full)
+ *   15  large trades seen on the tape (5 = full)
+ */
+export function scoreDiscoveryCandidate(stats: WalletStats, largeTrades: number): number {
+  const pnl = logScale(stats.netPnl30d, 1_000_000) * 40;
+  const winRate = stats.tradeStats30d.closedTrades >= MIN_CLOSED_TRADES
+    ? (stats.winRate30d / 100) * 30
+    : 0;
+  const volume = logScale(stats.volume30d, 100_000_000) * 15;
+  const tape = Math.min(largeTrades / 5, 1) * 15;
+
+  return Math.round(pnl + winRate + volume + tape);
+}
+
+export function toDiscoveryScore(stats: WalletStats, largeTrades: number): DiscoveryScore {
+  return {
+    address: stats.address,
+    score: stats.error ? 0 : scoreDiscoveryCandidate(stats, largeTrades),
+    pnl30d: stats.pnl30d,
+    netPnl30d: stats.netPnl30d,
+    winRate30d: stats.winRate30d,
+    closedTrades30d: stats.tradeStats30d.closedTrades,
+    volume30d: stats.volume30d,
+    openPositionUsd: stats.longPosition + stats.shortPosition,
+    scoredAt: Date.now(),
+    ...(stats.error ? { error: true } : {}),
+  };
+}
+
+/**
+ * Scored candidates first (by score), then the rest by tape volume
+ */
+export function rankDiscoveryCandidates(candidates: DiscoveryCandidate[]): DiscoveryCandidate[] {
+  return [...candidates].sort((a, b) => {
+    if (a.score && b.score) return b.score.score - a.score.score;
+    if (a.score) return -1;
+    if (b.score) return 1;
+    return b.volumeUsd - a.volumeUsd;
+  });
+}
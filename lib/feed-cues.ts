@@ -0,0 +1,110 @@
+/**
+ * Live Feed Cues
+ * Browser-only helpers behind useFeedCues: which trades deserve attention,
+ * short Web Audio tones per cue type and desktop notifications
+ */
+
+import { formatPrice, formatUSD, truncateAddress } from './utils';
+import type { FeedCueType } from '@/store/useStore';
+import type { UnifiedTradeLog } from '@/types';
+
+// Highest priority first: a golden setup by a pinned wallet cues as golden
+export const FEED_CUE_TYPES: FeedCueType[] = ['golden', 'pinned', 'whale'];
+
+export const FEED_CUE_LABELS: Record<FeedCueType, string> = {
+  golden: 'Golden setup',
+  pinned: 'Pinned wallet',
+  whale: 'Whale trade',
+};
+
+export const FEED_CUE_ICONS: Record<FeedCueType, string> = {
+  golden: '⚡',
+  pinned: '📌',
+  whale: '🐋',
+};
+
+// Note frequencies (Hz) played in sequence
+const CUE_TONES: Record<FeedCueType, number[]> = {
+  golden: [880, 1320],
+  pinned: [660, 660],
+  whale: [220],
+};
+const TONE_DURATION_S = 0.15;
+const TONE_VOLUME = 0.2;
+
+let audioContext: AudioContext | null = null;
+
+/**
+ * Every cue type a trade qualifies for, highest priority first
+ */
+export function getCueTypes(trade: UnifiedTradeLog, pinnedWallets: string[]): FeedCueType[] {
+  const matches: Record<FeedCueType, boolean> = {
+    golden: trade.isGolden,
+    pinned: pinnedWallets.includes(trade.walletAddress.toLowerCase()),
+    whale: trade.isWhale,
+  };
+  return FEED_CUE_TYPES.filter((type) => matches[type]);
+}
+
+/**
+ * Create / resume the audio context; browsers only allow this from a user gesture,
+ * so call it when sound is switched on
+ */
+export function unlockAudio(): void {
+  if (typeof window === 'undefined' || !window.AudioContext) return;
+  audioContext ??= new AudioContext();
+  if (audioContext.state === 'suspended') void audioContext.resume();
+}
+
+export function playCueSound(type: FeedCueType): void {
+  if (!audioContext || audioContext.state !== 'running') return;
+
+  const start = audioContext.currentTime;
+  CUE_TONES[type].forEach((frequency, index) => {
+    const oscillator = audioContext!.createOscillator();
+    const gain = audioContext!.createGain();
+    const noteStart = start + index * TONE_DURATION_S;
+
+    oscillator.type = type === 'whale' ? 'triangle' : 'sine';
+    oscillator.frequency.value = frequency;
+    // Quick fade out avoids a click at the end of each note
+    gain.gain.setValueAtTime(TONE_VOLUME, noteStart);
+    gain.gain.exponentialRampToValueAtTime(0.001, noteStart + TONE_DURATION_S);
+
+    oscillator.connect(gain).connect(audioContext!.destination);
+    oscillator.start(noteStart);
+    oscillator.stop(noteStart + TONE_DURATION_S);
+  });
+}
+
+export function notificationsSupported(): boolean {
+  return typeof window !== 'undefined' && 'Notification' in window;
+}
+
+/**
+ * Ask for notification permission; resolves whether notifications can be shown
+ */
+export async function requestNotificationPermission(): Promise<boolean> {
+  if (!notificationsSupported()) return false;
+  if (Notification.permission === 'granted') return true;
+  if (Notification.permission === 'denied') return false;
+  return (await Notification.requestPermission()) === 'granted';
+}
+
+/**
+ * One notification per cue type at a time (later ones replace it); clicking focuses the tab
+ */
+export function showCueNotification(type: FeedCueType, trade: UnifiedTradeLog, count: number): void {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+
+  const who = trade.walletLabel || truncateAddress(trade.walletAddress);
+  const more = count > 1 ? ` (+${count - 1} more)` : '';
+  const notification = new Notification(`${FEED_CUE_ICONS[type]} ${FEED_CUE_LABELS[type]}`, {
+    body: `${who} ${trade.side.toLowerCase()} ${trade.ticker} ${formatUSD(trade.sizeUsd)} @ ${formatPrice(trade.price)}${more}`,
+    tag: `smart-hl-${type}`,
+  });
+  notification.onclick = () => {
+    window.focus();
+    notification.close();
+  };
+}
@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { calculateTradeStats, reconstructTrades } from './hyperliquid';
+
+type Fill = Parameters<typeof reconstructTrades>[0][number];
+
+const NOW = Date.UTC(2026, 0, 31);
+const MINUTE = 60_000;
+const DAY = 24 * 60 * MINUTE;
+
+let nextTid = 1;
+
+/**
+ * A fill of `size` from `startPosition` (signed); buys when side is 'B'
+ */
+function fill(
+  coin: string,
+  side: Fill['side'],
+  size: number,
+  startPosition: number,
+  time: number,
+  closedPnl = 0
+): Fill {
+  return {
+    coin,
+    px: '100',
+    sz: String(size),
+    side,
+    time,
+    startPosition: String(startPosition),
+    dir: '',
+    closedPnl: String(closedPnl),
+    hash: `0x${nextTid}`,
+    oid: nextTid,
+    tid: nextTid++,
+    fee: '0',
+    feeToken: 'USDC',
+  };
+}
+
+describe('reconstructTrades', () => {
+  it('closes a trade when the position returns to zero', () => {
+    const trades = reconstructTrades([
+      fill('BTC', 'B', 1, 0, 1_000),
+      fill('BTC', 'A', 1, 1, 2_000, 100),
+    ]);
+
+    expect(trades).toEqual([{ coin: 'BTC', side: 'Long', openTime: 1_000, closeTime: 2_000, pnl: 100 }]);
+  });
+
+  it('sums partial closes into one trade', () => {
+    const trades = reconstructTrades([
+      fill('ETH', 'A', 3, 0, 1_000),
+      fill('ETH', 'B', 1, -3, 2_000, 50),
+      fill('ETH', 'A', 1, -2, 3_000),
+      fill('ETH', 'B', 3, -3, 4_000, -20),
+    ]);
+
+    expect(trades).toEqual([{ coin: 'ETH', side: 'Short', openTime: 1_000, closeTime: 4_000, pnl: 30 }]);
+  });
+
+  it('closes the trade on a flip and opens one on the other side', () => {
+    const trades = reconstructTrades([
+      fill('SOL', 'B', 1, 0, 1_000),
+      fill('SOL', 'A', 3, 1, 2_000, 40),
+      fill('SOL', 'B', 2, -2, 3_000, -10),
+    ]);
+
+    expect(trades).toEqual([
+      { coin: 'SOL', side: 'Long', openTime: 1_000, closeTime: 2_000, pnl: 40 },
+      { coin: 'SOL', side: 'Short', openTime: 2_000, closeTime: 3_000, pnl: -10 },
+    ]);
+  });
+
+  it('starts a position opened before the history at its first fill', () => {
+    const trades = reconstructTrades([
+      fill('HYPE', 'A', 1, 3, 1_000, 10),
+      fill('HYPE', 'A', 2, 2, 2_000, 5),
+    ]);
+
+    expect(trades).toEqual([{ coin: 'HYPE', side: 'Long', openTime: 1_000, closeTime: 2_000, pnl: 15 }]);
+  });
+
+  it('leaves a still-open position out', () => {
+    const trades = reconstructTrades([
+      fill('BTC', 'B', 1, 0, 1_000),
+      fill('BTC', 'A', 1, 1, 2_000, 5),
+      fill('BTC', 'B', 2, 0, 3_000),
+      fill('BTC', 'A', 1, 2, 4_000, 7),
+    ]);
+
+    expect(trades).toHaveLength(1);
+    expect(trades[0].closeTime).toBe(2_000);
+  });
+
+  it('tracks each coin separately, in time order', () => {
+    const trades = reconstructTrades([
+      fill('ETH', 'A', 1, 1, 4_000, -3),
+      fill('BTC', 'B', 1, 0, 1_000),
+      fill('ETH', 'B', 1, 0, 2_000),
+      fill('BTC', 'A', 1, 1, 3_000, 8),
+    ]);
+
+    expect(trades).toEqual([
+      { coin: 'ETH', side: 'Long', openTime: 2_000, closeTime: 4_000, pnl: -3 },
+      { coin: 'BTC', side: 'Long', openTime: 1_000, closeTime: 3_000, pnl: 8 },
+    ]);
+  });
+});
+
+describe('calculateTradeStats', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const trade = (closedDaysAgo: number, pnl: number, heldMinutes = 60) => ({
+    coin: 'BTC',
+    side: 'Long' as const,
+    openTime: NOW - closedDaysAgo * DAY - heldMinutes * MINUTE,
+    closeTime: NOW - closedDaysAgo * DAY,
+    pnl,
+  });
+
+  it('counts only trades closed within the period', () => {
+    const stats = calculateTradeStats([trade(1, 300, 30), trade(2, -100, 90), trade(10, 50)], 7 * DAY);
+
+    expect(stats).toEqual({
+      closedTrades: 2,
+      winRate: 50,
+      avgWin: 300,
+      avgLoss: -100,
+      profitFactor: 3,
+      avgHoldingMinutes: 60,
+    });
+  });
+
+  it('has no profit factor without losses and counts break-even trades as neither', () => {
+    const stats = calculateTradeStats([trade(1, 200), trade(1, 0)], 7 * DAY);
+
+    expect(stats.winRate).toBe(50);
+    expect(stats.avgLoss).toBe(0);
+    expect(stats.profitFactor).toBeNull();
+  });
+
+  it('is empty when nothing closed in the period', () => {
+    expect(calculateTradeStats([trade(10, 50)], 7 * DAY)).toEqual({
+      closedTrades: 0,
+      winRate: 0,
+      avgWin: 0,
+      avgLoss: 0,
+      profitFactor: null,
+      avgHoldingMinutes: 0,
+    });
+  });
+});
@@ -0,0 +1,981 @@
+/**
+ * Hyperliquid Info API Client (server side)
+ * Fetches account state, fill/funding/TWAP history and open orders for a wallet
+ * and derives WalletStats from them. Shared by the /api/wallets routes.
+ */
+
+import type {
+  ActiveTwap,
+  TradeStats,
+  WalletClosedTrade,
+  WalletDetail,
+  WalletFill,
+  WalletFundingPayment,
+  WalletOpenOrder,
+  WalletPositionDetail,
+  WalletStats,
+  SeriesPoint,
+} from '@/types';
+
+// Fill history window (days) covered by paging userFillsByTime
+const FILL_HISTORY_DAYS = parseInt(process.env.FILL_HISTORY_DAYS || '30', 10);
+const FILLS_PAGE_LIMIT = 2000; // Max fills Hyperliquid returns per request
+const FILLS_HISTORY_LIMIT = 10000; // Only the most recent 10k fills are retrievable
+const MAX_FILL_PAGES = FILLS_HISTORY_LIMIT / FILLS_PAGE_LIMIT;
+const FUNDING_PAGE_LIMIT = 500; // Max funding events Hyperliquid returns per request
+const MAX_FUNDING_PAGES = 20;
+const RECENT_FILLS_LIMIT = 100; // Fills returned with wallet detail
+const FUNDING_DETAIL_LIMIT = 500; // Funding payments returned with wallet detail
+const CLOSED_TRADES_LIMIT = 200; // Closed trades returned with wallet detail
+
+// Hyperliquid API URL (point at scripts/fake-hyperliquid.js for offline development)
+const HYPERLIQUID_API_URL = process.env.HYPERLIQUID_API_URL || 'https://api.hyperliquid.xyz/info';
+
+// Hyperliquid API Types
+interface HyperliquidAssetPosition {
+  position: {
+    coin: string;
+    szi: string; // Position size (positive = Long, negative = Short)
+    entryPx: string;
+    positionValue: string; // USD value
+    unrealizedPnl: string;
+    liquidationPx?: string;
+    leverage?: {
+      type: 'cross' | 'isolated';
+      value: number;
+    };
+    marginUsed?: string;
+    returnOnEquity?: string;
+    cumFunding?: {
+      allTime: string;
+      sinceOpen: string; // Positive = paid
+      sinceChange: string;
+    };
+  };
+}
+
+interface HyperliquidMarginSummary {
+  accountValue: string;
+  totalMarginUsed: string;
+  totalNtlPos: string;
+  totalRawUsd: string;
+}
+
+interface HyperliquidState {
+  assetPositions: HyperliquidAssetPosition[];
+  marginSummary: HyperliquidMarginSummary;
+  withdrawable?: string;
+}
+
+// [epoch ms, USD value]
+type HyperliquidHistoryPoint = [number, string];
+
+// One period of a portfolio response -> type: "portfolio"
+type HyperliquidPortfolioPeriod = [
+  string, // "day" | "week" | "month" | "allTime" | "perpDay" | ...
+  {
+    accountValueHistory: HyperliquidHistoryPoint[];
+    pnlHistory: HyperliquidHistoryPoint[];
+    vlm: string;
+  },
+];
+
+interface HyperliquidOpenOrder {
+  coin: string;
+  side: 'A' | 'B';
+  limitPx: string;
+  sz: string; // Remaining size
+  oid: number;
+  timestamp: number;
+  orderType: string; // e.g. "Limit", "Stop Market", "Take Profit Limit"
+  reduceOnly: boolean;
+  isTrigger: boolean;
+  triggerPx: string;
+}
+
+interface HyperliquidFill {
+  coin: string;
+  px: string; // Price
+  sz: string; // Size
+  side: 'A' | 'B'; // 'A' = Ask (Sell), 'B' = Bid (Buy)
+  time: number; // Epoch milliseconds
+  startPosition: string;
+  dir: string;
+  closedPnl: string | null; // Realized PnL if closing a position
+  hash: string;
+  oid: number;
+  tid: number;
+  fee: string; // Paid fee (negative = maker rebate)
+  feeToken: string;
+}
+
+interface HyperliquidTwapState {
+  coin: string;
+  user: string;
+  side: 'A' | 'B';
+  sz: string; // Total TWAP size
+  executedSz: string;
+  executedNtl: string; // USD filled so far
+  minutes: number; // Total duration
+  reduceOnly: boolean;
+  randomize: boolean;
+  timestamp: number; // Start time (epoch ms)
+}
+
+interface HyperliquidTwapHistoryEntry {
+  time: number; // Epoch milliseconds of this status update
+  state: HyperliquidTwapState;
+  status: {
+    status: 'activated' | 'finished' | 'terminated' | 'error';
+    description?: string;
+  };
+  twapId?: number;
+}
+
+interface HyperliquidFunding {
+  time: number;
+  hash: string;
+  delta: {
+    type: 'funding';
+    coin: string;
+    usdc: string; // Signed: positive = received, negative = paid
+    szi: string;
+    fundingRate: string;
+  };
+}
+
+/**
+ * Fetch clearinghouse state from Hyperliquid API
+ * Returns current positions and margin summary
+ */
+async function fetchClearinghouseState(address: string): Promise<HyperliquidState | null> {
+  try {
+    const response = await fetch(HYPERLIQUID_API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        type: 'clearinghouseState',
+        user: address,
+      }),
+      signal: AbortSignal.timeout(10000), // 10s timeout
+    });
+
+    if (!response.ok) {
+      throw new Error(`Hyperliquid API returned ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data as HyperliquidState;
+  } catch (error) {
+    console.error(`[API] Failed to fetch clearinghouse state for ${address}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Fetch one page of user fills starting at startTime (ascending by time)
+ */
+async function fetchUserFillsPage(address: string, startTime: number): Promise<HyperliquidFill[]> {
+  const response = await fetch(HYPERLIQUID_API_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      type: 'userFillsByTime',
+      user: address,
+      startTime,
+    }),
+    signal: AbortSignal.timeout(15000), // 15s timeout (fills can be large)
+  });
+
+  if (!response.ok) {
+    throw new Error(`Hyperliquid API returned ${response.status}`);
+  }
+
+  const data = await response.json();
+  return (data || []) as HyperliquidFill[];
+}
+
+/**
+ * Fetch the user's fills since startTime (a single page, oldest first)
+ * The server's own record of a wallet's trades, used to check trades forwarded by the dashboard
+ * Throws on API failure
+ */
+export async function fetchFillsSince(address: string, startTime: number): Promise<WalletFill[]> {
+  return (await fetchUserFillsPage(address, startTime)).map(mapFill);
+}
+
+/**
+ * Fetch the user's full fill history for the configured window
+ * Pages through userFillsByTime (2000 fills per page) instead of userFills,
+ * which only returns the most recent 2000 fills.
+ * `truncated` is set when the window holds more fills than can be retrieved, or a page failed.
+ */
+async function fetchUserFills(
+  address: string
+): Promise<{ fills: HyperliquidFill[]; truncated: boolean }> {
+  const seen = new Set<number>();
+  const fills: HyperliquidFill[] = [];
+  let startTime = Date.now() - FILL_HISTORY_DAYS * 24 * 60 * 60 * 1000;
+
+  try {
+    for (let page = 0; page < MAX_FILL_PAGES; page++) {
+      const pageFills = await fetchUserFillsPage(address, startTime);
+
+      for (const fill of pageFills) {
+        // Pages overlap on the boundary timestamp
+        if (seen.has(fill.tid)) continue;
+        seen.add(fill.tid);
+        fills.push(fill);
+      }
+
+      // A short page means the window is fully covered
+      if (pageFills.length < FILLS_PAGE_LIMIT) {
+        return { fills, truncated: false };
+      }
+
+      startTime = pageFills[pageFills.length - 1].time;
+    }
+
+    console.warn(`[API] Fill history for ${address} exceeds ${FILLS_HISTORY_LIMIT} fills, metrics are partial`);
+    return { fills, truncated: true };
+  } catch (error) {
+    console.error(`[API] Failed to fetch user fills for ${address}:`, error);
+    // Whatever was fetched before the failure (possibly nothing) is an incomplete window
+    return { fills, truncated: true };
+  }
+}
+
+/**
+ * Fetch the user's funding payments for the configured window
+ * Pages through userFunding (500 events per page)
+ */
+async function fetchUserFunding(address: string): Promise<HyperliquidFunding[]> {
+  const seen = new Set<string>();
+  const events: HyperliquidFunding[] = [];
+  let startTime = Date.now() - FILL_HISTORY_DAYS * 24 * 60 * 60 * 1000;
+
+  try {
+    for (let page = 0; page < MAX_FUNDING_PAGES; page++) {
+      const response = await fetch(HYPERLIQUID_API_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          type: 'userFunding',
+          user: address,
+          startTime,
+        }),
+        signal: AbortSignal.timeout(10000), // 10s timeout
+      });
+
+      if (!response.ok) {
+        throw new Error(`Hyperliquid API returned ${response.status}`);
+      }
+
+      const pageEvents = ((await response.json()) || []) as HyperliquidFunding[];
+
+      for (const event of pageEvents) {
+        // Pages overlap on the boundary timestamp
+        const key = `${event.time}-${event.delta.coin}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        events.push(event);
+      }
+
+      if (pageEvents.length < FUNDING_PAGE_LIMIT) break;
+      startTime = pageEvents[pageEvents.length - 1].time;
+    }
+  } catch (error) {
+    console.error(`[API] Failed to fetch user funding for ${address}:`, error);
+  }
+
+  return events;
+}
+
+/**
+ * Fetch the user's resting orders (including trigger orders)
+ */
+async function fetchOpenOrders(address: string): Promise<HyperliquidOpenOrder[]> {
+  try {
+    const response = await fetch(HYPERLIQUID_API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        type: 'frontendOpenOrders',
+        user: address,
+      }),
+      signal: AbortSignal.timeout(10000), // 10s timeout
+    });
+
+    if (!response.ok) {
+      throw new Error(`Hyperliquid API returned ${response.status}`);
+    }
+
+    return ((await response.json()) || []) as HyperliquidOpenOrder[];
+  } catch (error) {
+    console.error(`[API] Failed to fetch open orders for ${address}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Fetch the user's account value history for the past month
+ */
+async function fetchAccountValueHistory(address: string): Promise<SeriesPoint[]> {
+  try {
+    const response = await fetch(HYPERLIQUID_API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        type: 'portfolio',
+        user: address,
+      }),
+      signal: AbortSignal.timeout(10000), // 10s timeout
+    });
+
+    if (!response.ok) {
+      throw new Error(`Hyperliquid API returned ${response.status}`);
+    }
+
+    const periods = ((await response.json()) || []) as HyperliquidPortfolioPeriod[];
+    const month = periods.find(([period]) => period === 'month');
+
+    return (month?.[1].accountValueHistory || []).map(([time, value]) => ({
+      time,
+      value: parseFloat(value),
+    }));
+  } catch (error) {
+    console.error(`[API] Failed to fetch portfolio for ${address}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Fetch mid prices for all coins (used to value unfilled TWAP size)
+ */
+export async function fetchAllMids(): Promise<Record<string, string>> {
+  try {
+    const response = await fetch(HYPERLIQUID_API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ type: 'allMids' }),
+      signal: AbortSignal.timeout(10000), // 10s timeout
+    });
+
+    if (!response.ok) {
+      throw new Error(`Hyperliquid API returned ${response.status}`);
+    }
+
+    return ((await response.json()) || {}) as Record<string, string>;
+  } catch (error) {
+    console.error('[API] Failed to fetch mids:', error);
+    return {};
+  }
+}
+
+/**
+ * Fetch the user's TWAP order history (status updates per TWAP)
+ */
+async function fetchTwapHistory(address: string): Promise<HyperliquidTwapHistoryEntry[]> {
+  try {
+    const response = await fetch(HYPERLIQUID_API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        type: 'twapHistory',
+        user: address,
+      }),
+      signal: AbortSignal.timeout(10000), // 10s timeout
+    });
+
+    if (!response.ok) {
+      throw new Error(`Hyperliquid API returned ${response.status}`);
+    }
+
+    return ((await response.json()) || []) as HyperliquidTwapHistoryEntry[];
+  } catch (error) {
+    console.error(`[API] Failed to fetch TWAP history for ${address}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Derive currently running TWAPs from TWAP history
+ * A TWAP is active when its latest status update is 'activated'
+ * and its scheduled duration has not elapsed yet.
+ */
+function deriveActiveTwaps(
+  history: HyperliquidTwapHistoryEntry[],
+  mids: Record<string, string>
+): ActiveTwap[] {
+  const now = Date.now();
+  const latestById = new Map<string, HyperliquidTwapHistoryEntry>();
+
+  for (const entry of history) {
+    // Older entries may lack twapId; fall back to the start timestamp + coin
+    const id = entry.twapId != null
+      ? String(entry.twapId)
+      : `${entry.state.coin}-${entry.state.timestamp}`;
+    const latest = latestById.get(id);
+    if (!latest || entry.time >= latest.time) {
+      latestById.set(id, entry);
+    }
+  }
+
+  const activeTwaps: ActiveTwap[] = [];
+
+  latestById.forEach((entry, id) => {
+    if (entry.status.status !== 'activated') return;
+
+    const { state } = entry;
+    const endTime = state.timestamp + state.minutes * 60_000;
+    const minutesRemaining = Math.ceil((endTime - now) / 60_000);
+    if (minutesRemaining <= 0) return;
+
+    const totalSz = parseFloat(state.sz);
+    const executedSz = parseFloat(state.executedSz || '0');
+    const executedNtl = parseFloat(state.executedNtl || '0');
+
+    // Value the order at the average fill price, or the mid before any slice fills
+    const price = executedSz > 0
+      ? executedNtl / executedSz
+      : parseFloat(mids[state.coin] || '0');
+
+    activeTwaps.push({
+      id,
+      coin: state.coin,
+      sizeUsd: totalSz * price,
+      side: state.side === 'B' ? 'Long' : 'Short',
+      filledPercent: totalSz > 0 ? (executedSz / totalSz) * 100 : 0,
+      minutesRemaining,
+      totalMinutes: state.minutes,
+      reduceOnly: state.reduceOnly,
+    });
+  });
+
+  return activeTwaps;
+}
+
+/**
+ * Calculate PnL for a specific time period from fills
+ */
+function calculatePnL(fills: HyperliquidFill[], periodMs: number): number {
+  const now = Date.now();
+  const cutoffTime = now - periodMs;
+  
+  return fills
+    .filter(fill => fill.time >= cutoffTime && fill.closedPnl !== null)
+    .reduce((sum, fill) => {
+      const closedPnl = parseFloat(fill.closedPnl || '0');
+      return sum + closedPnl;
+    }, 0);
+}
+
+/**
+ * Calculate trading fees paid for a specific time period from fills
+ * Positive = cost, negative = net maker rebate
+ */
+function calculateFees(fills: HyperliquidFill[], periodMs: number): number {
+  const cutoffTime = Date.now() - periodMs;
+
+  return fills
+    .filter(fill => fill.time >= cutoffTime)
+    .reduce((sum, fill) => sum + parseFloat(fill.fee || '0'), 0);
+}
+
+/**
+ * Calculate net funding for a specific time period
+ * Positive = received, negative = paid
+ */
+function calculateFunding(funding: HyperliquidFunding[], periodMs: number): number {
+  const cutoffTime = Date.now() - periodMs;
+
+  return funding
+    .filter(event => event.time >= cutoffTime)
+    .reduce((sum, event) => sum + parseFloat(event.delta.usdc || '0'), 0);
+}
+
+/**
+ * Calculate trading volume for a specific time period from fills
+ */
+function calculateVolume(fills: HyperliquidFill[], periodMs: number): number {
+  const now = Date.now();
+  const cutoffTime = now - periodMs;
+  
+  return fills
+    .filter(fill => fill.time >= cutoffTime)
+    .reduce((sum, fill) => {
+      const price = parseFloat(fill.px);
+      const size = parseFloat(fill.sz);
+      return sum + (price * size);
+    }, 0);
+}
+
+/**
+ * Build a daily cumulative realized PnL series over the fill history window
+ * One point per UTC day (stamped at day start), valued at that day's close
+ */
+function buildPnlHistory(fills: HyperliquidFill[]): SeriesPoint[] {
+  const oneDayMs = 24 * 60 * 60 * 1000;
+  const todayStart = Math.floor(Date.now() / oneDayMs) * oneDayMs;
+  const firstDay = todayStart - (FILL_HISTORY_DAYS - 1) * oneDayMs;
+
+  const dailyPnl = new Array<number>(FILL_HISTORY_DAYS).fill(0);
+  for (const fill of fills) {
+    const day = Math.floor((fill.time - firstDay) / oneDayMs);
+    if (day < 0 || day >= FILL_HISTORY_DAYS) continue;
+    dailyPnl[day] += parseFloat(fill.closedPnl || '0');
+  }
+
+  let cumulative = 0;
+  return dailyPnl.map((pnl, day) => ({
+    time: firstDay + day * oneDayMs,
+    value: (cumulative += pnl),
+  }));
+}
+
+const EMPTY_TRADE_STATS: TradeStats = {
+  closedTrades: 0,
+  winRate: 0,
+  avgWin: 0,
+  avgLoss: 0,
+  profitFactor: null,
+  avgHoldingMinutes: 0,
+};
+
+interface ClosedTrade {
+  coin: string;
+  side: 'Long' | 'Short';
+  openTime: number;
+  closeTime: number;
+  pnl: number;
+}
+
+/**
+ * Reconstruct closed round-trip trades from fills
+ * A trade opens when a coin's position leaves zero and closes when it returns
+ * to zero; a flip closes the current trade and opens a new one.
+ * Positions already open at the start of the history begin at their first fill.
+ */
+export function reconstructTrades(fills: HyperliquidFill[]): ClosedTrade[] {
+  const trades: ClosedTrade[] = [];
+  const byCoin = new Map<string, HyperliquidFill[]>();
+
+  for (const fill of fills) {
+    const coinFills = byCoin.get(fill.coin) || [];
+    coinFills.push(fill);
+    byCoin.set(fill.coin, coinFills);
+  }
+
+  byCoin.forEach((coinFills, coin) => {
+    const ordered = [...coinFills].sort((a, b) => a.time - b.time || a.tid - b.tid);
+    let open: { side: ClosedTrade['side']; openTime: number; pnl: number } | null = null;
+
+    for (const fill of ordered) {
+      const start = parseFloat(fill.startPosition);
+      const size = parseFloat(fill.sz);
+      const end = start + (fill.side === 'B' ? size : -size);
+      const closedPnl = parseFloat(fill.closedPnl || '0');
+
+      if (!open && start !== 0) {
+        open = { side: start > 0 ? 'Long' : 'Short', openTime: fill.time, pnl: 0 };
+      }
+
+      if (open) {
+        open.pnl += closedPnl;
+      }
+
+      const flipped = start !== 0 && end !== 0 && Math.sign(start) !== Math.sign(end);
+      const flat = Math.abs(end) < 1e-9;
+
+      if (open && (flat || flipped)) {
+        trades.push({ coin, ...open, closeTime: fill.time });
+        open = null;
+      }
+
+      if (!open && !flat) {
+        open = { side: end > 0 ? 'Long' : 'Short', openTime: fill.time, pnl: 0 };
+      }
+    }
+  });
+
+  return trades;
+}
+
+/**
+ * Calculate trade-level stats for trades closed within a time period
+ * Win rate = (Winning trades / Closed trades) * 100
+ */
+export function calculateTradeStats(trades: ClosedTrade[], periodMs: number): TradeStats {
+  const cutoffTime = Date.now() - periodMs;
+  const closed = trades.filter(trade => trade.closeTime >= cutoffTime);
+
+  if (closed.length === 0) return EMPTY_TRADE_STATS;
+
+  const wins = closed.filter(trade => trade.pnl > 0);
+  const losses = closed.filter(trade => trade.pnl < 0);
+  const grossWins = wins.reduce((sum, trade) => sum + trade.pnl, 0);
+  const grossLosses = losses.reduce((sum, trade) => sum + trade.pnl, 0);
+  const totalHoldingMs = closed.reduce(
+    (sum, trade) => sum + (trade.closeTime - trade.openTime),
+    0
+  );
+
+  return {
+    closedTrades: closed.length,
+    winRate: (wins.length / closed.length) * 100,
+    avgWin: wins.length > 0 ? grossWins / wins.length : 0,
+    avgLoss: losses.length > 0 ? grossLosses / losses.length : 0,
+    profitFactor: grossLosses < 0 ? grossWins / Math.abs(grossLosses) : null,
+    avgHoldingMinutes: totalHoldingMs / closed.length / 60_000,
+  };
+}
+
+/**
+ * Map Hyperliquid positions to our TokenPosition format
+ */
+function mapPositions(assetPositions: HyperliquidAssetPosition[]) {
+  const positions = assetPositions.map(pos => {
+    const sizeSigned = parseFloat(pos.position.szi);
+    const positionValue = parseFloat(pos.position.positionValue);
+    const absSize = Math.abs(sizeSigned);
+    const entryPrice = parseFloat(pos.position.entryPx);
+    const currentPrice = absSize > 0 ? positionValue / absSize : 0;
+    const pnl = parseFloat(pos.position.unrealizedPnl || '0');
+    const liquidationPrice = pos.position.liquidationPx
+      ? parseFloat(pos.position.liquidationPx)
+      : null;
+
+    return {
+      coin: pos.position.coin,
+      sizeUsd: positionValue,
+      side: sizeSigned > 0 ? 'Long' as const : 'Short' as const,
+      size: absSize,
+      entryPrice,
+      currentPrice,
+      pnl,
+      liquidationPrice,
+    };
+  });
+  
+  const longPosition = positions
+    .filter(p => p.side === 'Long')
+    .reduce((sum, p) => sum + p.sizeUsd, 0);
+    
+  const shortPosition = positions
+    .filter(p => p.side === 'Short')
+    .reduce((sum, p) => sum + p.sizeUsd, 0);
+  
+  return { positions, longPosition, shortPosition };
+}
+
+interface WalletData {
+  state: HyperliquidState;
+  fills: HyperliquidFill[];
+  historyTruncated: boolean;
+  funding: HyperliquidFunding[];
+  twapHistory: HyperliquidTwapHistoryEntry[];
+}
+
+/**
+ * Fetch everything WalletStats is derived from, in parallel
+ * Throws if the clearinghouse state is unavailable
+ */
+async function fetchWalletData(address: string): Promise<WalletData> {
+  const [state, { fills, truncated: historyTruncated }, funding, twapHistory] = await Promise.all([
+    fetchClearinghouseState(address),
+    fetchUserFills(address),
+    fetchUserFunding(address),
+    fetchTwapHistory(address),
+  ]);
+
+  // If we couldn't fetch state, return error
+  if (!state) {
+    throw new Error('Failed to fetch clearinghouse state');
+  }
+
+  return { state, fills, historyTruncated, funding, twapHistory };
+}
+
+/**
+ * Derive WalletStats from fetched wallet data
+ */
+function buildWalletStats(
+  address: string,
+  { state, fills, historyTruncated, funding, twapHistory }: WalletData,
+  mids: Record<string, string>
+): WalletStats {
+  // Map positions from clearinghouse state
+  const { positions, longPosition, shortPosition } = mapPositions(state.assetPositions || []);
+
+  // Calculate time-based metrics from fills
+  const now = Date.now();
+  const oneDayMs = 24 * 60 * 60 * 1000;
+  const sevenDaysMs = 7 * oneDayMs;
+  const thirtyDaysMs = 30 * oneDayMs;
+
+  const pnl1d = calculatePnL(fills, oneDayMs);
+  const pnl7d = calculatePnL(fills, sevenDaysMs);
+  const pnl30d = calculatePnL(fills, thirtyDaysMs);
+
+  const fees1d = calculateFees(fills, oneDayMs);
+  const fees7d = calculateFees(fills, sevenDaysMs);
+  const fees30d = calculateFees(fills, thirtyDaysMs);
+
+  const funding1d = calculateFunding(funding, oneDayMs);
+  const funding7d = calculateFunding(funding, sevenDaysMs);
+  const funding30d = calculateFunding(funding, thirtyDaysMs);
+
+  const volume7d = calculateVolume(fills, sevenDaysMs);
+  const volume30d = calculateVolume(fills, thirtyDaysMs);
+
+  const closedTrades = reconstructTrades(fills);
+  const tradeStats7d = calculateTradeStats(closedTrades, sevenDaysMs);
+  const tradeStats30d = calculateTradeStats(closedTrades, thirtyDaysMs);
+
+  // TWAP: Calculate Time-Weighted Average Price from current positions
+  // For now, use average entry price weighted by position size
+  let twap = 0;
+  if (state.assetPositions.length > 0) {
+    const totalValue = state.assetPositions.reduce(
+      (sum, pos) => sum + parseFloat(pos.position.positionValue),
+      0
+    );
+    if (totalValue > 0) {
+      const weightedPrice = state.assetPositions.reduce((sum, pos) => {
+        const value = parseFloat(pos.position.positionValue);
+        const entryPrice = parseFloat(pos.position.entryPx);
+        return sum + (entryPrice * value);
+      }, 0);
+      twap = weightedPrice / totalValue;
+    }
+  }
+
+  const activeTwaps = deriveActiveTwaps(twapHistory, mids);
+
+  return {
+    address: address.toLowerCase(),
+    pnl1d,
+    pnl7d,
+    pnl30d,
+    fees1d,
+    fees7d,
+    fees30d,
+    funding1d,
+    funding7d,
+    funding30d,
+    netPnl1d: pnl1d - fees1d + funding1d,
+    netPnl7d: pnl7d - fees7d + funding7d,
+    netPnl30d: pnl30d - fees30d + funding30d,
+    winRate7d: tradeStats7d.winRate,
+    winRate30d: tradeStats30d.winRate,
+    tradeStats7d,
+    tradeStats30d,
+    volume7d,
+    volume30d,
+    twap,
+    longPosition,
+    shortPosition,
+    positions,
+    activeTwaps,
+    pnlHistory: buildPnlHistory(fills),
+    historyTruncated,
+    error: false,
+  };
+}
+
+/**
+ * Fetch stats for a single wallet from Hyperliquid API
+ * onRecentFills receives the wallet's newest fills (for the trade alert rules)
+ * Returns error state object if request fails
+ */
+export async function fetchWalletStats(
+  address: string,
+  mids: Record<string, string>,
+  onRecentFills?: (fills: WalletFill[]) => void
+): Promise<WalletStats> {
+  try {
+    const data = await fetchWalletData(address);
+    onRecentFills?.(mapRecentFills(data.fills));
+    return buildWalletStats(address, data, mids);
+  } catch (error) {
+    console.error(`[API] Failed to fetch stats for ${address}:`, error);
+    
+    // Return error state object instead of crashing
+    return {
+      address: address.toLowerCase(),
+      pnl1d: 0,
+      pnl7d: 0,
+      pnl30d: 0,
+      fees1d: 0,
+      fees7d: 0,
+      fees30d: 0,
+      funding1d: 0,
+      funding7d: 0,
+      funding30d: 0,
+      netPnl1d: 0,
+      netPnl7d: 0,
+      netPnl30d: 0,
+      winRate7d: 0,
+      winRate30d: 0,
+      tradeStats7d: EMPTY_TRADE_STATS,
+      tradeStats30d: EMPTY_TRADE_STATS,
+      volume7d: 0,
+      volume30d: 0,
+      twap: 0,
+      longPosition: 0,
+      shortPosition: 0,
+      positions: [],
+      activeTwaps: [],
+      pnlHistory: [],
+      historyTruncated: false,
+      error: true,
+    };
+  }
+}
+
+// ============================================
+// WALLET DETAIL
+// ============================================
+
+/**
+ * Map clearinghouse positions with leverage, margin and funding detail
+ */
+function mapPositionDetails(assetPositions: HyperliquidAssetPosition[]): WalletPositionDetail[] {
+  const { positions } = mapPositions(assetPositions);
+
+  return positions.map((position, i) => {
+    const raw = assetPositions[i].position;
+    return {
+      ...position,
+      leverage: raw.leverage?.value ?? 0,
+      leverageType: raw.leverage?.type ?? 'cross',
+      marginUsed: parseFloat(raw.marginUsed || '0'),
+      returnOnEquity: parseFloat(raw.returnOnEquity || '0'),
+      fundingPaidSinceOpen: parseFloat(raw.cumFunding?.sinceOpen || '0'),
+    };
+  });
+}
+
+function mapFill(fill: HyperliquidFill): WalletFill {
+  const price = parseFloat(fill.px);
+  const size = parseFloat(fill.sz);
+  return {
+    coin: fill.coin,
+    side: fill.side === 'B' ? 'Buy' : 'Sell',
+    direction: fill.dir,
+    price,
+    size,
+    sizeUsd: price * size,
+    closedPnl: parseFloat(fill.closedPnl || '0'),
+    fee: parseFloat(fill.fee || '0'),
+    time: fill.time,
+    hash: fill.hash,
+    tid: fill.tid,
+  };
+}
+
+/**
+ * Map the most recent fills, newest first
+ */
+function mapRecentFills(fills: HyperliquidFill[]): WalletFill[] {
+  return [...fills]
+    .sort((a, b) => b.time - a.time || b.tid - a.tid)
+    .slice(0, RECENT_FILLS_LIMIT)
+    .map(mapFill);
+}
+
+/**
+ * Most recently closed round-trip trades, newest first
+ */
+function mapClosedTrades(fills: HyperliquidFill[]): WalletClosedTrade[] {
+  return reconstructTrades(fills)
+    .sort((a, b) => b.closeTime - a.closeTime)
+    .slice(0, CLOSED_TRADES_LIMIT);
+}
+
+/**
+ * Map resting orders, newest first
+ */
+function mapOpenOrders(orders: HyperliquidOpenOrder[]): WalletOpenOrder[] {
+  return [...orders]
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .map(order => {
+      const price = parseFloat(order.limitPx);
+      const size = parseFloat(order.sz);
+      return {
+        oid: order.oid,
+        coin: order.coin,
+        side: order.side === 'B' ? 'Buy' as const : 'Sell' as const,
+        orderType: order.orderType,
+        price,
+        size,
+        sizeUsd: price * size,
+        reduceOnly: order.reduceOnly,
+        triggerPrice: order.isTrigger ? parseFloat(order.triggerPx) : null,
+        timestamp: order.timestamp,
+      };
+    });
+}
+
+/**
+ * Map funding payments, newest first
+ */
+function mapFunding(funding: HyperliquidFunding[]): WalletFundingPayment[] {
+  return [...funding]
+    .sort((a, b) => b.time - a.time)
+    .slice(0, FUNDING_DETAIL_LIMIT)
+    .map(event => ({
+      time: event.time,
+      coin: event.delta.coin,
+      usdc: parseFloat(event.delta.usdc || '0'),
+      fundingRate: parseFloat(event.delta.fundingRate || '0'),
+      positionSize: parseFloat(event.delta.szi || '0'),
+    }));
+}
+
+/**
+ * Fetch WalletStats plus extended detail for any address
+ * Returns null if the clearinghouse state is unavailable
+ */
+export async function fetchWalletDetail(
+  address: string
+): Promise<Omit<WalletDetail, 'tracked'> | null> {
+  try {
+    const [data, openOrders, accountValueHistory, mids] = await Promise.all([
+      fetchWalletData(address),
+      fetchOpenOrders(address),
+      fetchAccountValueHistory(address),
+      fetchAllMids(),
+    ]);
+
+    return {
+      stats: buildWalletStats(address, data, mids),
+      accountValue: parseFloat(data.state.marginSummary?.accountValue || '0'),
+      totalMarginUsed: parseFloat(data.state.marginSummary?.totalMarginUsed || '0'),
+      withdrawable: parseFloat(data.state.withdrawable || '0'),
+      accountValueHistory,
+      positions: mapPositionDetails(data.state.assetPositions || []),
+      recentFills: mapRecentFills(data.fills),
+      closedTrades: mapClosedTrades(data.fills),
+      openOrders: mapOpenOrders(openOrders),
+      funding: mapFunding(data.funding),
+    };
+  } catch (error) {
+    console.error(`[API] Failed to fetch wallet detail for ${address}:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Hyperliquid Leaderboard
+ * Fetches the public leaderboard and filters it into registry candidates
+ *
+ * HYPERLIQUID_LEADERBOARD_URL overrides the source, e.g. the fixture served by
+ * scripts/fake-hyperliquid.js (http://localhost:8788/leaderboard)
+ */
+
+import type { LeaderboardEntry, LeaderboardThresholds } from '@/types';
+
+const LEADERBOARD_URL =
+  process.env.HYPERLIQUID_LEADERBOARD_URL || 'https://stats-data.hyperliquid.xyz/Mainnet/leaderboard';
+
+// The full leaderboard is tens of MB: keep the parsed rows for a while
+const LEADERBOARD_TTL_MS = 10 * 60 * 1000;
+const FETCH_TIMEOUT_MS = 30_000;
+
+export const DEFAULT_LEADERBOARD_THRESHOLDS: LeaderboardThresholds = {
+  minAccountValue: 100_000,
+  minPnl30d: 50_000,
+  minRoi30d: 10,
+  minVolume30d: 1_000_000,
+  limit: 50,
+};
+
+// Raw row as served by stats-data.hyperliquid.xyz
+interface HyperliquidLeaderboardRow {
+  ethAddress: string;
+  accountValue: string;
+  displayName: string | null;
+  windowPerformances: [string, { pnl: string; roi: string; vlm: string }][];
+}
+
+// Parsed rows cached across requests (and route bundles, see lib/cache.ts)
+const memoryStore = globalThis as typeof globalThis & {
+  leaderboard?: { rows: LeaderboardEntry[]; fetchedAt: number };
+};
+
+function toEntry(row: HyperliquidLeaderboardRow): LeaderboardEntry {
+  const windows = new Map(row.windowPerformances);
+  const month = windows.get('month');
+  const allTime = windows.get('allTime');
+
+  return {
+    address: row.ethAddress.toLowerCase(),
+    displayName: row.displayName || null,
+    accountValue: parseFloat(row.accountValue || '0'),
+    pnl30d: parseFloat(month?.pnl || '0'),
+    roi30d: parseFloat(month?.roi || '0') * 100,
+    volume30d: parseFloat(month?.vlm || '0'),
+    pnlAllTime: parseFloat(allTime?.pnl || '0'),
+  };
+}
+
+/**
+ * Leaderboard rows, cached for LEADERBOARD_TTL_MS
+ * Throws when the leaderboard cannot be fetched
+ */
+export async function fetchLeaderboard(): Promise<{ rows: LeaderboardEntry[]; fetchedAt: number }> {
+  const cached = memoryStore.leaderboard;
+  if (cached && Date.now() - cached.fetchedAt < LEADERBOARD_TTL_MS) {
+    return cached;
+  }
+
+  const response = await fetch(LEADERBOARD_URL, {
+    cache: 'no-store', // Too large for the Next.js data cache
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Leaderboard returned ${response.status}`);
+  }
+
+  const body = (await response.json()) as { leaderboardRows?: HyperliquidLeaderboardRow[] };
+  if (!Array.isArray(body?.leaderboardRows)) {
+    throw new Error('Unexpected leaderboard format (missing leaderboardRows)');
+  }
+
+  memoryStore.leaderboard = {
+    rows: body.leaderboardRows.map(toEntry),
+    fetchedAt: Date.now(),
+  };
+  console.log(`[HL] Fetched ${memoryStore.leaderboard.rows.length} leaderboard rows`);
+  return memoryStore.leaderboard;
+}
+
+/**
+ * Rows meeting every threshold, best 30D PnL first
+ */
+export function filterLeaderboard(
+  rows: LeaderboardEntry[],
+  thresholds: LeaderboardThresholds
+): LeaderboardEntry[] {
+  return rows
+    .filter(row =>
+      row.accountValue >= thresholds.minAccountValue &&
+      row.pnl30d >= thresholds.minPnl30d &&
+      row.roi30d >= thresholds.minRoi30d &&
+      row.volume30d >= thresholds.minVolume30d
+    )
+    .sort((a, b) => b.pnl30d - a.pnl30d)
+    .slice(0, thresholds.limit);
+}
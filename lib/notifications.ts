@@ -0,0 +1,366 @@
+/**
+ * Alert Notification Channels
+ * Delivers fired alerts to each rule's channels (signed webhook, Telegram, Discord, email),
+ * retries transient failures with exponential backoff and logs every attempt as it finishes
+ * Supports: Vercel KV (primary) or in-memory fallback for the log
+ *
+ * Base URLs are configurable so a local stand-in (scripts/fake-notify.js) can receive everything:
+ *   TELEGRAM_API_URL   default https://api.telegram.org
+ *   DISCORD_API_URL    default https://discord.com/api (Discord webhook URLs must live under it)
+ *   SMTP_*             see lib/smtp.ts
+ * Secrets stay in env: TELEGRAM_BOT_TOKEN, ALERT_WEBHOOK_SECRET (HMAC-SHA256 of
+ * `${timestamp}.${body}` sent as X-Smart-HL-Signature), SMTP_USER / SMTP_PASS
+ */
+
+import { createHmac, randomUUID } from 'crypto';
+import { kv } from '@vercel/kv';
+import { EXPLORER_URL } from './constants';
+import { sendMail } from './smtp';
+import type { AlertChannel, AlertChannelType, AlertDelivery, AlertEvent, AlertRule } from '@/types';
+
+const TELEGRAM_API_URL = (process.env.TELEGRAM_API_URL || 'https://api.telegram.org').replace(/\/$/, '');
+const DISCORD_API_URL = (process.env.DISCORD_API_URL || 'https://discord.com/api').replace(/\/$/, '');
+
+const ALERT_DELIVERIES_KEY = 'alert-deliveries'; // Sorted set: JSON delivery scored by timestamp
+const MAX_DELIVERY_LOG = 1000;
+
+// Attempts per alert and channel; waits 1s, 2s, 4s... between them (capped)
+const MAX_ATTEMPTS = parseInt(process.env.ALERT_DELIVERY_ATTEMPTS || '4', 10);
+const BACKOFF_BASE_MS = parseInt(process.env.ALERT_DELIVERY_BACKOFF_MS || '1000', 10);
+const MAX_BACKOFF_MS = 60_000;
+const REQUEST_TIMEOUT_MS = 10_000;
+
+export const MAX_CHANNELS_PER_RULE = 5;
+export const ALERT_CHANNEL_TYPES: AlertChannelType[] = ['webhook', 'telegram', 'discord', 'email'];
+
+type SendResult =
+  | { ok: true; statusCode?: number }
+  | { ok: false; retryable: boolean; error: string; statusCode?: number; retryAfterMs?: number };
+
+// In-memory fallback for development (lost on restart), shared across route bundles
+const memoryStore = globalThis as typeof globalThis & {
+  alertDeliveries?: AlertDelivery[];
+};
+
+function hasKv(): boolean {
+  return Boolean(process.env.KV_REST_API_URL);
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+// ============================================
+// CHANNEL CONFIG
+// ============================================
+
+/**
+ * Validate a rule's channel list from a request body
+ * Returns the normalized channels or an error message
+ */
+export function parseAlertChannels(value: unknown): AlertChannel[] | string {
+  if (!Array.isArray(value)) return 'channels must be an array';
+  if (value.length > MAX_CHANNELS_PER_RULE) return `At most ${MAX_CHANNELS_PER_RULE} channels per rule`;
+
+  const channels: AlertChannel[] = [];
+  for (let index = 0; index < value.length; index++) {
+    const raw: unknown = value[index];
+    const field = (key: string) => {
+      const entry = (raw as Record<string, unknown> | null)?.[key];
+      return typeof entry === 'string' ? entry.trim() : '';
+    };
+
+    switch ((raw as { type?: unknown } | null)?.type) {
+      case 'webhook': {
+        const url = field('url');
+        if (!isHttpUrl(url)) return `channels[${index}]: url must be an http(s) URL`;
+        channels.push({ type: 'webhook', url });
+        break;
+      }
+      case 'telegram': {
+        const chatId = field('chatId');
+        if (!/^(-?\d+|@\w{4,})$/.test(chatId)) {
+          return `channels[${index}]: chatId must be a numeric chat id or @channelname`;
+        }
+        channels.push({ type: 'telegram', chatId });
+        break;
+      }
+      case 'discord': {
+        // Old discordapp.com links are still handed out by some clients
+        const webhookUrl = field('webhookUrl').replace('https://discordapp.com/api/', 'https://discord.com/api/');
+        if (!webhookUrl.startsWith(`${DISCORD_API_URL}/webhooks/`)) {
+          return `channels[${index}]: webhookUrl must start with ${DISCORD_API_URL}/webhooks/`;
+        }
+        channels.push({ type: 'discord', webhookUrl });
+        break;
+      }
+      case 'email': {
+        const to = field('to');
+        if (!/^[^\s@<>,;]+@[^\s@<>,;]+\.[^\s@<>,;]+$/.test(to)) {
+          return `channels[${index}]: to must be an email address`;
+        }
+        channels.push({ type: 'email', to });
+        break;
+      }
+      default:
+        return `channels[${index}]: type must be one of ${ALERT_CHANNEL_TYPES.join(', ')}`;
+    }
+  }
+
+  return channels;
+}
+
+/**
+ * Destination with anything secret-looking masked, for the delivery log and
+ * for rule listings shown without the admin token
+ */
+export function describeChannelTarget(channel: AlertChannel): string {
+  switch (channel.type) {
+    case 'webhook': {
+      const url = new URL(channel.url);
+      return `${url.origin}${url.pathname.length > 1 ? '/…' : ''}`;
+    }
+    case 'telegram':
+      return channel.chatId;
+    case 'discord':
+      return channel.webhookUrl.replace(/\/webhooks\/(\d+)\/.*/, '/webhooks/$1/…');
+    case 'email':
+      return channel.to.replace(/^(.).*@/, '$1…@');
+  }
+}
+
+export function redactChannel(channel: AlertChannel): AlertChannel {
+  const target = describeChannelTarget(channel);
+  switch (channel.type) {
+    case 'webhook':
+      return { type: 'webhook', url: target };
+    case 'telegram':
+      return channel;
+    case 'discord':
+      return { type: 'discord', webhookUrl: target };
+    case 'email':
+      return { type: 'email', to: target };
+  }
+}
+
+// ============================================
+// SENDERS
+// ============================================
+
+function alertLink(alert: AlertEvent): string | null {
+  return alert.address ? `${EXPLORER_URL}/address/${alert.address}` : null;
+}
+
+function alertText(alert: AlertEvent): string {
+  return [
+    `🔔 ${alert.ruleName}`,
+    alert.message,
+    alertLink(alert),
+  ].filter(Boolean).join('\n');
+}
+
+/**
+ * Seconds or HTTP-date Retry-After header, in ms
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isFinite(date) ? Math.max(0, date - Date.now()) : undefined;
+}
+
+/**
+ * POST JSON; 429 and 5xx are worth retrying, other 4xx are not
+ * Only the status is kept: webhook URLs are user-supplied, so logging response bodies
+ * would let a rule read back internal services
+ */
+async function postJson(url: string, body: string, headers: Record<string, string> = {}): Promise<SendResult> {
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body,
+      cache: 'no-store',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (response.ok) return { ok: true, statusCode: response.status };
+
+    return {
+      ok: false,
+      retryable: response.status === 429 || response.status >= 500,
+      error: `HTTP ${response.status}`,
+      statusCode: response.status,
+      retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+    };
+  } catch (error) {
+    // Network errors and timeouts
+    return { ok: false, retryable: true, error: error instanceof Error ? error.message : 'Request failed' };
+  }
+}
+
+async function sendWebhook(url: string, alert: AlertEvent, rule: AlertRule): Promise<SendResult> {
+  const timestamp = Date.now().toString();
+  const body = JSON.stringify({
+    type: 'alert',
+    alert,
+    rule: { id: rule.id, name: rule.name, source: rule.source, condition: rule.condition },
+  });
+
+  const headers: Record<string, string> = { 'X-Smart-HL-Timestamp': timestamp };
+  const secret = process.env.ALERT_WEBHOOK_SECRET;
+  if (secret) {
+    headers['X-Smart-HL-Signature'] = `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+  }
+  return postJson(url, body, headers);
+}
+
+async function sendTelegram(chatId: string, alert: AlertEvent): Promise<SendResult> {
+  const token = process.env.TELEGRAM_BOT_TOKEN;
+  if (!token) return { ok: false, retryable: false, error: 'TELEGRAM_BOT_TOKEN is not set' };
+
+  return postJson(
+    `${TELEGRAM_API_URL}/bot${token}/sendMessage`,
+    JSON.stringify({ chat_id: chatId, text: alertText(alert), disable_web_page_preview: true })
+  );
+}
+
+async function sendDiscord(webhookUrl: string, alert: AlertEvent): Promise<SendResult> {
+  const link = alertLink(alert);
+  return postJson(
+    webhookUrl,
+    JSON.stringify({
+      username: 'Smart-HL Alerts',
+      content: [`**${alert.ruleName}**`, alert.message, link && `<${link}>`].filter(Boolean).join('\n'),
+      allowed_mentions: { parse: [] },
+    })
+  );
+}
+
+async function sendEmail(to: string, alert: AlertEvent): Promise<SendResult> {
+  const result = await sendMail({
+    to,
+    subject: `[Smart-HL] ${alert.ruleName}`,
+    text: `${alertText(alert)}\n\n${new Date(alert.timestamp).toISOString()}\n`,
+  });
+  if (result.ok) return { ok: true, statusCode: result.code };
+
+  // 4xx replies are temporary, 5xx permanent; no reply at all (network) is worth retrying
+  return {
+    ok: false,
+    retryable: result.code === undefined || (result.code >= 400 && result.code < 500),
+    error: result.error,
+    statusCode: result.code,
+  };
+}
+
+function sendToChannel(channel: AlertChannel, alert: AlertEvent, rule: AlertRule): Promise<SendResult> {
+  switch (channel.type) {
+    case 'webhook':
+      return sendWebhook(channel.url, alert, rule);
+    case 'telegram':
+      return sendTelegram(channel.chatId, alert);
+    case 'discord':
+      return sendDiscord(channel.webhookUrl, alert);
+    case 'email':
+      return sendEmail(channel.to, alert);
+  }
+}
+
+// ============================================
+// DELIVERY
+// ============================================
+
+/**
+ * Append one attempt to the delivery log (never throws: a log failure doesn't stop delivery)
+ */
+async function recordDelivery(delivery: AlertDelivery): Promise<void> {
+  try {
+    if (hasKv()) {
+      await kv.zadd(ALERT_DELIVERIES_KEY, { score: delivery.timestamp, member: JSON.stringify(delivery) });
+      await kv.zremrangebyrank(ALERT_DELIVERIES_KEY, 0, -(MAX_DELIVERY_LOG + 1));
+    } else {
+      memoryStore.alertDeliveries = [delivery, ...(memoryStore.alertDeliveries ?? [])].slice(0, MAX_DELIVERY_LOG);
+    }
+  } catch (error) {
+    console.error('[Alerts] Failed to record delivery:', error);
+  }
+}
+
+/**
+ * Delivery log entries matching filter, newest first
+ * Throws on KV failure
+ */
+export async function getAlertDeliveries(
+  limit: number,
+  filter: (delivery: AlertDelivery) => boolean = () => true
+): Promise<{ deliveries: AlertDelivery[]; source: 'kv' | 'memory' }> {
+  const deliveries = hasKv()
+    ? (await kv.zrange<unknown[]>(ALERT_DELIVERIES_KEY, 0, -1, { rev: true })).map(
+        member => (typeof member === 'string' ? JSON.parse(member) : member) as AlertDelivery
+      )
+    : memoryStore.alertDeliveries ?? [];
+
+  return {
+    deliveries: deliveries.filter(filter).slice(0, limit),
+    source: hasKv() ? 'kv' : 'memory',
+  };
+}
+
+/**
+ * Send one alert through one channel, retrying transient failures
+ * Each attempt is logged when it finishes; resolves the last one
+ */
+async function deliver(channel: AlertChannel, alert: AlertEvent, rule: AlertRule): Promise<AlertDelivery> {
+  for (let attempt = 1; ; attempt++) {
+    const result = await sendToChannel(channel, alert, rule);
+    const willRetry = !result.ok && result.retryable && attempt < MAX_ATTEMPTS;
+
+    const delivery: AlertDelivery = {
+      id: randomUUID(),
+      alertId: alert.id,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      channel: channel.type,
+      target: describeChannelTarget(channel),
+      status: result.ok ? 'delivered' : willRetry ? 'retrying' : 'failed',
+      attempt,
+      statusCode: result.statusCode,
+      error: result.ok ? undefined : result.error,
+      timestamp: Date.now(),
+    };
+    await recordDelivery(delivery);
+
+    if (result.ok || !willRetry) {
+      if (!result.ok) {
+        console.warn(`[Alerts] ${channel.type} delivery for "${rule.name}" failed after ${attempt} attempts: ${result.error}`);
+      }
+      return delivery;
+    }
+
+    const backoffMs = Math.min(BACKOFF_BASE_MS * 2 ** (attempt - 1), MAX_BACKOFF_MS);
+    // Honour Retry-After (Telegram / Discord rate limits) when given
+    const waitMs = Math.min(result.retryAfterMs ?? backoffMs, MAX_BACKOFF_MS);
+    await new Promise(resolve => setTimeout(resolve, waitMs));
+  }
+}
+
+/**
+ * Deliver fired alerts to their rules' channels (never throws); resolves each send's last attempt
+ * Channels are sent in parallel; retries for one never hold up another. Callers await this:
+ * serverless functions may be frozen once the response is sent
+ */
+export async function deliverAlerts(alerts: AlertEvent[], rules: AlertRule[]): Promise<AlertDelivery[]> {
+  const rulesById = new Map(rules.map(rule => [rule.id, rule]));
+  return Promise.all(
+    alerts.flatMap(alert => {
+      const rule = rulesById.get(alert.ruleId);
+      return rule ? rule.channels.map(channel => deliver(channel, alert, rule)) : [];
+    })
+  );
+}
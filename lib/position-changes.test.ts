@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { diffSnapshots } from './position-changes';
+import type { StatsSnapshot, TokenPosition, WalletSnapshot } from '@/types';
+
+const ALICE = '0x1111111111111111111111111111111111111111';
+const BOB = '0x2222222222222222222222222222222222222222';
+
+function wallet(address: string, positions: TokenPosition[], error?: boolean): WalletSnapshot {
+  return {
+    address,
+    pnl1d: 0,
+    pnl7d: 0,
+    pnl30d: 0,
+    netPnl7d: 0,
+    netPnl30d: 0,
+    winRate7d: 0,
+    winRate30d: 0,
+    volume7d: 0,
+    longPosition: 0,
+    shortPosition: 0,
+    positions,
+    error,
+  };
+}
+
+function snapshot(timestamp: number, ...wallets: WalletSnapshot[]): StatsSnapshot {
+  return { timestamp, wallets };
+}
+
+function position(coin: string, side: TokenPosition['side'], sizeUsd: number, size?: number): TokenPosition {
+  return { coin, side, sizeUsd, size, entryPrice: 100 };
+}
+
+describe('diffSnapshots', () => {
+  it('reports opened and closed positions', () => {
+    const changes = diffSnapshots(
+      snapshot(1_000, wallet(ALICE, [position('BTC', 'Long', 50_000)])),
+      snapshot(2_000, wallet(ALICE, [position('ETH', 'Short', 20_000)]))
+    );
+
+    expect(changes).toEqual([
+      {
+        id: `2000-${ALICE}-BTC`,
+        timestamp: 2_000,
+        previousTimestamp: 1_000,
+        address: ALICE,
+        coin: 'BTC',
+        type: 'closed',
+        side: 'Long',
+        sizeUsd: 0,
+        previousSizeUsd: 50_000,
+        changePercent: 0,
+        entryPrice: 100,
+      },
+      {
+        id: `2000-${ALICE}-ETH`,
+        timestamp: 2_000,
+        previousTimestamp: 1_000,
+        address: ALICE,
+        coin: 'ETH',
+        type: 'opened',
+        side: 'Short',
+        sizeUsd: 20_000,
+        previousSizeUsd: 0,
+        changePercent: 0,
+        entryPrice: 100,
+      },
+    ]);
+  });
+
+  it('reports a side change as a flip', () => {
+    const [change] = diffSnapshots(
+      snapshot(1_000, wallet(ALICE, [position('SOL', 'Long', 10_000)])),
+      snapshot(2_000, wallet(ALICE, [position('SOL', 'Short', 15_000)]))
+    );
+
+    expect(change).toMatchObject({ type: 'flipped', side: 'Short', sizeUsd: 15_000, previousSizeUsd: 10_000 });
+  });
+
+  it('reports resizes by coin size, ignoring price moves and changes under 5%', () => {
+    const changes = diffSnapshots(
+      snapshot(
+        1_000,
+        wallet(ALICE, [
+          position('BTC', 'Long', 100_000, 1),
+          position('ETH', 'Short', 40_000, 10),
+          position('SOL', 'Long', 10_000, 100),
+        ])
+      ),
+      snapshot(
+        2_000,
+        wallet(ALICE, [
+          // Same coin size, higher mark price
+          position('BTC', 'Long', 120_000, 1),
+          position('ETH', 'Short', 24_000, 6),
+          position('SOL', 'Long', 10_300, 103),
+        ])
+      )
+    );
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({ coin: 'ETH', type: 'reduced', sizeUsd: 24_000, changePercent: -40 });
+  });
+
+  it('falls back to USD size when a snapshot lacks coin size', () => {
+    const [change] = diffSnapshots(
+      snapshot(1_000, wallet(ALICE, [position('HYPE', 'Long', 10_000)])),
+      snapshot(2_000, wallet(ALICE, [position('HYPE', 'Long', 15_000, 500)]))
+    );
+
+    expect(change).toMatchObject({ type: 'increased', changePercent: 50 });
+  });
+
+  it('skips wallets that failed to load or are missing from either snapshot', () => {
+    const changes = diffSnapshots(
+      snapshot(1_000, wallet(ALICE, [position('BTC', 'Long', 50_000)]), wallet(BOB, [], true)),
+      snapshot(
+        2_000,
+        wallet(ALICE, [], true),
+        wallet(BOB, [position('ETH', 'Long', 10_000)]),
+        wallet('0x3333333333333333333333333333333333333333', [position('BTC', 'Short', 5_000)])
+      )
+    );
+
+    expect(changes).toEqual([]);
+  });
+
+  it('orders changes by the larger of the before and after sizes', () => {
+    const changes = diffSnapshots(
+      snapshot(1_000, wallet(ALICE, [position('BTC', 'Long', 80_000)]), wallet(BOB, [])),
+      snapshot(2_000, wallet(ALICE, []), wallet(BOB, [position('ETH', 'Long', 10_000), position('SOL', 'Short', 90_000)]))
+    );
+
+    expect(changes.map(change => `${change.type} ${change.coin}`)).toEqual(['opened SOL', 'closed BTC', 'opened ETH']);
+  });
+});
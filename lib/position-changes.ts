@@ -0,0 +1,134 @@
+/**
+ * Position Change Engine
+ * Diffs per-wallet positions between two consecutive stats snapshots into
+ * structured events (opened / increased / reduced / closed / flipped)
+ */
+
+import type { PositionChange, StatsSnapshot, WalletSnapshot } from '@/types';
+import { formatUSD } from './utils';
+
+// Same-side size changes below this are treated as noise (partial fills, rounding)
+const MIN_CHANGE_PERCENT = 5;
+
+type SnapshotPosition = WalletSnapshot['positions'][number];
+
+/**
+ * Size change from prev to next in percent
+ * Uses coin size when both sides have it, so mark price moves don't register as trades
+ */
+function sizeChangePercent(prev: SnapshotPosition, next: SnapshotPosition): number {
+  if (prev.size && next.size != null) {
+    return ((next.size - prev.size) / prev.size) * 100;
+  }
+  return prev.sizeUsd > 0 ? ((next.sizeUsd - prev.sizeUsd) / prev.sizeUsd) * 100 : 0;
+}
+
+function diffWallet(
+  prev: WalletSnapshot,
+  next: WalletSnapshot,
+  timestamp: number,
+  previousTimestamp: number
+): PositionChange[] {
+  const changes: PositionChange[] = [];
+  const prevByCoin = new Map(prev.positions.map(position => [position.coin, position]));
+  const nextByCoin = new Map(next.positions.map(position => [position.coin, position]));
+  const coins = Array.from(new Set([...prev.positions, ...next.positions].map(position => position.coin)));
+
+  for (const coin of coins) {
+    const before = prevByCoin.get(coin);
+    const after = nextByCoin.get(coin);
+    const base = {
+      id: `${timestamp}-${next.address}-${coin}`,
+      timestamp,
+      previousTimestamp,
+      address: next.address,
+      coin,
+    };
+
+    if (!before && after) {
+      changes.push({
+        ...base,
+        type: 'opened',
+        side: after.side,
+        sizeUsd: after.sizeUsd,
+        previousSizeUsd: 0,
+        changePercent: 0,
+        entryPrice: after.entryPrice,
+      });
+    } else if (before && !after) {
+      changes.push({
+        ...base,
+        type: 'closed',
+        side: before.side,
+        sizeUsd: 0,
+        previousSizeUsd: before.sizeUsd,
+        changePercent: 0,
+        entryPrice: before.entryPrice,
+      });
+    } else if (before && after && before.side !== after.side) {
+      changes.push({
+        ...base,
+        type: 'flipped',
+        side: after.side,
+        sizeUsd: after.sizeUsd,
+        previousSizeUsd: before.sizeUsd,
+        changePercent: 0,
+        entryPrice: after.entryPrice,
+      });
+    } else if (before && after) {
+      const changePercent = sizeChangePercent(before, after);
+      if (Math.abs(changePercent) < MIN_CHANGE_PERCENT) continue;
+
+      changes.push({
+        ...base,
+        type: changePercent > 0 ? 'increased' : 'reduced',
+        side: after.side,
+        sizeUsd: after.sizeUsd,
+        previousSizeUsd: before.sizeUsd,
+        changePercent,
+        entryPrice: after.entryPrice,
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * All position changes between two snapshots, largest first
+ * Wallets missing from either snapshot or that failed to load are skipped,
+ * so a fetch error never shows up as every position being closed
+ */
+export function diffSnapshots(prev: StatsSnapshot, next: StatsSnapshot): PositionChange[] {
+  const prevByAddress = new Map(prev.wallets.map(wallet => [wallet.address, wallet]));
+  const changes: PositionChange[] = [];
+
+  for (const wallet of next.wallets) {
+    const previous = prevByAddress.get(wallet.address);
+    if (!previous || previous.error || wallet.error) continue;
+    changes.push(...diffWallet(previous, wallet, next.timestamp, prev.timestamp));
+  }
+
+  return changes.sort(
+    (a, b) => Math.max(b.sizeUsd, b.previousSizeUsd) - Math.max(a.sizeUsd, a.previousSizeUsd)
+  );
+}
+
+/**
+ * Short human-readable summary, e.g. "Reduced ETH short by 40%"
+ */
+export function describePositionChange(change: PositionChange): string {
+  const side = change.side.toLowerCase();
+
+  switch (change.type) {
+    case 'opened':
+      return `Opened ${change.coin} ${side} ${formatUSD(change.sizeUsd)}`;
+    case 'closed':
+      return `Closed ${change.coin} ${side} ${formatUSD(change.previousSizeUsd)}`;
+    case 'flipped':
+      return `Flipped ${change.coin} to ${side} ${formatUSD(change.sizeUsd)}`;
+    case 'increased':
+    case 'reduced':
+      return `${change.type === 'increased' ? 'Increased' : 'Reduced'} ${change.coin} ${side} by ${Math.abs(change.changePercent).toFixed(0)}%`;
+  }
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { parseRegistryImport, toExportCsv } from './registry';
+import type { RegistryExportWallet, WalletSnapshot } from '@/types';
+
+const ALICE = '0x1111111111111111111111111111111111111111';
+const BOB = '0x2222222222222222222222222222222222222222';
+const CAROL = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+
+const stats: WalletSnapshot = {
+  address: BOB,
+  pnl1d: 12.345,
+  pnl7d: -500,
+  pnl30d: 2_000,
+  netPnl7d: -520,
+  netPnl30d: 1_950,
+  winRate7d: 40,
+  winRate30d: 55.5,
+  volume7d: 1_000_000,
+  longPosition: 10_000,
+  shortPosition: 0,
+  positions: [{ coin: 'BTC', side: 'Long', sizeUsd: 10_000 }],
+};
+
+const wallets: RegistryExportWallet[] = [
+  {
+    address: ALICE,
+    labels: ['=HYPERLINK("http://example.com","click")', 'Alt name'],
+    tier: 'whale',
+    tags: ['+fund', '@otc'],
+    notes: 'Adds on dips, trims "into" strength\nSecond line, with a comma',
+    stats: null,
+  },
+  {
+    address: BOB,
+    labels: ['-Short bias'],
+    tier: 'smart',
+    notes: '@handle',
+    stats,
+  },
+];
+
+describe('toExportCsv', () => {
+  const csv = toExportCsv(wallets);
+
+  it('prefixes formula-like text with a quote', () => {
+    expect(csv).toContain(`${ALICE},"'=HYPERLINK(""http://example.com"",""click"");Alt name",whale,'+fund;@otc,`);
+    expect(csv).toContain(`${BOB},'-Short bias,smart,,'@handle,`);
+  });
+
+  it('leaves negative numbers alone', () => {
+    expect(csv).toContain(',12.35,-500,2000,-520,1950,40,55.5,1000000,10000,0,1\n');
+  });
+
+  it('quotes cells with commas, quotes or line breaks', () => {
+    expect(csv).toContain('"Adds on dips, trims ""into"" strength\nSecond line, with a comma"');
+  });
+});
+
+describe('parseRegistryImport', () => {
+  it('round-trips an export', () => {
+    const parsed = parseRegistryImport(toExportCsv(wallets));
+
+    expect(parsed).toEqual({
+      format: 'csv',
+      wallets: wallets.map(({ stats: _stats, ...wallet }) => wallet),
+      duplicates: 0,
+      invalid: [],
+    });
+  });
+
+  it('reports malformed rows by the line they start on', () => {
+    const content = [
+      'address,name,tier,notes',
+      `${ALICE},Alice,smart,"first line`,
+      'second line"',
+      '',
+      '# skipped comment',
+      '0x1234,Too short,smart,',
+      `${BOB},Bob,legend,`,
+      `${CAROL},Carol,Whale,`,
+      `${CAROL.toUpperCase().replace('0X', '0x')},Carol again,,`,
+    ].join('\r\n');
+
+    const parsed = parseRegistryImport(content);
+
+    expect(parsed.wallets).toEqual([
+      { address: ALICE, labels: ['Alice'], tier: 'smart', notes: 'first line\nsecond line' },
+      { address: CAROL, labels: ['Carol again'] },
+    ]);
+    expect(parsed.duplicates).toBe(1);
+    expect(parsed.invalid).toEqual([
+      { line: 6, value: '0x1234', reason: 'Invalid address (expected 0x + 40 hex characters)' },
+      { line: 7, value: BOB, reason: 'Unknown tier "legend"' },
+    ]);
+  });
+
+  it('reads header-less CSV as address, name, tier, tags, notes', () => {
+    const parsed = parseRegistryImport(`${ALICE},Alice,institution,fund;otc,Desk\n`);
+
+    expect(parsed.wallets).toEqual([
+      { address: ALICE, labels: ['Alice'], tier: 'institution', tags: ['fund', 'otc'], notes: 'Desk' },
+    ]);
+  });
+});
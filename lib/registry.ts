@@ -0,0 +1,444 @@
+/**
+ * Wallet Registry Helpers
+ * Input validation and merging for /api/registry, plus bulk import parsing / diffing
+ * and CSV / JSON export for /api/registry/import and /api/registry/export
+ */
+
+import { timingSafeEqual } from 'crypto';
+import type { NextRequest } from 'next/server';
+import { DEFAULT_WALLET_LABEL, WALLET_TIERS } from './constants';
+import { isValidAddress } from './utils';
+import type {
+  RegistryExportWallet,
+  RegistryImportFormat,
+  RegistryImportIssue,
+  RegistryImportMode,
+  RegistryImportPreview,
+  RegistryWalletInput,
+  SmartWalletEntry,
+  SmartWalletMap,
+  SmartWalletTier,
+  StatsSnapshot,
+} from '@/types';
+
+// Separator for list cells (labels, tags) in CSV files
+const CSV_LIST_SEPARATOR = ';';
+
+// Text cells a spreadsheet would treat as a formula, and the same after our export escaped them
+const FORMULA_START = /^[=+\-@\t\r]/;
+const FORMULA_ESCAPED = /^'[=+\-@\t\r]/;
+
+// Snapshot fields included as CSV export columns
+const CSV_STATS_COLUMNS = [
+  'pnl1d',
+  'pnl7d',
+  'pnl30d',
+  'netPnl7d',
+  'netPnl30d',
+  'winRate7d',
+  'winRate30d',
+  'volume7d',
+  'longPosition',
+  'shortPosition',
+] as const;
+
+// ============================================
+// INPUT VALIDATION / MERGING
+// ============================================
+
+/**
+ * Writes need `Authorization: Bearer <REGISTRY_ADMIN_TOKEN>`
+ * Without a configured token they are open in development and refused in production
+ */
+export function isRegistryAuthorized(request: NextRequest): boolean {
+  const token = process.env.REGISTRY_ADMIN_TOKEN;
+  if (!token) return process.env.NODE_ENV !== 'production';
+
+  const expected = Buffer.from(`Bearer ${token}`);
+  const provided = Buffer.from(request.headers.get('authorization') ?? '');
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+/**
+ * Validate one input entry; returns an error message or null
+ */
+export function validateRegistryInput(input: RegistryWalletInput): string | null {
+  if (typeof input?.address !== 'string' || !isValidAddress(input.address)) {
+    return `Invalid wallet address: ${String(input?.address)}`;
+  }
+  if (input.tier !== undefined && !WALLET_TIERS.includes(input.tier)) {
+    return `Invalid tier for ${input.address}: ${String(input.tier)}`;
+  }
+  if (input.labels !== undefined && !isStringArray(input.labels)) {
+    return `Labels for ${input.address} must be an array of strings`;
+  }
+  if (input.tags !== undefined && !isStringArray(input.tags)) {
+    return `Tags for ${input.address} must be an array of strings`;
+  }
+  if (input.notes !== undefined && typeof input.notes !== 'string') {
+    return `Notes for ${input.address} must be a string`;
+  }
+  return null;
+}
+
+/**
+ * Trim, drop empty and dedupe labels / tags
+ */
+function normalizeList(values: string[]): string[] {
+  return Array.from(new Set(values.map(value => value.trim()).filter(Boolean)));
+}
+
+/**
+ * Apply an input onto the existing entry (or registry defaults for new wallets)
+ */
+export function toRegistryEntry(input: RegistryWalletInput, existing?: SmartWalletEntry): SmartWalletEntry {
+  const tags = input.tags !== undefined ? normalizeList(input.tags) : existing?.tags ?? [];
+  const notes = (input.notes ?? existing?.notes ?? '').trim();
+
+  return {
+    isSmartMoney: true,
+    labels: input.labels !== undefined
+      ? normalizeList(input.labels)
+      : existing?.labels ?? [DEFAULT_WALLET_LABEL],
+    tier: input.tier ?? existing?.tier ?? 'smart',
+    ...(tags.length > 0 ? { tags } : {}),
+    ...(notes ? { notes } : {}),
+  };
+}
+
+function isSameEntry(a: SmartWalletEntry, b: SmartWalletEntry): boolean {
+  return (
+    a.tier === b.tier &&
+    a.labels.join('\n') === b.labels.join('\n') &&
+    (a.tags ?? []).join('\n') === (b.tags ?? []).join('\n') &&
+    (a.notes ?? '') === (b.notes ?? '')
+  );
+}
+
+// ============================================
+// IMPORT PARSING
+// ============================================
+
+// One raw row before validation; cells may be strings, lists or missing
+type ImportRecord = Record<string, unknown>;
+
+interface ParsedImport {
+  format: RegistryImportFormat;
+  wallets: RegistryWalletInput[];
+  duplicates: number;
+  invalid: RegistryImportIssue[];
+}
+
+/**
+ * Guess the format from the content: JSON by its opening bracket, CSV by commas
+ */
+function detectFormat(content: string): RegistryImportFormat {
+  const trimmed = content.trim();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) return 'json';
+  const firstLine = trimmed.split(/\r?\n/).find(line => line.trim() && !line.startsWith('#')) ?? '';
+  return firstLine.includes(',') ? 'csv' : 'text';
+}
+
+/**
+ * Split CSV content into rows of trimmed cells, honouring double-quoted cells ("" escapes
+ * a quote) that may span lines. Blank and `#` comment rows are skipped; `line` is the
+ * 1-based line each row starts on
+ */
+function parseCsvRows(content: string): { line: number; cells: string[] }[] {
+  const rows: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+  let rowStart = 0;
+
+  const endRow = (end: number) => {
+    cells.push(cell);
+    const trimmed = cells.map(value => value.trim());
+    const raw = content.slice(rowStart, end).trim();
+    if (raw.length > 0 && !raw.startsWith('#')) rows.push({ line: rowLine, cells: trimmed });
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (char === '\n') line++;
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else if (char !== '\r' || content[i + 1] !== '\n') {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n') {
+      endRow(i);
+      rowLine = line;
+      rowStart = i + 1;
+    } else if (char !== '\r') {
+      cell += char;
+    }
+  }
+  endRow(content.length);
+  return rows;
+}
+
+/**
+ * Non-empty, non-comment lines with their 1-based line numbers
+ */
+function contentLines(content: string): { line: number; text: string }[] {
+  return content
+    .split(/\r?\n/)
+    .map((text, i) => ({ line: i + 1, text: text.trim() }))
+    .filter(({ text }) => text.length > 0 && !text.startsWith('#'));
+}
+
+/**
+ * Plain list: one address per line, optionally `address | name | tier | tags | notes`
+ * (the addresses.txt format)
+ */
+function parseText(content: string): { line: number; record: ImportRecord }[] {
+  return contentLines(content).map(({ line, text }) => {
+    const [address, name, tier, tags, notes] = text.split('|').map(value => value.trim());
+    return { line, record: { address, name, tier, tags, notes } };
+  });
+}
+
+/**
+ * CSV with an `address` header column; without a header, columns are
+ * address, name, tier, tags, notes. Unknown columns (e.g. exported stats) are ignored
+ * The quote our export puts before formula-like text is dropped again
+ */
+function parseCsv(content: string): { line: number; record: ImportRecord }[] {
+  const rows = parseCsvRows(content);
+  if (rows.length === 0) return [];
+
+  const firstRow = rows[0].cells.map(cell => cell.toLowerCase());
+  const hasHeader = firstRow.includes('address');
+  const columns = hasHeader ? firstRow : ['address', 'name', 'tier', 'tags', 'notes'];
+
+  return rows.slice(hasHeader ? 1 : 0).map(({ line, cells }) => {
+    const values = cells.map(cell => (FORMULA_ESCAPED.test(cell) ? cell.slice(1) : cell));
+    return { line, record: Object.fromEntries(columns.map((column, i) => [column, values[i]])) };
+  });
+}
+
+/**
+ * JSON: an array of addresses or wallet objects, `{ wallets: [...] }` (our export
+ * and the POST body), `{ data: { [address]: entry } }` (GET /api/registry)
+ * or an object keyed by address
+ */
+function parseJson(content: string): { line: number; record: ImportRecord }[] {
+  const data = JSON.parse(content) as unknown;
+  let items: unknown[];
+
+  if (Array.isArray(data)) {
+    items = data;
+  } else if (data && typeof data === 'object') {
+    const object = data as Record<string, unknown>;
+    if (Array.isArray(object.wallets)) {
+      items = object.wallets;
+    } else {
+      const map = (object.data && typeof object.data === 'object' ? object.data : object) as Record<string, unknown>;
+      items = Object.entries(map).map(([address, entry]) => ({
+        ...(entry && typeof entry === 'object' ? entry : {}),
+        address,
+      }));
+    }
+  } else {
+    throw new Error('JSON import must be an array or an object');
+  }
+
+  return items.map((item, i) => ({
+    line: i + 1,
+    record: typeof item === 'string' ? { address: item } : (item as ImportRecord) ?? {},
+  }));
+}
+
+/**
+ * List cell -> values; arrays pass through, strings split on the list separator
+ * (tags also accept commas, as in addresses.txt)
+ */
+function toList(value: unknown, separators: RegExp): string[] | undefined {
+  if (isStringArray(value)) return value;
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  return value.split(separators);
+}
+
+/**
+ * Raw record -> registry input; only fields present in the import are set,
+ * so merging a plain address list leaves existing labels / tags alone
+ */
+function toImportInput(record: ImportRecord): RegistryWalletInput | string {
+  const address = String(record.address ?? '').trim().toLowerCase();
+  if (!isValidAddress(address)) return 'Invalid address (expected 0x + 40 hex characters)';
+
+  const input: RegistryWalletInput = { address };
+
+  const name = record.name ?? record.label;
+  const labels = toList(record.labels, /;/) ?? (typeof name === 'string' && name.trim() ? [name] : undefined);
+  if (labels) input.labels = labels;
+
+  const tier = typeof record.tier === 'string' ? record.tier.trim().toLowerCase() : '';
+  if (tier) {
+    if (!WALLET_TIERS.includes(tier as SmartWalletTier)) return `Unknown tier "${tier}"`;
+    input.tier = tier as SmartWalletTier;
+  }
+
+  const tags = toList(record.tags, /[;,]/);
+  if (tags) input.tags = tags;
+
+  if (typeof record.notes === 'string' && record.notes.trim()) input.notes = record.notes;
+
+  return input;
+}
+
+/**
+ * Parse, validate and dedupe an import (later rows win)
+ * Throws when JSON content does not parse
+ */
+export function parseRegistryImport(content: string, format?: RegistryImportFormat): ParsedImport {
+  const resolvedFormat = format ?? detectFormat(content);
+  const rows = resolvedFormat === 'json'
+    ? parseJson(content)
+    : resolvedFormat === 'csv'
+    ? parseCsv(content)
+    : parseText(content);
+
+  const wallets = new Map<string, RegistryWalletInput>();
+  const invalid: RegistryImportIssue[] = [];
+  let duplicates = 0;
+
+  for (const { line, record } of rows) {
+    const input = toImportInput(record);
+    if (typeof input === 'string') {
+      invalid.push({ line, value: String(record.address ?? ''), reason: input });
+      continue;
+    }
+    if (wallets.has(input.address)) {
+      duplicates++;
+      wallets.delete(input.address);
+    }
+    wallets.set(input.address, input);
+  }
+
+  return { format: resolvedFormat, wallets: Array.from(wallets.values()), duplicates, invalid };
+}
+
+/**
+ * Diff a parsed import against the registry
+ * `entries` holds the adds and updates to write; `preview.removes` the wallets to delete
+ */
+export function planRegistryImport(
+  current: SmartWalletMap,
+  parsed: ParsedImport,
+  mode: RegistryImportMode
+): { preview: RegistryImportPreview; entries: SmartWalletMap } {
+  const entries: SmartWalletMap = {};
+  const adds: string[] = [];
+  const updates: string[] = [];
+  let unchanged = 0;
+
+  for (const input of parsed.wallets) {
+    const existing = current[input.address];
+    const entry = toRegistryEntry(input, existing);
+    if (!existing) {
+      adds.push(input.address);
+      entries[input.address] = entry;
+    } else if (!isSameEntry(existing, entry)) {
+      updates.push(input.address);
+      entries[input.address] = entry;
+    } else {
+      unchanged++;
+    }
+  }
+
+  const imported = new Set(parsed.wallets.map(wallet => wallet.address));
+  const removes = mode === 'replace'
+    ? Object.keys(current).filter(address => !imported.has(address))
+    : [];
+
+  return {
+    preview: {
+      format: parsed.format,
+      mode,
+      adds,
+      updates,
+      removes,
+      unchanged,
+      duplicates: parsed.duplicates,
+      invalid: parsed.invalid,
+    },
+    entries,
+  };
+}
+
+// ============================================
+// EXPORT
+// ============================================
+
+/**
+ * Registry entries joined with their wallet in the latest stats snapshot
+ */
+export function toExportWallets(
+  registry: SmartWalletMap,
+  snapshot: StatsSnapshot | null
+): RegistryExportWallet[] {
+  const stats = new Map((snapshot?.wallets ?? []).map(wallet => [wallet.address.toLowerCase(), wallet]));
+
+  return Object.entries(registry)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([address, { labels, tier, tags, notes }]) => ({
+      address,
+      labels,
+      tier,
+      ...(tags?.length ? { tags } : {}),
+      ...(notes ? { notes } : {}),
+      stats: stats.get(address) ?? null,
+    }));
+}
+
+/**
+ * Text starting with = + - @ (or tab / CR) is prefixed with ' so spreadsheets don't run it
+ * as a formula; numbers are left alone
+ */
+function csvCell(value: string | number | undefined): string {
+  let text = value === undefined ? '' : String(value);
+  if (typeof value === 'string' && FORMULA_START.test(value)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV export; re-importable (stats columns are ignored on import)
+ */
+export function toExportCsv(wallets: RegistryExportWallet[]): string {
+  const header = ['address', 'labels', 'tier', 'tags', 'notes', ...CSV_STATS_COLUMNS, 'openPositions'];
+
+  const rows = wallets.map(wallet => {
+    const stats = wallet.stats && !wallet.stats.error ? wallet.stats : null;
+    return [
+      wallet.address,
+      wallet.labels.join(CSV_LIST_SEPARATOR),
+      wallet.tier,
+      (wallet.tags ?? []).join(CSV_LIST_SEPARATOR),
+      wallet.notes,
+      ...CSV_STATS_COLUMNS.map(column => (stats ? Math.round(stats[column] * 100) / 100 : undefined)),
+      stats?.positions.length,
+    ].map(csvCell).join(',');
+  });
+
+  return [header.join(','), ...rows].join('\n') + '\n';
+}
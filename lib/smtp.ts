@@ -0,0 +1,231 @@
+/**
+ * Minimal SMTP Client
+ * Just enough of RFC 5321 to hand one plain-text message to a relay: EHLO, STARTTLS when
+ * offered (or implicit TLS with SMTP_SECURE=true), AUTH PLAIN, MAIL / RCPT / DATA
+ * Credentials are only sent over TLS: a server that doesn't offer STARTTLS (or had it
+ * stripped on the way) is refused unless SMTP_ALLOW_INSECURE=true, meant for local test servers
+ *
+ *   SMTP_HOST, SMTP_PORT (587, or 465 when secure), SMTP_SECURE, SMTP_USER, SMTP_PASS,
+ *   SMTP_FROM (defaults to SMTP_USER), SMTP_ALLOW_INSECURE
+ */
+
+import net from 'net';
+import tls from 'tls';
+import { randomUUID } from 'crypto';
+
+const SMTP_TIMEOUT_MS = 15_000;
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export type SmtpResult = { ok: true; code: number } | { ok: false; code?: number; error: string };
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+function getSmtpConfig() {
+  const secure = process.env.SMTP_SECURE === 'true';
+  return {
+    host: process.env.SMTP_HOST || '',
+    port: parseInt(process.env.SMTP_PORT || (secure ? '465' : '587'), 10),
+    secure,
+    user: process.env.SMTP_USER || '',
+    pass: process.env.SMTP_PASS || '',
+    from: process.env.SMTP_FROM || process.env.SMTP_USER || '',
+    allowInsecure: process.env.SMTP_ALLOW_INSECURE === 'true',
+  };
+}
+
+export function isSmtpConfigured(): boolean {
+  const { host, from } = getSmtpConfig();
+  return Boolean(host && from);
+}
+
+/**
+ * RFC 2047 encoded-word for non-ASCII header values
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+/**
+ * Full message with a base64 body (no dot-stuffing or 8-bit support needed)
+ */
+function buildMessage(from: string, message: MailMessage): string {
+  const body = Buffer.from(message.text.replace(/\r?\n/g, '\r\n')).toString('base64');
+  const domain = from.split('@')[1] || 'localhost';
+
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    ...(body.match(/.{1,76}/g) ?? []),
+  ].join('\r\n');
+}
+
+/**
+ * Command / reply channel over a (possibly upgraded) socket
+ */
+function createConnection(initial: net.Socket) {
+  let socket = initial;
+  let buffer = '';
+  let lines: string[] = [];
+  const replies: SmtpReply[] = [];
+  let waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  let failure: Error | null = null;
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf-8');
+    let newline: number;
+    while ((newline = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 2);
+      lines.push(line);
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      if (line.length < 4 || line[3] === ' ') {
+        replies.push({ code: parseInt(line.slice(0, 3), 10), lines });
+        lines = [];
+      }
+    }
+    if (waiting && replies.length > 0) {
+      waiting.resolve(replies.shift()!);
+      waiting = null;
+    }
+  };
+
+  const onError = (error: Error) => {
+    failure = error;
+    waiting?.reject(error);
+    waiting = null;
+  };
+
+  const attach = (next: net.Socket) => {
+    socket = next;
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error('SMTP timed out')));
+    socket.on('data', onData);
+    socket.on('error', onError);
+    socket.on('close', () => onError(failure ?? new Error('SMTP connection closed')));
+  };
+
+  attach(initial);
+
+  const read = (): Promise<SmtpReply> => {
+    if (replies.length > 0) return Promise.resolve(replies.shift()!);
+    if (failure) return Promise.reject(failure);
+    return new Promise((resolve, reject) => {
+      waiting = { resolve, reject };
+    });
+  };
+
+  return {
+    read,
+    async command(line: string): Promise<SmtpReply> {
+      socket.write(`${line}\r\n`);
+      return read();
+    },
+    async startTls(host: string): Promise<void> {
+      socket.removeListener('data', onData);
+      socket.removeAllListeners('close');
+      const secured = tls.connect({ socket, servername: host });
+      await new Promise<void>((resolve, reject) => {
+        secured.once('secureConnect', resolve);
+        secured.once('error', reject);
+      });
+      attach(secured);
+    },
+    close() {
+      socket.removeAllListeners('close');
+      socket.end();
+    },
+  };
+}
+
+/**
+ * Deliver one message; never throws
+ * Resolves the failing reply code when the server rejects it (4xx = try again later)
+ */
+export async function sendMail(message: MailMessage): Promise<SmtpResult> {
+  const config = getSmtpConfig();
+  if (!config.host || !config.from) {
+    return { ok: false, error: 'SMTP is not configured (SMTP_HOST, SMTP_FROM)' };
+  }
+
+  let connection: ReturnType<typeof createConnection> | null = null;
+
+  try {
+    const socket = await new Promise<net.Socket>((resolve, reject) => {
+      const options = { host: config.host, port: config.port };
+      // An unreachable host would otherwise hang until the OS gives up on the connect
+      const onTimeout = () => opened.destroy(new Error('SMTP connect timed out'));
+      const onConnect = () => {
+        opened.removeListener('timeout', onTimeout);
+        resolve(opened);
+      };
+      const opened = config.secure
+        ? tls.connect({ ...options, servername: config.host }, onConnect)
+        : net.connect(options, onConnect);
+      opened.setTimeout(SMTP_TIMEOUT_MS, onTimeout);
+      opened.once('error', reject);
+    });
+    connection = createConnection(socket);
+    const { read, command } = connection;
+
+    const expect = async (reply: Promise<SmtpReply>, ...codes: number[]) => {
+      const { code, lines } = await reply;
+      if (!codes.includes(code)) throw Object.assign(new Error(lines.join(' ')), { code });
+      return lines;
+    };
+
+    await expect(read(), 220);
+    const hello = `EHLO ${config.from.split('@')[1] || 'localhost'}`;
+    const capabilities = await expect(command(hello), 250);
+
+    let encrypted = config.secure;
+    if (!encrypted && capabilities.some(line => /STARTTLS/i.test(line))) {
+      await expect(command('STARTTLS'), 220);
+      await connection.startTls(config.host);
+      await expect(command(hello), 250);
+      encrypted = true;
+    }
+
+    if (config.user) {
+      if (!encrypted && !config.allowInsecure) {
+        // 530 as in RFC 3207 "must issue STARTTLS first": permanent, not worth retrying
+        throw Object.assign(
+          new Error('SMTP server offers no TLS; refusing to send credentials (SMTP_ALLOW_INSECURE=true to allow)'),
+          { code: 530 }
+        );
+      }
+      const credentials = Buffer.from(`\0${config.user}\0${config.pass}`).toString('base64');
+      await expect(command(`AUTH PLAIN ${credentials}`), 235);
+    }
+
+    await expect(command(`MAIL FROM:<${config.from}>`), 250);
+    await expect(command(`RCPT TO:<${message.to}>`), 250, 251);
+    await expect(command('DATA'), 354);
+    await expect(command(`${buildMessage(config.from, message)}\r\n.`), 250);
+    await command('QUIT').catch(() => null);
+
+    return { ok: true, code: 250 };
+  } catch (error) {
+    const code = (error as { code?: unknown }).code;
+    return {
+      ok: false,
+      code: typeof code === 'number' ? code : undefined,
+      error: error instanceof Error ? error.message : 'Unknown SMTP error',
+    };
+  } finally {
+    connection?.close();
+  }
+}
@@ -0,0 +1,383 @@
+/**
+ * Wallet Stats Snapshots
+ * Persists each computed WalletStats[] so exposure and PnL can be queried over time,
+ * along with the position changes between consecutive snapshots
+ * Supports: Vercel KV (primary) or File-based fallback, with memory as last resort
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { kv } from '@vercel/kv';
+import { diffSnapshots } from './position-changes';
+import type {
+  CoinHistoryPoint,
+  PositionChange,
+  SnapshotTotalsPoint,
+  StatsSnapshot,
+  WalletHistoryPoint,
+  WalletSnapshot,
+  WalletStats,
+} from '@/types';
+
+const SNAPSHOT_INDEX_KEY = 'wallet-stats-snapshots';
+const SNAPSHOT_KEY_PREFIX = 'wallet-stats-snapshot:';
+const POSITION_CHANGES_KEY = 'position-changes';
+
+// Minimum spacing between snapshots (stats refresh every 5 minutes)
+const SNAPSHOT_INTERVAL_MS = parseFloat(process.env.SNAPSHOT_INTERVAL_MINUTES || '5') * 60 * 1000;
+const SNAPSHOT_RETENTION_MS = parseFloat(process.env.SNAPSHOT_RETENTION_DAYS || '2') * 24 * 60 * 60 * 1000;
+
+// Upper bound on snapshots loaded per query; longer ranges are downsampled
+const MAX_QUERY_SNAPSHOTS = 600;
+// Upper bound on position changes returned per query (newest kept)
+const MAX_QUERY_CHANGES = 1000;
+
+// Local store for development / self-hosting
+const SNAPSHOT_DIR = process.env.SNAPSHOT_DIR || path.join(process.cwd(), '.data', 'snapshots');
+const POSITION_CHANGES_FILE = path.join(path.dirname(SNAPSHOT_DIR), 'position-changes.jsonl');
+
+export type SnapshotSource = 'kv' | 'file' | 'memory';
+
+// In-memory fallback when neither KV nor the filesystem is usable
+let memorySnapshots: StatsSnapshot[] = [];
+let memoryChanges: PositionChange[] = [];
+
+function getSource(): SnapshotSource {
+  return process.env.KV_REST_API_URL ? 'kv' : 'file';
+}
+
+/**
+ * Keep only the fields worth tracking over time
+ * (series and trade stats are already historical and would bloat every snapshot)
+ */
+function toWalletSnapshot(stats: WalletStats): WalletSnapshot {
+  return {
+    address: stats.address,
+    pnl1d: stats.pnl1d,
+    pnl7d: stats.pnl7d,
+    pnl30d: stats.pnl30d,
+    netPnl7d: stats.netPnl7d,
+    netPnl30d: stats.netPnl30d,
+    winRate7d: stats.winRate7d,
+    winRate30d: stats.winRate30d,
+    volume7d: stats.volume7d,
+    longPosition: stats.longPosition,
+    shortPosition: stats.shortPosition,
+    positions: stats.positions.map(({ coin, side, size, sizeUsd, entryPrice }) => ({
+      coin,
+      side,
+      size,
+      sizeUsd,
+      entryPrice,
+    })),
+    error: stats.error,
+  };
+}
+
+/**
+ * Evenly thin out a sorted list, always keeping the newest entry
+ */
+function downsample<T>(items: T[], max: number): T[] {
+  if (items.length <= max) return items;
+  const step = items.length / max;
+  const sampled: T[] = [];
+  for (let i = 0; i < max - 1; i++) {
+    sampled.push(items[Math.floor(i * step)]);
+  }
+  sampled.push(items[items.length - 1]);
+  return sampled;
+}
+
+// ============================================
+// FILE STORE
+// ============================================
+
+async function listFileTimestamps(): Promise<number[]> {
+  try {
+    const files = await fs.readdir(SNAPSHOT_DIR);
+    return files
+      .map(file => parseInt(path.basename(file, '.json'), 10))
+      .filter(timestamp => Number.isFinite(timestamp))
+      .sort((a, b) => a - b);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+async function readFileSnapshot(timestamp: number): Promise<StatsSnapshot | null> {
+  try {
+    const raw = await fs.readFile(path.join(SNAPSHOT_DIR, `${timestamp}.json`), 'utf-8');
+    return JSON.parse(raw) as StatsSnapshot;
+  } catch {
+    return null;
+  }
+}
+
+async function writeFileSnapshot(snapshot: StatsSnapshot): Promise<void> {
+  await fs.mkdir(SNAPSHOT_DIR, { recursive: true });
+  await fs.writeFile(
+    path.join(SNAPSHOT_DIR, `${snapshot.timestamp}.json`),
+    JSON.stringify(snapshot)
+  );
+
+  // Prune expired snapshots
+  const cutoff = snapshot.timestamp - SNAPSHOT_RETENTION_MS;
+  const expired = (await listFileTimestamps()).filter(timestamp => timestamp < cutoff);
+  await Promise.all(
+    expired.map(timestamp => fs.rm(path.join(SNAPSHOT_DIR, `${timestamp}.json`), { force: true }))
+  );
+}
+
+async function readFileChanges(): Promise<PositionChange[]> {
+  try {
+    const raw = await fs.readFile(POSITION_CHANGES_FILE, 'utf-8');
+    return raw
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => JSON.parse(line) as PositionChange);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+async function writeFileChanges(changes: PositionChange[], now: number): Promise<void> {
+  const cutoff = now - SNAPSHOT_RETENTION_MS;
+  const kept = [...(await readFileChanges()), ...changes].filter(change => change.timestamp >= cutoff);
+
+  await fs.mkdir(path.dirname(POSITION_CHANGES_FILE), { recursive: true });
+  await fs.writeFile(
+    POSITION_CHANGES_FILE,
+    kept.map(change => JSON.stringify(change)).join('\n') + (kept.length > 0 ? '\n' : '')
+  );
+}
+
+// ============================================
+// KV STORE
+// ============================================
+
+async function listKvTimestamps(from: number, to: number): Promise<number[]> {
+  const members = await kv.zrange<(string | number)[]>(SNAPSHOT_INDEX_KEY, from, to, { byScore: true });
+  return members.map(member => Number(member)).sort((a, b) => a - b);
+}
+
+async function readKvSnapshots(timestamps: number[]): Promise<StatsSnapshot[]> {
+  if (timestamps.length === 0) return [];
+  const values = await kv.mget<(StatsSnapshot | string | null)[]>(
+    ...timestamps.map(timestamp => `${SNAPSHOT_KEY_PREFIX}${timestamp}`)
+  );
+  return values
+    .filter((value): value is StatsSnapshot | string => value != null)
+    .map(value => (typeof value === 'string' ? JSON.parse(value) : value) as StatsSnapshot);
+}
+
+async function writeKvSnapshot(snapshot: StatsSnapshot): Promise<void> {
+  const ttlSeconds = Math.ceil(SNAPSHOT_RETENTION_MS / 1000);
+  await kv.set(`${SNAPSHOT_KEY_PREFIX}${snapshot.timestamp}`, JSON.stringify(snapshot), { ex: ttlSeconds });
+  await kv.zadd(SNAPSHOT_INDEX_KEY, { score: snapshot.timestamp, member: snapshot.timestamp });
+
+  // Snapshot keys expire on their own; drop their index entries too
+  await kv.zremrangebyscore(SNAPSHOT_INDEX_KEY, '-inf', snapshot.timestamp - SNAPSHOT_RETENTION_MS);
+}
+
+async function readKvChanges(from: number, to: number): Promise<PositionChange[]> {
+  const members = await kv.zrange<(PositionChange | string)[]>(POSITION_CHANGES_KEY, from, to, { byScore: true });
+  return members.map(member => (typeof member === 'string' ? JSON.parse(member) : member) as PositionChange);
+}
+
+async function writeKvChanges(changes: PositionChange[], now: number): Promise<void> {
+  if (changes.length > 0) {
+    const [first, ...rest] = changes.map(change => ({
+      score: change.timestamp,
+      member: JSON.stringify(change),
+    }));
+    await kv.zadd(POSITION_CHANGES_KEY, first, ...rest);
+  }
+  await kv.zremrangebyscore(POSITION_CHANGES_KEY, '-inf', now - SNAPSHOT_RETENTION_MS);
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Newest stored snapshot, or null if none
+ */
+export async function getLatestSnapshot(): Promise<StatsSnapshot | null> {
+  if (getSource() === 'kv') {
+    const [latest] = await kv.zrange<(string | number)[]>(SNAPSHOT_INDEX_KEY, 0, 0, { rev: true });
+    if (latest == null) return null;
+    const [snapshot] = await readKvSnapshots([Number(latest)]);
+    return snapshot ?? null;
+  }
+  const timestamps = await listFileTimestamps();
+  return timestamps.length > 0 ? readFileSnapshot(timestamps[timestamps.length - 1]) : null;
+}
+
+/**
+ * Persist a computed WalletStats[] as a snapshot, plus its position changes vs. the previous one
+ * Resolves the new position changes, or null when skipped because the previous
+ * snapshot is newer than SNAPSHOT_INTERVAL_MS
+ */
+export async function saveStatsSnapshot(stats: WalletStats[]): Promise<PositionChange[] | null> {
+  const snapshot: StatsSnapshot = {
+    timestamp: Date.now(),
+    wallets: stats.map(toWalletSnapshot),
+  };
+  let previous: StatsSnapshot | null = null;
+
+  try {
+    previous = await getLatestSnapshot();
+    if (previous && snapshot.timestamp - previous.timestamp < SNAPSHOT_INTERVAL_MS) {
+      return null;
+    }
+
+    const changes = previous ? diffSnapshots(previous, snapshot) : [];
+
+    if (getSource() === 'kv') {
+      await writeKvSnapshot(snapshot);
+      await writeKvChanges(changes, snapshot.timestamp);
+    } else {
+      await writeFileSnapshot(snapshot);
+      await writeFileChanges(changes, snapshot.timestamp);
+    }
+    console.log(
+      `[Snapshots] Stored ${snapshot.wallets.length} wallets, ${changes.length} position changes (${getSource()})`
+    );
+    return changes;
+  } catch (error) {
+    console.error('[Snapshots] Failed to store snapshot:', error);
+
+    // Last resort: memory
+    const cutoff = snapshot.timestamp - SNAPSHOT_RETENTION_MS;
+    const memoryPrevious = previous ?? memorySnapshots[memorySnapshots.length - 1];
+    const changes = memoryPrevious ? diffSnapshots(memoryPrevious, snapshot) : [];
+    memoryChanges = [...memoryChanges, ...changes].filter(change => change.timestamp >= cutoff);
+    memorySnapshots = [...memorySnapshots, snapshot].filter(entry => entry.timestamp >= cutoff);
+    return changes;
+  }
+}
+
+/**
+ * Load snapshots in [from, to], oldest first (downsampled to MAX_QUERY_SNAPSHOTS)
+ */
+export async function getStatsSnapshots(
+  from: number,
+  to: number
+): Promise<{ snapshots: StatsSnapshot[]; source: SnapshotSource }> {
+  const source = getSource();
+
+  try {
+    if (source === 'kv') {
+      const timestamps = downsample(await listKvTimestamps(from, to), MAX_QUERY_SNAPSHOTS);
+      return { snapshots: await readKvSnapshots(timestamps), source };
+    }
+
+    const timestamps = downsample(
+      (await listFileTimestamps()).filter(timestamp => timestamp >= from && timestamp <= to),
+      MAX_QUERY_SNAPSHOTS
+    );
+    const snapshots = await Promise.all(timestamps.map(readFileSnapshot));
+    return {
+      snapshots: snapshots.filter((snapshot): snapshot is StatsSnapshot => snapshot !== null),
+      source,
+    };
+  } catch (error) {
+    console.error('[Snapshots] Failed to load snapshots:', error);
+
+    return {
+      snapshots: downsample(
+        memorySnapshots.filter(snapshot => snapshot.timestamp >= from && snapshot.timestamp <= to),
+        MAX_QUERY_SNAPSHOTS
+      ),
+      source: 'memory',
+    };
+  }
+}
+
+/**
+ * Load position changes in [from, to] matching filter, newest first (capped at MAX_QUERY_CHANGES)
+ */
+export async function getPositionChanges(
+  from: number,
+  to: number,
+  filter: (change: PositionChange) => boolean = () => true
+): Promise<{ changes: PositionChange[]; source: SnapshotSource }> {
+  const source = getSource();
+  const newestFirst = (changes: PositionChange[]) =>
+    changes
+      .filter(change => change.timestamp >= from && change.timestamp <= to && filter(change))
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, MAX_QUERY_CHANGES);
+
+  try {
+    const changes = source === 'kv' ? await readKvChanges(from, to) : await readFileChanges();
+    return { changes: newestFirst(changes), source };
+  } catch (error) {
+    console.error('[Snapshots] Failed to load position changes:', error);
+    return { changes: newestFirst(memoryChanges), source: 'memory' };
+  }
+}
+
+/**
+ * One wallet's snapshot fields over time
+ */
+export function getWalletHistory(snapshots: StatsSnapshot[], address: string): WalletHistoryPoint[] {
+  const normalized = address.toLowerCase();
+  const points: WalletHistoryPoint[] = [];
+
+  for (const snapshot of snapshots) {
+    const wallet = snapshot.wallets.find(entry => entry.address === normalized);
+    if (wallet) {
+      points.push({ ...wallet, timestamp: snapshot.timestamp });
+    }
+  }
+
+  return points;
+}
+
+/**
+ * Aggregate tracked-wallet exposure to one coin over time
+ */
+export function getCoinHistory(snapshots: StatsSnapshot[], coin: string): CoinHistoryPoint[] {
+  return snapshots.map(snapshot => {
+    const point: CoinHistoryPoint = {
+      timestamp: snapshot.timestamp,
+      coin,
+      longUsd: 0,
+      shortUsd: 0,
+      netUsd: 0,
+      longWallets: 0,
+      shortWallets: 0,
+    };
+
+    for (const wallet of snapshot.wallets) {
+      const position = wallet.positions.find(entry => entry.coin === coin);
+      if (!position) continue;
+
+      if (position.side === 'Long') {
+        point.longUsd += position.sizeUsd;
+        point.longWallets++;
+      } else {
+        point.shortUsd += position.sizeUsd;
+        point.shortWallets++;
+      }
+    }
+
+    point.netUsd = point.longUsd - point.shortUsd;
+    return point;
+  });
+}
+
+/**
+ * Combined exposure of all tracked wallets over time
+ */
+export function getTotalsHistory(snapshots: StatsSnapshot[]): SnapshotTotalsPoint[] {
+  return snapshots.map(snapshot => ({
+    timestamp: snapshot.timestamp,
+    totalLong: snapshot.wallets.reduce((sum, wallet) => sum + wallet.longPosition, 0),
+    totalShort: snapshot.wallets.reduce((sum, wallet) => sum + wallet.shortPosition, 0),
+    walletCount: snapshot.wallets.length,
+  }));
+}
@@ -0,0 +1,74 @@
+/**
+ * Live Feed Trade Thresholds
+ * Whale / golden-setup / noise sizes per coin. Defaults scale with the coin's typical
+ * (median) trade size on the tape, so a $100k PURR trade is a whale and a $100k BTC
+ * trade is not; per-coin overrides from the settings panel win over the defaults
+ */
+
+import type { TradeThresholds } from '@/types';
+
+// Used until a coin has enough trades to judge its typical size
+export const DEFAULT_THRESHOLDS: TradeThresholds = {
+  whaleUsd: 100_000,
+  goldenUsd: 50_000,
+  noiseUsd: 100,
+};
+
+// Recent trade sizes kept per coin, and how many are needed for a median worth using
+export const TYPICAL_SIZE_WINDOW = 200;
+export const MIN_TYPICAL_SAMPLES = 50;
+
+// A whale trade is this many times the median trade, within bounds
+const WHALE_MEDIAN_MULTIPLE = 100;
+const MIN_WHALE_USD = 10_000;
+const MAX_WHALE_USD = 1_000_000;
+// Noise is a tenth of the median trade, within bounds
+const NOISE_MEDIAN_FRACTION = 0.1;
+const MIN_NOISE_USD = 10;
+const MAX_NOISE_USD = 1_000;
+
+export type ThresholdOverrides = Record<string, Partial<TradeThresholds>>;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Round to 1, 2 or 5 x 10^n so defaults don't shift with every new median
+ */
+function roundToStep(value: number): number {
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step = [1, 2, 5, 10].find(multiple => value / magnitude <= multiple * 1.5) ?? 10;
+  return step * magnitude;
+}
+
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Default thresholds for a coin with this median trade size (none = global defaults)
+ */
+export function deriveThresholds(typicalSizeUsd: number | undefined): TradeThresholds {
+  if (!typicalSizeUsd || typicalSizeUsd <= 0) return DEFAULT_THRESHOLDS;
+
+  const whaleUsd = roundToStep(clamp(typicalSizeUsd * WHALE_MEDIAN_MULTIPLE, MIN_WHALE_USD, MAX_WHALE_USD));
+  return {
+    whaleUsd,
+    goldenUsd: whaleUsd / 2,
+    noiseUsd: roundToStep(clamp(typicalSizeUsd * NOISE_MEDIAN_FRACTION, MIN_NOISE_USD, MAX_NOISE_USD)),
+  };
+}
+
+/**
+ * Effective thresholds for a coin: its overrides on top of the derived defaults
+ */
+export function resolveThresholds(
+  coin: string,
+  overrides: ThresholdOverrides,
+  typicalSizes: Record<string, number>
+): TradeThresholds {
+  return { ...deriveThresholds(typicalSizes[coin]), ...overrides[coin] };
+}
@@ -4,6 +4,8 @@
 
 import { type ClassValue, clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import { DEFAULT_THRESHOLDS } from './thresholds';
+import type { TradeStats } from '@/types';
 
 /**
  * Merge Tailwind classes with proper precedence
@@ -56,6 +58,13 @@ export function truncateAddress(address: string, chars: number = 4): string {
   return `${address.slice(0, chars + 2)}...${address.slice(-chars)}`;
 }
 
+/**
+ * Check for a well-formed wallet address (0x + 40 hex chars)
+ */
+export function isValidAddress(address: string): boolean {
+  return /^0x[0-9a-fA-F]{40}$/.test(address);
+}
+
 /**
  * Format timestamp to relative time
  */
@@ -81,6 +90,57 @@ export function formatTime(timestamp: number): string {
   });
 }
 
+/**
+ * Format timestamp to short date + time (e.g. "Oct 14, 13:05")
+ */
+export function formatDateTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString('en-US', {
+    hour12: false,
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Format a duration in minutes as a compact string (e.g. "45m", "3h 20m", "2d 4h")
+ */
+export function formatDuration(minutes: number): string {
+  const total = Math.round(minutes);
+  if (total < 60) return `${total}m`;
+  if (total < 1440) return `${Math.floor(total / 60)}h ${total % 60}m`;
+  return `${Math.floor(total / 1440)}d ${Math.floor((total % 1440) / 60)}h`;
+}
+
+/**
+ * One-line summary of closed-trade stats (used for win rate tooltips)
+ */
+export function formatTradeStats(stats: TradeStats): string {
+  if (stats.closedTrades === 0) return 'No closed trades';
+
+  const profitFactor = stats.profitFactor === null ? '∞' : stats.profitFactor.toFixed(2);
+  return [
+    `${stats.closedTrades} closed trade${stats.closedTrades !== 1 ? 's' : ''}`,
+    `avg win ${formatUSD(stats.avgWin)}`,
+    `avg loss ${formatUSD(stats.avgLoss)}`,
+    `PF ${profitFactor}`,
+    `avg hold ${formatDuration(stats.avgHoldingMinutes)}`,
+  ].join(' · ');
+}
+
+/**
+ * Gross -> net PnL breakdown (used for PnL tooltips)
+ */
+export function formatPnlBreakdown(gross: number, fees: number, funding: number): string {
+  return [
+    `Gross ${formatUSD(gross)}`,
+    `Fees ${formatUSD(-fees)}`,
+    `Funding ${formatUSD(funding)}`,
+    `Net ${formatUSD(gross - fees + funding)}`,
+  ].join(' · ');
+}
+
 /**
  * Generate unique ID for trade
  */
@@ -90,10 +150,14 @@ export function generateTradeId(tid: number, hash: string): string {
 
 /**
  * Determine if a trade is a "Golden Setup"
- * Smart Money + Position > $50k
+ * Smart Money + Position above the golden threshold (per coin on the live feed, see lib/thresholds.ts)
  */
-export function isGoldenSetup(isSmart: boolean, sizeUsd: number): boolean {
-  return isSmart && sizeUsd > 50_000;
+export function isGoldenSetup(
+  isSmart: boolean,
+  sizeUsd: number,
+  goldenUsd: number = DEFAULT_THRESHOLDS.goldenUsd
+): boolean {
+  return isSmart && sizeUsd > goldenUsd;
 }
 
 /**
@@ -0,0 +1,72 @@
+/**
+ * Watchlist Storage
+ * Named subsets of the wallet registry (e.g. "BTC swing traders", "fund wallets")
+ * Supports: Vercel KV (primary) or in-memory fallback
+ */
+
+import { kv } from '@vercel/kv';
+import type { Watchlist } from '@/types';
+
+const WATCHLISTS_KEY = 'watchlists'; // Hash: id -> JSON watchlist
+
+// In-memory fallback for development (lost on restart)
+// Held on globalThis so every route bundle sees the same lists (see lib/cache.ts)
+const memoryStore = globalThis as typeof globalThis & {
+  watchlists?: Record<string, Watchlist>;
+};
+
+function hasKv(): boolean {
+  return Boolean(process.env.KV_REST_API_URL);
+}
+
+function getMemoryWatchlists(): Record<string, Watchlist> {
+  memoryStore.watchlists ??= {};
+  return memoryStore.watchlists;
+}
+
+function sortWatchlists(watchlists: Watchlist[]): Watchlist[] {
+  return watchlists.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * All watchlists, by name
+ * Throws on KV failure
+ */
+export async function getWatchlists(): Promise<Watchlist[]> {
+  if (hasKv()) {
+    const raw = await kv.hgetall<Record<string, unknown>>(WATCHLISTS_KEY);
+    return sortWatchlists(
+      Object.values(raw ?? {}).map(value =>
+        (typeof value === 'string' ? JSON.parse(value) : value) as Watchlist
+      )
+    );
+  }
+  return sortWatchlists(Object.values(getMemoryWatchlists()));
+}
+
+/**
+ * Create or replace a watchlist
+ * Throws on KV failure
+ */
+export async function saveWatchlist(watchlist: Watchlist): Promise<void> {
+  if (hasKv()) {
+    await kv.hset(WATCHLISTS_KEY, { [watchlist.id]: JSON.stringify(watchlist) });
+  } else {
+    getMemoryWatchlists()[watchlist.id] = watchlist;
+  }
+  console.log(`[Cache] Saved watchlist "${watchlist.name}" (${watchlist.addresses.length} wallets)`);
+}
+
+/**
+ * Delete a watchlist; resolves false if it did not exist
+ * Throws on KV failure
+ */
+export async function deleteWatchlist(id: string): Promise<boolean> {
+  if (hasKv()) {
+    return (await kv.hdel(WATCHLISTS_KEY, id)) > 0;
+  }
+  const watchlists = getMemoryWatchlists();
+  if (!watchlists[id]) return false;
+  delete watchlists[id];
+  return true;
+}
@@ -0,0 +1,301 @@
+/**
+ * Fake Hyperliquid Server
+ *
+ * Usage: node scripts/fake-hyperliquid.js   (or: npm run fake-hl)
+ *
+ * Local stand-in for the Hyperliquid API, driven by recorded fixtures in
+ * scripts/fixtures/hyperliquid. Point the app at it with:
+ *
+ *   HYPERLIQUID_API_URL=http://localhost:8788/info
+ *   NEXT_PUBLIC_HYPERLIQUID_API_URL=http://localhost:8788/info
+ *   NEXT_PUBLIC_HYPERLIQUID_WS_URL=ws://localhost:8788/ws
+ *
+ * POST /info  -> { type, user? } resolved to fixtures/<type>/<user>.json,
+ *                fixtures/<type>/default.json or fixtures/<type>.json
+ *                (userFillsByTime and userFunding honour startTime/endTime
+ *                and are paged like the real API; portfolio history tuples
+ *                are re-stamped)
+ * GET  /leaderboard -> fixtures/leaderboard.json (stats-data leaderboard format);
+ *                point HYPERLIQUID_LEADERBOARD_URL at http://localhost:8788/leaderboard
+ * WS   /ws    -> subscribe/unsubscribe for `trades` and `userFills`,
+ *                replays fixtures/trades.json with fresh timestamps
+ *
+ * All `time`/`timestamp` fields are shifted by (now - manifest.recordedAt) so fixture
+ * history always ends just before "now" and 1d/7d/30d windows stay populated.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const http = require('http');
+const crypto = require('crypto');
+const { WebSocketServer } = require('ws');
+
+const PORT = parseInt(process.env.FAKE_HL_PORT || '8788', 10);
+const FIXTURES_DIR = process.env.FAKE_HL_FIXTURES || path.join(__dirname, 'fixtures/hyperliquid');
+const TRADE_INTERVAL_MS = parseInt(process.env.FAKE_HL_TRADE_INTERVAL_MS || '750', 10);
+
+const manifest = JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, 'manifest.json'), 'utf-8'));
+
+// ============================================
+// FIXTURES
+// ============================================
+
+function readJson(file) {
+  return JSON.parse(fs.readFileSync(file, 'utf-8'));
+}
+
+/**
+ * Resolve a fixture for an info request type, per user when available
+ */
+function loadFixture(type, user) {
+  if (!/^[a-zA-Z]+$/.test(type)) return null;
+
+  const dir = path.join(FIXTURES_DIR, type);
+  if (fs.existsSync(dir) && fs.statSync(dir).isDirectory()) {
+    const userFile = user && /^0x[0-9a-f]{40}$/.test(user)
+      ? path.join(dir, `${user}.json`)
+      : null;
+    if (userFile && fs.existsSync(userFile)) return readJson(userFile);
+
+    const defaultFile = path.join(dir, 'default.json');
+    return fs.existsSync(defaultFile) ? readJson(defaultFile) : null;
+  }
+
+  const file = path.join(FIXTURES_DIR, `${type}.json`);
+  return fs.existsSync(file) ? readJson(file) : null;
+}
+
+// Millisecond timestamp keys used across info responses (twapHistory states use `timestamp`)
+const TIME_KEYS = new Set(['time', 'timestamp']);
+
+/**
+ * Shift every timestamp field so the recording ends at "now"
+ */
+function shiftTimes(value, offset) {
+  if (Array.isArray(value)) return value.map(item => shiftTimes(item, offset));
+  if (value && typeof value === 'object') {
+    const shifted = {};
+    for (const [key, item] of Object.entries(value)) {
+      shifted[key] = TIME_KEYS.has(key) && typeof item === 'number'
+        ? item + offset
+        : shiftTimes(item, offset);
+    }
+    return shifted;
+  }
+  return value;
+}
+
+/**
+ * Serve a time-series fixture like the real time-range endpoints:
+ * ascending entries in [startTime, endTime], at most pageSize per response
+ */
+function timeRangePaged(fixtureType, pageSize) {
+  return (request, user, offset) => {
+    const entries = loadFixture(fixtureType, user);
+    if (!entries) return null;
+
+    const startTime = Number(request.startTime) || 0;
+    const endTime = request.endTime != null ? Number(request.endTime) : Infinity;
+
+    return shiftTimes(entries, offset)
+      .filter(entry => entry.time >= startTime && entry.time <= endTime)
+      .sort((a, b) => a.time - b.time)
+      .slice(0, pageSize);
+  };
+}
+
+/**
+ * Serve portfolio history, whose points are [time, value] tuples rather than
+ * objects with a `time` key
+ */
+function shiftedPortfolio(request, user, offset) {
+  const periods = loadFixture('portfolio', user);
+  if (!periods) return null;
+
+  const shiftPoints = points => points.map(([time, value]) => [time + offset, value]);
+  return periods.map(([period, history]) => [period, {
+    ...history,
+    accountValueHistory: shiftPoints(history.accountValueHistory),
+    pnlHistory: shiftPoints(history.pnlHistory),
+  }]);
+}
+
+/**
+ * Info types that need request-aware handling (page sizes match the real API)
+ */
+const DERIVED_TYPES = {
+  userFillsByTime: timeRangePaged('userFills', 2000),
+  userFunding: timeRangePaged('userFunding', 500),
+  portfolio: shiftedPortfolio,
+};
+
+// ============================================
+// HTTP: POST /info
+// ============================================
+
+function sendJson(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    // Browser clients (meta request) call /info cross-origin
+    'Access-Control-Allow-Origin': '*',
+  });
+  res.end(typeof body === 'string' ? body : JSON.stringify(body));
+}
+
+function handleInfo(req, res) {
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    let request;
+    try {
+      request = JSON.parse(raw || '{}');
+    } catch {
+      return sendJson(res, 400, 'Failed to deserialize the JSON body');
+    }
+
+    const user = typeof request.user === 'string' ? request.user.toLowerCase() : undefined;
+    const offset = Date.now() - manifest.recordedAt;
+    const derive = DERIVED_TYPES[request.type];
+    const fixture = derive
+      ? derive(request, user, offset)
+      : loadFixture(request.type, user);
+
+    if (fixture === null) {
+      console.log(`[FakeHL] ⚠️  No fixture for type=${request.type}`);
+      return sendJson(res, 422, 'Failed to deserialize the JSON body into the target type');
+    }
+
+    console.log(`[FakeHL] /info type=${request.type}${user ? ` user=${user}` : ''}`);
+    sendJson(res, 200, derive ? fixture : shiftTimes(fixture, offset));
+  });
+}
+
+const server = http.createServer((req, res) => {
+  if (req.method === 'POST' && req.url === '/info') {
+    return handleInfo(req, res);
+  }
+  if (req.method === 'GET' && req.url === '/leaderboard') {
+    console.log('[FakeHL] /leaderboard');
+    return sendJson(res, 200, fs.readFileSync(path.join(FIXTURES_DIR, 'leaderboard.json'), 'utf-8'));
+  }
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    });
+    return res.end();
+  }
+  sendJson(res, 404, { error: 'Not found' });
+});
+
+// ============================================
+// WS: /ws
+// ============================================
+
+const recordedTrades = readJson(path.join(FIXTURES_DIR, 'trades.json'));
+let nextTid = Math.max(...recordedTrades.map(t => t.tid)) + 1;
+let replayIndex = 0;
+
+const wss = new WebSocketServer({ server, path: '/ws' });
+
+wss.on('connection', (ws) => {
+  const coins = new Set();
+  const users = new Set();
+  console.log('[FakeHL] 🔌 WS client connected');
+
+  ws.on('message', (data) => {
+    let message;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      return;
+    }
+
+    if (message.method === 'ping') {
+      return ws.send(JSON.stringify({ channel: 'pong' }));
+    }
+
+    const subscription = message.subscription || {};
+    const subscribe = message.method === 'subscribe';
+    if (!subscribe && message.method !== 'unsubscribe') return;
+
+    if (subscription.type === 'trades' && subscription.coin) {
+      subscribe ? coins.add(subscription.coin) : coins.delete(subscription.coin);
+    } else if (subscription.type === 'userFills' && subscription.user) {
+      const user = subscription.user.toLowerCase();
+      if (subscribe) {
+        users.add(user);
+        ws.send(JSON.stringify({
+          channel: 'userFills',
+          data: { isSnapshot: true, user, fills: [] },
+        }));
+      } else {
+        users.delete(user);
+      }
+    } else {
+      return;
+    }
+
+    ws.send(JSON.stringify({ channel: 'subscriptionResponse', data: message }));
+  });
+
+  // Replay recorded trades for subscribed coins, re-stamped as live
+  const interval = setInterval(() => {
+    if (coins.size === 0 && users.size === 0) return;
+
+    const recorded = recordedTrades[replayIndex++ % recordedTrades.length];
+    const trade = {
+      ...recorded,
+      time: Date.now(),
+      tid: nextTid++,
+      hash: `0x${crypto.randomBytes(32).toString('hex')}`,
+    };
+
+    if (coins.has(trade.coin)) {
+      ws.send(JSON.stringify({ channel: 'trades', data: [trade] }));
+    }
+
+    trade.users.forEach((addr, i) => {
+      const user = addr.toLowerCase();
+      if (!users.has(user)) return;
+
+      // users = [maker, taker]; the taker trades on trade.side
+      const isTaker = i === 1;
+      const side = isTaker ? trade.side : (trade.side === 'B' ? 'A' : 'B');
+      ws.send(JSON.stringify({
+        channel: 'userFills',
+        data: {
+          user,
+          fills: [{
+            coin: trade.coin,
+            px: trade.px,
+            sz: trade.sz,
+            side,
+            time: trade.time,
+            startPosition: '0.0',
+            dir: side === 'B' ? 'Open Long' : 'Open Short',
+            closedPnl: '0.0',
+            hash: trade.hash,
+            oid: trade.tid,
+            crossed: isTaker,
+            fee: (parseFloat(trade.px) * parseFloat(trade.sz) * 0.00035).toFixed(6),
+            tid: trade.tid,
+            feeToken: 'USDC',
+          }],
+        },
+      }));
+    });
+  }, TRADE_INTERVAL_MS);
+
+  ws.on('close', () => {
+    clearInterval(interval);
+    console.log('[FakeHL] 🔌 WS client disconnected');
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`✅ Fake Hyperliquid listening on http://localhost:${PORT}`);
+  console.log(`   /info  fixtures: ${FIXTURES_DIR}`);
+  console.log(`   /ws    replaying ${recordedTrades.length} recorded trades every ${TRADE_INTERVAL_MS}ms`);
+});
@@ -0,0 +1,157 @@
+/**
+ * Fake Notification Server
+ *
+ * Usage: node scripts/fake-notify.js   (or: npm run fake-notify)
+ *
+ * Local stand-in for every alert channel in lib/notifications.ts. Point the app at it with:
+ *
+ *   TELEGRAM_API_URL=http://localhost:8789/telegram   TELEGRAM_BOT_TOKEN=anything
+ *   DISCORD_API_URL=http://localhost:8789/discord     (rule webhookUrl: http://localhost:8789/discord/webhooks/1/x)
+ *   SMTP_HOST=localhost SMTP_PORT=2525 SMTP_FROM=alerts@example.com
+ *     (with SMTP_USER set, also SMTP_ALLOW_INSECURE=true: there is no TLS here)
+ *   webhook channels: http://localhost:8789/hooks/anything
+ *
+ * POST *           -> 200 (after FAKE_NOTIFY_FAIL_FIRST 503s per path, to exercise retries);
+ *                     body, headers and whether the X-Smart-HL-Signature checks out
+ *                     against ALERT_WEBHOOK_SECRET are recorded
+ * GET  /received   -> everything recorded so far (HTTP and SMTP), oldest first
+ * DELETE /received -> clear it
+ * SMTP :2525       -> accepts any message (no TLS / auth) and records it
+ */
+
+const http = require('http');
+const net = require('net');
+const crypto = require('crypto');
+
+const PORT = parseInt(process.env.FAKE_NOTIFY_PORT || '8789', 10);
+const SMTP_PORT = parseInt(process.env.FAKE_NOTIFY_SMTP_PORT || '2525', 10);
+const FAIL_FIRST = parseInt(process.env.FAKE_NOTIFY_FAIL_FIRST || '0', 10);
+const WEBHOOK_SECRET = process.env.ALERT_WEBHOOK_SECRET || '';
+
+let received = [];
+const failures = new Map(); // path -> 503s sent so far
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function checkSignature(headers, body) {
+  const signature = headers['x-smart-hl-signature'];
+  if (!signature || !WEBHOOK_SECRET) return null;
+  const expected = crypto
+    .createHmac('sha256', WEBHOOK_SECRET)
+    .update(`${headers['x-smart-hl-timestamp']}.${body}`)
+    .digest('hex');
+  return signature === `sha256=${expected}`;
+}
+
+// ============================================
+// HTTP
+// ============================================
+
+const server = http.createServer((req, res) => {
+  if (req.url === '/received') {
+    if (req.method === 'DELETE') {
+      received = [];
+      failures.clear();
+      return sendJson(res, 200, { ok: true });
+    }
+    return sendJson(res, 200, received);
+  }
+  if (req.method !== 'POST') {
+    return sendJson(res, 404, { error: 'Not found' });
+  }
+
+  let body = '';
+  req.on('data', (chunk) => { body += chunk; });
+  req.on('end', () => {
+    const failed = failures.get(req.url) || 0;
+    if (failed < FAIL_FIRST) {
+      failures.set(req.url, failed + 1);
+      console.log(`[FakeNotify] ⚠️  503 for ${req.url} (${failed + 1}/${FAIL_FIRST})`);
+      return sendJson(res, 503, { ok: false, description: 'Service unavailable' });
+    }
+
+    let json = null;
+    try {
+      json = JSON.parse(body);
+    } catch {
+      // Recorded as text
+    }
+    received.push({
+      channel: 'http',
+      path: req.url,
+      headers: req.headers,
+      body: json ?? body,
+      signatureValid: checkSignature(req.headers, body),
+      time: Date.now(),
+    });
+    console.log(`[FakeNotify] POST ${req.url}`);
+    sendJson(res, 200, { ok: true });
+  });
+});
+
+// ============================================
+// SMTP
+// ============================================
+
+const smtpServer = net.createServer((socket) => {
+  let buffer = '';
+  let inData = false;
+  let message = { from: '', to: [], data: '' };
+
+  const reply = (line) => socket.write(`${line}\r\n`);
+  reply('220 fake-notify ESMTP');
+
+  socket.on('data', (chunk) => {
+    buffer += chunk.toString('utf-8');
+    let newline;
+    while ((newline = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 2);
+
+      if (inData) {
+        if (line === '.') {
+          inData = false;
+          received.push({ channel: 'smtp', ...message, time: Date.now() });
+          console.log(`[FakeNotify] SMTP message to ${message.to.join(', ')}`);
+          message = { from: '', to: [], data: '' };
+          reply('250 OK queued');
+        } else {
+          message.data += `${line.startsWith('..') ? line.slice(1) : line}\r\n`;
+        }
+        continue;
+      }
+
+      const command = line.slice(0, 4).toUpperCase();
+      if (command === 'EHLO' || command === 'HELO') {
+        reply('250-fake-notify');
+        reply('250 AUTH PLAIN');
+      } else if (command === 'AUTH') {
+        reply('235 Authenticated');
+      } else if (command === 'MAIL') {
+        message.from = line.slice(line.indexOf(':') + 1).trim();
+        reply('250 OK');
+      } else if (command === 'RCPT') {
+        message.to.push(line.slice(line.indexOf(':') + 1).trim());
+        reply('250 OK');
+      } else if (command === 'DATA') {
+        inData = true;
+        reply('354 End data with <CR><LF>.<CR><LF>');
+      } else if (command === 'QUIT') {
+        reply('221 Bye');
+        socket.end();
+      } else {
+        reply('250 OK');
+      }
+    }
+  });
+  socket.on('error', () => {});
+});
+
+server.listen(PORT, () => {
+  console.log(`✅ Fake notifications listening on http://localhost:${PORT}`);
+  console.log(`   SMTP on localhost:${SMTP_PORT}${FAIL_FIRST ? `, failing the first ${FAIL_FIRST} POSTs per path` : ''}`);
+});
+smtpServer.listen(SMTP_PORT);
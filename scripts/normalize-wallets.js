@@ -1,46 +1,192 @@
 /**
  * Helper Script: Normalize Wallet Addresses
- * 
- * Usage: node scripts/normalize-wallets.js
- * 
- * Paste your addresses (one per line) into addresses.txt
+ *
+ * Usage: node scripts/normalize-wallets.js [file]
+ *
+ * Reads addresses.txt by default, or the given .txt / .csv / .json file
  * This script will generate the TypeScript object format
+ *
+ * Formats (everything but the address is optional):
+ *   .txt   one wallet per line: address | name | tier | tags | notes
+ *          tags are comma-separated; lines starting with # are ignored
+ *   .csv   header row with address,name,tier,tags,notes (tags separated by ;)
+ *   .json  [{ "address", "name", "tier", "tags": [], "notes" }] or an
+ *          object keyed by address with the same fields
+ *
+ * The generated list only seeds the wallet registry (lib/cache.ts) on first use;
+ * day-to-day additions and edits go through /admin or /api/registry
  */
 
 const fs = require('fs');
 const path = require('path');
 
-// Read addresses from file (one per line)
-const addressesFile = path.join(__dirname, '../addresses.txt');
+const DEFAULT_LABEL = 'Manual Smart List';
+const TIERS = ['smart', 'whale', 'institution'];
+
+const inputFile = path.resolve(process.argv[2] || path.join(__dirname, '../addresses.txt'));
 const outputFile = path.join(__dirname, '../lib/data/static-wallets.ts');
 
-try {
-  const addresses = fs.readFileSync(addressesFile, 'utf-8')
+// ============================================
+// PARSERS
+// ============================================
+
+function splitTags(value) {
+  if (Array.isArray(value)) return value.map(String);
+  return String(value || '').split(/[;,]/);
+}
+
+/**
+ * Split one CSV line, honouring double-quoted cells ("" escapes a quote)
+ */
+function parseCsvLine(line) {
+  const cells = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells.map(value => value.trim());
+}
+
+function parseTxt(content) {
+  return content
     .split('\n')
-    .map(addr => addr.trim())
-    .filter(addr => addr.length > 0 && addr.startsWith('0x'));
+    .map(line => line.trim())
+    .filter(line => line.length > 0 && !line.startsWith('#'))
+    .map(line => {
+      const [address, name, tier, tags, notes] = line.split('|').map(value => value.trim());
+      return { address, name, tier, tags, notes };
+    });
+}
+
+function parseCsv(content) {
+  const [header, ...rows] = content.split(/\r?\n/).filter(line => line.trim());
+  const columns = parseCsvLine(header).map(column => column.toLowerCase());
+  if (!columns.includes('address')) {
+    throw new Error('CSV header must include an "address" column');
+  }
+
+  return rows.map(row => {
+    const cells = parseCsvLine(row);
+    return Object.fromEntries(columns.map((column, i) => [column, cells[i]]));
+  });
+}
 
-  console.log(`Found ${addresses.length} addresses`);
+function parseJson(content) {
+  const data = JSON.parse(content);
+  if (Array.isArray(data)) {
+    return data.map(entry => (typeof entry === 'string' ? { address: entry } : entry));
+  }
+  return Object.entries(data).map(([address, entry]) => ({ ...entry, address }));
+}
+
+/**
+ * Validate and normalize one record; returns null (with a warning) when unusable
+ */
+function normalizeRecord(record, index) {
+  const address = String(record.address || '').trim().toLowerCase();
+  if (!/^0x[0-9a-f]{40}$/.test(address)) {
+    console.warn(`⚠️  Skipping entry ${index + 1}: invalid address "${record.address}"`);
+    return null;
+  }
+
+  let tier = String(record.tier || '').trim().toLowerCase() || 'smart';
+  if (!TIERS.includes(tier)) {
+    console.warn(`⚠️  ${address}: unknown tier "${record.tier}", using "smart"`);
+    tier = 'smart';
+  }
+
+  return {
+    address,
+    name: String(record.name || record.label || '').trim() || DEFAULT_LABEL,
+    tier,
+    tags: Array.from(new Set(splitTags(record.tags).map(tag => tag.trim()).filter(Boolean))),
+    notes: String(record.notes || '').trim(),
+  };
+}
+
+// ============================================
+// OUTPUT
+// ============================================
+
+function quote(value) {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+}
+
+function formatEntry(wallet) {
+  const details = [];
+  if (wallet.tier !== 'smart') details.push(`tier: '${wallet.tier}'`);
+  if (wallet.tags.length > 0) details.push(`tags: [${wallet.tags.map(quote).join(', ')}]`);
+  if (wallet.notes) details.push(`notes: ${quote(wallet.notes)}`);
+
+  const args = details.length > 0
+    ? `${quote(wallet.name)}, { ${details.join(', ')} }`
+    : quote(wallet.name);
+  return `  '${wallet.address}': createSmartWallet(${args}),`;
+}
+
+try {
+  const content = fs.readFileSync(inputFile, 'utf-8');
+  const extension = path.extname(inputFile).toLowerCase();
+  const records = extension === '.json'
+    ? parseJson(content)
+    : extension === '.csv'
+    ? parseCsv(content)
+    : parseTxt(content);
+
+  // Later duplicates override earlier ones
+  const wallets = new Map();
+  records.forEach((record, i) => {
+    const wallet = normalizeRecord(record, i);
+    if (!wallet) return;
+    if (wallets.has(wallet.address)) {
+      console.warn(`⚠️  Duplicate ${wallet.address}: keeping the last entry`);
+      wallets.delete(wallet.address);
+    }
+    wallets.set(wallet.address, wallet);
+  });
+
+  console.log(`Found ${wallets.size} addresses in ${path.basename(inputFile)}`);
 
   // Generate TypeScript object
-  const entries = addresses.map(addr => {
-    const normalized = addr.toLowerCase();
-    return `  '${normalized}': createSmartWallet('Manual Smart List'),`;
-  }).join('\n');
+  const entries = Array.from(wallets.values()).map(formatEntry).join('\n');
 
   const template = `/**
  * Static Smart Money Wallets
- * Auto-generated from addresses.txt
+ * Auto-generated from ${path.basename(inputFile)}
  * Generated: ${new Date().toISOString()}
  */
 
-import type { SmartWalletMap } from '@/types';
+import type { SmartWalletEntry, SmartWalletMap } from '@/types';
 
-function createSmartWallet(label: string = 'Manual Smart List') {
+type SmartWalletDetails = Partial<Pick<SmartWalletEntry, 'tier' | 'tags' | 'notes'>>;
+
+function createSmartWallet(label: string = '${DEFAULT_LABEL}', details: SmartWalletDetails = {}): SmartWalletEntry {
   return {
     isSmartMoney: true,
     labels: [label],
-    tier: 'smart' as const,
+    tier: details.tier ?? 'smart',
+    ...(details.tags?.length ? { tags: details.tags } : {}),
+    ...(details.notes ? { notes: details.notes } : {}),
   };
 }
 
@@ -54,12 +200,11 @@ export function getStaticWalletCount(): number {
 `;
 
   fs.writeFileSync(outputFile, template, 'utf-8');
-  console.log(`✅ Generated ${addresses.length} wallet entries in ${outputFile}`);
+  console.log(`✅ Generated ${wallets.size} wallet entries in ${outputFile}`);
 } catch (error) {
   console.error('Error:', error.message);
   console.log('\nUsage:');
-  console.log('1. Create addresses.txt in project root');
-  console.log('2. Paste addresses (one per line)');
-  console.log('3. Run: node scripts/normalize-wallets.js');
+  console.log('1. Create addresses.txt in project root (or a .csv / .json file)');
+  console.log('2. Add wallets, one per line: address | name | tier | tags | notes');
+  console.log('3. Run: node scripts/normalize-wallets.js [file]');
 }
-
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { mergeSettings, migrateSettings, SETTINGS_VERSION } from './settings';
+import { defaultDashboardView, useStore } from './useStore';
+
+const defaults = useStore.getState();
+const pinned = '0x1234567890abcdef1234567890abcdef12345678';
+
+describe('migrateSettings', () => {
+  it('keeps feed cues and pinned wallets from v0 and nothing else', () => {
+    const feedCues = { desktop: true, sound: false, muted: { golden: false, whale: true, pinned: false } };
+    const migrated = migrateSettings({ feedCues, pinnedWallets: [pinned], trades: [] }, 0);
+
+    expect(migrated).toEqual({ feedCues, pinnedWallets: [pinned] });
+  });
+
+  it('discards settings saved by a newer version', () => {
+    expect(migrateSettings({ maxTrades: 200 }, SETTINGS_VERSION + 1)).toEqual({});
+  });
+});
+
+describe('mergeSettings', () => {
+  it('restores v0 settings over the defaults', () => {
+    const feedCues = { desktop: false, sound: true, muted: { golden: true, whale: false, pinned: false } };
+    const merged = mergeSettings(migrateSettings({ feedCues, pinnedWallets: [pinned] }, 0), defaults);
+
+    expect(merged.feedCues).toEqual(feedCues);
+    expect(merged.pinnedWallets).toEqual([pinned]);
+    expect(merged.filters).toEqual(defaults.filters);
+    expect(merged.dashboardView).toEqual(defaultDashboardView);
+  });
+
+  it('restores valid choices and defaults invalid ones', () => {
+    const merged = mergeSettings(
+      {
+        dashboardView: {
+          sortField: 'pnl7d',
+          sortDirection: 'sideways',
+          sizeFilter: '5m',
+          pnlFilter: '10k',
+          pnlMode: 'net',
+          tierFilter: 'legend',
+          selectedToken: 42,
+        },
+        filters: { selectedTier: 'whale', minTradeSize: '1000' },
+      },
+      defaults
+    );
+
+    expect(merged.dashboardView).toEqual({
+      ...defaultDashboardView,
+      sortField: 'pnl7d',
+      pnlFilter: '10k',
+      pnlMode: 'net',
+    });
+    expect(merged.filters).toEqual({ ...defaults.filters, selectedTier: 'whale' });
+  });
+
+  it('does not restore typicalTradeSizes', () => {
+    const merged = mergeSettings({ typicalTradeSizes: { BTC: 5_000 } }, defaults);
+
+    expect(merged.typicalTradeSizes).toEqual(defaults.typicalTradeSizes);
+  });
+});
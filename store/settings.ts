@@ -0,0 +1,134 @@
+/**
+ * Persisted Settings
+ * The slice of the store saved to localStorage (zustand persist), its schema version,
+ * the migrations that upgrade settings saved by older versions, and the merge that
+ * lays saved values over the defaults
+ */
+
+import { WALLET_TIERS } from '@/lib/constants';
+import type { DashboardView, StoreState } from './useStore';
+import type { SortDirection, SortField } from '@/types';
+
+export const SETTINGS_STORAGE_KEY = 'smart-hl-settings';
+
+// Bump when a persisted field is renamed, reshaped or removed, and add a migration below
+export const SETTINGS_VERSION = 1;
+
+export const PERSISTED_KEYS = [
+  'filters',
+  'maxTrades',
+  'dashboardView',
+  'thresholdOverrides',
+  'showAllTrades',
+  'feedCues',
+  'pinnedWallets',
+] as const;
+
+export type PersistedSettings = Pick<StoreState, (typeof PERSISTED_KEYS)[number]>;
+
+type SavedSettings = Record<string, unknown>;
+
+/**
+ * Each entry upgrades settings saved at that version to the next one
+ */
+const MIGRATIONS: Record<number, (settings: SavedSettings) => SavedSettings> = {
+  // v0 saved only feedCues and pinnedWallets, both unchanged; the slices added in v1
+  // (feed filters, dashboard view, thresholds) start from their defaults
+  0: (settings) => ({
+    feedCues: settings.feedCues,
+    pinnedWallets: settings.pinnedWallets,
+  }),
+};
+
+const SORT_FIELDS: SortField[] = [
+  'pnl7d',
+  'pnl30d',
+  'winRate7d',
+  'winRate30d',
+  'side',
+  'size',
+  'entryPrice',
+  'currentPrice',
+  'positionPnl',
+  'liquidationPrice',
+];
+const SORT_DIRECTIONS: SortDirection[] = ['asc', 'desc'];
+const SIZE_FILTERS: DashboardView['sizeFilter'][] = ['all', '10k', '50k', '250k', '1m'];
+const PNL_FILTERS: DashboardView['pnlFilter'][] = ['all', '0', '10k', '50k', '250k'];
+const PNL_MODES: DashboardView['pnlMode'][] = ['gross', 'net'];
+
+// Fields limited to a fixed set of values, by path; anything else saved falls back to the default
+const ALLOWED_VALUES: Record<string, readonly unknown[]> = {
+  'filters.selectedTier': [...WALLET_TIERS, null],
+  'dashboardView.sortField': [...SORT_FIELDS, null],
+  'dashboardView.sortDirection': SORT_DIRECTIONS,
+  'dashboardView.sizeFilter': SIZE_FILTERS,
+  'dashboardView.pnlFilter': PNL_FILTERS,
+  'dashboardView.pnlMode': PNL_MODES,
+  'dashboardView.tierFilter': [...WALLET_TIERS, 'all'],
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function pickSettings(state: StoreState): PersistedSettings {
+  return {
+    filters: state.filters,
+    maxTrades: state.maxTrades,
+    dashboardView: state.dashboardView,
+    thresholdOverrides: state.thresholdOverrides,
+    showAllTrades: state.showAllTrades,
+    feedCues: state.feedCues,
+    pinnedWallets: state.pinnedWallets,
+  };
+}
+
+/**
+ * Bring settings saved at an older version up to SETTINGS_VERSION
+ * Settings from a newer version (after a rollback) are dropped rather than guessed at
+ */
+export function migrateSettings(persisted: unknown, version: number): SavedSettings {
+  if (!isPlainObject(persisted) || version > SETTINGS_VERSION) {
+    console.warn(`[Settings] Discarding saved settings (version ${version})`);
+    return {};
+  }
+
+  let settings = persisted;
+  for (let from = version; from < SETTINGS_VERSION; from++) {
+    settings = MIGRATIONS[from](settings);
+  }
+  return settings;
+}
+
+/**
+ * A saved value where it matches the default's shape (and ALLOWED_VALUES), else the default
+ * Fixed-shape objects merge key by key, so fields added later get their defaults
+ * and removed ones are dropped; records with empty defaults (per-coin maps) are taken whole
+ */
+function mergeValue(saved: unknown, fallback: unknown, path: string): unknown {
+  if (saved === undefined) return fallback;
+  const allowed = ALLOWED_VALUES[path];
+  if (allowed) return allowed.includes(saved) ? saved : fallback;
+  // Other nullable choices (selected token, tag) take any saved string
+  if (fallback === null) return saved === null || typeof saved === 'string' ? saved : fallback;
+  if (Array.isArray(fallback)) return Array.isArray(saved) ? saved : fallback;
+  if (isPlainObject(fallback)) {
+    if (!isPlainObject(saved)) return fallback;
+    if (Object.keys(fallback).length === 0) return saved;
+    return Object.fromEntries(
+      Object.keys(fallback).map((key) => [key, mergeValue(saved[key], fallback[key], `${path}.${key}`)])
+    );
+  }
+  return typeof saved === typeof fallback ? saved : fallback;
+}
+
+export function mergeSettings(persisted: unknown, current: StoreState): StoreState {
+  if (!isPlainObject(persisted)) return current;
+
+  const merged = { ...current };
+  PERSISTED_KEYS.forEach((key) => {
+    Object.assign(merged, { [key]: mergeValue(persisted[key], current[key], key) });
+  });
+  return merged;
+}
@@ -1,11 +1,28 @@
 /**
  * Global State Management with Zustand
- * Manages: Trade feed, Smart Money cache, WebSocket connection state
+ * Manages: Trade feed, Smart Money cache, watchlists, wallet discovery, WebSocket connection state,
+ * per-coin trade thresholds, live feed cues (desktop notifications / sounds), pinned wallets
+ * and the dashboard's sort / filter choices
+ * Settings (filters, thresholds, cues, dashboard view) persist to localStorage, see ./settings.ts
  */
 
 import { create } from 'zustand';
-import { subscribeWithSelector } from 'zustand/middleware';
-import type { UnifiedTradeLog, SmartWalletMap } from '@/types';
+import { createJSONStorage, persist, subscribeWithSelector } from 'zustand/middleware';
+import { DISCOVERY_LARGE_TRADE_USD, MAX_DISCOVERY_CANDIDATES } from '@/lib/discovery';
+import type { ThresholdOverrides } from '@/lib/thresholds';
+import { mergeSettings, migrateSettings, pickSettings, SETTINGS_STORAGE_KEY, SETTINGS_VERSION } from './settings';
+import type {
+  DiscoveryCandidate,
+  DiscoveryScore,
+  PnlMode,
+  SortDirection,
+  SortField,
+  UnifiedTradeLog,
+  SmartWalletMap,
+  SmartWalletTier,
+  TradeThresholds,
+  Watchlist,
+} from '@/types';
 
 // Connection states
 export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
@@ -16,15 +33,53 @@ export interface FilterOptions {
   showWhalesOnly: boolean;
   minTradeSize: number;
   selectedCoins: string[];
+  selectedTier: SmartWalletTier | null; // Registry tier of the trading wallet
+  selectedTag: string | null; // Registry tag of the trading wallet
+}
+
+// Dashboard wallet table sort / filter choices (see useSmartWallets)
+export interface DashboardView {
+  sortField: SortField | null;
+  sortDirection: SortDirection;
+  selectedToken: string | null;
+  sizeFilter: 'all' | '10k' | '50k' | '250k' | '1m';
+  pnlFilter: 'all' | '0' | '10k' | '50k' | '250k';
+  pnlMode: PnlMode;
+  tierFilter: SmartWalletTier | 'all';
+  tagFilter: string | null;
+}
+
+// Live feed trades that can trigger a desktop notification / sound (see useFeedCues)
+export type FeedCueType = 'golden' | 'whale' | 'pinned';
+
+export interface FeedCuePreferences {
+  desktop: boolean; // Browser notifications while the tab is in the background (opt-in)
+  sound: boolean; // Audio cue per trade type (opt-in)
+  muted: Record<FeedCueType, boolean>;
+}
+
+// One untracked address on one tape trade (recorded by useProcessor)
+export interface DiscoveryObservation {
+  address: string;
+  sizeUsd: number;
+  timestamp: number;
 }
 
 // Store state interface
-interface StoreState {
+export interface StoreState {
   // Smart Money Cache
-  smartMoneyMap: SmartWalletMap;
+  smartMoneyMap: SmartWalletMap; // registryMap scoped to the active watchlist
+  registryMap: SmartWalletMap; // Every tracked wallet
   smartMoneyCacheTimestamp: number | null;
   isLoadingSmartMoney: boolean;
 
+  // Watchlists (null = all tracked wallets)
+  watchlists: Watchlist[];
+  activeWatchlistId: string | null;
+
+  // Wallet Discovery (untracked addresses from the tape, keyed by lowercase address)
+  discoveryCandidates: Record<string, DiscoveryCandidate>;
+
   // Live Trade Feed
   trades: UnifiedTradeLog[];
   maxTrades: number;
@@ -38,6 +93,19 @@ interface StoreState {
   // Filters
   filters: FilterOptions;
 
+  // Dashboard
+  dashboardView: DashboardView;
+
+  // Trade Thresholds (lib/thresholds.ts)
+  thresholdOverrides: ThresholdOverrides; // Per-coin user settings, on top of the derived defaults
+  typicalTradeSizes: Record<string, number>; // Median trade size per coin on the tape (from useProcessor)
+  showAllTrades: boolean; // Skip the noise filter
+
+  // Feed Cues (persisted)
+  feedCues: FeedCuePreferences;
+  pinnedWallets: string[]; // Lowercase addresses whose trades always cue
+
+
   // Statistics
   stats: {
     totalTrades: number;
@@ -49,6 +117,12 @@ interface StoreState {
   // Actions
   setSmartMoneyMap: (map: SmartWalletMap) => void;
   setLoadingSmartMoney: (loading: boolean) => void;
+  setWatchlists: (watchlists: Watchlist[]) => void;
+  setActiveWatchlist: (id: string | null) => void;
+  recordDiscoveryTrades: (observations: DiscoveryObservation[]) => void;
+  setDiscoveryScores: (scores: DiscoveryScore[]) => void;
+  removeDiscoveryCandidates: (addresses: string[]) => void;
+  clearDiscovery: () => void;
   addTrade: (trade: UnifiedTradeLog) => void;
   addTrades: (trades: UnifiedTradeLog[]) => void;
   clearTrades: () => void;
@@ -57,7 +131,16 @@ interface StoreState {
   updateLastMessageTime: () => void;
   setFilters: (filters: Partial<FilterOptions>) => void;
   resetFilters: () => void;
+  setMaxTrades: (maxTrades: number) => void;
+  setDashboardView: (changes: Partial<DashboardView>) => void;
   incrementMessageCount: () => void;
+  setCoinThresholds: (coin: string, thresholds: Partial<TradeThresholds> | null) => void;
+  resetThresholds: () => void;
+  setTypicalTradeSizes: (sizes: Record<string, number>) => void;
+  setShowAllTrades: (showAll: boolean) => void;
+  setFeedCues: (preferences: Partial<Omit<FeedCuePreferences, 'muted'>>) => void;
+  toggleCueMuted: (type: FeedCueType) => void;
+  togglePinnedWallet: (address: string) => void;
 }
 
 // Default filter values
@@ -66,144 +149,349 @@ const defaultFilters: FilterOptions = {
   showWhalesOnly: false,
   minTradeSize: 0,
   selectedCoins: [],
+  selectedTier: null,
+  selectedTag: null,
 };
 
+export const defaultDashboardView: DashboardView = {
+  sortField: null,
+  sortDirection: 'desc',
+  selectedToken: null,
+  sizeFilter: 'all',
+  pnlFilter: 'all',
+  pnlMode: 'gross',
+  tierFilter: 'all',
+  tagFilter: null,
+};
+
+const defaultFeedCues: FeedCuePreferences = {
+  desktop: false,
+  sound: false,
+  muted: { golden: false, whale: false, pinned: false },
+};
+
+/**
+ * Restrict the registry to a watchlist's wallets (no watchlist = everything)
+ */
+function scopeSmartMoneyMap(map: SmartWalletMap, watchlist: Watchlist | undefined): SmartWalletMap {
+  if (!watchlist) return map;
+  const scoped: SmartWalletMap = {};
+  watchlist.addresses.forEach((address) => {
+    if (map[address]) scoped[address] = map[address];
+  });
+  return scoped;
+}
+
 // Create the store with selector subscription support
+// Hydration from localStorage is deferred to StoreHydration so server and first client render match
 export const useStore = create<StoreState>()(
-  subscribeWithSelector((set, get) => ({
-    // Initial state
-    smartMoneyMap: {},
-    smartMoneyCacheTimestamp: null,
-    isLoadingSmartMoney: false,
-
-    trades: [],
-    maxTrades: 100, // Keep last 100 trades in memory
-
-    connectionStatus: 'disconnected',
-    lastMessageTime: null,
-    messageCount: 0,
-    errorMessage: null,
-
-    filters: defaultFilters,
-
-    stats: {
-      totalTrades: 0,
-      smartTrades: 0,
-      whaleTrades: 0,
-      totalVolume: 0,
-    },
-
-    // Actions
-    setSmartMoneyMap: (map) => {
-      // Direct assignment - API now returns SmartWalletMap format
-      set({
-        smartMoneyMap: map,
-        smartMoneyCacheTimestamp: Date.now(),
-      });
-    },
-
-    setLoadingSmartMoney: (loading) => {
-      set({ isLoadingSmartMoney: loading });
-    },
-
-    addTrade: (trade) => {
-      const { trades, maxTrades, stats } = get();
-      
-      // Update statistics
-      const newStats = {
-        totalTrades: stats.totalTrades + 1,
-        smartTrades: stats.smartTrades + (trade.isSmart ? 1 : 0),
-        whaleTrades: stats.whaleTrades + (trade.isWhale ? 1 : 0),
-        totalVolume: stats.totalVolume + trade.sizeUsd,
-      };
-
-      // Add trade to front, maintain max limit
-      const newTrades = [trade, ...trades].slice(0, maxTrades);
-
-      set({
-        trades: newTrades,
-        stats: newStats,
-      });
-    },
-
-    addTrades: (newTrades) => {
-      const { trades, maxTrades, stats } = get();
-      
-      // Batch update statistics
-      let smartCount = 0;
-      let whaleCount = 0;
-      let volume = 0;
-
-      for (const trade of newTrades) {
-        if (trade.isSmart) smartCount++;
-        if (trade.isWhale) whaleCount++;
-        volume += trade.sizeUsd;
-      }
-
-      const newStats = {
-        totalTrades: stats.totalTrades + newTrades.length,
-        smartTrades: stats.smartTrades + smartCount,
-        whaleTrades: stats.whaleTrades + whaleCount,
-        totalVolume: stats.totalVolume + volume,
-      };
-
-      // Merge and dedupe by ID
-      const existingIds = new Set(trades.map(t => t.id));
-      const uniqueNewTrades = newTrades.filter(t => !existingIds.has(t.id));
-      const mergedTrades = [...uniqueNewTrades, ...trades].slice(0, maxTrades);
-
-      set({
-        trades: mergedTrades,
-        stats: newStats,
-      });
-    },
-
-    clearTrades: () => {
-      set({
-        trades: [],
-        stats: {
-          totalTrades: 0,
-          smartTrades: 0,
-          whaleTrades: 0,
-          totalVolume: 0,
-        },
-      });
-    },
-
-    setConnectionStatus: (status) => {
-      set({ connectionStatus: status });
-    },
-
-    setErrorMessage: (message) => {
-      set({ errorMessage: message });
-    },
-
-    updateLastMessageTime: () => {
-      set({ lastMessageTime: Date.now() });
-    },
-
-    incrementMessageCount: () => {
-      set((state) => ({ messageCount: state.messageCount + 1 }));
-    },
-
-    setFilters: (newFilters) => {
-      set((state) => ({
-        filters: { ...state.filters, ...newFilters },
-      }));
-    },
-
-    resetFilters: () => {
-      set({ filters: defaultFilters });
-    },
-  }))
+  persist(
+    subscribeWithSelector((set, get) => ({
+      // Initial state
+      smartMoneyMap: {},
+      registryMap: {},
+      smartMoneyCacheTimestamp: null,
+      isLoadingSmartMoney: false,
+
+      watchlists: [],
+      activeWatchlistId: null,
+
+      discoveryCandidates: {},
+
+      trades: [],
+      maxTrades: 100, // Keep last 100 trades in memory
+
+      connectionStatus: 'disconnected',
+      lastMessageTime: null,
+      messageCount: 0,
+      errorMessage: null,
+
+      filters: defaultFilters,
+
+      dashboardView: defaultDashboardView,
+
+      thresholdOverrides: {},
+      typicalTradeSizes: {},
+      showAllTrades: true, // Noise filter off until switched on in the settings panel
+
+      feedCues: defaultFeedCues,
+      pinnedWallets: [],
+
+      stats: {
+        totalTrades: 0,
+        smartTrades: 0,
+        whaleTrades: 0,
+        totalVolume: 0,
+      },
+
+      // Actions
+      setSmartMoneyMap: (map) => {
+        const { watchlists, activeWatchlistId } = get();
+        set({
+          registryMap: map,
+          smartMoneyMap: scopeSmartMoneyMap(map, watchlists.find((w) => w.id === activeWatchlistId)),
+          smartMoneyCacheTimestamp: Date.now(),
+        });
+      },
+
+      setWatchlists: (watchlists) => {
+        const { registryMap, activeWatchlistId } = get();
+        const active = watchlists.find((w) => w.id === activeWatchlistId);
+        set({
+          watchlists,
+          // Fall back to all wallets if the active list was deleted
+          activeWatchlistId: active ? activeWatchlistId : null,
+          smartMoneyMap: scopeSmartMoneyMap(registryMap, active),
+        });
+      },
+
+      setActiveWatchlist: (id) => {
+        const { registryMap, watchlists } = get();
+        const active = watchlists.find((w) => w.id === id);
+        set({
+          activeWatchlistId: active ? id : null,
+          smartMoneyMap: scopeSmartMoneyMap(registryMap, active),
+        });
+      },
+
+      setLoadingSmartMoney: (loading) => {
+        set({ isLoadingSmartMoney: loading });
+      },
+
+      recordDiscoveryTrades: (observations) => {
+        const candidates = { ...get().discoveryCandidates };
+
+        observations.forEach(({ address, sizeUsd, timestamp }) => {
+          const existing = candidates[address];
+          candidates[address] = {
+            ...existing,
+            address,
+            volumeUsd: (existing?.volumeUsd ?? 0) + sizeUsd,
+            trades: (existing?.trades ?? 0) + 1,
+            largeTrades: (existing?.largeTrades ?? 0) + (sizeUsd >= DISCOVERY_LARGE_TRADE_USD ? 1 : 0),
+            firstSeen: existing?.firstSeen ?? timestamp,
+            lastSeen: Math.max(existing?.lastSeen ?? 0, timestamp),
+          };
+        });
+
+        // Keep the accumulator bounded: drop the lowest-volume unscored addresses
+        const addresses = Object.keys(candidates);
+        if (addresses.length > MAX_DISCOVERY_CANDIDATES) {
+          addresses
+            .filter((address) => !candidates[address].score)
+            .sort((a, b) => candidates[a].volumeUsd - candidates[b].volumeUsd)
+            .slice(0, addresses.length - MAX_DISCOVERY_CANDIDATES)
+            .forEach((address) => delete candidates[address]);
+        }
+
+        set({ discoveryCandidates: candidates });
+      },
+
+      setDiscoveryScores: (scores) => {
+        const candidates = { ...get().discoveryCandidates };
+        scores.forEach((score) => {
+          if (candidates[score.address]) {
+            candidates[score.address] = { ...candidates[score.address], score };
+          }
+        });
+        set({ discoveryCandidates: candidates });
+      },
+
+      removeDiscoveryCandidates: (addresses) => {
+        const candidates = { ...get().discoveryCandidates };
+        addresses.forEach((address) => delete candidates[address]);
+        set({ discoveryCandidates: candidates });
+      },
+
+      clearDiscovery: () => {
+        set({ discoveryCandidates: {} });
+      },
+
+      addTrade: (trade) => {
+        const { trades, maxTrades, stats } = get();
+        
+        // Update statistics
+        const newStats = {
+          totalTrades: stats.totalTrades + 1,
+          smartTrades: stats.smartTrades + (trade.isSmart ? 1 : 0),
+          whaleTrades: stats.whaleTrades + (trade.isWhale ? 1 : 0),
+          totalVolume: stats.totalVolume + trade.sizeUsd,
+        };
+
+        // Add trade to front, maintain max limit
+        const newTrades = [trade, ...trades].slice(0, maxTrades);
+
+        set({
+          trades: newTrades,
+          stats: newStats,
+        });
+      },
+
+      addTrades: (newTrades) => {
+        const { trades, maxTrades, stats } = get();
+
+        // Dedupe by ID, against the feed and within the batch: a tracked wallet's fill
+        // arrives on both the trades and userFills channels
+        const seenIds = new Set(trades.map(t => t.id));
+        const uniqueNewTrades = newTrades.filter((t) => {
+          if (seenIds.has(t.id)) return false;
+          seenIds.add(t.id);
+          return true;
+        });
+        if (uniqueNewTrades.length === 0) return;
+
+        // Batch update statistics (surviving trades only)
+        let smartCount = 0;
+        let whaleCount = 0;
+        let volume = 0;
+
+        for (const trade of uniqueNewTrades) {
+          if (trade.isSmart) smartCount++;
+          if (trade.isWhale) whaleCount++;
+          volume += trade.sizeUsd;
+        }
+
+        const newStats = {
+          totalTrades: stats.totalTrades + uniqueNewTrades.length,
+          smartTrades: stats.smartTrades + smartCount,
+          whaleTrades: stats.whaleTrades + whaleCount,
+          totalVolume: stats.totalVolume + volume,
+        };
+
+        const mergedTrades = [...uniqueNewTrades, ...trades].slice(0, maxTrades);
+
+        set({
+          trades: mergedTrades,
+          stats: newStats,
+        });
+      },
+
+      clearTrades: () => {
+        set({
+          trades: [],
+          stats: {
+            totalTrades: 0,
+            smartTrades: 0,
+            whaleTrades: 0,
+            totalVolume: 0,
+          },
+        });
+      },
+
+      setConnectionStatus: (status) => {
+        set({ connectionStatus: status });
+      },
+
+      setErrorMessage: (message) => {
+        set({ errorMessage: message });
+      },
+
+      updateLastMessageTime: () => {
+        set({ lastMessageTime: Date.now() });
+      },
+
+      incrementMessageCount: () => {
+        set((state) => ({ messageCount: state.messageCount + 1 }));
+      },
+
+      setFilters: (newFilters) => {
+        set((state) => ({
+          filters: { ...state.filters, ...newFilters },
+        }));
+      },
+
+      resetFilters: () => {
+        set({ filters: defaultFilters });
+      },
+
+      setMaxTrades: (maxTrades) => {
+        set((state) => ({
+          maxTrades,
+          trades: state.trades.slice(0, maxTrades),
+        }));
+      },
+
+      setDashboardView: (changes) => {
+        set((state) => ({
+          dashboardView: { ...state.dashboardView, ...changes },
+        }));
+      },
+
+      setCoinThresholds: (coin, thresholds) => {
+        set((state) => {
+          const overrides = { ...state.thresholdOverrides };
+          // Unset fields fall back to the derived defaults
+          const defined = Object.fromEntries(
+            Object.entries(thresholds ?? {}).filter(([, value]) => value !== undefined)
+          ) as Partial<TradeThresholds>;
+
+          if (Object.keys(defined).length > 0) overrides[coin] = defined;
+          else delete overrides[coin];
+          return { thresholdOverrides: overrides };
+        });
+      },
+
+      resetThresholds: () => {
+        set({ thresholdOverrides: {} });
+      },
+
+      setTypicalTradeSizes: (sizes) => {
+        set((state) => ({
+          typicalTradeSizes: { ...state.typicalTradeSizes, ...sizes },
+        }));
+      },
+
+      setShowAllTrades: (showAll) => {
+        set({ showAllTrades: showAll });
+      },
+
+      setFeedCues: (preferences) => {
+        set((state) => ({
+          feedCues: { ...state.feedCues, ...preferences },
+        }));
+      },
+
+      toggleCueMuted: (type) => {
+        set((state) => ({
+          feedCues: {
+            ...state.feedCues,
+            muted: { ...state.feedCues.muted, [type]: !state.feedCues.muted[type] },
+          },
+        }));
+      },
+
+      togglePinnedWallet: (address) => {
+        const normalized = address.toLowerCase();
+        set((state) => ({
+          pinnedWallets: state.pinnedWallets.includes(normalized)
+            ? state.pinnedWallets.filter((pinned) => pinned !== normalized)
+            : [...state.pinnedWallets, normalized],
+        }));
+      },
+    })),
+    {
+      name: SETTINGS_STORAGE_KEY,
+      version: SETTINGS_VERSION,
+      storage: createJSONStorage(() => localStorage),
+      partialize: pickSettings,
+      migrate: migrateSettings,
+      merge: mergeSettings,
+      skipHydration: true,
+    }
+  )
 );
 
 // Selector hooks for specific state slices
 export const useSmartMoneyMap = () => useStore((state) => state.smartMoneyMap);
+export const useWatchlists = () => useStore((state) => state.watchlists);
+export const useActiveWatchlist = () =>
+  useStore((state) => state.watchlists.find((w) => w.id === state.activeWatchlistId) ?? null);
 export const useTrades = () => useStore((state) => state.trades);
 export const useConnectionStatus = () => useStore((state) => state.connectionStatus);
 export const useFilters = () => useStore((state) => state.filters);
 export const useStats = () => useStore((state) => state.stats);
+export const useFeedCues = () => useStore((state) => state.feedCues);
+export const usePinnedWallets = () => useStore((state) => state.pinnedWallets);
 
 // Filtered trades selector
 export const useFilteredTrades = () => {
@@ -224,6 +512,10 @@ export const useFilteredTrades = () => {
       if (filters.selectedCoins.length > 0 && !filters.selectedCoins.includes(trade.ticker)) {
         return false;
       }
+
+      // Registry tier / tag filters (untracked wallets have neither)
+      if (filters.selectedTier && trade.walletTier !== filters.selectedTier) return false;
+      if (filters.selectedTag && !trade.walletTags?.includes(filters.selectedTag)) return false;
       
       return true;
     });
@@ -29,17 +29,62 @@ export interface NansenSmartMoneyItem {
     tid: number;       // Trade ID
     users: [string, string]; // [Maker, Taker] addresses - CRITICAL for matching
   }
+
+  // A fill of a specific user -> channel: "userFills"
+  export interface HyperliquidUserFill {
+    coin: string;
+    px: string;
+    sz: string;
+    side: "A" | "B";
+    time: number;
+    startPosition: string;
+    dir: string;         // e.g., "Open Long", "Close Short"
+    closedPnl: string;
+    hash: string;
+    oid: number;
+    crossed: boolean;    // true = taker side of the trade
+    fee: string;
+    tid: number;
+    feeToken: string;
+  }
+
+  export interface HyperliquidUserFillsMessage {
+    isSnapshot?: boolean; // First message replays recent history
+    user: string;
+    fills: HyperliquidUserFill[];
+  }
+
+  // --- HYPERLIQUID INFO TYPES (REST /info) ---
+
+  // One entry of the perp universe -> type: "meta"
+  export interface HyperliquidAssetMeta {
+    name: string;         // e.g., "BTC", "HYPE"
+    szDecimals: number;
+    maxLeverage: number;
+    onlyIsolated?: boolean;
+    isDelisted?: boolean;
+  }
+
+  export interface HyperliquidMeta {
+    universe: HyperliquidAssetMeta[];
+  }
   
   // --- APP INTERNAL STATE (Frontend) ---
   
+  export type SmartWalletTier = "whale" | "smart" | "institution";
+
+  export interface SmartWalletEntry {
+    isSmartMoney: boolean;
+    labels: string[];     // First label is the display name
+    tier: SmartWalletTier;
+    tags?: string[];      // Free-form groupings (e.g. "hft", "fund", "insider")
+    notes?: string;
+  }
+
   // The optimized map we send to the client to avoid iterating arrays
   // Key = Wallet Address (lowercase), Value = Data
   export interface SmartWalletMap {
-    [address: string]: {
-      isSmartMoney: boolean;
-      labels: string[];
-      tier: "whale" | "smart" | "institution";
-    };
+    [address: string]: SmartWalletEntry;
   }
   
   // The normalized object used for the <TradeRow /> component
@@ -52,17 +97,28 @@ export interface NansenSmartMoneyItem {
     sizeUsd: number;   // px * sz
     walletAddress: string;
     walletLabel?: string; // "Nansen Smart Money" or "High Value Whale"
-    isWhale: boolean;     // Trade > $100k
+    walletTier?: SmartWalletTier; // Registry tier of a tracked wallet
+    walletTags?: string[];        // Registry tags of a tracked wallet
+    isWhale: boolean;     // Trade >= the coin's whale threshold
     isSmart: boolean;     // Found in Nansen Map
+    isGolden: boolean;    // Smart trade above the coin's golden-setup threshold
     txHash: string;
   }
 
+  // Live feed size thresholds for one coin (lib/thresholds.ts)
+  export interface TradeThresholds {
+    whaleUsd: number;     // Trades at least this size are whales
+    goldenUsd: number;    // Smart trades above this size are golden setups
+    noiseUsd: number;     // Untracked, non-whale trades below this are dropped
+  }
+
   // --- WALLET STATS TYPES (For Dashboard) ---
   
 export interface TokenPosition {
     coin: string;
     sizeUsd: number;
     side: 'Long' | 'Short';
+    size?: number;        // Absolute coin size (older snapshots lack it)
     entryPrice?: number;
     currentPrice?: number;
     pnl?: number;
@@ -70,19 +126,51 @@ export interface TokenPosition {
   }
 
   export interface ActiveTwap {
+    id: string;              // Hyperliquid twapId
     coin: string;
-    sizeUsd: number;
+    sizeUsd: number;         // Total order size in USD
     side: 'Long' | 'Short';
+    filledPercent: number;   // Percentage (0-100) of size executed so far
     minutesRemaining: number;
+    totalMinutes: number;
+    reduceOnly: boolean;
   }
   
+  // One point of a USD time series
+  export interface SeriesPoint {
+    time: number;  // Epoch millis
+    value: number; // USD
+  }
+
+  // Metrics over closed round-trip trades (open -> flat, or flip)
+  export interface TradeStats {
+    closedTrades: number;
+    winRate: number;             // Percentage (0-100)
+    avgWin: number;              // USD, mean PnL of winning trades
+    avgLoss: number;             // USD, mean PnL of losing trades (negative)
+    profitFactor: number | null; // Gross wins / gross losses, null when no losses
+    avgHoldingMinutes: number;
+  }
+
   export interface WalletStats {
     address: string;
     pnl1d: number;
     pnl7d: number;
     pnl30d: number;
-    winRate7d: number;  // Percentage (0-100)
-    winRate30d: number; // Percentage (0-100)
+    // Gross PnL above is realized closedPnl; net = gross - fees + funding
+    fees1d: number;     // USD paid (negative = net rebate)
+    fees7d: number;
+    fees30d: number;
+    funding1d: number;  // USD received (negative = paid)
+    funding7d: number;
+    funding30d: number;
+    netPnl1d: number;
+    netPnl7d: number;
+    netPnl30d: number;
+    winRate7d: number;  // Percentage (0-100) of closed trades
+    winRate30d: number; // Percentage (0-100) of closed trades
+    tradeStats7d: TradeStats;
+    tradeStats30d: TradeStats;
     volume7d: number;
     volume30d: number;
     twap: number;       // Time-Weighted Average Price
@@ -90,9 +178,425 @@ export interface TokenPosition {
     shortPosition: number; // USD value
     positions: TokenPosition[]; // Current positions per token
     activeTwaps: ActiveTwap[]; // Active TWAP orders
+    pnlHistory: SeriesPoint[]; // Daily cumulative realized PnL over the fill history window
+    historyTruncated: boolean; // Fill history incomplete -> PnL/volume/win rate are partial
     error?: boolean;
   }
 
+  // --- SNAPSHOT TYPES (/api/snapshots) ---
+
+  // Per-wallet fields persisted on each stats refresh
+  export type WalletSnapshot = Pick<
+    WalletStats,
+    | 'address'
+    | 'pnl1d'
+    | 'pnl7d'
+    | 'pnl30d'
+    | 'netPnl7d'
+    | 'netPnl30d'
+    | 'winRate7d'
+    | 'winRate30d'
+    | 'volume7d'
+    | 'longPosition'
+    | 'shortPosition'
+    | 'positions'
+    | 'error'
+  >;
+
+  export interface StatsSnapshot {
+    timestamp: number;
+    wallets: WalletSnapshot[];
+  }
+
+  export interface WalletHistoryPoint extends WalletSnapshot {
+    timestamp: number;
+  }
+
+  // Tracked-wallet exposure to one coin at a snapshot
+  export interface CoinHistoryPoint {
+    timestamp: number;
+    coin: string;
+    longUsd: number;
+    shortUsd: number;
+    netUsd: number;      // longUsd - shortUsd
+    longWallets: number;
+    shortWallets: number;
+  }
+
+  // All tracked wallets combined at a snapshot
+  export interface SnapshotTotalsPoint {
+    timestamp: number;
+    totalLong: number;
+    totalShort: number;
+    walletCount: number;
+  }
+
+  export interface SnapshotHistoryResponse<T> {
+    success: boolean;
+    data: T[];
+    metadata?: {
+      from: number;
+      to: number;
+      count: number;
+      source: 'kv' | 'file' | 'memory';
+    };
+    error?: string;
+  }
+
+  // --- POSITION CHANGE TYPES (/api/position-changes) ---
+
+  export type PositionChangeType = 'opened' | 'increased' | 'reduced' | 'closed' | 'flipped';
+
+  // One wallet's position change between two consecutive snapshots
+  export interface PositionChange {
+    id: string;                // `${timestamp}-${address}-${coin}`
+    timestamp: number;         // Snapshot the change was observed in
+    previousTimestamp: number; // Snapshot it was compared against
+    address: string;
+    coin: string;
+    type: PositionChangeType;
+    side: 'Long' | 'Short';    // Side after the change (side that was closed for 'closed')
+    sizeUsd: number;           // Position value after the change (0 for 'closed')
+    previousSizeUsd: number;   // Position value before the change (0 for 'opened')
+    changePercent: number;     // Size change vs. previous, in coin terms when available
+    entryPrice?: number;
+  }
+
+  export interface PositionChangesResponse {
+    success: boolean;
+    data: PositionChange[];    // Newest first
+    metadata?: {
+      from: number;
+      to: number;
+      count: number;
+      source: 'kv' | 'file' | 'memory';
+    };
+    error?: string;
+  }
+
+  // --- WALLET DETAIL TYPES (/api/wallets/[address]) ---
+
+  export interface WalletPositionDetail extends TokenPosition {
+    leverage: number;
+    leverageType: 'cross' | 'isolated';
+    marginUsed: number;           // USD
+    returnOnEquity: number;       // Fraction of margin (0.1 = 10%)
+    fundingPaidSinceOpen: number; // USD paid (negative = received)
+  }
+
+  export interface WalletFill {
+    coin: string;
+    side: 'Buy' | 'Sell';
+    direction: string;  // e.g. "Open Long", "Close Short"
+    price: number;
+    size: number;
+    sizeUsd: number;
+    closedPnl: number;
+    fee: number;
+    time: number;
+    hash: string;
+    tid: number;
+  }
+
+  // Round-trip trade: position opened from flat and closed (or flipped)
+  export interface WalletClosedTrade {
+    coin: string;
+    side: 'Long' | 'Short';
+    openTime: number;
+    closeTime: number;
+    pnl: number;        // Realized USD over the trade
+  }
+
+  export interface WalletOpenOrder {
+    oid: number;
+    coin: string;
+    side: 'Buy' | 'Sell';
+    orderType: string;  // e.g. "Limit", "Stop Market"
+    price: number;
+    size: number;       // Remaining size
+    sizeUsd: number;
+    reduceOnly: boolean;
+    triggerPrice: number | null;
+    timestamp: number;
+  }
+
+  export interface WalletFundingPayment {
+    time: number;
+    coin: string;
+    usdc: number;         // USD received (negative = paid)
+    fundingRate: number;
+    positionSize: number; // Signed coin size at payment time
+  }
+
+  export interface WalletDetail {
+    stats: WalletStats;
+    tracked: boolean;     // Address is in the Smart Money list
+    accountValue: number;
+    totalMarginUsed: number;
+    withdrawable: number;
+    accountValueHistory: SeriesPoint[]; // Past month, from portfolio history
+    positions: WalletPositionDetail[];
+    recentFills: WalletFill[];         // Newest first
+    closedTrades: WalletClosedTrade[]; // Newest first
+    openOrders: WalletOpenOrder[];
+    funding: WalletFundingPayment[];   // Newest first
+  }
+
+  export interface WalletDetailResponse {
+    success: boolean;
+    data: WalletDetail | null;
+    error?: string;
+  }
+
+  // --- WALLET REGISTRY TYPES (/api/smart-money, /api/registry) ---
+
+  export interface RegistryMetadata {
+    lastUpdated: number;  // Also the registry version: changes on every write
+    walletCount: number;
+    source: 'kv' | 'memory' | 'static';
+  }
+
+  // Body entry for POST/PATCH /api/registry; omitted fields keep their current value
+  export interface RegistryWalletInput {
+    address: string;
+    labels?: string[];
+    tier?: SmartWalletTier;
+    tags?: string[];
+    notes?: string;
+  }
+
+  export interface RegistryResponse {
+    success: boolean;
+    data: SmartWalletMap;
+    metadata?: RegistryMetadata;
+    error?: string;
+  }
+
+  // --- WATCHLIST TYPES (/api/watchlists) ---
+
+  // Named subset of the registry that the dashboard, /twap and the live feed can scope to
+  export interface Watchlist {
+    id: string;
+    name: string;
+    addresses: string[]; // Lowercase
+    createdAt: number;
+    updatedAt: number;
+  }
+
+  export interface WatchlistsResponse {
+    success: boolean;
+    data: Watchlist[];
+    error?: string;
+  }
+
+  // --- LEADERBOARD SEEDING TYPES (/api/registry/leaderboard) ---
+
+  // Minimums a leaderboard row must meet to be proposed
+  export interface LeaderboardThresholds {
+    minAccountValue: number; // USD
+    minPnl30d: number;       // USD
+    minRoi30d: number;       // Percentage (e.g. 10 = 10%)
+    minVolume30d: number;    // USD
+    limit: number;           // Max rows returned, best 30D PnL first
+  }
+
+  export interface LeaderboardEntry {
+    address: string;
+    displayName: string | null;
+    accountValue: number;
+    pnl30d: number;
+    roi30d: number;          // Percentage
+    volume30d: number;
+    pnlAllTime: number;
+  }
+
+  export interface LeaderboardCandidate extends LeaderboardEntry {
+    tracked: boolean;        // Already in the registry
+  }
+
+  export interface LeaderboardResponse {
+    success: boolean;
+    data: {
+      candidates: LeaderboardCandidate[];
+      adds: string[];        // Proposed (or, when applied, added) registry additions
+    } | null;
+    applied: boolean;
+    metadata?: {
+      totalRows: number;     // Rows on the leaderboard before filtering
+      fetchedAt: number;
+      registry?: RegistryMetadata; // Registry after the write (applied only)
+    };
+    error?: string;
+  }
+
+  // --- WALLET DISCOVERY TYPES (/api/discovery/score) ---
+
+  // Untracked address seen on the live tape, accumulated client-side
+  export interface DiscoveryCandidate {
+    address: string;
+    volumeUsd: number;   // Tape volume while watching (maker or taker side)
+    trades: number;
+    largeTrades: number; // Trades >= DISCOVERY_LARGE_TRADE_USD
+    firstSeen: number;
+    lastSeen: number;
+    score?: DiscoveryScore;
+  }
+
+  // Fill-history metrics (same as WalletStats) and the resulting rank score
+  export interface DiscoveryScore {
+    address: string;
+    score: number;       // 0-100, see lib/discovery.ts
+    pnl30d: number;
+    netPnl30d: number;
+    winRate30d: number;
+    closedTrades30d: number;
+    volume30d: number;
+    openPositionUsd: number;
+    scoredAt: number;
+    error?: boolean;
+  }
+
+  export interface DiscoveryScoreResponse {
+    success: boolean;
+    data: DiscoveryScore[];
+    error?: string;
+  }
+
+  // --- ALERT TYPES (/api/alerts) ---
+
+  // What a rule is evaluated against:
+  //   trade     tracked-wallet / whale trades forwarded from the live tape (UnifiedTradeLog)
+  //   position  position changes between stats snapshots (PositionChange)
+  //   wallet    each tracked wallet on every stats refresh (WalletStats)
+  //   coin      tracked-wallet exposure per coin on every stats refresh
+  export type AlertSource = 'trade' | 'position' | 'wallet' | 'coin';
+
+  // Where a rule's alerts are delivered (lib/notifications.ts); secrets come from env
+  export type AlertChannel =
+    | { type: 'webhook'; url: string }          // JSON POST, HMAC-signed with ALERT_WEBHOOK_SECRET
+    | { type: 'telegram'; chatId: string }      // Bot API sendMessage via TELEGRAM_BOT_TOKEN
+    | { type: 'discord'; webhookUrl: string }   // Discord webhook URL
+    | { type: 'email'; to: string };            // SMTP_* settings
+
+  export type AlertChannelType = AlertChannel['type'];
+
+  export interface AlertRule {
+    id: string;
+    name: string;
+    source: AlertSource;
+    condition: string;       // Expression over the source's fields (lib/alert-dsl.ts)
+    dedupeMinutes: number;   // Same rule + subject fires at most once per window
+    enabled: boolean;
+    channels: AlertChannel[];
+    createdAt: number;
+    updatedAt: number;
+  }
+
+  // One rule firing
+  export interface AlertEvent {
+    id: string;
+    ruleId: string;
+    ruleName: string;
+    source: AlertSource;
+    subject: string;         // Dedupe key within the rule, e.g. "0xabc...:BTC" or "BTC"
+    message: string;
+    timestamp: number;
+    address?: string;
+    coin?: string;
+  }
+
+  export interface AlertRulesResponse {
+    success: boolean;
+    data: AlertRule[];
+    error?: string;
+  }
+
+  export interface AlertHistoryResponse {
+    success: boolean;
+    data: AlertEvent[];      // Newest first
+    metadata?: {
+      count: number;
+      source: 'kv' | 'memory';
+    };
+    error?: string;
+  }
+
+  // One attempt at sending an alert through one channel
+  export interface AlertDelivery {
+    id: string;
+    alertId: string;
+    ruleId: string;
+    ruleName: string;
+    channel: AlertChannelType;
+    target: string;          // Redacted destination, e.g. "discord.com/api/webhooks/123/…"
+    status: 'delivered' | 'retrying' | 'failed'; // retrying = this attempt failed, another follows
+    attempt: number;         // 1-based
+    statusCode?: number;     // HTTP / SMTP status
+    error?: string;
+    timestamp: number;       // When the attempt finished
+  }
+
+  export interface AlertDeliveriesResponse {
+    success: boolean;
+    data: AlertDelivery[];   // Newest first
+    metadata?: {
+      count: number;
+      source: 'kv' | 'memory';
+    };
+    error?: string;
+  }
+
+  // POST /api/alerts/trades
+  export interface AlertIngestResponse {
+    success: boolean;
+    data: AlertEvent[];      // Alerts fired by the batch
+    error?: string;
+  }
+
+  // --- REGISTRY IMPORT / EXPORT TYPES (/api/registry/import, /api/registry/export) ---
+
+  export type RegistryImportFormat = 'csv' | 'json' | 'text';
+  // merge: add / update only; replace: also remove wallets missing from the import
+  export type RegistryImportMode = 'merge' | 'replace';
+
+  // A rejected import row
+  export interface RegistryImportIssue {
+    line: number;   // 1-based line (CSV / text) or item index (JSON)
+    value: string;
+    reason: string;
+  }
+
+  export interface RegistryImportPreview {
+    format: RegistryImportFormat;
+    mode: RegistryImportMode;
+    adds: string[];      // Addresses not yet tracked
+    updates: string[];   // Tracked addresses whose labels / tier / tags / notes change
+    removes: string[];   // Tracked addresses dropped by a replace import
+    unchanged: number;
+    duplicates: number;  // Repeated addresses in the import (last one wins)
+    invalid: RegistryImportIssue[];
+  }
+
+  export interface RegistryImportResponse {
+    success: boolean;
+    data: RegistryImportPreview | null;
+    applied: boolean;
+    metadata?: RegistryMetadata; // Registry after the write (applied imports only)
+    error?: string;
+  }
+
+  // One wallet in a JSON export: registry entry plus its latest stats snapshot
+  export interface RegistryExportWallet extends Omit<SmartWalletEntry, 'isSmartMoney'> {
+    address: string;
+    stats: WalletSnapshot | null;
+  }
+
+  export interface RegistryExport {
+    exportedAt: number;
+    statsTimestamp: number | null; // Snapshot the stats come from (null = none stored yet)
+    wallets: RegistryExportWallet[];
+  }
+
   export interface WalletStatsResponse {
     success: boolean;
     data: WalletStats[];
@@ -122,4 +626,7 @@ export interface TokenPosition {
     | 'currentPrice'
     | 'positionPnl'
     | 'liquidationPrice';
-  export type SortDirection = 'asc' | 'desc';
\ No newline at end of file
+  export type SortDirection = 'asc' | 'desc';
+
+  // Which PnL the dashboard columns show: realized only, or after fees and funding
+  export type PnlMode = 'gross' | 'net';
\ No newline at end of file